@@ -6,6 +6,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { NotificationBell } from "@/components/notification-bell";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import { PrivateRoute } from "@/components/PrivateRoute";
 import { Button } from "@/components/ui/button";
@@ -14,9 +15,11 @@ import Welcome from "@/pages/welcome";
 import Login from "@/pages/login";
 import Dashboard from "@/pages/dashboard";
 import Books from "@/pages/books";
+import BookImport from "@/pages/book-import";
 import Loans from "@/pages/loans";
 import Users from "@/pages/users";
 import Fines from "@/pages/fines";
+import FineReceiptPage from "@/pages/fine-receipt";
 import Reports from "@/pages/reports";
 import StudentDashboard from "@/pages/student-dashboard";
 import StudentLoans from "@/pages/student-loans";
@@ -29,6 +32,13 @@ import ReadingHistory from "@/pages/reading-history";
 import Repository from "@/pages/repository";
 import Authors from "@/pages/authors";
 import Categories from "@/pages/categories";
+import LoanPolicies from "@/pages/loan-policies";
+import EmailTemplates from "@/pages/email-templates";
+import EmailLog from "@/pages/email-log";
+import Jobs from "@/pages/jobs";
+import AuditLog from "@/pages/audit-log";
+import AcademicCalendar from "@/pages/calendar";
+import Circulation from "@/pages/circulation";
 import NotFound from "@/pages/not-found";
 import { AIAssistant } from "@/components/AIAssistant";
 
@@ -49,6 +59,7 @@ function AuthenticatedLayout({ children }: { children: React.ReactNode }) {
           <header className="flex items-center justify-between px-3 md:px-6 py-2 md:py-3 border-b bg-background sticky top-0 z-10 shrink-0">
             <SidebarTrigger data-testid="button-sidebar-toggle" />
             <div className="flex items-center gap-1 md:gap-2">
+              <NotificationBell />
               <ThemeToggle />
               <Button variant="outline" size="sm" onClick={logout} data-testid="button-logout" className="h-8 md:h-9">
                 <LogOut className="h-4 w-4 md:mr-2" />
@@ -133,6 +144,13 @@ function Router() {
           </AuthenticatedLayout>
         </PrivateRoute>
       </Route>
+      <Route path="/books/import">
+        <PrivateRoute requiredRole="admin">
+          <AuthenticatedLayout>
+            <BookImport />
+          </AuthenticatedLayout>
+        </PrivateRoute>
+      </Route>
       <Route path="/loans">
         <PrivateRoute requiredRole="admin">
           <AuthenticatedLayout>
@@ -140,6 +158,13 @@ function Router() {
           </AuthenticatedLayout>
         </PrivateRoute>
       </Route>
+      <Route path="/circulation">
+        <PrivateRoute requiredRole="admin">
+          <AuthenticatedLayout>
+            <Circulation />
+          </AuthenticatedLayout>
+        </PrivateRoute>
+      </Route>
       <Route path="/users">
         <PrivateRoute requiredRole="admin">
           <AuthenticatedLayout>
@@ -154,6 +179,11 @@ function Router() {
           </AuthenticatedLayout>
         </PrivateRoute>
       </Route>
+      <Route path="/receipts/:number">
+        <PrivateRoute>
+          <FineReceiptPage />
+        </PrivateRoute>
+      </Route>
       <Route path="/reports">
         <PrivateRoute requiredRole="admin">
           <AuthenticatedLayout>
@@ -175,6 +205,48 @@ function Router() {
           </AuthenticatedLayout>
         </PrivateRoute>
       </Route>
+      <Route path="/loan-policies">
+        <PrivateRoute requiredRole="admin">
+          <AuthenticatedLayout>
+            <LoanPolicies />
+          </AuthenticatedLayout>
+        </PrivateRoute>
+      </Route>
+      <Route path="/calendar">
+        <PrivateRoute requiredRole="admin">
+          <AuthenticatedLayout>
+            <AcademicCalendar />
+          </AuthenticatedLayout>
+        </PrivateRoute>
+      </Route>
+      <Route path="/email-templates">
+        <PrivateRoute requiredRole="admin">
+          <AuthenticatedLayout>
+            <EmailTemplates />
+          </AuthenticatedLayout>
+        </PrivateRoute>
+      </Route>
+      <Route path="/email-log">
+        <PrivateRoute requiredRole="admin">
+          <AuthenticatedLayout>
+            <EmailLog />
+          </AuthenticatedLayout>
+        </PrivateRoute>
+      </Route>
+      <Route path="/jobs">
+        <PrivateRoute requiredRole="admin">
+          <AuthenticatedLayout>
+            <Jobs />
+          </AuthenticatedLayout>
+        </PrivateRoute>
+      </Route>
+      <Route path="/audit-log">
+        <PrivateRoute requiredRole="admin">
+          <AuthenticatedLayout>
+            <AuditLog />
+          </AuthenticatedLayout>
+        </PrivateRoute>
+      </Route>
 
       <Route path="/repository">
         <PrivateRoute>
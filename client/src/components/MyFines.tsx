@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { MessageSquareWarning, Loader2 } from "lucide-react";
+
+interface PatronFine {
+    id: string;
+    loanId: string;
+    amount: string;
+    balance: number;
+    daysOverdue: number;
+    status: "pending" | "paid" | "disputed" | "waived" | "partially_waived";
+    createdAt: string;
+}
+
+interface PatronFineDispute {
+    id: string;
+    fineId: string;
+    reason: string;
+    status: "pending" | "approved" | "rejected";
+    waivedAmount: string | null;
+    notes: string | null;
+    createdAt: string;
+}
+
+export const fineStatusConfig: Record<PatronFine["status"], { text: string; color: string }> = {
+    pending: { text: "Pendente", color: "bg-chart-3 text-white" },
+    paid: { text: "Pago", color: "bg-chart-2 text-white" },
+    disputed: { text: "Contestada", color: "bg-chart-4 text-white" },
+    waived: { text: "Perdoada", color: "bg-chart-1 text-white" },
+    partially_waived: { text: "Parcialmente perdoada", color: "bg-chart-5 text-white" },
+};
+
+const disputeStatusText: Record<PatronFineDispute["status"], string> = {
+    pending: "Em análise",
+    approved: "Aceite",
+    rejected: "Recusada",
+};
+
+interface MyFinesProps {
+    userId: string;
+}
+
+/**
+ * The patron's fines with their outstanding balance, and a way to contest
+ * one (library closed, illness, lost-book dispute...).
+ */
+export function MyFines({ userId }: MyFinesProps) {
+    const { toast } = useToast();
+    const [disputedFine, setDisputedFine] = useState<PatronFine | null>(null);
+    const [reason, setReason] = useState("");
+
+    const { data: fines } = useQuery<PatronFine[]>({
+        queryKey: ["/api/fines/user", userId],
+    });
+
+    const { data: disputes } = useQuery<PatronFineDispute[]>({
+        queryKey: ["/api/fine-disputes", { userId }],
+    });
+
+    const disputeMutation = useMutation({
+        mutationFn: async () => {
+            const res = await apiRequest("POST", `/api/fines/${disputedFine!.id}/disputes`, { reason });
+            return res.json();
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ["/api/fines/user", userId] });
+            queryClient.invalidateQueries({ queryKey: ["/api/fine-disputes"] });
+            setDisputedFine(null);
+            setReason("");
+            toast({ title: "Contestação enviada", description: "A biblioteca irá analisar o seu pedido." });
+        },
+        onError: (error: any) => {
+            toast({ title: "Erro ao contestar multa", description: error.message, variant: "destructive" });
+        },
+    });
+
+    if (!fines || fines.length === 0) {
+        return null;
+    }
+
+    const latestDispute = (fineId: string) =>
+        (disputes || []).filter(d => d.fineId === fineId).pop();
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>As Minhas Multas</CardTitle>
+                <CardDescription>Se considera uma multa injusta, pode contestá-la com uma justificação.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {fines.map((fine) => {
+                    const dispute = latestDispute(fine.id);
+                    return (
+                        <div key={fine.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 border rounded-md p-3">
+                            <div className="space-y-1">
+                                <div className="flex items-center gap-2">
+                                    <span className="font-semibold">{fine.balance.toLocaleString()} Kz em dívida</span>
+                                    <Badge className={fineStatusConfig[fine.status].color}>
+                                        {fineStatusConfig[fine.status].text}
+                                    </Badge>
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                    {fine.daysOverdue} dia(s) de atraso · total cobrado {parseFloat(fine.amount).toLocaleString()} Kz
+                                </p>
+                                {dispute && (
+                                    <p className="text-xs text-muted-foreground">
+                                        Contestação: {disputeStatusText[dispute.status]}
+                                        {dispute.waivedAmount && ` · ${parseFloat(dispute.waivedAmount).toLocaleString()} Kz perdoados`}
+                                        {dispute.notes && ` · ${dispute.notes}`}
+                                    </p>
+                                )}
+                            </div>
+                            {fine.balance > 0 && fine.status !== "disputed" && (
+                                <Button size="sm" variant="outline" onClick={() => setDisputedFine(fine)}>
+                                    <MessageSquareWarning className="h-4 w-4 mr-2" />
+                                    Contestar
+                                </Button>
+                            )}
+                        </div>
+                    );
+                })}
+            </CardContent>
+
+            <Dialog open={!!disputedFine} onOpenChange={(open) => !open && setDisputedFine(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Contestar Multa</DialogTitle>
+                        <DialogDescription>
+                            Saldo em dívida: {disputedFine?.balance.toLocaleString()} Kz. Explique porque a multa não deve ser cobrada.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <Textarea
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        placeholder="Ex.: a biblioteca estava fechada no dia da devolução"
+                        rows={4}
+                    />
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setDisputedFine(null)}>Cancelar</Button>
+                        <Button onClick={() => disputeMutation.mutate()} disabled={!reason.trim() || disputeMutation.isPending}>
+                            {disputeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            Enviar
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
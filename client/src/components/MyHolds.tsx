@@ -0,0 +1,122 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Clock, X, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { pt } from "date-fns/locale";
+
+export type HoldStatus = "requested" | "approved" | "waiting" | "ready_for_pickup" | "fulfilled" | "expired" | "cancelled";
+
+export interface PatronHold {
+    id: string;
+    userId: string;
+    bookId: string;
+    status: HoldStatus;
+    requestDate: string;
+    expirationDate: string | null;
+    notes: string | null;
+    bookTitle: string;
+    bookAuthor: string;
+    copyBarcode: string | null;
+}
+
+export const holdStatusConfig: Record<HoldStatus, { text: string; color: string }> = {
+    requested: { text: "Aguardando aprovação", color: "bg-yellow-50 text-yellow-700 border-yellow-200" },
+    approved: { text: "Aprovada, aguarda exemplar", color: "bg-blue-50 text-blue-700 border-blue-200" },
+    waiting: { text: "Em lista de espera", color: "bg-amber-50 text-amber-700 border-amber-200" },
+    ready_for_pickup: { text: "Pronta para levantamento", color: "bg-green-50 text-green-700 border-green-200" },
+    fulfilled: { text: "Levantada", color: "bg-muted text-muted-foreground" },
+    expired: { text: "Expirada", color: "bg-destructive/5 text-destructive border-destructive/20" },
+    cancelled: { text: "Cancelada", color: "bg-muted text-muted-foreground" },
+};
+
+interface MyHoldsProps {
+    userId: string;
+}
+
+/**
+ * The patron's open holds: requests awaiting approval, places on the waiting
+ * list and copies set aside for pickup, each of which can be cancelled.
+ */
+export function MyHolds({ userId }: MyHoldsProps) {
+    const { toast } = useToast();
+
+    const { data: holds } = useQuery<PatronHold[]>({
+        queryKey: ["/api/holds", { userId, status: "open" }],
+    });
+
+    const cancelMutation = useMutation({
+        mutationFn: async (holdId: string) => {
+            await apiRequest("POST", `/api/holds/${holdId}/cancel`);
+        },
+        onSuccess: () => {
+            toast({
+                title: "Reserva cancelada",
+                description: "A reserva foi removida.",
+            });
+            queryClient.invalidateQueries({ queryKey: ["/api/holds"] });
+            queryClient.invalidateQueries({ queryKey: ["/api/books"] });
+        },
+        onError: (error: any) => {
+            toast({
+                title: "Erro ao cancelar",
+                description: error.message,
+                variant: "destructive",
+            });
+        },
+    });
+
+    if (!holds || holds.length === 0) return null;
+
+    return (
+        <div className="mt-8">
+            <div className="flex items-center gap-2 mb-4">
+                <Clock className="h-5 w-5 text-muted-foreground" />
+                <h2 className="text-lg font-semibold">Reservas e Solicitações</h2>
+            </div>
+            <div className="space-y-4">
+                {holds.map((hold) => (
+                    <Card key={hold.id} data-testid={`card-hold-${hold.id}`}>
+                        <CardContent className="flex items-center justify-between py-4 gap-4">
+                            <div>
+                                <p className="font-medium">{hold.bookTitle}</p>
+                                <p className="text-sm text-muted-foreground">
+                                    Pedido em {format(new Date(hold.requestDate), "dd/MM/yyyy", { locale: pt })}
+                                </p>
+                                {hold.status === "ready_for_pickup" && hold.expirationDate && (
+                                    <p className="text-sm text-green-700 dark:text-green-400">
+                                        Levante {hold.copyBarcode ? `o exemplar ${hold.copyBarcode}` : "o livro"} até{" "}
+                                        {format(new Date(hold.expirationDate), "dd/MM/yyyy HH:mm", { locale: pt })}
+                                    </p>
+                                )}
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <Badge variant="outline" className={holdStatusConfig[hold.status].color}>
+                                    {holdStatusConfig[hold.status].text}
+                                </Badge>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="text-destructive hover:text-destructive hover:bg-destructive/10 h-8 w-8 p-0"
+                                    onClick={() => cancelMutation.mutate(hold.id)}
+                                    disabled={cancelMutation.isPending}
+                                    title="Cancelar reserva"
+                                    data-testid={`button-cancel-hold-${hold.id}`}
+                                >
+                                    {cancelMutation.isPending && cancelMutation.variables === hold.id ? (
+                                        <Loader2 className="h-4 w-4 animate-spin" />
+                                    ) : (
+                                        <X className="h-4 w-4" />
+                                    )}
+                                </Button>
+                            </div>
+                        </CardContent>
+                    </Card>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -1,4 +1,7 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import {
     Dialog,
     DialogContent,
@@ -8,10 +11,19 @@ import {
 } from "@/components/ui/dialog";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { format } from "date-fns";
 import { pt } from "date-fns/locale";
-import { BookOpen, Clock, Trophy, History, Loader2 } from "lucide-react";
+import { BookOpen, Clock, Trophy, History, Loader2, Ban } from "lucide-react";
 import {
     Table,
     TableBody,
@@ -21,6 +33,146 @@ import {
     TableRow,
 } from "@/components/ui/table";
 
+interface UserBlock {
+    id: string;
+    reason: "fines" | "lost_book" | "manual" | "disciplinary";
+    notes: string | null;
+    startDate: string;
+    endDate: string | null;
+    isActive: boolean;
+    createdBy: string | null;
+    createdByName: string | null;
+    liftedByName: string | null;
+}
+
+const blockReasonLabels: Record<UserBlock["reason"], string> = {
+    fines: "Multas em dívida",
+    lost_book: "Livro perdido",
+    manual: "Bloqueio manual",
+    disciplinary: "Medida disciplinar",
+};
+
+// Fine blocks follow the balance; the others can be placed from here
+const manualBlockReasons: UserBlock["reason"][] = ["manual", "disciplinary", "lost_book"];
+
+/**
+ * Borrowing blocks of the user, current and past, with a form to place a
+ * manual or disciplinary block and a way to lift one.
+ */
+function UserBlocksSection({ userId }: { userId: string }) {
+    const { toast } = useToast();
+    const [reason, setReason] = useState<UserBlock["reason"]>("manual");
+    const [notes, setNotes] = useState("");
+    const [endDate, setEndDate] = useState("");
+
+    const { data: blocks } = useQuery<UserBlock[]>({
+        queryKey: ["/api/users", userId, "blocks"],
+    });
+
+    const onSuccess = (title: string) => {
+        queryClient.invalidateQueries({ queryKey: ["/api/users", userId, "blocks"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+        toast({ title });
+    };
+
+    const onError = (error: any) => {
+        toast({ title: "Erro", description: error.message, variant: "destructive" });
+    };
+
+    const blockMutation = useMutation({
+        mutationFn: async () => {
+            const res = await apiRequest("POST", `/api/users/${userId}/blocks`, {
+                reason,
+                notes: notes.trim() || null,
+                endDate: endDate || null,
+            });
+            return res.json();
+        },
+        onSuccess: () => {
+            setNotes("");
+            setEndDate("");
+            onSuccess("Utilizador bloqueado");
+        },
+        onError,
+    });
+
+    const liftMutation = useMutation({
+        mutationFn: async (blockId: string) => {
+            const res = await apiRequest("POST", `/api/user-blocks/${blockId}/lift`, {});
+            return res.json();
+        },
+        onSuccess: () => onSuccess("Bloqueio levantado"),
+        onError,
+    });
+
+    const formatDate = (date: string) => format(new Date(date), "dd/MM/yyyy", { locale: pt });
+
+    return (
+        <div className="space-y-2">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+                <Ban className="h-5 w-5" />
+                Bloqueios
+            </h3>
+
+            {(blocks || []).length === 0 ? (
+                <p className="text-sm text-muted-foreground">Sem bloqueios registados.</p>
+            ) : (
+                <div className="space-y-2 max-h-40 overflow-y-auto">
+                    {blocks!.map((block) => (
+                        <div key={block.id} className="flex items-center justify-between gap-2 border rounded-md p-2 text-sm">
+                            <div className="min-w-0">
+                                <div className="flex items-center gap-2">
+                                    <span className="font-medium">{blockReasonLabels[block.reason]}</span>
+                                    <Badge className={block.isActive ? "bg-destructive" : ""} variant={block.isActive ? "default" : "secondary"}>
+                                        {block.isActive ? "Ativo" : "Terminado"}
+                                    </Badge>
+                                </div>
+                                <p className="text-xs text-muted-foreground truncate">
+                                    {formatDate(block.startDate)}
+                                    {block.endDate ? ` – ${formatDate(block.endDate)}` : " – sem data de fim"}
+                                    {` · ${block.createdByName ?? "Automático"}`}
+                                    {block.liftedByName && ` · levantado por ${block.liftedByName}`}
+                                    {block.notes && ` · ${block.notes}`}
+                                </p>
+                            </div>
+                            {block.isActive && block.createdBy && (
+                                <Button size="sm" variant="outline" onClick={() => liftMutation.mutate(block.id)} disabled={liftMutation.isPending}>
+                                    Levantar
+                                </Button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <form
+                className="grid gap-2 sm:grid-cols-[10rem_1fr_9rem_auto]"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    blockMutation.mutate();
+                }}
+            >
+                <Select value={reason} onValueChange={(v) => setReason(v as UserBlock["reason"])}>
+                    <SelectTrigger>
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {manualBlockReasons.map((r) => (
+                            <SelectItem key={r} value={r}>{blockReasonLabels[r]}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Motivo" />
+                <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} title="Fim do bloqueio (opcional)" />
+                <Button type="submit" variant="destructive" disabled={blockMutation.isPending}>
+                    {blockMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Bloquear
+                </Button>
+            </form>
+        </div>
+    );
+}
+
 interface UserDetailsDialogProps {
     userId: string | null;
     open: boolean;
@@ -38,7 +190,13 @@ export function UserDetailsDialog({ userId, open, onOpenChange }: UserDetailsDia
         enabled: !!userId && open,
     });
 
+    const { data: blocks } = useQuery<UserBlock[]>({
+        queryKey: ["/api/users", userId, "blocks"],
+        enabled: !!userId && open,
+    });
+
     const isLoading = userLoading || loansLoading;
+    const activeBlocks = (blocks || []).filter((b) => b.isActive).length;
     const loansList = loans || [];
 
     const totalBooksRead = loansList.filter((l: any) => l.status === "returned").length;
@@ -81,6 +239,14 @@ export function UserDetailsDialog({ userId, open, onOpenChange }: UserDetailsDia
                                     <Badge className={userData.isActive ? "bg-chart-2" : "bg-destructive"}>
                                         {userData.isActive ? "Ativo" : "Inativo"}
                                     </Badge>
+                                    {activeBlocks > 0 && (
+                                        <Badge className="bg-destructive">Bloqueado</Badge>
+                                    )}
+                                    {userData.noShowCount > 0 && (
+                                        <Badge variant="outline" className="text-destructive border-destructive">
+                                            {userData.noShowCount} reserva(s) não levantada(s)
+                                        </Badge>
+                                    )}
                                 </div>
                             </div>
                         </div>
@@ -117,6 +283,8 @@ export function UserDetailsDialog({ userId, open, onOpenChange }: UserDetailsDia
                             </Card>
                         </div>
 
+                        <UserBlocksSection userId={userData.id} />
+
                         <div className="flex-1 overflow-hidden flex flex-col min-h-0">
                             <h3 className="text-lg font-semibold flex items-center gap-2 mb-2">
                                 <History className="h-5 w-5" />
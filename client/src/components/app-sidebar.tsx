@@ -6,6 +6,13 @@ import {
   LayoutDashboard,
   AlertCircle,
   Search,
+  SlidersHorizontal,
+  CalendarDays,
+  ScanBarcode,
+  Mail,
+  MailCheck,
+  Timer,
+  History,
 } from "lucide-react";
 import {
   Sidebar,
@@ -70,6 +77,11 @@ export function AppSidebar() {
         url: "/loans",
         icon: BookCopy,
       },
+      {
+        title: "Balcão de Circulação",
+        url: "/circulation",
+        icon: ScanBarcode,
+      },
       {
         title: "Utilizadores",
         url: "/users",
@@ -80,6 +92,36 @@ export function AppSidebar() {
         url: "/fines",
         icon: AlertCircle,
       },
+      {
+        title: "Políticas de Empréstimo",
+        url: "/loan-policies",
+        icon: SlidersHorizontal,
+      },
+      {
+        title: "Calendário Académico",
+        url: "/calendar",
+        icon: CalendarDays,
+      },
+      {
+        title: "Modelos de Email",
+        url: "/email-templates",
+        icon: Mail,
+      },
+      {
+        title: "Registo de Emails",
+        url: "/email-log",
+        icon: MailCheck,
+      },
+      {
+        title: "Tarefas Agendadas",
+        url: "/jobs",
+        icon: Timer,
+      },
+      {
+        title: "Auditoria",
+        url: "/audit-log",
+        icon: History,
+      },
       {
         title: "Relatórios",
         url: "/reports",
@@ -0,0 +1,126 @@
+import { Fragment } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { HelpCircle, Search } from "lucide-react";
+import { foldSearchText, type BookQueryError } from "@shared/book-query";
+
+const syntaxExamples: { example: string; meaning: string }[] = [
+  { example: "pepetela mayombe", meaning: "Todas as palavras, em qualquer campo de texto" },
+  { example: '"guerra civil"', meaning: "A frase exata" },
+  { example: 'author:"Pepetela"', meaning: "Só no campo indicado: title, author, isbn, publisher, description, category" },
+  { example: "year:1990..2000", meaning: "Intervalo de anos; também 1990.. ou ..2000" },
+  { example: "rating:4..", meaning: "Avaliação média de 4 ou mais" },
+  { example: "tag:yellow", meaning: "Etiqueta red, yellow ou white" },
+  { example: "department:engenharia", meaning: "Departamento engenharia, ciencias-sociais ou outros" },
+  { example: "available:true", meaning: "Com exemplares na estante" },
+  { example: "tag:red OR tag:yellow", meaning: "Qualquer uma das condições" },
+  { example: "-tag:red, NOT tag:red", meaning: "Exclui os que correspondem" },
+  { example: "(a OR b) c", meaning: "Parênteses agrupam condições" },
+];
+
+function BookQueryHelp() {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" title="Sintaxe de pesquisa" data-testid="button-query-help">
+          <HelpCircle className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[26rem]">
+        <h4 className="font-semibold mb-1">Pesquisa avançada</h4>
+        <p className="text-xs text-muted-foreground mb-3">
+          Maiúsculas e acentos são ignorados. Os campos também aceitam nomes em português (autor, titulo, ano, etiqueta…).
+        </p>
+        <dl className="space-y-1.5 text-sm">
+          {syntaxExamples.map(({ example, meaning }) => (
+            <div key={example} className="grid grid-cols-[10rem_1fr] gap-2">
+              <dt><code className="rounded bg-muted px-1 py-0.5 text-xs">{example}</code></dt>
+              <dd className="text-muted-foreground text-xs">{meaning}</dd>
+            </div>
+          ))}
+        </dl>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface BookQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  error?: BookQueryError;
+}
+
+// Search box for the advanced query syntax, pointing at the part of the query a syntax error is about
+export function BookQueryInput({ value, onChange, error }: BookQueryInputProps) {
+  return (
+    <div className="flex-1 space-y-1.5">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder='Ex.: author:"Pepetela" year:1990..2000 tag:yellow'
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className={`pl-10 font-mono text-sm ${error ? "border-destructive focus-visible:ring-destructive" : ""}`}
+            aria-invalid={!!error}
+            data-testid="input-search"
+          />
+        </div>
+        <BookQueryHelp />
+      </div>
+      {error && (
+        <div className="text-sm" data-testid="text-query-error">
+          <p className="text-destructive">{error.message}</p>
+          <p className="font-mono text-xs text-muted-foreground whitespace-pre-wrap break-all">
+            {value.slice(0, error.start)}
+            <span className="text-destructive underline decoration-wavy">{value.slice(error.start, error.end) || " "}</span>
+            {value.slice(error.end)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface HighlightProps {
+  text: string | null | undefined;
+  terms: string[]; // Folded, as returned by bookQueryTerms
+}
+
+// Marks where the terms occur in text, ignoring case and accents like the search does
+export function Highlight({ text, terms }: HighlightProps) {
+  if (!text) return null;
+  if (terms.length === 0) return <>{text}</>;
+
+  // Fold one character at a time so positions in the folded text map back to the original
+  let folded = "";
+  const origin: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = foldSearchText(text[i]);
+    folded += char;
+    for (let j = 0; j < char.length; j++) origin.push(i);
+  }
+
+  const marked = new Array<boolean>(text.length).fill(false);
+  for (const term of terms) {
+    for (let at = folded.indexOf(term); at >= 0; at = folded.indexOf(term, at + 1)) {
+      for (let k = at; k < at + term.length; k++) marked[origin[k]] = true;
+    }
+  }
+
+  const parts: { text: string; marked: boolean }[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = parts[parts.length - 1];
+    if (last && last.marked === marked[i]) last.text += text[i];
+    else parts.push({ text: text[i], marked: marked[i] });
+  }
+
+  return (
+    <>
+      {parts.map((part, i) => part.marked
+        ? <mark key={i} className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-700/60">{part.text}</mark>
+        : <Fragment key={i}>{part.text}</Fragment>)}
+    </>
+  );
+}
@@ -0,0 +1,89 @@
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { CatalogueSort } from "@shared/schema";
+
+// One page of GET /api/books
+export interface CataloguePage<T> {
+  books: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const sortLabels: Record<CatalogueSort, string> = {
+  relevance: "Relevância",
+  title: "Título (A-Z)",
+  author: "Autor (A-Z)",
+  year: "Ano de publicação",
+  newest: "Adicionados recentemente",
+};
+
+interface CatalogueSortSelectProps {
+  value: CatalogueSort;
+  onChange: (sort: CatalogueSort) => void;
+  searching: boolean; // Relevance only makes sense for a search
+}
+
+export function CatalogueSortSelect({ value, onChange, searching }: CatalogueSortSelectProps) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as CatalogueSort)}>
+      <SelectTrigger className="w-full md:w-[220px]" data-testid="select-catalogue-sort">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(sortLabels) as CatalogueSort[])
+          .filter(sort => searching || sort !== "relevance")
+          .map(sort => (
+            <SelectItem key={sort} value={sort}>{sortLabels[sort]}</SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface CataloguePaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+}
+
+export function CataloguePagination({ page, pageSize, total, onPageChange }: CataloguePaginationProps) {
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, total);
+
+  return (
+    <div className="flex items-center justify-between gap-4 flex-wrap">
+      <p className="text-sm text-muted-foreground" data-testid="text-catalogue-range">
+        {total === 0 ? "Nenhum livro" : `${first}–${last} de ${total} ${total === 1 ? "livro" : "livros"}`}
+      </p>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page - 1)}
+          disabled={page <= 1}
+          data-testid="button-catalogue-previous"
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Anterior
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          Página {page} de {pageCount}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page + 1)}
+          disabled={page >= pageCount}
+          data-testid="button-catalogue-next"
+        >
+          Seguinte
+          <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+      </div>
+    </div>
+  );
+}
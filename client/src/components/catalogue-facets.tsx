@@ -0,0 +1,253 @@
+import { useLocation, useSearch } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Star, X } from "lucide-react";
+import type { CatalogueSort } from "@shared/schema";
+
+export interface FacetCount<T = string> {
+  value: T;
+  count: number;
+}
+
+// GET /api/books/facets
+export interface CatalogueFacets {
+  categories: FacetCount[];
+  departments: FacetCount[];
+  authors: FacetCount[];
+  publishers: FacetCount[];
+  decades: FacetCount<number>[];
+  tags: FacetCount[];
+  available: number;
+  ratings: FacetCount<number>[];
+}
+
+const listKeys = ["categoryId", "department", "author", "publisher", "decade", "tag"] as const;
+type ListKey = typeof listKeys[number];
+
+// The catalogue filters, named as in the page URL and in GET /api/books
+export type CatalogueParams = Record<ListKey, string[]> & {
+  search?: string;
+  available?: "true";
+  minRating?: string;
+  sort?: CatalogueSort;
+  page?: string;
+};
+
+function parseCatalogueParams(search: string): CatalogueParams {
+  const query = new URLSearchParams(search);
+  const lists = Object.fromEntries(listKeys.map(key => [key, query.getAll(key)])) as Record<ListKey, string[]>;
+  return {
+    ...lists,
+    search: query.get("search") || undefined,
+    available: query.get("available") === "true" ? "true" : undefined,
+    minRating: query.get("minRating") || undefined,
+    sort: (query.get("sort") as CatalogueSort | null) || undefined,
+    page: query.get("page") || undefined,
+  };
+}
+
+/**
+ * Catalogue filters kept in the page URL, so a filtered view can be shared or
+ * bookmarked. Any change other than the page itself goes back to page one.
+ */
+export function useCatalogueParams(): [CatalogueParams, (changes: Partial<CatalogueParams>) => void] {
+  const search = useSearch();
+  const [location, navigate] = useLocation();
+  const params = parseCatalogueParams(search);
+
+  const update = (changes: Partial<CatalogueParams>) => {
+    const next: Partial<CatalogueParams> = { ...params, page: undefined, ...changes };
+    const query = new URLSearchParams();
+    Object.entries(next).forEach(([key, value]) => {
+      if (Array.isArray(value)) value.forEach(item => query.append(key, item));
+      else if (value) query.set(key, value);
+    });
+    const queryString = query.toString();
+    navigate(queryString ? `${location}?${queryString}` : location, { replace: true });
+  };
+
+  return [params, update];
+}
+
+export function hasCatalogueFilters(params: CatalogueParams): boolean {
+  return listKeys.some(key => params[key].length > 0) || !!params.available || !!params.minRating;
+}
+
+const departmentLabels: Record<string, string> = {
+  engenharia: "Engenharia",
+  "ciencias-sociais": "Ciências Sociais",
+  outros: "Outros",
+};
+
+const tagLabels: Record<string, string> = {
+  white: "Branca",
+  yellow: "Amarela",
+  red: "Vermelha (uso local)",
+};
+
+interface FacetSectionProps {
+  title: string;
+  name: ListKey;
+  values: FacetCount<string | number>[];
+  selected: string[];
+  label?: (value: string) => string;
+  onChange: (selected: string[]) => void;
+}
+
+function FacetSection({ title, name, values, selected, label = (v) => v, onChange }: FacetSectionProps) {
+  // Selected values stay listed even once nothing else matches them
+  const options = values.map(v => ({ value: String(v.value), count: v.count }));
+  selected.filter(s => !options.some(o => o.value === s)).forEach(value => options.push({ value, count: 0 }));
+  if (options.length === 0) return null;
+
+  const toggle = (value: string) =>
+    onChange(selected.includes(value) ? selected.filter(s => s !== value) : [...selected, value]);
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold">{title}</h3>
+      <div className="space-y-1.5 max-h-56 overflow-y-auto pr-1">
+        {options.map(option => {
+          const id = `facet-${name}-${option.value}`;
+          return (
+            <div key={option.value} className="flex items-center gap-2">
+              <Checkbox
+                id={id}
+                checked={selected.includes(option.value)}
+                onCheckedChange={() => toggle(option.value)}
+                data-testid={`checkbox-${id}`}
+              />
+              <Label htmlFor={id} className="flex-1 text-sm font-normal cursor-pointer truncate">
+                {label(option.value)}
+              </Label>
+              <span className="text-xs text-muted-foreground">{option.count}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+interface CatalogueFacetsPanelProps {
+  facets: CatalogueFacets | undefined;
+  params: CatalogueParams;
+  categories: { id: string; name: string }[];
+  onChange: (changes: Partial<CatalogueParams>) => void;
+}
+
+export function CatalogueFacetsPanel({ facets, params, categories, onChange }: CatalogueFacetsPanelProps) {
+  const categoryName = (id: string) => categories.find(c => c.id === id)?.name ?? "Sem nome";
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+        <CardTitle className="text-lg">Filtrar</CardTitle>
+        {hasCatalogueFilters(params) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(Object.fromEntries([
+              ...listKeys.map(key => [key, []]),
+              ["available", undefined],
+              ["minRating", undefined],
+            ]))}
+            data-testid="button-clear-facets"
+          >
+            <X className="h-4 w-4 mr-1" />
+            Limpar
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="facet-available"
+            checked={params.available === "true"}
+            onCheckedChange={(checked) => onChange({ available: checked ? "true" : undefined })}
+            data-testid="checkbox-facet-available"
+          />
+          <Label htmlFor="facet-available" className="flex-1 text-sm font-normal cursor-pointer">
+            Apenas disponíveis
+          </Label>
+          <span className="text-xs text-muted-foreground">{facets?.available ?? 0}</span>
+        </div>
+
+        <FacetSection
+          title="Categoria"
+          name="categoryId"
+          values={facets?.categories ?? []}
+          selected={params.categoryId}
+          label={categoryName}
+          onChange={(categoryId) => onChange({ categoryId })}
+        />
+        <FacetSection
+          title="Departamento"
+          name="department"
+          values={facets?.departments ?? []}
+          selected={params.department}
+          label={(v) => departmentLabels[v] ?? v}
+          onChange={(department) => onChange({ department })}
+        />
+        <FacetSection
+          title="Etiqueta"
+          name="tag"
+          values={facets?.tags ?? []}
+          selected={params.tag}
+          label={(v) => tagLabels[v] ?? v}
+          onChange={(tag) => onChange({ tag })}
+        />
+        <FacetSection
+          title="Autor"
+          name="author"
+          values={facets?.authors ?? []}
+          selected={params.author}
+          onChange={(author) => onChange({ author })}
+        />
+        <FacetSection
+          title="Editora"
+          name="publisher"
+          values={facets?.publishers ?? []}
+          selected={params.publisher}
+          onChange={(publisher) => onChange({ publisher })}
+        />
+        <FacetSection
+          title="Ano de publicação"
+          name="decade"
+          values={facets?.decades ?? []}
+          selected={params.decade}
+          label={(v) => `${v}–${Number(v) + 9}`}
+          onChange={(decade) => onChange({ decade })}
+        />
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Avaliação média</h3>
+          <div className="space-y-1">
+            {(facets?.ratings ?? []).map(rating => {
+              const active = params.minRating === String(rating.value);
+              return (
+                <button
+                  key={rating.value}
+                  type="button"
+                  onClick={() => onChange({ minRating: active ? undefined : String(rating.value) })}
+                  className={`flex w-full items-center gap-2 rounded-md px-2 py-1 text-sm hover-elevate ${active ? "bg-accent font-medium" : ""}`}
+                  data-testid={`button-facet-rating-${rating.value}`}
+                >
+                  <span className="flex">
+                    {[1, 2, 3, 4, 5].map(i => (
+                      <Star key={i} className={`h-3.5 w-3.5 ${i <= rating.value ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground/40"}`} />
+                    ))}
+                  </span>
+                  <span className="flex-1 text-left">ou mais</span>
+                  <span className="text-xs text-muted-foreground">{rating.count}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
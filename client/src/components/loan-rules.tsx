@@ -0,0 +1,43 @@
+import type { LoanRule, PatronRules } from "@/hooks/use-loan-rules";
+
+export function formatLoanDays(days: number): string {
+  return days === 1 ? "1 dia" : `${days} dias`;
+}
+
+// "5 dias", or that the book stays in the library
+export function formatTagRule(rule: LoanRule): string {
+  return rule.isLoanable ? formatLoanDays(rule.loanDays) : "uso exclusivo na biblioteca";
+}
+
+interface LoanRulesListProps {
+  rules: PatronRules;
+  titleRule: string; // How many copies of a title the user type may hold
+}
+
+/**
+ * Limits and restrictions of a user type, as the loan policies set them now.
+ */
+export function LoanRulesList({ rules, titleRule }: LoanRulesListProps) {
+  const { white, yellow, red } = rules.tags;
+  return (
+    <>
+      <div>
+        <h3 className="font-semibold mb-2">Limites:</h3>
+        <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
+          <li>Máximo de {rules.maxBooks} livros simultâneos</li>
+          <li>Livros com etiqueta cor branca: {formatTagRule(white)}</li>
+          <li>Livros com etiqueta cor amarela: {formatTagRule(yellow)}</li>
+          <li>Livros com etiqueta cor vermelha: {formatTagRule(red)}</li>
+        </ul>
+      </div>
+      <div>
+        <h3 className="font-semibold mb-2">Restrições:</h3>
+        <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
+          <li>{titleRule}</li>
+          {rules.maxFineAmount > 0 && <li>Multas a partir de {rules.maxFineAmount} Kz bloqueiam novos empréstimos</li>}
+          <li>Multa de {white.finePerDay} Kz por dia de atraso</li>
+        </ul>
+      </div>
+    </>
+  );
+}
@@ -22,7 +22,7 @@ export interface Loan {
   bookTitle: string;
   loanDate: Date;
   dueDate: Date;
-  status: "active" | "overdue" | "returned";
+  status: "active" | "overdue" | "returned" | "lost";
   renewalCount: number;
   fine?: number;
 }
@@ -39,6 +39,7 @@ const statusConfig = {
   active: { text: "Ativo", color: "bg-chart-2 text-white" },
   overdue: { text: "Atrasado", color: "bg-destructive text-destructive-foreground" },
   returned: { text: "Devolvido", color: "bg-muted text-muted-foreground" },
+  lost: { text: "Perdido", color: "bg-orange-100 text-orange-800" },
 };
 
 export function LoanTable({ loans, onReturn, onRenew, onViewUser, processingId }: LoanTableProps) {
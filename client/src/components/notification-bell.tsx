@@ -0,0 +1,291 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { PhoneSettings, type PhoneProfile } from "@/components/phone-settings";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Bell, Settings, CheckCheck, Loader2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { pt } from "date-fns/locale";
+
+interface AppNotification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+interface NotificationFeed {
+  notifications: AppNotification[];
+  unreadCount: number;
+}
+
+interface NotificationSetting {
+  type: string;
+  label: string;
+  inApp: boolean;
+  email: boolean;
+  digest: boolean;
+  sms: boolean;
+}
+
+type Channel = "inApp" | "email" | "digest" | "sms";
+
+const channels: { key: Channel; label: string }[] = [
+  { key: "inApp", label: "Na aplicação" },
+  { key: "email", label: "Email" },
+  { key: "digest", label: "Resumo diário" },
+  { key: "sms", label: "SMS / WhatsApp" },
+];
+
+type EmailLanguage = "pt" | "en";
+
+function NotificationPreferencesDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<NotificationSetting[]>([]);
+
+  const { data: profile } = useQuery<PhoneProfile & { language: EmailLanguage }>({
+    queryKey: ["/api/users", user?.id],
+    enabled: open && !!user,
+  });
+  const phoneVerified = !!profile?.phone && !!profile.phoneVerifiedAt;
+
+  const { data: saved, isLoading } = useQuery<NotificationSetting[]>({
+    queryKey: ["/api/notification-preferences"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (saved) setSettings(saved);
+  }, [saved]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", "/api/notification-preferences", settings.map(({ label, ...channels }) => channels));
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Preferências guardadas" });
+      queryClient.invalidateQueries({ queryKey: ["/api/notification-preferences"] });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao guardar preferências", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const languageMutation = useMutation({
+    mutationFn: async (language: EmailLanguage) => {
+      await apiRequest("PUT", `/api/users/${user!.id}/language`, { language });
+    },
+    onSuccess: () => {
+      toast({ title: "Idioma dos emails atualizado" });
+      queryClient.invalidateQueries({ queryKey: ["/api/users", user?.id] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao atualizar idioma", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggle = (type: string, channel: Channel, value: boolean) => {
+    setSettings(settings.map(s => s.type === type ? { ...s, [channel]: value } : s));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Preferências de notificação</DialogTitle>
+          <DialogDescription>
+            Escolha como quer ser avisado de cada tipo de notificação. O resumo diário junta-as num único email às 08:00.
+            As mensagens por SMS ou WhatsApp precisam de um número confirmado.
+          </DialogDescription>
+        </DialogHeader>
+        {profile && (
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="email-language">Idioma dos emails</Label>
+            <Select
+              value={profile.language}
+              onValueChange={(v) => languageMutation.mutate(v as EmailLanguage)}
+              disabled={languageMutation.isPending}
+            >
+              <SelectTrigger id="email-language" className="w-40" data-testid="select-email-language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pt">Português</SelectItem>
+                <SelectItem value="en">English</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {profile && <PhoneSettings profile={profile} />}
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Notificação</TableHead>
+                {channels.map(c => (
+                  <TableHead key={c.key} className="text-center">{c.label}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {settings.map(setting => (
+                <TableRow key={setting.type}>
+                  <TableCell>{setting.label}</TableCell>
+                  {channels.map(c => (
+                    <TableCell key={c.key} className="text-center">
+                      <Switch
+                        checked={setting[c.key]}
+                        disabled={c.key === "sms" && !phoneVerified}
+                        onCheckedChange={(value) => toggle(setting.type, c.key, value)}
+                        data-testid={`switch-${setting.type}-${c.key}`}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || isLoading} data-testid="button-save-notification-preferences">
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Guardar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Header bell: unread count, the latest notifications of the signed-in user
+ * and a link to their channel preferences.
+ */
+export function NotificationBell() {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+
+  const { data } = useQuery<NotificationFeed>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: 60_000,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: string[]) => {
+      await apiRequest("POST", "/api/notifications/read", { ids });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const unreadCount = data?.unreadCount ?? 0;
+  const notifications = data?.notifications ?? [];
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.readAt) markReadMutation.mutate([notification.id]);
+    if (notification.link) {
+      setOpen(false);
+      setLocation(notification.link);
+    }
+  };
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" className="relative" title="Notificações" data-testid="button-notifications">
+            <Bell className="h-5 w-5" />
+            {unreadCount > 0 && (
+              <span
+                className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[0.65rem] font-semibold flex items-center justify-center"
+                data-testid="badge-unread-notifications"
+              >
+                {unreadCount > 99 ? "99+" : unreadCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 p-0">
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <p className="font-semibold text-sm">Notificações</p>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => markReadMutation.mutate(undefined)}
+                disabled={unreadCount === 0 || markReadMutation.isPending}
+                title="Marcar todas como lidas"
+                data-testid="button-mark-all-read"
+              >
+                <CheckCheck className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => {
+                  setOpen(false);
+                  setPreferencesOpen(true);
+                }}
+                title="Preferências"
+                data-testid="button-notification-preferences"
+              >
+                <Settings className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-8 text-sm text-center text-muted-foreground">Sem notificações</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              {notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() => openNotification(notification)}
+                  className={`w-full text-left px-4 py-3 border-b last:border-b-0 hover-elevate ${notification.readAt ? "" : "bg-primary/5"}`}
+                  data-testid={`notification-${notification.id}`}
+                >
+                  <div className="flex items-start gap-2">
+                    {!notification.readAt && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">{notification.title}</p>
+                      <p className="text-sm text-muted-foreground">{notification.message}</p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true, locale: pt })}
+                      </p>
+                    </div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+      <NotificationPreferencesDialog open={preferencesOpen} onOpenChange={setPreferencesOpen} />
+    </>
+  );
+}
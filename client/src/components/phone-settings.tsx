@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Smartphone } from "lucide-react";
+
+export type PhoneChannel = "sms" | "whatsapp";
+
+export interface PhoneProfile {
+  id: string;
+  phone: string | null;
+  phoneChannel: PhoneChannel;
+  phoneVerifiedAt: string | null;
+}
+
+const channelLabels: Record<PhoneChannel, string> = {
+  sms: "SMS",
+  whatsapp: "WhatsApp",
+};
+
+/**
+ * The user's number for text notices: a new number (or channel) only takes
+ * effect once the code texted to it is entered.
+ */
+export function PhoneSettings({ profile }: { profile: PhoneProfile }) {
+  const { toast } = useToast();
+  const [phone, setPhone] = useState(profile.phone ?? "");
+  const [channel, setChannel] = useState<PhoneChannel>(profile.phoneChannel);
+  const [code, setCode] = useState("");
+  const [pendingPhone, setPendingPhone] = useState<string | null>(null);
+
+  const refreshProfile = () => queryClient.invalidateQueries({ queryKey: ["/api/users", profile.id] });
+
+  const sendCodeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/users/${profile.id}/phone`, { phone, channel });
+      return res.json() as Promise<{ phone: string }>;
+    },
+    onSuccess: (data) => {
+      setPendingPhone(data.phone);
+      setCode("");
+      toast({ title: "Código enviado", description: `Enviámos um código por ${channelLabels[channel]} para ${data.phone}.` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao enviar código", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/users/${profile.id}/phone/verify`, { code });
+    },
+    onSuccess: () => {
+      setPendingPhone(null);
+      toast({ title: "Número confirmado", description: "Já pode receber notificações por mensagem." });
+      refreshProfile();
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao confirmar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/users/${profile.id}/phone`);
+    },
+    onSuccess: () => {
+      setPhone("");
+      setPendingPhone(null);
+      toast({ title: "Número removido" });
+      refreshProfile();
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao remover número", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Smartphone className="h-4 w-4 text-muted-foreground" />
+          <p className="font-medium text-sm">Telemóvel</p>
+        </div>
+        {profile.phone && profile.phoneVerifiedAt && (
+          <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+            {profile.phone} · {channelLabels[profile.phoneChannel]}
+          </Badge>
+        )}
+      </div>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+          placeholder="923 456 789"
+          data-testid="input-phone"
+        />
+        <Select value={channel} onValueChange={(v) => setChannel(v as PhoneChannel)}>
+          <SelectTrigger className="sm:w-36" data-testid="select-phone-channel">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="sms">SMS</SelectItem>
+            <SelectItem value="whatsapp">WhatsApp</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          onClick={() => sendCodeMutation.mutate()}
+          disabled={!phone.trim() || sendCodeMutation.isPending}
+          data-testid="button-send-phone-code"
+        >
+          {sendCodeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Enviar código
+        </Button>
+      </div>
+      {pendingPhone && (
+        <div className="space-y-1">
+          <Label htmlFor="phone-code">Código recebido em {pendingPhone}</Label>
+          <div className="flex gap-2">
+            <Input
+              id="phone-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              inputMode="numeric"
+              maxLength={6}
+              placeholder="000000"
+              data-testid="input-phone-code"
+            />
+            <Button onClick={() => verifyMutation.mutate()} disabled={code.length < 6 || verifyMutation.isPending} data-testid="button-verify-phone">
+              {verifyMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Confirmar
+            </Button>
+          </div>
+        </div>
+      )}
+      {profile.phone && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-destructive hover:text-destructive"
+          onClick={() => removeMutation.mutate()}
+          disabled={removeMutation.isPending}
+          data-testid="button-remove-phone"
+        >
+          Remover número
+        </Button>
+      )}
+    </div>
+  );
+}
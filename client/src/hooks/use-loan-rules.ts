@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+
+type BookTag = "white" | "yellow" | "red";
+type PatronType = "student" | "teacher" | "staff" | "admin";
+
+export interface LoanRule {
+  isLoanable: boolean;
+  loanDays: number;
+  maxRenewals: number;
+  finePerDay: number;
+}
+
+// Limits of a user type and its rule per tag, as set on the loan policies page
+export interface PatronRules {
+  userType: PatronType;
+  maxBooks: number;
+  maxReservations: number;
+  maxFineAmount: number; // 0: no limit
+  tags: Record<BookTag, LoanRule>;
+}
+
+export function usePatronRules() {
+  return useQuery<PatronRules[]>({ queryKey: ["/api/loan-rules"] });
+}
+
+/**
+ * The rules of one user type, undefined while they load.
+ */
+export function useLoanRules(userType: string | undefined): PatronRules | undefined {
+  const { data } = usePatronRules();
+  return data?.find(r => r.userType === userType);
+}
@@ -37,7 +37,10 @@ export const getQueryFn: <T>(options: {
           url = url ? `${url}/${part.replace(/^\//, "")}` : part;
         } else if (typeof part === "object" && part !== null) {
           Object.entries(part).forEach(([key, value]) => {
-            if (value !== undefined && value !== null) {
+            // Arrays become repeated parameters: { tag: ["red", "white"] } -> tag=red&tag=white
+            if (Array.isArray(value)) {
+              value.forEach((item) => params.append(key, String(item)));
+            } else if (value !== undefined && value !== null) {
               params.append(key, String(value));
             }
           });
@@ -0,0 +1,146 @@
+/**
+ * Reads a CSV or Excel (.xlsx) file into rows of cell text; for workbooks, the
+ * first sheet. Runs in the browser without any parsing library: an .xlsx is a
+ * zip of XML files, unpacked with DecompressionStream.
+ */
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  let rows: string[][];
+  if (/\.xlsx$/i.test(file.name)) {
+    rows = await readXlsx(await file.arrayBuffer());
+  } else if (/\.(csv|tsv|txt)$/i.test(file.name)) {
+    rows = parseCsv(await file.text());
+  } else {
+    throw new Error("Formato não suportado. Use um ficheiro .csv ou .xlsx");
+  }
+  // Blank rows in between are kept so that row numbers match the file
+  while (rows.length > 0 && rows[rows.length - 1].every(cell => cell.trim() === "")) rows.pop();
+  return rows;
+}
+
+// Separator guessed from the header line: Excel in Portuguese saves CSV with ";"
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const header = source.slice(0, source.search(/\r?\n|$/));
+  const separator = [",", ";", "\t"].reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length ? candidate : best);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i];
+    if (quoted) {
+      if (c === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === separator) {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Files of a zip archive by path, still compressed
+async function unzip(buffer: ArrayBuffer): Promise<Map<string, () => Promise<string>>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // The end of central directory record is within the last 64 KiB (its comment)
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error("O ficheiro não é um livro Excel (.xlsx) válido");
+
+  const files = new Map<string, () => Promise<string>>();
+  let entry = view.getUint32(end + 16, true);
+  for (let i = view.getUint16(end + 10, true); i > 0; i--) {
+    const method = view.getUint16(entry + 10, true);
+    const size = view.getUint32(entry + 20, true);
+    const nameLength = view.getUint16(entry + 28, true);
+    const local = view.getUint32(entry + 42, true);
+    const name = decoder.decode(bytes.subarray(entry + 46, entry + 46 + nameLength));
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const data = bytes.slice(start, start + size);
+
+    files.set(name, async () => {
+      if (method === 0) return decoder.decode(data);
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+      return new Response(stream).text();
+    });
+    entry += 46 + nameLength + view.getUint16(entry + 30, true) + view.getUint16(entry + 32, true);
+  }
+  return files;
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, "application/xml");
+}
+
+// "AB12" -> 27 (zero-based column)
+function columnIndex(reference: string): number {
+  const letters = /^[A-Z]+/.exec(reference)?.[0] ?? "A";
+  return Array.from(letters).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const files = await unzip(buffer);
+  const read = async (path: string) => {
+    const file = files.get(path);
+    return file ? parseXml(await file()) : null;
+  };
+
+  // The first sheet of the workbook, through its relationship
+  const workbook = await read("xl/workbook.xml");
+  const relations = await read("xl/_rels/workbook.xml.rels");
+  const sheetId = workbook?.getElementsByTagName("sheet")[0]?.getAttribute("r:id");
+  const target = Array.from(relations?.getElementsByTagName("Relationship") ?? [])
+    .find(r => r.getAttribute("Id") === sheetId)?.getAttribute("Target");
+  const sheetPath = target ? (target.startsWith("/") ? target.slice(1) : `xl/${target}`) : "xl/worksheets/sheet1.xml";
+  const sheet = await read(sheetPath);
+  if (!sheet) throw new Error("Não foi encontrada nenhuma folha no ficheiro");
+
+  // Text cells mostly point into the shared strings; rich text comes in several <t> runs
+  const sharedStrings = Array.from((await read("xl/sharedStrings.xml"))?.getElementsByTagName("si") ?? [])
+    .map(si => Array.from(si.getElementsByTagName("t")).map(t => t.textContent ?? "").join(""));
+
+  const rows: string[][] = [];
+  for (const row of Array.from(sheet.getElementsByTagName("row"))) {
+    const cells: string[] = [];
+    for (const cell of Array.from(row.getElementsByTagName("c"))) {
+      const value = cell.getElementsByTagName("v")[0]?.textContent ?? "";
+      const type = cell.getAttribute("t");
+      const text = type === "s" ? sharedStrings[Number(value)] ?? ""
+        : type === "inlineStr" ? Array.from(cell.getElementsByTagName("t")).map(t => t.textContent ?? "").join("")
+        : type === "b" ? (value === "1" ? "TRUE" : "FALSE")
+        : value;
+      const column = columnIndex(cell.getAttribute("r") ?? "");
+      while (cells.length < column) cells.push("");
+      cells[column] = text;
+    }
+    const index = Number(row.getAttribute("r") ?? rows.length + 1) - 1;
+    while (rows.length < index) rows.push([]);
+    rows[index] = cells;
+  }
+  return rows;
+}
@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Eye, Loader2 } from "lucide-react";
+import type { AuditEvent, User } from "@shared/schema";
+
+type AuditEntry = AuditEvent & { actorName: string | null };
+
+const ANY = "any";
+const SYSTEM = "system";
+
+const entityLabels: Record<string, string> = {
+  user: "Utilizador",
+  book: "Livro",
+  book_copy: "Exemplar",
+  loan: "Empréstimo",
+  hold: "Reserva",
+  fine: "Multa",
+  fine_dispute: "Contestação de multa",
+  user_block: "Bloqueio",
+  renewal_request: "Pedido de renovação",
+};
+
+const actionLabels: Record<string, string> = {
+  create: "Criação",
+  update: "Alteração",
+  delete: "Eliminação",
+  checkout: "Empréstimo",
+  checkin: "Devolução",
+  hold_copy: "Exemplar guardado",
+  expire: "Expiração",
+  cancel: "Cancelamento",
+  payment: "Pagamento",
+  waiver: "Perdão",
+  adjustment: "Ajuste",
+  approve: "Aprovação",
+  reject: "Rejeição",
+};
+
+const actionColors: Record<string, string> = {
+  create: "bg-green-50 text-green-700 border-green-200",
+  delete: "bg-red-50 text-red-700 border-red-200",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function ChangesDialog({ event, onOpenChange }: { event: AuditEntry | null; onOpenChange: (open: boolean) => void }) {
+  return (
+    <Dialog open={!!event} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            {event ? `${actionLabels[event.action] ?? event.action} · ${entityLabels[event.entityType] ?? event.entityType}` : ""}
+          </DialogTitle>
+          <DialogDescription>
+            {event && `${event.entityId} · ${event.actorName ?? "Sistema"} · ${new Date(event.createdAt).toLocaleString("pt-PT")}${event.ip ? ` · ${event.ip}` : ""}`}
+          </DialogDescription>
+        </DialogHeader>
+        {event && (
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Campo</TableHead>
+                  <TableHead>Antes</TableHead>
+                  <TableHead>Depois</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {Object.entries(event.changes).map(([field, change]) => (
+                  <TableRow key={field}>
+                    <TableCell className="font-mono text-xs">{field}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground break-all">{formatValue(change.from)}</TableCell>
+                    <TableCell className="text-xs break-all">{formatValue(change.to)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function AuditLog() {
+  const [actorId, setActorId] = useState(ANY);
+  const [entityType, setEntityType] = useState(ANY);
+  const [entityId, setEntityId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [selected, setSelected] = useState<AuditEntry | null>(null);
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const params: Record<string, string> = {};
+  if (actorId !== ANY) params.actorId = actorId;
+  if (entityType !== ANY) params.entityType = entityType;
+  if (entityId.trim()) params.entityId = entityId.trim();
+  if (from) params.from = from;
+  if (to) params.to = to;
+
+  const { data: events = [], isLoading } = useQuery<AuditEntry[]>({
+    queryKey: ["/api/audit-events", params],
+  });
+
+  const clearFilters = () => {
+    setActorId(ANY);
+    setEntityType(ANY);
+    setEntityId("");
+    setFrom("");
+    setTo("");
+  };
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Auditoria</h1>
+        <p className="text-muted-foreground">
+          Quem criou, alterou ou eliminou utilizadores, livros, empréstimos, reservas, multas e pedidos
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Filtros</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-5">
+            <div className="space-y-2">
+              <Label>Autor</Label>
+              <Select value={actorId} onValueChange={setActorId}>
+                <SelectTrigger data-testid="select-audit-actor">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Todos</SelectItem>
+                  <SelectItem value={SYSTEM}>Sistema</SelectItem>
+                  {users.map(user => (
+                    <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Entidade</Label>
+              <Select value={entityType} onValueChange={setEntityType}>
+                <SelectTrigger data-testid="select-audit-entity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Todas</SelectItem>
+                  {Object.entries(entityLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-entity-id">ID da entidade</Label>
+              <Input id="audit-entity-id" value={entityId} onChange={(e) => setEntityId(e.target.value)} data-testid="input-audit-entity-id" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">De</Label>
+              <Input id="audit-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-audit-from" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">Até</Label>
+              <Input id="audit-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-audit-to" />
+            </div>
+          </div>
+          <div className="flex justify-end mt-4">
+            <Button variant="ghost" onClick={clearFilters} data-testid="button-clear-audit-filters">Limpar filtros</Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Eventos</CardTitle>
+          <CardDescription>Os 200 mais recentes que correspondem aos filtros</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">Nenhum evento encontrado</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Autor</TableHead>
+                  <TableHead>Ação</TableHead>
+                  <TableHead>Entidade</TableHead>
+                  <TableHead>Campos</TableHead>
+                  <TableHead>IP</TableHead>
+                  <TableHead className="text-right">Detalhes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map(event => (
+                  <TableRow key={event.id} data-testid={`row-audit-${event.id}`}>
+                    <TableCell className="whitespace-nowrap">{new Date(event.createdAt).toLocaleString("pt-PT")}</TableCell>
+                    <TableCell>{event.actorName ?? <span className="text-muted-foreground">Sistema</span>}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={actionColors[event.action]}>
+                        {actionLabels[event.action] ?? event.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <p>{entityLabels[event.entityType] ?? event.entityType}</p>
+                      <p className="font-mono text-xs text-muted-foreground">{event.entityId.slice(0, 8)}</p>
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate text-xs text-muted-foreground">
+                      {Object.keys(event.changes).join(", ")}
+                    </TableCell>
+                    <TableCell className="text-xs">{event.ip ?? "—"}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => setSelected(event)} data-testid={`button-audit-details-${event.id}`}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ChangesDialog event={selected} onOpenChange={(open) => !open && setSelected(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,384 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { readSpreadsheet } from "@/lib/spreadsheet";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { foldSearchText } from "@shared/book-query";
+import type { BookImportRow } from "@shared/schema";
+
+type ImportField = keyof BookImportRow;
+type MappedRow = Partial<Record<ImportField, string>>;
+
+// POST /api/books/import/preview
+interface ImportPlan {
+  rows: { line: number; status: "ready" | "duplicate" | "invalid"; book?: BookImportRow; messages: string[] }[];
+  newAuthors: string[];
+  newCategories: string[];
+}
+
+// POST /api/books/import
+interface ImportReport {
+  rows: { line: number; status: "created" | "skipped" | "failed"; message?: string; bookId?: string }[];
+  created: number;
+  skipped: number;
+  failed: number;
+  newAuthors: string[];
+  newCategories: string[];
+}
+
+// Header names recognised for each field, folded (lowercase, no accents)
+const importFields: { key: ImportField; label: string; headers: string[]; required?: boolean }[] = [
+  { key: "title", label: "Título", headers: ["titulo", "title", "obra"], required: true },
+  { key: "author", label: "Autor", headers: ["autor", "author", "autores"], required: true },
+  { key: "isbn", label: "ISBN", headers: ["isbn"] },
+  { key: "publisher", label: "Editora", headers: ["editora", "publisher"] },
+  { key: "yearPublished", label: "Ano de publicação", headers: ["ano", "ano de publicacao", "year", "ano publicacao"] },
+  { key: "category", label: "Categoria", headers: ["categoria", "category"] },
+  { key: "department", label: "Departamento", headers: ["departamento", "department"] },
+  { key: "tag", label: "Etiqueta", headers: ["etiqueta", "tag"] },
+  { key: "totalCopies", label: "Exemplares", headers: ["exemplares", "copias", "quantidade", "copies"] },
+  { key: "description", label: "Descrição", headers: ["descricao", "description", "sinopse", "resumo"] },
+];
+
+const IGNORE = "ignore";
+
+const planStatus: Record<ImportPlan["rows"][number]["status"], { text: string; color: string }> = {
+  ready: { text: "Pronto", color: "bg-green-50 text-green-700 border-green-200" },
+  duplicate: { text: "Duplicado", color: "bg-orange-50 text-orange-700 border-orange-200" },
+  invalid: { text: "Inválido", color: "bg-red-50 text-red-700 border-red-200" },
+};
+
+const reportStatus: Record<ImportReport["rows"][number]["status"], { text: string; color: string }> = {
+  created: { text: "Importado", color: "bg-green-50 text-green-700 border-green-200" },
+  skipped: { text: "Ignorado", color: "bg-slate-100 text-slate-700 border-slate-200" },
+  failed: { text: "Falhou", color: "bg-red-50 text-red-700 border-red-200" },
+};
+
+// Column chosen for each field, guessed from the header names
+function guessMapping(headers: string[]): Partial<Record<ImportField, number>> {
+  const folded = headers.map(h => foldSearchText(h).trim());
+  const mapping: Partial<Record<ImportField, number>> = {};
+  for (const field of importFields) {
+    const column = folded.findIndex(h => field.headers.includes(h));
+    if (column >= 0) mapping[field.key] = column;
+  }
+  return mapping;
+}
+
+export default function BookImport() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Partial<Record<ImportField, number>>>({});
+  const [isReading, setIsReading] = useState(false);
+
+  const mappedRows: MappedRow[] = dataRows.map(cells => Object.fromEntries(
+    Object.entries(mapping).map(([field, column]) => [field, cells[column as number] ?? ""]),
+  ));
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/books/import/preview", { rows: mappedRows });
+      return res.json() as Promise<ImportPlan>;
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao validar o ficheiro", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/books/import", { rows: mappedRows });
+      return res.json() as Promise<ImportReport>;
+    },
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/books"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/authors"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      toast({ title: "Importação concluída", description: `${report.created} livros importados` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao importar livros", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const plan = previewMutation.data;
+  const report = importMutation.data;
+  const readyCount = plan?.rows.filter(r => r.status === "ready").length ?? 0;
+  const missingRequired = importFields.filter(f => f.required && mapping[f.key] === undefined);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const [header = [], ...rows] = await readSpreadsheet(file);
+      if (rows.length === 0) throw new Error("O ficheiro não tem linhas de dados");
+      setFileName(file.name);
+      setHeaders(header);
+      setDataRows(rows);
+      setMapping(guessMapping(header));
+      previewMutation.reset();
+      importMutation.reset();
+    } catch (error: any) {
+      toast({ title: "Erro ao ler o ficheiro", description: error.message, variant: "destructive" });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  // Any change to the columns invalidates the dry run
+  const changeMapping = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === IGNORE) delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+    previewMutation.reset();
+  };
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" onClick={() => setLocation("/books")} data-testid="button-back">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Importar Livros</h1>
+          <p className="text-muted-foreground">
+            Cadastrar uma coleção a partir de uma folha de cálculo (CSV ou Excel)
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>1. Ficheiro</CardTitle>
+          <CardDescription>
+            A primeira linha deve ter os nomes das colunas. Nos ficheiros Excel é lida a primeira folha.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center gap-4">
+          <Button asChild variant="outline" disabled={isReading}>
+            <Label htmlFor="import-file" className="cursor-pointer">
+              {isReading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Escolher ficheiro
+            </Label>
+          </Button>
+          <Input
+            id="import-file"
+            type="file"
+            accept=".csv,.tsv,.txt,.xlsx"
+            className="hidden"
+            onChange={handleFile}
+            data-testid="input-import-file"
+          />
+          {fileName && (
+            <span className="flex items-center gap-2 text-sm text-muted-foreground">
+              <FileSpreadsheet className="h-4 w-4" />
+              {fileName} · {dataRows.length} linhas
+            </span>
+          )}
+        </CardContent>
+      </Card>
+
+      {headers.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Colunas</CardTitle>
+            <CardDescription>
+              Indique a coluna de cada campo. Autores e categorias que ainda não existem são criados; a etiqueta
+              aceita branca, amarela ou vermelha e, sem coluna de exemplares, cada livro fica com um.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {importFields.map(field => (
+                <div key={field.key} className="space-y-1.5">
+                  <Label>{field.label}{field.required && " *"}</Label>
+                  <Select
+                    value={mapping[field.key] !== undefined ? String(mapping[field.key]) : IGNORE}
+                    onValueChange={(value) => changeMapping(field.key, value)}
+                  >
+                    <SelectTrigger data-testid={`select-column-${field.key}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={IGNORE}>— Não importar —</SelectItem>
+                      {headers.map((header, column) => (
+                        <SelectItem key={column} value={String(column)}>
+                          {header || `Coluna ${column + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center gap-4">
+              <Button
+                onClick={() => previewMutation.mutate()}
+                disabled={missingRequired.length > 0 || previewMutation.isPending || importMutation.isPending}
+                data-testid="button-preview-import"
+              >
+                {previewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Validar
+              </Button>
+              {missingRequired.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Falta indicar: {missingRequired.map(f => f.label).join(", ")}
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {plan && !report && (
+        <Card>
+          <CardHeader>
+            <CardTitle>3. Verificação</CardTitle>
+            <CardDescription>
+              Nada foi gravado ainda. Só as linhas prontas são importadas; duplicados e linhas inválidas ficam de fora.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(planStatus) as (keyof typeof planStatus)[]).map(status => (
+                <Badge key={status} variant="outline" className={planStatus[status].color}>
+                  {planStatus[status].text}: {plan.rows.filter(r => r.status === status).length}
+                </Badge>
+              ))}
+            </div>
+            {plan.newAuthors.length > 0 && (
+              <p className="text-sm">
+                <span className="font-medium">Autores novos ({plan.newAuthors.length}):</span>{" "}
+                <span className="text-muted-foreground">{plan.newAuthors.join(", ")}</span>
+              </p>
+            )}
+            {plan.newCategories.length > 0 && (
+              <p className="text-sm">
+                <span className="font-medium">Categorias novas ({plan.newCategories.length}):</span>{" "}
+                <span className="text-muted-foreground">{plan.newCategories.join(", ")}</span>
+              </p>
+            )}
+
+            <div className="max-h-[480px] overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Linha</TableHead>
+                    <TableHead>Título</TableHead>
+                    <TableHead>Autor</TableHead>
+                    <TableHead>ISBN</TableHead>
+                    <TableHead>Estado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.rows.map(row => {
+                    const cells = row.book ?? mappedRows[row.line - 2];
+                    return (
+                      <TableRow key={row.line} data-testid={`row-import-${row.line}`}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell className="max-w-xs truncate">{cells?.title || "—"}</TableCell>
+                        <TableCell>{cells?.author || "—"}</TableCell>
+                        <TableCell className="font-mono text-xs">{cells?.isbn || "—"}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={planStatus[row.status].color}>
+                            {planStatus[row.status].text}
+                          </Badge>
+                          {row.messages.map((message, i) => (
+                            <p key={i} className="text-xs text-muted-foreground mt-1">{message}</p>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={readyCount === 0 || importMutation.isPending}
+              data-testid="button-run-import"
+            >
+              {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Importar {readyCount} {readyCount === 1 ? "livro" : "livros"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Resultado</CardTitle>
+            <CardDescription>
+              {report.created} importados, {report.skipped} ignorados, {report.failed} com erro
+              {report.newAuthors.length > 0 && ` · ${report.newAuthors.length} autores criados`}
+              {report.newCategories.length > 0 && ` · ${report.newCategories.length} categorias criadas`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="max-h-[480px] overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Linha</TableHead>
+                    <TableHead>Título</TableHead>
+                    <TableHead>Resultado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.rows.map(row => (
+                    <TableRow key={row.line} data-testid={`row-result-${row.line}`}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell className="max-w-xs truncate">{mappedRows[row.line - 2]?.title || "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={reportStatus[row.status].color}>
+                          {reportStatus[row.status].text}
+                        </Badge>
+                        {row.message && <p className="text-xs text-muted-foreground mt-1">{row.message}</p>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <Button variant="outline" onClick={() => setLocation("/books")} data-testid="button-go-books">
+              Ver catálogo
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,10 @@
-import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Search, BookOpen, LogOut, Calendar, MapPin, ArrowLeft, X } from "lucide-react";
+import { Search, BookOpen, Calendar, MapPin, ArrowLeft, X } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useLocation } from "wouter";
@@ -15,46 +13,44 @@ import { pt } from "date-fns/locale";
 import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
 import { ReviewList } from "@/components/ReviewList";
 import { MessageSquare, Tag } from "lucide-react";
+import { holdStatusConfig, type PatronHold } from "@/components/MyHolds";
+import { CataloguePagination, CatalogueSortSelect, type CataloguePage } from "@/components/catalogue-controls";
+import { CatalogueFacetsPanel, useCatalogueParams, type CatalogueFacets } from "@/components/catalogue-facets";
+import type { CatalogueSort } from "@shared/schema";
 
 const tagColors = {
   red: { bg: "bg-red-50 dark:bg-red-900/10", border: "border-red-500", text: "text-red-700 dark:text-red-400", label: "Etiqueta Vermelha (Uso Local)" },
-  yellow: { bg: "bg-yellow-50 dark:bg-yellow-900/10", border: "border-yellow-500", text: "text-yellow-700 dark:text-yellow-400", label: "Etiqueta Amarela (1 Dia)" },
-  white: { bg: "bg-gray-50 dark:bg-gray-800/10", border: "border-gray-400", text: "text-gray-700 dark:text-gray-300", label: "Etiqueta Branca (5 Dias)" },
+  yellow: { bg: "bg-yellow-50 dark:bg-yellow-900/10", border: "border-yellow-500", text: "text-yellow-700 dark:text-yellow-400", label: "Etiqueta Amarela" },
+  white: { bg: "bg-gray-50 dark:bg-gray-800/10", border: "border-gray-400", text: "text-gray-700 dark:text-gray-300", label: "Etiqueta Branca" },
 };
 
 export default function BookSearch() {
   const { user, logout, isAdmin } = useAuth();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
-  const [searchTerm, setSearchTerm] = useState("");
-  const [selectedDepartment, setSelectedDepartment] = useState<string>("all");
-  const [selectedCategory, setSelectedCategory] = useState<string>("all");
+  const [params, setParams] = useCatalogueParams();
+  const { sort, page, ...filters } = params;
+  const searchTerm = params.search ?? "";
 
-  const params = new URLSearchParams();
-  if (searchTerm) params.append("search", searchTerm);
-  if (selectedDepartment !== "all") params.append("department", selectedDepartment);
-  if (selectedCategory !== "all") params.append("categoryId", selectedCategory);
-  const queryString = params.toString();
+  // Searches default to relevance, browsing to title
+  const effectiveSort: CatalogueSort = sort && (sort !== "relevance" || searchTerm) ? sort : searchTerm ? "relevance" : "title";
 
-  const { data: books, isLoading: booksLoading } = useQuery({
-    queryKey: ["/api/books", queryString],
-    queryFn: async () => {
-      const res = await apiRequest("GET", `/api/books?${queryString}`);
-      return res.json();
-    }
+  const { data: catalogue, isLoading: booksLoading } = useQuery<CataloguePage<any>>({
+    queryKey: ["/api/books", { ...filters, sort: effectiveSort, page }],
+    placeholderData: keepPreviousData,
   });
 
-  const { data: categories } = useQuery({
-    queryKey: ["/api/categories"],
+  const { data: facets } = useQuery<CatalogueFacets>({
+    queryKey: ["/api/books/facets", filters],
+    placeholderData: keepPreviousData,
   });
 
-  const { data: userReservations } = useQuery({
-    queryKey: ["/api/reservations", { userId: user?.id }],
-    enabled: !!user?.id,
+  const { data: categories } = useQuery({
+    queryKey: ["/api/categories"],
   });
 
-  const { data: userLoanRequests, refetch: refetchRequests } = useQuery({
-    queryKey: ["/api/loan-requests", { userId: user?.id }],
+  const { data: userHolds } = useQuery<PatronHold[]>({
+    queryKey: ["/api/holds", { userId: user?.id, status: "open" }],
     enabled: !!user?.id,
   });
 
@@ -63,99 +59,49 @@ export default function BookSearch() {
     enabled: !!user?.id,
   });
 
-  console.log("Render: userLoanRequests state:", userLoanRequests);
-
-  const reserveMutation = useMutation({
+  // The server makes it a request to approve when a copy is free, or a place on the waiting list
+  const placeHoldMutation = useMutation({
     mutationFn: async (bookId: string) => {
       if (!user?.id) throw new Error("Usuário não autenticado");
-      const response = await apiRequest("POST", "/api/reservations", { userId: user.id, bookId });
-      return response.json();
+      const response = await apiRequest("POST", "/api/holds", { userId: user.id, bookId });
+      return response.json() as Promise<PatronHold>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/reservations"] });
-      toast({ title: "Reserva realizada!", description: "Você será notificado quando o livro estiver disponível." });
+    onSuccess: (hold) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/holds"] });
+      if (hold.status === "requested") {
+        toast({ title: "Solicitação enviada!", description: "Aguarde a aprovação do bibliotecário." });
+      } else {
+        toast({ title: "Reserva realizada!", description: "Você será notificado quando o livro estiver disponível." });
+      }
     },
     onError: (error: any) => {
       toast({ title: "Erro na reserva", description: error.message, variant: "destructive" });
     },
   });
 
-  const requestLoanMutation = useMutation({
-    mutationFn: async (bookId: string) => {
-      if (!user?.id) throw new Error("Usuário não autenticado");
-      const response = await apiRequest("POST", "/api/loan-requests", { userId: user.id, bookId });
-      return response.json();
-    },
-    onSuccess: (newRequest) => {
-      console.log("Mutation success, updating cache manually:", newRequest);
-
-      // Manually update the cache to ensure instant UI feedback
-      queryClient.setQueryData(
-        ["/api/loan-requests", { userId: user?.id }],
-        (oldData: any) => {
-          const currentData = Array.isArray(oldData) ? oldData : [];
-          return [...currentData, newRequest];
-        }
-      );
-
-      // Also invalidate to accept server state eventually
-      queryClient.invalidateQueries({ queryKey: ["/api/loan-requests"] });
-      toast({ title: "Solicitação enviada!", description: "Aguarde a aprovação do bibliotecário." });
-    },
-    onError: (error: any) => {
-      toast({ title: "Erro na solicitação", description: error.message, variant: "destructive" });
-    },
-  });
-
-  if (!user) return null;
-
-  const cancelReservationMutation = useMutation({
-    mutationFn: async (bookId: string) => {
-      if (!user?.id) throw new Error("Usuário não autenticado");
-      await apiRequest("DELETE", `/api/reservations/user/${user.id}/book/${bookId}`);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/reservations"] });
-      toast({ title: "Reserva cancelada", description: "Você saiu da lista de espera." });
-    },
-    onError: (error: any) => {
-      toast({ title: "Erro ao cancelar reserva", description: error.message, variant: "destructive" });
-    },
-  });
-
-  const cancelRequestMutation = useMutation({
-    mutationFn: async (bookId: string) => {
-      const request = requestsArray.find((r: any) => r.bookId === bookId && r.status === "pending");
-      if (!request) throw new Error("Solicitação não encontrada");
-      await apiRequest("DELETE", `/api/loan-requests/${request.id}`);
+  const cancelHoldMutation = useMutation({
+    mutationFn: async (holdId: string) => {
+      await apiRequest("POST", `/api/holds/${holdId}/cancel`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/loan-requests"] });
-      toast({ title: "Solicitação cancelada", description: "O pedido foi removido." });
+      queryClient.invalidateQueries({ queryKey: ["/api/holds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/books"] });
+      toast({ title: "Reserva cancelada", description: "O pedido foi removido." });
     },
     onError: (error: any) => {
       toast({ title: "Erro ao cancelar", description: error.message, variant: "destructive" });
     },
   });
 
-  const booksArray = Array.isArray(books) ? books : [];
+  if (!user) return null;
+
+  const booksArray = catalogue?.books ?? [];
   const categoriesArray = Array.isArray(categories) ? categories : [];
-  const reservationsArray = Array.isArray(userReservations) ? userReservations : [];
-  const requestsArray = Array.isArray(userLoanRequests) ? userLoanRequests : [];
+  const holdsArray = Array.isArray(userHolds) ? userHolds : [];
   const activeLoansArray = Array.isArray(activeLoans) ? activeLoans : [];
 
-  const hasActiveReservation = (book: any) => {
-    return reservationsArray.some(
-      (r: any) => (r.bookId === book.id || r.bookTitle === book.title) &&
-        (r.status === "pending" || r.status === "notified")
-    );
-  };
-
-  const hasPendingRequest = (book: any) => {
-    return requestsArray.some(
-      (r: any) => (r.bookId === book.id || r.bookTitle === book.title) &&
-        r.status === "pending"
-    );
+  const getOpenHold = (book: any) => {
+    return holdsArray.find((h) => h.bookId === book.id || h.bookTitle === book.title);
   };
 
   const hasActiveLoan = (book: any) => {
@@ -218,167 +164,161 @@ export default function BookSearch() {
             <CardDescription>Pesquise por título, autor ou ISBN</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:flex md:flex-row gap-4">
-              <div className="flex-1 w-full sm:col-span-2 md:col-span-1">
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1 w-full">
                 <Input
                   placeholder="Pesquisar livros..."
                   value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  onChange={(e) => setParams({ search: e.target.value })}
                   data-testid="input-search"
                   className="w-full"
                 />
               </div>
-              <Select value={selectedDepartment} onValueChange={setSelectedDepartment}>
-                <SelectTrigger className="w-full md:w-[200px]" data-testid="select-department">
-                  <SelectValue placeholder="Departamento" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">Todos</SelectItem>
-                  <SelectItem value="engenharia">Engenharia</SelectItem>
-                  <SelectItem value="ciencias-sociais">Ciências Sociais</SelectItem>
-                  <SelectItem value="outros">Outros</SelectItem>
-                </SelectContent>
-              </Select>
-              <Select value={selectedCategory} onValueChange={setSelectedCategory}>
-                <SelectTrigger className="w-full md:w-[200px]" data-testid="select-category">
-                  <SelectValue placeholder="Categoria" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">Todas</SelectItem>
-                  {categoriesArray.map((cat: any) => (
-                    <SelectItem key={cat.id} value={cat.id}>
-                      {cat.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <CatalogueSortSelect
+                value={effectiveSort}
+                onChange={(val) => setParams({ sort: val })}
+                searching={!!searchTerm}
+              />
             </div>
           </CardContent>
         </Card>
 
-        {booksLoading ? (
-          <div className="text-center py-12">
-            <p className="text-muted-foreground">Carregando livros...</p>
-          </div>
-        ) : booksArray.length === 0 ? (
-          <Card>
-            <CardContent className="py-12">
-              <div className="text-center text-muted-foreground">
-                <Search className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                <p>Nenhum livro encontrado</p>
+        <div className="grid gap-6 lg:grid-cols-[260px_1fr] items-start">
+          <CatalogueFacetsPanel facets={facets} params={params} categories={categoriesArray} onChange={setParams} />
+
+          <div>
+            {booksLoading ? (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">Carregando livros...</p>
               </div>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {booksArray.map((book: any) => {
-              const category = categoriesArray.find((c: any) => c.id === book.categoryId);
-              const alreadyReserved = hasActiveReservation(book);
+            ) : booksArray.length === 0 ? (
+              <Card>
+                <CardContent className="py-12">
+                  <div className="text-center text-muted-foreground">
+                    <Search className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                    <p>Nenhum livro encontrado</p>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
+                {booksArray.map((book: any) => {
+                  const category = categoriesArray.find((c: any) => c.id === book.categoryId);
+                  const openHold = getOpenHold(book);
 
-              return (
-                <Card
-                  key={book.id}
-                  data-testid={`card-book-${book.id}`}
-                  className={`border-2 ${book.tag === 'red' ? 'border-red-500 shadow-red-100/50' :
-                    book.tag === 'yellow' ? 'border-yellow-500 shadow-yellow-100/50' :
-                      'border-gray-200'
-                    } transition-all hover:shadow-md overflow-hidden`}
-                >
-                  <CardHeader>
-                    <div className="flex items-start justify-between gap-2">
-                      <CardTitle className="text-lg">{book.title}</CardTitle>
-                      <Badge variant="outline" className={`${tagColors[book.tag as keyof typeof tagColors].bg} ${tagColors[book.tag as keyof typeof tagColors].text} ${tagColors[book.tag as keyof typeof tagColors].border} border-2 font-bold px-3 py-1 flex-shrink-0`}>
-                        <Tag className="h-3 w-3 mr-1.5" />
-                        {tagColors[book.tag as keyof typeof tagColors].label}
-                      </Badge>
-                    </div>
-                    <CardDescription>{book.author}</CardDescription>
-                  </CardHeader>
-                  <CardContent className="space-y-3">
-                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                      <MapPin className="h-4 w-4" />
-                      <span>{getDepartmentLabel(book.department)}</span>
-                    </div>
-                    {category && (
-                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                        <BookOpen className="h-4 w-4" />
-                        <span>{category.name}</span>
-                      </div>
-                    )}
-                    {book.description && (
-                      <p className="text-sm text-muted-foreground line-clamp-2">{book.description}</p>
-                    )}
-                    <div className="flex items-center justify-between pt-2">
-                      <span className="text-sm font-medium">
-                        {book.availableCopies > 0 ? (
-                          <span className="text-green-600">{book.availableCopies} de {book.totalCopies} disponível(is)</span>
-                        ) : (
-                          <span className="text-red-600">Indisponível (0 de {book.totalCopies})</span>
-                        )}
-                      </span>
-                    </div>
-                    {/* Priority logic for buttons */}
-                    {!isAdmin && (
-                      <>
-                        {book.tag === "red" ? (
-                          <div className="flex flex-col items-center p-3 bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-800 rounded-md mb-2">
-                            <span className="font-bold text-amber-600 dark:text-amber-400">Consulta Local</span>
-                            <span className="text-xs text-muted-foreground text-center">Este exemplar está disponível apenas para consulta no interior da biblioteca.</span>
+                  return (
+                    <Card
+                      key={book.id}
+                      data-testid={`card-book-${book.id}`}
+                      className={`border-2 ${book.tag === 'red' ? 'border-red-500 shadow-red-100/50' :
+                        book.tag === 'yellow' ? 'border-yellow-500 shadow-yellow-100/50' :
+                          'border-gray-200'
+                        } transition-all hover:shadow-md overflow-hidden`}
+                    >
+                      <CardHeader>
+                        <div className="flex items-start justify-between gap-2">
+                          <CardTitle className="text-lg">{book.title}</CardTitle>
+                          <Badge variant="outline" className={`${tagColors[book.tag as keyof typeof tagColors].bg} ${tagColors[book.tag as keyof typeof tagColors].text} ${tagColors[book.tag as keyof typeof tagColors].border} border-2 font-bold px-3 py-1 flex-shrink-0`}>
+                            <Tag className="h-3 w-3 mr-1.5" />
+                            {tagColors[book.tag as keyof typeof tagColors].label}
+                          </Badge>
+                        </div>
+                        <CardDescription>{book.author}</CardDescription>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <MapPin className="h-4 w-4" />
+                          <span>{getDepartmentLabel(book.department)}</span>
+                        </div>
+                        {category && (
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <BookOpen className="h-4 w-4" />
+                            <span>{category.name}</span>
                           </div>
-                        ) : hasActiveLoan(book) ? (
-                          <div className="flex flex-col items-center p-3 bg-green-50 dark:bg-green-900/10 border border-green-200 dark:border-green-800 rounded-md mb-2">
-                            <span className="font-bold text-green-600 dark:text-green-400">Já reservaste (Empréstimo Ativo)</span>
-                            <span className="text-xs text-muted-foreground">Devolver até {format(new Date(getActiveLoan(book).dueDate), "dd/MM/yyyy", { locale: pt })}</span>
-                          </div>
-                        ) : hasPendingRequest(book) ? (
-                          <Button
-                            className="w-full"
-                            variant="outline"
-                            onClick={() => cancelRequestMutation.mutate(book.id)}
-                            disabled={cancelRequestMutation.isPending}
-                          >
-                            <LogOut className="h-4 w-4 mr-2 rotate-180" />
-                            Cancelar Solicitação
-                          </Button>
-                        ) : book.availableCopies === 0 ? (
-                          <Button
-                            className="w-full"
-                            variant={alreadyReserved ? "destructive" : "secondary"}
-                            onClick={() => alreadyReserved ? cancelReservationMutation.mutate(book.id) : reserveMutation.mutate(book.id)}
-                            disabled={reserveMutation.isPending || cancelReservationMutation.isPending}
-                          >
-                            {alreadyReserved ? <X className="h-4 w-4 mr-2" /> : <Calendar className="h-4 w-4 mr-2" />}
-                            {alreadyReserved ? "Cancelar Reserva" : "Entrar na Lista de Espera"}
-                          </Button>
-                        ) : (
-                          <Button
-                            className="w-full"
-                            onClick={() => requestLoanMutation.mutate(book.id)}
-                            disabled={requestLoanMutation.isPending}
-                          >
-                            <BookOpen className="h-4 w-4 mr-2" />
-                            Solicitar Empréstimo
-                          </Button>
                         )}
-                      </>
-                    )}
-                    <Dialog>
-                      <DialogTrigger asChild>
-                        <Button variant="outline" className="w-full mt-2">
-                          <MessageSquare className="h-4 w-4 mr-2" />
-                          Avaliações e Comentários
-                        </Button>
-                      </DialogTrigger>
-                      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
-                        <ReviewList bookId={book.id} />
-                      </DialogContent>
-                    </Dialog>
-                  </CardContent>
-                </Card>
-              );
-            })}
+                        {book.description && (
+                          <p className="text-sm text-muted-foreground line-clamp-2">{book.description}</p>
+                        )}
+                        <div className="flex items-center justify-between pt-2">
+                          <span className="text-sm font-medium">
+                            {book.availableCopies > 0 ? (
+                              <span className="text-green-600">{book.availableCopies} de {book.totalCopies} disponível(is)</span>
+                            ) : (
+                              <span className="text-red-600">Indisponível (0 de {book.totalCopies})</span>
+                            )}
+                          </span>
+                        </div>
+                        {/* Priority logic for buttons */}
+                        {!isAdmin && (
+                          <>
+                            {book.tag === "red" ? (
+                              <div className="flex flex-col items-center p-3 bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-800 rounded-md mb-2">
+                                <span className="font-bold text-amber-600 dark:text-amber-400">Consulta Local</span>
+                                <span className="text-xs text-muted-foreground text-center">Este exemplar está disponível apenas para consulta no interior da biblioteca.</span>
+                              </div>
+                            ) : hasActiveLoan(book) ? (
+                              <div className="flex flex-col items-center p-3 bg-green-50 dark:bg-green-900/10 border border-green-200 dark:border-green-800 rounded-md mb-2">
+                                <span className="font-bold text-green-600 dark:text-green-400">Já reservaste (Empréstimo Ativo)</span>
+                                <span className="text-xs text-muted-foreground">Devolver até {format(new Date(getActiveLoan(book).dueDate), "dd/MM/yyyy", { locale: pt })}</span>
+                              </div>
+                            ) : openHold ? (
+                              <div className="space-y-2">
+                                <Badge variant="outline" className={`w-full justify-center py-1.5 ${holdStatusConfig[openHold.status].color}`}>
+                                  {holdStatusConfig[openHold.status].text}
+                                </Badge>
+                                <Button
+                                  className="w-full"
+                                  variant="outline"
+                                  onClick={() => cancelHoldMutation.mutate(openHold.id)}
+                                  disabled={cancelHoldMutation.isPending}
+                                >
+                                  <X className="h-4 w-4 mr-2" />
+                                  {openHold.status === "requested" ? "Cancelar Solicitação" : "Cancelar Reserva"}
+                                </Button>
+                              </div>
+                            ) : (
+                              <Button
+                                className="w-full"
+                                variant={book.availableCopies === 0 ? "secondary" : "default"}
+                                onClick={() => placeHoldMutation.mutate(book.id)}
+                                disabled={placeHoldMutation.isPending}
+                              >
+                                {book.availableCopies === 0 ? <Calendar className="h-4 w-4 mr-2" /> : <BookOpen className="h-4 w-4 mr-2" />}
+                                {book.availableCopies === 0 ? "Entrar na Lista de Espera" : "Solicitar Empréstimo"}
+                              </Button>
+                            )}
+                          </>
+                        )}
+                        <Dialog>
+                          <DialogTrigger asChild>
+                            <Button variant="outline" className="w-full mt-2">
+                              <MessageSquare className="h-4 w-4 mr-2" />
+                              Avaliações e Comentários
+                            </Button>
+                          </DialogTrigger>
+                          <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+                            <ReviewList bookId={book.id} />
+                          </DialogContent>
+                        </Dialog>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+
+            {catalogue && catalogue.total > 0 && (
+              <div className="mt-6">
+                <CataloguePagination
+                  page={catalogue.page}
+                  pageSize={catalogue.pageSize}
+                  total={catalogue.total}
+                  onPageChange={(next) => setParams({ page: String(next) })}
+                />
+              </div>
+            )}
           </div>
-        )}
+        </div>
       </main >
     </div >
   );
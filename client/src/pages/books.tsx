@@ -1,6 +1,7 @@
 import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useLocation } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,7 +12,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Plus, Search, BookOpen, Tag, Camera, Loader2, Edit, Trash2, Star, History, DollarSign, MessageSquare, Wand2, Sparkles, XCircle, RotateCcw } from "lucide-react";
+import { Plus, BookOpen, FileSpreadsheet, Tag, Camera, Loader2, Edit, Trash2, Star, History, DollarSign, MessageSquare, Wand2, Sparkles, XCircle, RotateCcw, Barcode } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import {
   AlertDialog,
@@ -26,6 +27,10 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Label } from "@/components/ui/label";
+import type { BookCopy, CatalogueSort } from "@shared/schema";
+import { CataloguePagination, CatalogueSortSelect, type CataloguePage } from "@/components/catalogue-controls";
+import { BookQueryInput, Highlight } from "@/components/book-query";
+import { parseBookQuery, bookQueryTerms } from "@shared/book-query";
 
 const bookFormSchema = z.object({
   title: z.string().min(1, "Título é obrigatório"),
@@ -37,7 +42,6 @@ const bookFormSchema = z.object({
   categoryId: z.string().min(1, "Categoria é obrigatória"),
   tag: z.enum(["red", "yellow", "white"]),
   totalCopies: z.number().min(1),
-  availableCopies: z.number().min(0),
   description: z.string().optional(),
 });
 
@@ -90,13 +94,190 @@ function BookReviewsDialog({ bookId, open, onOpenChange, bookTitle }: BookReview
   );
 }
 
+const copyStatusLabels: Record<string, { text: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  available: { text: "Disponível", variant: "default" },
+  on_loan: { text: "Emprestado", variant: "secondary" },
+  on_hold: { text: "Reservado", variant: "secondary" },
+  in_repair: { text: "Em reparação", variant: "outline" },
+  lost: { text: "Perdido", variant: "destructive" },
+  withdrawn: { text: "Abatido", variant: "outline" },
+};
+
+const copyConditionLabels: Record<string, string> = {
+  new: "Novo",
+  good: "Bom",
+  fair: "Razoável",
+  poor: "Mau",
+  damaged: "Danificado",
+};
+
+interface BookCopiesDialogProps {
+  bookId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bookTitle?: string;
+}
+
+function BookCopiesDialog({ bookId, open, onOpenChange, bookTitle }: BookCopiesDialogProps) {
+  const { toast } = useToast();
+  const [barcode, setBarcode] = useState("");
+  const [accessionNumber, setAccessionNumber] = useState("");
+  const [shelfLocation, setShelfLocation] = useState("");
+
+  const { data: copies, isLoading } = useQuery<BookCopy[]>({
+    queryKey: ["/api/books", bookId, "copies"],
+    enabled: !!bookId && open,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/books"] });
+  };
+
+  const addCopyMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/books/${bookId}/copies`, {
+        barcode: barcode.trim() || undefined,
+        accessionNumber: accessionNumber.trim() || undefined,
+        shelfLocation: shelfLocation.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      setBarcode("");
+      setAccessionNumber("");
+      toast({ title: "Exemplar adicionado" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao adicionar exemplar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateCopyMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<BookCopy> }) => {
+      return apiRequest("PATCH", `/api/copies/${id}`, data);
+    },
+    onSuccess: invalidate,
+    onError: (error: any) => {
+      toast({ title: "Erro ao atualizar exemplar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteCopyMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/copies/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Exemplar removido" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao remover exemplar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Exemplares: {bookTitle}</DialogTitle>
+          <DialogDescription>Cada exemplar físico tem o seu código de barras, localização e estado.</DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            addCopyMutation.mutate();
+          }}
+        >
+          <div className="space-y-1">
+            <Label className="text-xs">Código de barras</Label>
+            <Input value={barcode} onChange={(e) => setBarcode(e.target.value)} placeholder="Gerado automaticamente" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">N.º de registo</Label>
+            <Input value={accessionNumber} onChange={(e) => setAccessionNumber(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Localização</Label>
+            <Input value={shelfLocation} onChange={(e) => setShelfLocation(e.target.value)} placeholder="Ex: Estante A3" />
+          </div>
+          <Button type="submit" disabled={addCopyMutation.isPending}>
+            {addCopyMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Adicionar
+          </Button>
+        </form>
+
+        <div className="space-y-2 mt-4">
+          {isLoading ? (
+            <div className="flex justify-center p-8"><Loader2 className="h-6 w-6 animate-spin" /></div>
+          ) : !copies || copies.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">Nenhum exemplar registado.</div>
+          ) : (
+            copies.map((copy) => (
+              <div key={copy.id} className="flex flex-wrap items-center gap-3 p-3 bg-muted/30 rounded-lg border" data-testid={`row-copy-${copy.id}`}>
+                <div className="flex-1 min-w-[10rem]">
+                  <p className="font-mono text-sm font-bold">{copy.barcode}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {copy.accessionNumber ? `Registo ${copy.accessionNumber}` : "Sem n.º de registo"}
+                    {copy.shelfLocation ? ` · ${copy.shelfLocation}` : ""}
+                  </p>
+                </div>
+                <Select
+                  value={copy.condition}
+                  onValueChange={(condition) => updateCopyMutation.mutate({ id: copy.id, data: { condition: condition as BookCopy["condition"] } })}
+                >
+                  <SelectTrigger className="w-32 h-8"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(copyConditionLabels).map(([value, text]) => (
+                      <SelectItem key={value} value={value}>{text}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {copy.status === "on_hold" ? (
+                  <Badge variant={copyStatusLabels.on_hold.variant}>{copyStatusLabels.on_hold.text}</Badge>
+                ) : (
+                  /* A copy that is out can only be declared lost */
+                  <Select
+                    value={copy.status}
+                    onValueChange={(status) => updateCopyMutation.mutate({ id: copy.id, data: { status: status as BookCopy["status"] } })}
+                  >
+                    <SelectTrigger className="w-36 h-8"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(copyStatusLabels)
+                        .filter(([value]) => copy.status === "on_loan" ? value === "on_loan" || value === "lost" : value !== "on_loan" && value !== "on_hold")
+                        .map(([value, cfg]) => (
+                          <SelectItem key={value} value={value} disabled={value === "on_loan"}>{cfg.text}</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                  onClick={() => deleteCopyMutation.mutate(copy.id)}
+                  disabled={copy.status === "on_loan" || copy.status === "on_hold" || deleteCopyMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 const tagColors = {
-  white: { bg: "bg-white", text: "text-gray-800", border: "border-gray-300", label: "Etiqueta Branca (5 Dias)" },
-  yellow: { bg: "bg-yellow-400", text: "text-yellow-900", border: "border-yellow-600", label: "Etiqueta Amarela (1 Dia)" },
+  white: { bg: "bg-white", text: "text-gray-800", border: "border-gray-300", label: "Etiqueta Branca" },
+  yellow: { bg: "bg-yellow-400", text: "text-yellow-900", border: "border-yellow-600", label: "Etiqueta Amarela" },
   red: { bg: "bg-red-600", text: "text-white", border: "border-red-800", label: "Etiqueta Vermelha (Uso Local)" },
 };
 
 export default function Books() {
+  const [, setLocation] = useLocation();
   const [searchQuery, setSearchQuery] = useState("");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingBook, setEditingBook] = useState<any | null>(null);
@@ -104,7 +285,10 @@ export default function Books() {
   const [isSearchingWeb, setIsSearchingWeb] = useState(false);
   const [searchResults, setSearchResults] = useState<any[] | null>(null);
   const [selectedCategoryFilter, setSelectedCategoryFilter] = useState<string>("all");
+  const [sort, setSort] = useState<CatalogueSort | null>(null);
+  const [page, setPage] = useState(1);
   const [viewingReviewsBook, setViewingReviewsBook] = useState<any | null>(null);
+  const [managingCopiesBook, setManagingCopiesBook] = useState<any | null>(null);
   const [magicQuery, setMagicQuery] = useState("");
   const [queuedImages, setQueuedImages] = useState<string[]>([]);
   const [isMagicLoading, setIsMagicLoading] = useState(false);
@@ -258,16 +442,23 @@ export default function Books() {
     }
   };
 
-  const { data: books, isLoading } = useQuery<any[]>({
-    queryKey: ["/api/books", searchQuery, selectedCategoryFilter],
-    queryFn: async () => {
-      const params = new URLSearchParams();
-      if (searchQuery) params.append("search", searchQuery);
-      if (selectedCategoryFilter !== "all") params.append("categoryId", selectedCategoryFilter);
-      const res = await apiRequest("GET", `/api/books?${params.toString()}`);
-      return res.json();
-    }
+  // Checked here as it is typed; the last valid query's results stay up meanwhile
+  const parsedQuery = parseBookQuery(searchQuery);
+  const highlightTerms = bookQueryTerms(parsedQuery.query);
+  // Advanced queries are not ranked, so there is no relevance order
+  const effectiveSort: CatalogueSort = sort ?? "title";
+
+  const { data: catalogue, isLoading } = useQuery<CataloguePage<any>>({
+    queryKey: ["/api/books", {
+      q: searchQuery.trim() || undefined,
+      categoryId: selectedCategoryFilter !== "all" ? selectedCategoryFilter : undefined,
+      sort: effectiveSort,
+      page,
+    }],
+    enabled: !parsedQuery.error,
+    placeholderData: keepPreviousData,
   });
+  const books = catalogue?.books;
 
   const { data: categories } = useQuery<any[]>({
     queryKey: ["/api/categories"],
@@ -288,7 +479,6 @@ export default function Books() {
       categoryId: "",
       tag: "white",
       totalCopies: 1,
-      availableCopies: 1,
       description: "",
     },
   });
@@ -304,7 +494,6 @@ export default function Books() {
       categoryId: "",
       tag: "white",
       totalCopies: 1,
-      availableCopies: 1,
       description: "",
     });
     setIsDialogOpen(true);
@@ -321,8 +510,7 @@ export default function Books() {
       categoryId: book.categoryId || undefined,
       authorId: book.authorId || undefined,
       tag: book.tag,
-      totalCopies: book.totalCopies,
-      availableCopies: book.availableCopies,
+      totalCopies: Math.max(1, book.totalCopies),
       description: book.description || "",
     });
     setIsDialogOpen(true);
@@ -380,13 +568,17 @@ export default function Books() {
 
   return (
     <div className="flex-1 space-y-6 p-6">
-      <div className="flex items-center justify-between">
-        <div>
+      <div className="flex items-center gap-2">
+        <div className="mr-auto">
           <h1 className="text-3xl font-bold tracking-tight">Gestão de Livros</h1>
           <p className="text-muted-foreground">
             Gerir o acervo bibliográfico da instituição
           </p>
         </div>
+        <Button variant="outline" onClick={() => setLocation("/books/import")} data-testid="button-import-books">
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          Importar
+        </Button>
         <Dialog open={isDialogOpen} onOpenChange={(open) => {
           setIsDialogOpen(open);
           if (!open) {
@@ -684,24 +876,25 @@ export default function Books() {
                         </FormControl>
                         <SelectContent>
                           <SelectItem value="red">Vermelha (Uso na Biblioteca)</SelectItem>
-                          <SelectItem value="yellow">Amarela (1 Dia)</SelectItem>
-                          <SelectItem value="white">Branca (5 Dias)</SelectItem>
+                          <SelectItem value="yellow">Amarela</SelectItem>
+                          <SelectItem value="white">Branca</SelectItem>
                         </SelectContent>
                       </Select>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-                <div className="grid grid-cols-2 gap-4">
+                {!editingBook && (
                   <FormField
                     control={form.control}
                     name="totalCopies"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Total de Exemplares</FormLabel>
+                        <FormLabel>Número de Exemplares</FormLabel>
                         <FormControl>
                           <Input
                             type="number"
+                            min={1}
                             {...field}
                             onChange={(e) => field.onChange(parseInt(e.target.value))}
                             data-testid="input-total-copies"
@@ -711,25 +904,7 @@ export default function Books() {
                       </FormItem>
                     )}
                   />
-                  <FormField
-                    control={form.control}
-                    name="availableCopies"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Exemplares Disponíveis</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            {...field}
-                            onChange={(e) => field.onChange(parseInt(e.target.value))}
-                            data-testid="input-available-copies"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
+                )}
                 <FormField
                   control={form.control}
                   name="description"
@@ -757,21 +932,20 @@ export default function Books() {
         </Dialog>
       </div>
 
-      <div className="flex flex-col md:flex-row gap-4">
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-          <Input
-            placeholder="Buscar por título, autor ou ISBN..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10"
-            data-testid="input-search"
-          />
-        </div>
+      <div className="flex flex-col md:flex-row md:items-start gap-4">
+        <BookQueryInput
+          value={searchQuery}
+          onChange={(value) => {
+            setSearchQuery(value);
+            setPage(1);
+          }}
+          error={parsedQuery.error}
+        />
         <Select
           value={selectedCategoryFilter}
           onValueChange={(val) => {
             setSelectedCategoryFilter(val);
+            setPage(1);
           }}
         >
           <SelectTrigger className="w-full md:w-[200px]" data-testid="select-category-filter">
@@ -786,6 +960,14 @@ export default function Books() {
             ))}
           </SelectContent>
         </Select>
+        <CatalogueSortSelect
+          value={effectiveSort}
+          onChange={(val) => {
+            setSort(val);
+            setPage(1);
+          }}
+          searching={false}
+        />
       </div>
 
       {isLoading ? (
@@ -807,14 +989,14 @@ export default function Books() {
             >
               <CardHeader className="pb-3">
                 <div className="flex items-start justify-between gap-2">
-                  <CardTitle className="text-lg line-clamp-2">{book.title}</CardTitle>
+                  <CardTitle className="text-lg line-clamp-2"><Highlight text={book.title} terms={highlightTerms} /></CardTitle>
                   <Badge variant="outline" className={`${tagColors[book.tag as keyof typeof tagColors].bg} ${tagColors[book.tag as keyof typeof tagColors].text} ${tagColors[book.tag as keyof typeof tagColors].border} border-2 font-bold px-3 py-1 flex-shrink-0 animate-pulse-slow`}>
                     <Tag className="h-3 w-3 mr-1.5" />
                     {tagColors[book.tag as keyof typeof tagColors].label}
                   </Badge>
                 </div>
                 <div className="flex flex-col gap-1">
-                  <p className="text-sm text-muted-foreground">{book.author}</p>
+                  <p className="text-sm text-muted-foreground"><Highlight text={book.author} terms={highlightTerms} /></p>
                   <div
                     className="flex items-center gap-1.5 mt-1 cursor-pointer hover:underline decoration-yellow-400"
                     onClick={() => setViewingReviewsBook(book)}
@@ -832,13 +1014,13 @@ export default function Books() {
                 {book.isbn && (
                   <div className="flex items-center gap-2 text-sm">
                     <span className="text-muted-foreground">ISBN:</span>
-                    <span className="font-mono">{book.isbn}</span>
+                    <span className="font-mono"><Highlight text={book.isbn} terms={highlightTerms} /></span>
                   </div>
                 )}
                 {book.publisher && (
                   <div className="flex items-center gap-2 text-sm">
                     <span className="text-muted-foreground">Editora:</span>
-                    <span>{book.publisher}</span>
+                    <span><Highlight text={book.publisher} terms={highlightTerms} /></span>
                   </div>
                 )}
 
@@ -865,6 +1047,15 @@ export default function Books() {
                     </span>
                   </div>
                   <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-primary"
+                      onClick={() => setManagingCopiesBook(book)}
+                      data-testid={`button-copies-${book.id}`}
+                    >
+                      <Barcode className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="icon"
@@ -914,6 +1105,10 @@ export default function Books() {
         </div>
       )}
 
+      {catalogue && catalogue.total > 0 && (
+        <CataloguePagination page={page} pageSize={catalogue.pageSize} total={catalogue.total} onPageChange={setPage} />
+      )}
+
       {!isLoading && books?.length === 0 && (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
@@ -933,6 +1128,12 @@ export default function Books() {
         open={!!viewingReviewsBook}
         onOpenChange={(open) => !open && setViewingReviewsBook(null)}
       />
+      <BookCopiesDialog
+        bookId={managingCopiesBook?.id || null}
+        bookTitle={managingCopiesBook?.title}
+        open={!!managingCopiesBook}
+        onOpenChange={(open) => !open && setManagingCopiesBook(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,342 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Edit, Trash2, Loader2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { OpeningHours, CalendarEvent } from "@shared/schema";
+
+const weekdayLabels = ["Domingo", "Segunda-feira", "Terça-feira", "Quarta-feira", "Quinta-feira", "Sexta-feira", "Sábado"];
+
+const eventTypeConfig: Record<string, { text: string; color: string }> = {
+  holiday: { text: "Feriado", color: "bg-red-600 text-white" },
+  exam_period: { text: "Época de Exames", color: "bg-chart-3 text-white" },
+  semester_break: { text: "Férias", color: "bg-chart-2 text-white" },
+  closure: { text: "Encerramento", color: "bg-muted-foreground text-white" },
+};
+
+interface EventFormState {
+  name: string;
+  type: string;
+  startDate: string;
+  endDate: string;
+  libraryClosed: boolean;
+  notes: string;
+}
+
+const emptyEventForm: EventFormState = {
+  name: "",
+  type: "holiday",
+  startDate: "",
+  endDate: "",
+  libraryClosed: true,
+  notes: "",
+};
+
+function OpeningHoursRow({ weekday, hours }: { weekday: number; hours?: OpeningHours }) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [opensAt, setOpensAt] = useState("08:00");
+  const [closesAt, setClosesAt] = useState("20:00");
+
+  useEffect(() => {
+    setIsOpen(hours?.isOpen ?? false);
+    setOpensAt(hours?.opensAt || "08:00");
+    setClosesAt(hours?.closesAt || "20:00");
+  }, [hours]);
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PUT", `/api/calendar/opening-hours/${weekday}`, { isOpen, opensAt, closesAt });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar"] });
+      toast({ title: "Horário atualizado", description: weekdayLabels[weekday] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao guardar horário", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <TableRow data-testid={`row-opening-hours-${weekday}`}>
+      <TableCell className="font-medium">{weekdayLabels[weekday]}</TableCell>
+      <TableCell>
+        <Switch checked={isOpen} onCheckedChange={setIsOpen} />
+      </TableCell>
+      <TableCell>
+        <Input type="time" className="w-32" value={opensAt} disabled={!isOpen} onChange={(e) => setOpensAt(e.target.value)} />
+      </TableCell>
+      <TableCell>
+        <Input type="time" className="w-32" value={closesAt} disabled={!isOpen} onChange={(e) => setClosesAt(e.target.value)} />
+      </TableCell>
+      <TableCell className="text-right">
+        <Button size="sm" variant="outline" onClick={() => mutation.mutate()} disabled={mutation.isPending}>
+          {mutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function AcademicCalendar() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<CalendarEvent | null>(null);
+  const [form, setForm] = useState<EventFormState>(emptyEventForm);
+
+  const { data, isLoading } = useQuery<{ openingHours: OpeningHours[]; events: CalendarEvent[] }>({
+    queryKey: ["/api/calendar"],
+  });
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const payload = { ...form, notes: form.notes || null };
+      if (editingEvent) {
+        return apiRequest("PATCH", `/api/calendar/events/${editingEvent.id}`, payload);
+      }
+      return apiRequest("POST", "/api/calendar/events", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar"] });
+      setIsDialogOpen(false);
+      toast({ title: editingEvent ? "Evento atualizado" : "Evento criado" });
+      setEditingEvent(null);
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao guardar evento", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/calendar/events/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar"] });
+      toast({ title: "Evento removido" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao remover evento", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openAddDialog = () => {
+    setEditingEvent(null);
+    setForm(emptyEventForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (event: CalendarEvent) => {
+    setEditingEvent(event);
+    setForm({
+      name: event.name,
+      type: event.type,
+      startDate: event.startDate,
+      endDate: event.endDate,
+      libraryClosed: event.libraryClosed,
+      notes: event.notes || "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const formatDay = (day: string) => new Date(`${day}T00:00:00`).toLocaleDateString("pt-PT");
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Calendário Académico</h1>
+          <p className="text-muted-foreground">
+            Horários, feriados e encerramentos usados no cálculo de prazos e multas
+          </p>
+        </div>
+        <Button onClick={openAddDialog} data-testid="button-add-event">
+          <Plus className="mr-2 h-4 w-4" />
+          Novo Evento
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Horário de Funcionamento</CardTitle>
+          <CardDescription>
+            Prazos que terminem num dia encerrado passam para o dia de abertura seguinte.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Dia</TableHead>
+                <TableHead>Aberto</TableHead>
+                <TableHead>Abertura</TableHead>
+                <TableHead>Encerramento</TableHead>
+                <TableHead className="text-right">Guardar</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {weekdayLabels.map((_, weekday) => (
+                <OpeningHoursRow
+                  key={weekday}
+                  weekday={weekday}
+                  hours={data?.openingHours.find((h) => h.weekday === weekday)}
+                />
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Feriados e Períodos</CardTitle>
+          <CardDescription>
+            Dias em que a biblioteca está encerrada não contam para multas.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nome</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Início</TableHead>
+                <TableHead>Fim</TableHead>
+                <TableHead>Biblioteca</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                    Carregando calendário...
+                  </TableCell>
+                </TableRow>
+              ) : (data?.events || []).length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                    Nenhum evento registado
+                  </TableCell>
+                </TableRow>
+              ) : (
+                data!.events.map((event) => (
+                  <TableRow key={event.id} data-testid={`row-event-${event.id}`}>
+                    <TableCell className="font-medium">{event.name}</TableCell>
+                    <TableCell>
+                      <Badge className={eventTypeConfig[event.type].color}>{eventTypeConfig[event.type].text}</Badge>
+                    </TableCell>
+                    <TableCell>{formatDay(event.startDate)}</TableCell>
+                    <TableCell>{formatDay(event.endDate)}</TableCell>
+                    <TableCell>{event.libraryClosed ? "Encerrada" : "Aberta"}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="icon" onClick={() => openEditDialog(event)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive"
+                          onClick={() => deleteMutation.mutate(event.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingEvent ? "Editar Evento" : "Novo Evento"}</DialogTitle>
+            <DialogDescription>
+              Registe um feriado, época de exames, férias ou encerramento.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              mutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label>Nome</Label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Ex: Dia da Independência" required />
+            </div>
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select
+                value={form.type}
+                onValueChange={(v) => setForm({ ...form, type: v, libraryClosed: v === "holiday" || v === "closure" })}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(eventTypeConfig).map(([value, cfg]) => (
+                    <SelectItem key={value} value={value}>{cfg.text}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Início</Label>
+                <Input type="date" value={form.startDate} onChange={(e) => setForm({ ...form, startDate: e.target.value })} required />
+              </div>
+              <div className="space-y-2">
+                <Label>Fim</Label>
+                <Input type="date" value={form.endDate} onChange={(e) => setForm({ ...form, endDate: e.target.value })} required />
+              </div>
+            </div>
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <Label>Biblioteca encerrada</Label>
+                <p className="text-xs text-muted-foreground">Prazos e multas ignoram estes dias</p>
+              </div>
+              <Switch checked={form.libraryClosed} onCheckedChange={(v) => setForm({ ...form, libraryClosed: v })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Notas (Opcional)</Label>
+              <Textarea value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+            </div>
+            <Button type="submit" className="w-full" disabled={mutation.isPending}>
+              {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editingEvent ? "Atualizar" : "Criar"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
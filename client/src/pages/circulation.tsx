@@ -0,0 +1,398 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScanBarcode, Camera, UserRound, X, Loader2, ArrowUpRight, ArrowDownLeft, AlertCircle } from "lucide-react";
+import { format } from "date-fns";
+
+interface PatronInfo {
+  user: { id: string; name: string; username: string; userType: string };
+  activeLoans: { id: string; bookTitle: string; copyBarcode: string | null; dueDate: string }[];
+  blockReason: string | null;
+  totalFines: number;
+  maxBooks: number;
+  maxFineAmount: number;
+}
+
+interface ScanResult {
+  action: "checkout" | "checkin";
+  message: string;
+  bookTitle: string;
+  barcode: string;
+  userName: string;
+}
+
+interface LogEntry {
+  id: number;
+  time: Date;
+  barcode: string;
+  ok: boolean;
+  action?: "checkout" | "checkin";
+  bookTitle?: string;
+  userName?: string;
+  message: string;
+}
+
+const userTypeLabels: Record<string, string> = {
+  student: "Estudante",
+  teacher: "Docente",
+  staff: "Funcionário",
+  admin: "Administrador",
+};
+
+// apiRequest errors look like `400: {"message":"..."}`
+function errorMessage(error: any): string {
+  const match = /^\d{3}: ([\s\S]*)$/.exec(error?.message || "");
+  if (match) {
+    try {
+      return JSON.parse(match[1]).message || match[1];
+    } catch {
+      return match[1];
+    }
+  }
+  return error?.message || "Erro desconhecido";
+}
+
+type ScanTarget = "patron" | "item";
+
+function CameraScanner({ target, onDetected, onClose }: { target: ScanTarget | null; onDetected: (code: string) => void; onClose: () => void }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!target) return;
+    setError(null);
+
+    const Detector = (window as any).BarcodeDetector;
+    if (!Detector) {
+      setError("Este navegador não suporta leitura de códigos pela câmara. Use um leitor USB.");
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let cancelled = false;
+    const detector = new Detector({ formats: ["code_128", "code_39", "ean_13", "qr_code"] });
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } })
+      .then((s) => {
+        if (cancelled) {
+          s.getTracks().forEach(t => t.stop());
+          return;
+        }
+        stream = s;
+        if (videoRef.current) {
+          videoRef.current.srcObject = s;
+          videoRef.current.play();
+        }
+        timer = window.setInterval(async () => {
+          if (!videoRef.current || videoRef.current.readyState < 2) return;
+          const codes = await detector.detect(videoRef.current);
+          if (codes.length > 0) {
+            onDetected(codes[0].rawValue);
+          }
+        }, 300);
+      })
+      .catch(() => setError("Não foi possível aceder à câmara."));
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, [target]);
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{target === "patron" ? "Ler cartão do utilizador" : "Ler código do exemplar"}</DialogTitle>
+          <DialogDescription>Aponte a câmara para o código de barras ou QR.</DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : (
+          <video ref={videoRef} className="w-full rounded-lg bg-black" muted playsInline />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function Circulation() {
+  const [patronCode, setPatronCode] = useState("");
+  const [itemCode, setItemCode] = useState("");
+  const [patron, setPatron] = useState<PatronInfo | null>(null);
+  const [patronError, setPatronError] = useState<string | null>(null);
+  const [lastResult, setLastResult] = useState<LogEntry | null>(null);
+  const [log, setLog] = useState<LogEntry[]>([]);
+  const [cameraTarget, setCameraTarget] = useState<ScanTarget | null>(null);
+  const patronInputRef = useRef<HTMLInputElement>(null);
+  const itemInputRef = useRef<HTMLInputElement>(null);
+  const nextLogId = useRef(1);
+
+  const patronMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("GET", `/api/circulation/patron/${encodeURIComponent(code)}`);
+      return res.json() as Promise<PatronInfo>;
+    },
+    onSuccess: (data) => {
+      setPatron(data);
+      setPatronError(null);
+      setPatronCode("");
+      itemInputRef.current?.focus();
+    },
+    onError: (error: any) => {
+      setPatron(null);
+      setPatronError(errorMessage(error));
+      patronInputRef.current?.select();
+    },
+  });
+
+  const addLogEntry = (entry: Omit<LogEntry, "id" | "time">) => {
+    const full = { ...entry, id: nextLogId.current++, time: new Date() };
+    setLastResult(full);
+    setLog((prev) => [full, ...prev]);
+  };
+
+  const scanMutation = useMutation({
+    mutationFn: async (barcode: string) => {
+      const res = await apiRequest("POST", "/api/circulation/scan", { barcode, patronId: patron?.user.id });
+      return res.json() as Promise<ScanResult>;
+    },
+    onSuccess: (data) => {
+      addLogEntry({ ok: true, ...data });
+      queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/books"] });
+      // Refresh the patron panel so the loan count and fines stay accurate
+      if (patron) {
+        patronMutation.mutate(patron.user.username);
+      }
+    },
+    onError: (error: any, barcode) => {
+      addLogEntry({ ok: false, barcode, message: errorMessage(error) });
+    },
+    onSettled: () => {
+      setItemCode("");
+      itemInputRef.current?.focus();
+    },
+  });
+
+  const submitPatron = (code: string) => {
+    if (code.trim()) patronMutation.mutate(code.trim());
+  };
+
+  const submitItem = (code: string) => {
+    if (code.trim() && !scanMutation.isPending) scanMutation.mutate(code.trim());
+  };
+
+  const endSession = () => {
+    setPatron(null);
+    setPatronError(null);
+    setLastResult(null);
+    patronInputRef.current?.focus();
+  };
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Balcão de Circulação</h1>
+        <p className="text-muted-foreground">
+          Leia o cartão do utilizador e depois os exemplares. Exemplares emprestados são devolvidos automaticamente.
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><UserRound className="h-5 w-5" /> Utilizador</CardTitle>
+            <CardDescription>Número de estudante ou funcionário do cartão</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                submitPatron(patronCode);
+              }}
+            >
+              <Input
+                ref={patronInputRef}
+                autoFocus
+                value={patronCode}
+                onChange={(e) => setPatronCode(e.target.value)}
+                placeholder="Ler cartão..."
+                data-testid="input-patron-code"
+              />
+              <Button type="button" variant="outline" size="icon" onClick={() => setCameraTarget("patron")}>
+                <Camera className="h-4 w-4" />
+              </Button>
+            </form>
+
+            {patronMutation.isPending && !patron && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" /> A identificar...
+              </div>
+            )}
+
+            {patronError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{patronError}</AlertDescription>
+              </Alert>
+            )}
+
+            {patron && (
+              <div className="rounded-lg border p-4 space-y-3" data-testid="panel-patron">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="font-semibold text-lg">{patron.user.name}</p>
+                    <p className="text-sm text-muted-foreground">{patron.user.username}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">{userTypeLabels[patron.user.userType] || patron.user.userType}</Badge>
+                    <Button variant="ghost" size="icon" onClick={endSession} title="Terminar atendimento">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <div className="rounded-md bg-muted/40 p-2">
+                    <p className="text-muted-foreground text-xs">Empréstimos</p>
+                    <p className="font-bold">{patron.activeLoans.length} / {patron.maxBooks}</p>
+                  </div>
+                  <div className="rounded-md bg-muted/40 p-2">
+                    <p className="text-muted-foreground text-xs">Multas pendentes</p>
+                    <p className={`font-bold ${patron.maxFineAmount > 0 && patron.totalFines >= patron.maxFineAmount ? "text-destructive" : ""}`}>
+                      {patron.totalFines.toLocaleString()} Kz
+                    </p>
+                  </div>
+                </div>
+                {patron.blockReason && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{patron.blockReason}</AlertDescription>
+                  </Alert>
+                )}
+                {patron.activeLoans.length > 0 && (
+                  <ul className="text-sm space-y-1">
+                    {patron.activeLoans.map((loan) => (
+                      <li key={loan.id} className="flex justify-between gap-2">
+                        <span className="truncate">{loan.bookTitle}</span>
+                        <span className={`shrink-0 ${new Date(loan.dueDate) < new Date() ? "text-destructive" : "text-muted-foreground"}`}>
+                          {format(new Date(loan.dueDate), "dd/MM/yyyy")}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><ScanBarcode className="h-5 w-5" /> Exemplar</CardTitle>
+            <CardDescription>
+              {patron ? `Empréstimos para ${patron.user.name}` : "Sem utilizador: apenas devoluções"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                submitItem(itemCode);
+              }}
+            >
+              <Input
+                ref={itemInputRef}
+                value={itemCode}
+                onChange={(e) => setItemCode(e.target.value)}
+                placeholder="Ler código de barras..."
+                disabled={scanMutation.isPending}
+                data-testid="input-item-barcode"
+              />
+              <Button type="button" variant="outline" size="icon" onClick={() => setCameraTarget("item")}>
+                <Camera className="h-4 w-4" />
+              </Button>
+            </form>
+
+            {scanMutation.isPending && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" /> A processar...
+              </div>
+            )}
+
+            {lastResult && (
+              <Alert variant={lastResult.ok ? "default" : "destructive"} data-testid="alert-scan-result">
+                {lastResult.ok ? (
+                  lastResult.action === "checkout" ? <ArrowUpRight className="h-4 w-4" /> : <ArrowDownLeft className="h-4 w-4" />
+                ) : (
+                  <AlertCircle className="h-4 w-4" />
+                )}
+                <AlertTitle>
+                  {lastResult.ok
+                    ? `${lastResult.action === "checkout" ? "Empréstimo" : "Devolução"}: ${lastResult.bookTitle}`
+                    : `Não processado (${lastResult.barcode})`}
+                </AlertTitle>
+                <AlertDescription>{lastResult.message}</AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Registo da Sessão</CardTitle>
+          <CardDescription>Leituras feitas neste posto desde que a página foi aberta</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {log.length === 0 ? (
+            <p className="text-center text-muted-foreground py-6">Nenhuma leitura nesta sessão</p>
+          ) : (
+            <div className="space-y-2">
+              {log.map((entry) => (
+                <div key={entry.id} className="flex flex-wrap items-center gap-3 text-sm border-b pb-2 last:border-0">
+                  <span className="font-mono text-muted-foreground">{format(entry.time, "HH:mm:ss")}</span>
+                  {entry.ok ? (
+                    <Badge variant={entry.action === "checkout" ? "default" : "secondary"}>
+                      {entry.action === "checkout" ? "Empréstimo" : "Devolução"}
+                    </Badge>
+                  ) : (
+                    <Badge variant="destructive">Erro</Badge>
+                  )}
+                  <span className="font-mono">{entry.barcode}</span>
+                  {entry.bookTitle && <span className="font-medium">{entry.bookTitle}</span>}
+                  {entry.userName && <span className="text-muted-foreground">{entry.userName}</span>}
+                  <span className="text-muted-foreground">{entry.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <CameraScanner
+        target={cameraTarget}
+        onClose={() => setCameraTarget(null)}
+        onDetected={(code) => {
+          const target = cameraTarget;
+          setCameraTarget(null);
+          if (target === "patron") submitPatron(code);
+          else submitItem(code);
+        }}
+      />
+    </div>
+  );
+}
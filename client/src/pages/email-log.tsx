@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Eye, Loader2, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { OutboxEmail } from "@shared/schema";
+
+type EmailStatus = OutboxEmail["status"];
+type OutboxEntry = Omit<OutboxEmail, "html" | "text">;
+
+interface OutboxLog {
+  emails: OutboxEntry[];
+  counts: Record<EmailStatus, number>;
+}
+
+const statusConfig: Record<EmailStatus, { text: string; color: string }> = {
+  pending: { text: "Em fila", color: "bg-slate-100 text-slate-700 border-slate-200" },
+  sending: { text: "A enviar", color: "bg-blue-50 text-blue-700 border-blue-200" },
+  sent: { text: "Enviado", color: "bg-green-50 text-green-700 border-green-200" },
+  failed: { text: "Falhado", color: "bg-red-50 text-red-700 border-red-200" },
+  bounced: { text: "Devolvido", color: "bg-orange-50 text-orange-700 border-orange-200" },
+};
+
+const statuses = Object.keys(statusConfig) as EmailStatus[];
+
+function EmailPreviewDialog({ id, onOpenChange }: { id: string | null; onOpenChange: (open: boolean) => void }) {
+  const { data: email, isLoading } = useQuery<OutboxEmail>({
+    queryKey: ["/api/email-outbox", id],
+    enabled: !!id,
+  });
+
+  return (
+    <Dialog open={!!id} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{email?.subject ?? "Email"}</DialogTitle>
+          <DialogDescription>{email ? `Para ${email.to}` : ""}</DialogDescription>
+        </DialogHeader>
+        {isLoading || !email ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <iframe
+            title="Conteúdo do email"
+            srcDoc={email.html}
+            sandbox=""
+            className="h-[480px] w-full rounded-md border bg-white"
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function EmailLog() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<EmailStatus | null>(null);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<OutboxLog>({
+    queryKey: ["/api/email-outbox", status ? { status } : {}],
+    refetchInterval: 30000,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/email-outbox/${id}/retry`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/email-outbox"] });
+      toast({ title: "Email de novo em fila" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao reenviar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Registo de Emails</h1>
+        <p className="text-muted-foreground">
+          Emails enviados aos utilizadores e estado de cada entrega
+        </p>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+        {statuses.map(s => (
+          <Card
+            key={s}
+            onClick={() => setStatus(status === s ? null : s)}
+            className={`cursor-pointer hover-elevate ${status === s ? "ring-2 ring-primary" : ""}`}
+            data-testid={`card-email-status-${s}`}
+          >
+            <CardHeader className="pb-2">
+              <CardDescription>{statusConfig[s].text}</CardDescription>
+              <CardTitle className="text-2xl">{data?.counts[s] ?? 0}</CardTitle>
+            </CardHeader>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{status ? `Emails: ${statusConfig[status].text.toLowerCase()}` : "Últimos emails"}</CardTitle>
+          <CardDescription>
+            Os envios falhados são repetidos automaticamente até 5 vezes; os devolvidos foram recusados pelo servidor do destinatário
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : !data?.emails.length ? (
+            <p className="text-center text-muted-foreground py-8">Nenhum email encontrado</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Destinatário</TableHead>
+                  <TableHead>Assunto</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead className="text-center">Tentativas</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.emails.map(email => (
+                  <TableRow key={email.id} data-testid={`row-email-${email.id}`}>
+                    <TableCell className="whitespace-nowrap">{new Date(email.createdAt).toLocaleString("pt-PT")}</TableCell>
+                    <TableCell>{email.to}</TableCell>
+                    <TableCell className="max-w-xs">
+                      <p className="truncate">{email.subject}</p>
+                      {email.lastError && email.status !== "sent" && (
+                        <p className="text-xs text-destructive truncate" title={email.lastError}>{email.lastError}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={statusConfig[email.status].color}>
+                        {statusConfig[email.status].text}
+                      </Badge>
+                      {email.status === "pending" && email.attempts > 0 && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Nova tentativa às {new Date(email.nextAttemptAt).toLocaleTimeString("pt-PT", { hour: "2-digit", minute: "2-digit" })}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center">{email.attempts}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="icon" onClick={() => setPreviewId(email.id)} data-testid={`button-view-email-${email.id}`}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      {(email.status === "failed" || email.status === "bounced") && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => retryMutation.mutate(email.id)}
+                          disabled={retryMutation.isPending}
+                          data-testid={`button-retry-email-${email.id}`}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <EmailPreviewDialog id={previewId} onOpenChange={(open) => !open && setPreviewId(null)} />
+    </div>
+  );
+}
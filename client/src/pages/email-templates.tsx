@@ -0,0 +1,255 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Eye, Loader2, RotateCcw, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+type Language = "pt" | "en";
+
+interface TemplateVersion {
+  language: Language;
+  subject: string;
+  body: string;
+  customized: boolean;
+  updatedAt: string | null;
+}
+
+interface EmailTemplateEntry {
+  key: string;
+  name: string;
+  variables: string[];
+  languages: TemplateVersion[];
+}
+
+interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const languageLabels: Record<Language, string> = {
+  pt: "Português",
+  en: "English",
+};
+
+export default function EmailTemplates() {
+  const { toast } = useToast();
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [language, setLanguage] = useState<Language>("pt");
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [preview, setPreview] = useState<RenderedEmail | null>(null);
+
+  const { data: templates = [], isLoading } = useQuery<EmailTemplateEntry[]>({
+    queryKey: ["/api/email-templates"],
+  });
+
+  const selected = templates.find(t => t.key === selectedKey) ?? templates[0];
+  const version = selected?.languages.find(v => v.language === language);
+  const dirty = !!version && (subject !== version.subject || body !== version.body);
+
+  // Load the saved text whenever another template or language is picked
+  useEffect(() => {
+    if (version) {
+      setSubject(version.subject);
+      setBody(version.body);
+      setPreview(null);
+    }
+  }, [selected?.key, language, version?.subject, version?.body]);
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/email-templates/${selected!.key}/preview`, { language, subject, body });
+      return res.json() as Promise<RenderedEmail>;
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error: any) => {
+      toast({ title: "Erro na pré-visualização", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/email-templates/${selected!.key}/${language}`, { subject, body });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/email-templates"] });
+      toast({ title: "Modelo guardado", description: "Os próximos emails já usam este texto." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao guardar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/email-templates/${selected!.key}/${language}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/email-templates"] });
+      toast({ title: "Modelo reposto", description: "Voltou a ser usado o texto original." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao repor", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Modelos de Email</h1>
+        <p className="text-muted-foreground">
+          Texto dos emails enviados aos utilizadores, em português e inglês
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+          <Card>
+            <CardHeader>
+              <CardTitle>Modelos</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {templates.map(template => (
+                <button
+                  key={template.key}
+                  onClick={() => setSelectedKey(template.key)}
+                  className={`w-full rounded-md px-3 py-2 text-left text-sm hover-elevate ${template.key === selected?.key ? "bg-accent font-medium" : ""}`}
+                  data-testid={`button-template-${template.key}`}
+                >
+                  <span className="block">{template.name}</span>
+                  {template.languages.some(v => v.customized) && (
+                    <span className="text-xs text-muted-foreground">
+                      Personalizado ({template.languages.filter(v => v.customized).map(v => v.language.toUpperCase()).join(", ")})
+                    </span>
+                  )}
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+
+          {selected && version && (
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4 flex-wrap">
+                    <div>
+                      <CardTitle>{selected.name}</CardTitle>
+                      <CardDescription>
+                        {version.customized
+                          ? `Personalizado${version.updatedAt ? ` em ${new Date(version.updatedAt).toLocaleString("pt-PT")}` : ""}`
+                          : "Texto original"}
+                      </CardDescription>
+                    </div>
+                    <Tabs value={language} onValueChange={(v) => setLanguage(v as Language)}>
+                      <TabsList>
+                        {selected.languages.map(v => (
+                          <TabsTrigger key={v.language} value={v.language} data-testid={`tab-language-${v.language}`}>
+                            {languageLabels[v.language]}
+                          </TabsTrigger>
+                        ))}
+                      </TabsList>
+                    </Tabs>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="template-subject">Assunto</Label>
+                    <Input
+                      id="template-subject"
+                      value={subject}
+                      onChange={(e) => setSubject(e.target.value)}
+                      data-testid="input-template-subject"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="template-body">Conteúdo (HTML)</Label>
+                    <Textarea
+                      id="template-body"
+                      value={body}
+                      onChange={(e) => setBody(e.target.value)}
+                      className="min-h-72 font-mono text-xs"
+                      data-testid="input-template-body"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Variáveis disponíveis</p>
+                    <div className="flex flex-wrap gap-2">
+                      {selected.variables.map(variable => (
+                        <Badge key={variable} variant="outline" className="font-mono">
+                          {`{{${variable}}}`}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {"Use {{#variável}}...{{/variável}} para mostrar um trecho só quando a variável tem valor e {{^variável}}...{{/variável}} para o contrário."}
+                    </p>
+                  </div>
+                  <div className="flex justify-end gap-2 flex-wrap">
+                    {version.customized && (
+                      <Button
+                        variant="outline"
+                        onClick={() => resetMutation.mutate()}
+                        disabled={resetMutation.isPending}
+                        data-testid="button-reset-template"
+                      >
+                        {resetMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                        Repor original
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      onClick={() => previewMutation.mutate()}
+                      disabled={previewMutation.isPending}
+                      data-testid="button-preview-template"
+                    >
+                      {previewMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+                      Pré-visualizar
+                    </Button>
+                    <Button
+                      onClick={() => saveMutation.mutate()}
+                      disabled={!dirty || saveMutation.isPending}
+                      data-testid="button-save-template"
+                    >
+                      {saveMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                      Guardar
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {preview && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Pré-visualização</CardTitle>
+                    <CardDescription>Com dados de exemplo · Assunto: {preview.subject}</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <iframe
+                      title="Pré-visualização do email"
+                      srcDoc={preview.html}
+                      sandbox=""
+                      className="h-[480px] w-full rounded-md border bg-white"
+                      data-testid="frame-template-preview"
+                    />
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Printer, Loader2 } from "lucide-react";
+import { paymentMethodLabels } from "@/pages/fines";
+
+interface FineReceipt {
+  receiptNumber: number;
+  receiptCode: string;
+  paidAt: string;
+  amount: number;
+  paymentMethod: keyof typeof paymentMethodLabels | null;
+  paymentReference: string | null;
+  notes: string | null;
+  patron: { name: string; username: string; email: string } | null;
+  cashier: string | null;
+  bookTitle: string | null;
+  loanDueDate: string | null;
+  loanReturnDate: string | null;
+  daysOverdue: number;
+  fineAmount: number;
+  balance: number;
+}
+
+const formatDate = (date: string | null, pattern = "dd/MM/yyyy") =>
+  date ? format(new Date(date), pattern) : "—";
+
+/**
+ * Printable receipt of a fine payment. Opened in its own tab from the fines
+ * page; the browser's print dialog also saves it as PDF.
+ */
+export default function FineReceiptPage() {
+  const { number } = useParams<{ number: string }>();
+
+  const { data: receipt, isLoading, error } = useQuery<FineReceipt>({
+    queryKey: ["/api/fines/receipts", number],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !receipt) {
+    return <div className="p-12 text-center text-muted-foreground">Recibo não encontrado</div>;
+  }
+
+  const rows: [string, string][] = [
+    ["Utilizador", receipt.patron ? `${receipt.patron.name} (${receipt.patron.username})` : "—"],
+    ["Livro", receipt.bookTitle ?? "—"],
+    ["Data de vencimento", formatDate(receipt.loanDueDate)],
+    ["Data de devolução", formatDate(receipt.loanReturnDate)],
+    ["Dias de atraso", receipt.daysOverdue.toString()],
+    ["Total da multa", `${receipt.fineAmount.toLocaleString()} Kz`],
+    ["Forma de pagamento", paymentMethodLabels[receipt.paymentMethod ?? "cash"]],
+    ...(receipt.paymentReference ? [["Referência", receipt.paymentReference] as [string, string]] : []),
+    ["Recebido por", receipt.cashier ?? "Sistema"],
+    ["Saldo em dívida", `${receipt.balance.toLocaleString()} Kz`],
+  ];
+
+  return (
+    <div className="min-h-svh bg-muted/30 print:bg-white p-6">
+      <div className="mx-auto max-w-md bg-background border rounded-md p-8 space-y-6 print:border-0 print:p-0">
+        <div className="text-center space-y-1">
+          <h1 className="text-xl font-bold">Biblioteca ISPTEC</h1>
+          <p className="text-sm text-muted-foreground">Recibo de pagamento de multa</p>
+        </div>
+
+        <div className="flex justify-between text-sm">
+          <span className="font-mono font-semibold">{receipt.receiptCode}</span>
+          <span>{formatDate(receipt.paidAt, "dd/MM/yyyy HH:mm")}</span>
+        </div>
+
+        <div className="text-center py-4 border-y">
+          <div className="text-sm text-muted-foreground">Valor pago</div>
+          <div className="text-3xl font-bold">{receipt.amount.toLocaleString()} Kz</div>
+        </div>
+
+        <dl className="space-y-2 text-sm">
+          {rows.map(([label, value]) => (
+            <div key={label} className="flex justify-between gap-4">
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className="text-right font-medium">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        {receipt.notes && <p className="text-sm text-muted-foreground">{receipt.notes}</p>}
+
+        <Button className="w-full print:hidden" onClick={() => window.print()}>
+          <Printer className="h-4 w-4 mr-2" />
+          Imprimir / Guardar PDF
+        </Button>
+      </div>
+    </div>
+  );
+}
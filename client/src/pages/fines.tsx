@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { format } from "date-fns";
 import {
   Table,
   TableBody,
@@ -10,48 +11,557 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Search, DollarSign, Loader2 } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Search, DollarSign, Loader2, ListOrdered, MessageSquareWarning, Calculator } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import { fineStatusConfig } from "@/components/MyFines";
+import { usePatronRules } from "@/hooks/use-loan-rules";
 
 interface Fine {
   id: string;
   userId: string;
   userName?: string;
   userEmail?: string;
+  userType?: string;
   loanId: string;
   amount: string;
+  balance: number;
   daysOverdue: number;
-  status: "pending" | "paid";
+  status: keyof typeof fineStatusConfig;
   paymentDate: Date | null;
   createdAt: Date;
 }
 
-const statusConfig = {
-  pending: { text: "Pendente", color: "bg-chart-3 text-white" },
-  paid: { text: "Pago", color: "bg-chart-2 text-white" },
+type FineTransactionType = "accrual" | "payment" | "waiver" | "adjustment";
+type PaymentMethod = "cash" | "multicaixa" | "bank_transfer";
+
+interface FineTransaction {
+  id: string;
+  type: FineTransactionType;
+  amount: string;
+  accrualDate: string | null;
+  reason: string | null;
+  recordedByName: string | null;
+  paymentMethod: PaymentMethod | null;
+  paymentReference: string | null;
+  receiptNumber: number | null;
+  createdAt: string;
+}
+
+interface FineLedger {
+  fine: Fine;
+  balance: number;
+  transactions: FineTransaction[];
+}
+
+interface FineDispute {
+  id: string;
+  fineId: string;
+  reason: string;
+  status: "pending" | "approved" | "rejected";
+  userName: string;
+  bookTitle: string;
+  fineAmount: string;
+  fineBalance: number;
+  createdAt: string;
+}
+
+const transactionLabels: Record<FineTransactionType, string> = {
+  accrual: "Multa diária",
+  payment: "Pagamento",
+  waiver: "Perdão",
+  adjustment: "Ajuste",
+};
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  cash: "Numerário",
+  multicaixa: "Multicaixa",
+  bank_transfer: "Transferência bancária",
 };
 
+const openReceipt = (receiptNumber: number) => window.open(`/receipts/${receiptNumber}`, "_blank");
+
+// Toast shown after a payment, with a shortcut to print its receipt
+const paymentToast = (data: { message: string; receiptNumber?: number }) => ({
+  title: data.message,
+  action: data.receiptNumber ? (
+    <ToastAction altText="Imprimir recibo" onClick={() => openReceipt(data.receiptNumber!)}>
+      Recibo
+    </ToastAction>
+  ) : undefined,
+});
+
+// Ledger entries the desk can post; accruals only come from the nightly job
+const entryEndpoints = {
+  payment: "pay",
+  waiver: "waive",
+  adjustment: "adjust",
+} as const;
+
+interface FineLedgerDialogProps {
+  fine: Fine | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function FineLedgerDialog({ fine, onOpenChange }: FineLedgerDialogProps) {
+  const { toast } = useToast();
+  const [entryType, setEntryType] = useState<keyof typeof entryEndpoints>("payment");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cash");
+  const [paymentReference, setPaymentReference] = useState("");
+
+  const { data: ledger, isLoading } = useQuery<FineLedger>({
+    queryKey: ["/api/fines", fine?.id, "transactions"],
+    enabled: !!fine,
+  });
+
+  const postEntryMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/fines/${fine!.id}/${entryEndpoints[entryType]}`, {
+        amount: amount.trim() ? parseFloat(amount) : undefined,
+        reason: reason.trim() || undefined,
+        ...(entryType === "payment" && {
+          paymentMethod,
+          paymentReference: paymentReference.trim() || undefined,
+        }),
+      });
+      return res.json();
+    },
+    onSuccess: (data: { message: string; receiptNumber?: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fines"] });
+      setAmount("");
+      setReason("");
+      setPaymentReference("");
+      toast(paymentToast(data));
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao registar movimento", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!fine} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Movimentos da multa: {fine?.userName || fine?.userId}</DialogTitle>
+          <DialogDescription>
+            Saldo em dívida: {(ledger?.balance ?? fine?.balance ?? 0).toLocaleString()} Kz
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            postEntryMutation.mutate();
+          }}
+        >
+          <div className="space-y-1">
+            <Label className="text-xs">Movimento</Label>
+            <Select value={entryType} onValueChange={(v) => setEntryType(v as keyof typeof entryEndpoints)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.keys(entryEndpoints).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {transactionLabels[type as FineTransactionType]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Valor (Kz)</Label>
+            <Input
+              type="number"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder={entryType === "adjustment" ? "Ex.: -500" : "Saldo total"}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Motivo</Label>
+            <Input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={entryType === "payment" ? "Opcional" : "Obrigatório"}
+            />
+          </div>
+          <Button type="submit" disabled={postEntryMutation.isPending}>
+            {postEntryMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Registar
+          </Button>
+          {entryType === "payment" && (
+            <>
+              <div className="space-y-1">
+                <Label className="text-xs">Forma de pagamento</Label>
+                <Select value={paymentMethod} onValueChange={(v) => setPaymentMethod(v as PaymentMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(paymentMethodLabels).map(([method, label]) => (
+                      <SelectItem key={method} value={method}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {paymentMethod !== "cash" && (
+                <div className="space-y-1">
+                  <Label className="text-xs">Referência</Label>
+                  <Input
+                    value={paymentReference}
+                    onChange={(e) => setPaymentReference(e.target.value)}
+                    placeholder={paymentMethod === "multicaixa" ? "Referência Multicaixa" : "N.º da transferência"}
+                  />
+                </div>
+              )}
+            </>
+          )}
+        </form>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Data</TableHead>
+              <TableHead>Movimento</TableHead>
+              <TableHead>Motivo</TableHead>
+              <TableHead>Registado por</TableHead>
+              <TableHead className="text-right">Valor</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                  Carregando movimentos...
+                </TableCell>
+              </TableRow>
+            ) : (ledger?.transactions || []).length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                  Sem movimentos
+                </TableCell>
+              </TableRow>
+            ) : (
+              ledger!.transactions.map((t) => (
+                <TableRow key={t.id}>
+                  <TableCell>
+                    {t.accrualDate
+                      ? new Date(`${t.accrualDate}T00:00:00`).toLocaleDateString("pt-PT")
+                      : new Date(t.createdAt).toLocaleDateString("pt-PT")}
+                  </TableCell>
+                  <TableCell>{transactionLabels[t.type]}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {t.receiptNumber ? (
+                      <Button variant="ghost" size="sm" className="h-auto p-0 underline" onClick={() => openReceipt(t.receiptNumber!)}>
+                        {`REC-${t.receiptNumber.toString().padStart(6, "0")}`}
+                      </Button>
+                    ) : null}
+                    {t.paymentMethod && ` ${paymentMethodLabels[t.paymentMethod]}`}
+                    {t.paymentReference && ` (${t.paymentReference})`}
+                    {!t.receiptNumber && (t.reason || "—")}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{t.recordedByName || "Sistema"}</TableCell>
+                  <TableCell className={`text-right font-medium ${parseFloat(t.amount) < 0 ? "text-chart-2" : "text-destructive"}`}>
+                    {parseFloat(t.amount).toLocaleString()} Kz
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface DisputeReviewDialogProps {
+  dispute: FineDispute | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function DisputeReviewDialog({ dispute, onOpenChange }: DisputeReviewDialogProps) {
+  const { toast } = useToast();
+  const [amount, setAmount] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const decideMutation = useMutation({
+    mutationFn: async (decision: "approve" | "reject") => {
+      const res = await apiRequest("POST", `/api/fine-disputes/${dispute!.id}/${decision}`, {
+        amount: decision === "approve" && amount.trim() ? parseFloat(amount) : undefined,
+        notes: notes.trim() || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fines"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/fine-disputes"] });
+      setAmount("");
+      setNotes("");
+      onOpenChange(false);
+      toast({ title: data.message });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao decidir contestação", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!dispute} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Contestação de {dispute?.userName}</DialogTitle>
+          <DialogDescription>
+            {dispute?.bookTitle} · saldo em dívida {dispute?.fineBalance.toLocaleString()} Kz
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-md bg-muted p-3 text-sm">{dispute?.reason}</div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Valor a perdoar (Kz)</Label>
+          <Input
+            type="number"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="Saldo total"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Motivo da decisão</Label>
+          <Textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Obrigatório para aceitar"
+            rows={3}
+          />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={() => decideMutation.mutate("reject")}
+            disabled={decideMutation.isPending}
+          >
+            Recusar
+          </Button>
+          <Button
+            onClick={() => decideMutation.mutate("approve")}
+            disabled={!notes.trim() || decideMutation.isPending}
+          >
+            {decideMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Perdoar
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface CashCloseTotals {
+  count: number;
+  total: number;
+  byMethod: Partial<Record<PaymentMethod, number>>;
+}
+
+interface CashClose extends CashCloseTotals {
+  date: string;
+  cashiers: (CashCloseTotals & { cashierId: string | null; cashierName: string })[];
+  payments: {
+    receiptNumber: number;
+    receiptCode: string;
+    paidAt: string;
+    amount: number;
+    paymentMethod: PaymentMethod | null;
+    paymentReference: string | null;
+    cashier: string | null;
+    patron: { name: string } | null;
+  }[];
+}
+
+const methodTotal = (totals: CashCloseTotals, method: PaymentMethod) =>
+  (totals.byMethod[method] ?? 0).toLocaleString();
+
+interface CashCloseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Payments taken on a given day, per cashier and payment method, to check
+ * against the drawer and the Multicaixa/bank statements at closing.
+ */
+function CashCloseDialog({ open, onOpenChange }: CashCloseDialogProps) {
+  const [date, setDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+
+  const { data: cashClose, isLoading } = useQuery<CashClose>({
+    queryKey: ["/api/fines/cash-close", { date }],
+    enabled: open && !!date,
+  });
+
+  const methods = Object.keys(paymentMethodLabels) as PaymentMethod[];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Fecho de Caixa</DialogTitle>
+          <DialogDescription>Pagamentos de multas recebidos no dia, por operador e forma de pagamento</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Data</Label>
+            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          {cashClose && (
+            <div className="text-sm text-muted-foreground pb-2">
+              {cashClose.count} pagamento(s) · <span className="font-semibold text-foreground">{cashClose.total.toLocaleString()} Kz</span>
+            </div>
+          )}
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Operador</TableHead>
+                <TableHead className="text-right">Recibos</TableHead>
+                {methods.map((method) => (
+                  <TableHead key={method} className="text-right">{paymentMethodLabels[method]}</TableHead>
+                ))}
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={methods.length + 3} className="text-center text-muted-foreground">
+                    Carregando...
+                  </TableCell>
+                </TableRow>
+              ) : !cashClose || cashClose.count === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={methods.length + 3} className="text-center text-muted-foreground">
+                    Nenhum pagamento neste dia
+                  </TableCell>
+                </TableRow>
+              ) : (
+                <>
+                  {cashClose.cashiers.map((cashier) => (
+                    <TableRow key={cashier.cashierId ?? "system"}>
+                      <TableCell className="font-medium">{cashier.cashierName}</TableCell>
+                      <TableCell className="text-right">{cashier.count}</TableCell>
+                      {methods.map((method) => (
+                        <TableCell key={method} className="text-right">{methodTotal(cashier, method)} Kz</TableCell>
+                      ))}
+                      <TableCell className="text-right font-semibold">{cashier.total.toLocaleString()} Kz</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-semibold">
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right">{cashClose.count}</TableCell>
+                    {methods.map((method) => (
+                      <TableCell key={method} className="text-right">{methodTotal(cashClose, method)} Kz</TableCell>
+                    ))}
+                    <TableCell className="text-right">{cashClose.total.toLocaleString()} Kz</TableCell>
+                  </TableRow>
+                </>
+              )}
+            </TableBody>
+          </Table>
+
+          {cashClose && cashClose.payments.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Recibo</TableHead>
+                  <TableHead>Hora</TableHead>
+                  <TableHead>Utilizador</TableHead>
+                  <TableHead>Forma</TableHead>
+                  <TableHead>Operador</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cashClose.payments.map((payment) => (
+                  <TableRow key={payment.receiptNumber}>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" className="h-auto p-0 underline" onClick={() => openReceipt(payment.receiptNumber)}>
+                        {payment.receiptCode}
+                      </Button>
+                    </TableCell>
+                    <TableCell>{format(new Date(payment.paidAt), "HH:mm")}</TableCell>
+                    <TableCell>{payment.patron?.name ?? "—"}</TableCell>
+                    <TableCell>
+                      {paymentMethodLabels[payment.paymentMethod ?? "cash"]}
+                      {payment.paymentReference && ` (${payment.paymentReference})`}
+                    </TableCell>
+                    <TableCell>{payment.cashier ?? "Sistema"}</TableCell>
+                    <TableCell className="text-right">{payment.amount.toLocaleString()} Kz</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 export default function Fines() {
   const [searchQuery, setSearchQuery] = useState("");
+  const [ledgerFine, setLedgerFine] = useState<Fine | null>(null);
+  const [reviewedDispute, setReviewedDispute] = useState<FineDispute | null>(null);
+  const [cashCloseOpen, setCashCloseOpen] = useState(false);
   const { toast } = useToast();
 
   const { data: fines, isLoading } = useQuery<Fine[]>({
     queryKey: ["/api/fines"],
   });
 
+  const { data: pendingDisputes } = useQuery<FineDispute[]>({
+    queryKey: ["/api/fine-disputes", { status: "pending" }],
+  });
+
+  const { data: patronRules } = usePatronRules();
+
   const payFineMutation = useMutation({
     mutationFn: async (fineId: string) => {
-      return apiRequest("POST", `/api/fines/${fineId}/pay`, {});
+      const res = await apiRequest("POST", `/api/fines/${fineId}/pay`, { paymentMethod: "cash" });
+      return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { message: string; receiptNumber?: number }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/fines"] });
-      toast({ title: "Multa paga com sucesso!" });
+      toast(paymentToast(data));
     },
-    onError: () => {
-      toast({ title: "Erro ao pagar multa", variant: "destructive" });
+    onError: (error: any) => {
+      toast({ title: "Erro ao pagar multa", description: error.message, variant: "destructive" });
     },
   });
 
@@ -67,25 +577,36 @@ export default function Fines() {
     );
   });
 
-  const totalPending = (fines || [])
-    .filter((f) => f.status === "pending")
-    .reduce((sum, f) => sum + parseFloat(f.amount), 0);
+  const totalPending = (fines || []).reduce((sum, f) => sum + f.balance, 0);
 
-  const totalPaid = (fines || [])
-    .filter((f) => f.status === "paid")
-    .reduce((sum, f) => sum + parseFloat(f.amount), 0);
+  // Charged minus still owed: paid or waived
+  const totalSettled = (fines || []).reduce((sum, f) => sum + parseFloat(f.amount) - f.balance, 0);
 
-  const blockedUsers = (fines || [])
-    .filter((f) => f.status === "pending" && parseFloat(f.amount) >= 2000)
-    .length;
+  // Users whose total balance reaches the fine limit of their type's policy
+  const owedByUser = new Map<string, { userType?: string; balance: number }>();
+  for (const f of fines || []) {
+    const owed = owedByUser.get(f.userId) ?? { userType: f.userType, balance: 0 };
+    owed.balance += f.balance;
+    owedByUser.set(f.userId, owed);
+  }
+  const blockedUsers = Array.from(owedByUser.values()).filter(({ userType, balance }) => {
+    const limit = patronRules?.find((r) => r.userType === userType)?.maxFineAmount ?? 0;
+    return limit > 0 && balance >= limit;
+  }).length;
 
   return (
     <div className="flex-1 space-y-6 p-6">
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight">Gestão de Multas</h1>
-        <p className="text-muted-foreground">
-          Acompanhe e gerencie as multas por atraso (500 Kz por dia)
-        </p>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Gestão de Multas</h1>
+          <p className="text-muted-foreground">
+            Acompanhe e gerencie as multas por atraso
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setCashCloseOpen(true)} data-testid="button-cash-close">
+          <Calculator className="h-4 w-4 mr-2" />
+          Fecho de Caixa
+        </Button>
       </div>
 
       <div className="grid gap-4 md:grid-cols-3">
@@ -97,19 +618,19 @@ export default function Fines() {
           <CardContent>
             <div className="text-2xl font-bold text-destructive">{totalPending.toLocaleString()} Kz</div>
             <p className="text-xs text-muted-foreground mt-1">
-              De {(fines || []).filter((f) => f.status === "pending").length} utilizadores
+              De {(fines || []).filter((f) => f.balance > 0).length} multas
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Pago Este Mês</CardTitle>
+            <CardTitle className="text-sm font-medium">Liquidado</CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{totalPaid.toLocaleString()} Kz</div>
-            <p className="text-xs text-muted-foreground mt-1">Cobrado com sucesso</p>
+            <div className="text-2xl font-bold">{totalSettled.toLocaleString()} Kz</div>
+            <p className="text-xs text-muted-foreground mt-1">Pago ou perdoado</p>
           </CardContent>
         </Card>
 
@@ -120,11 +641,35 @@ export default function Fines() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{blockedUsers}</div>
-            <p className="text-xs text-muted-foreground mt-1">Multas &gt; 2.000 Kz</p>
+            <p className="text-xs text-muted-foreground mt-1">Saldo no limite de multas</p>
           </CardContent>
         </Card>
       </div>
 
+      {(pendingDisputes || []).length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Contestações Pendentes</CardTitle>
+            <MessageSquareWarning className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {pendingDisputes!.map((dispute) => (
+              <div key={dispute.id} className="flex items-center justify-between gap-2 border rounded-md p-3">
+                <div className="min-w-0">
+                  <div className="font-medium">
+                    {dispute.userName} · {dispute.bookTitle} · {dispute.fineBalance.toLocaleString()} Kz
+                  </div>
+                  <div className="text-sm text-muted-foreground truncate">{dispute.reason}</div>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => setReviewedDispute(dispute)}>
+                  Decidir
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       <div className="relative max-w-md">
         <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
         <Input
@@ -156,8 +701,8 @@ export default function Fines() {
                     <div className="font-medium truncate max-w-[200px]">{fine.userName || fine.userId}</div>
                     <div className="text-xs text-muted-foreground truncate max-w-[200px]">{fine.userEmail}</div>
                   </div>
-                  <Badge className={statusConfig[fine.status].color}>
-                    {statusConfig[fine.status].text}
+                  <Badge className={fineStatusConfig[fine.status].color}>
+                    {fineStatusConfig[fine.status].text}
                   </Badge>
                 </div>
 
@@ -173,23 +718,31 @@ export default function Fines() {
                 </div>
 
                 <div className="p-3 bg-muted rounded-md flex justify-between items-center">
-                  <span className="text-sm font-medium">Valor Total:</span>
-                  <span className="text-lg font-bold">{parseFloat(fine.amount).toLocaleString()} Kz</span>
+                  <span className="text-sm font-medium">Em Dívida:</span>
+                  <span className="text-lg font-bold">
+                    {fine.balance.toLocaleString()} / {parseFloat(fine.amount).toLocaleString()} Kz
+                  </span>
                 </div>
 
-                {fine.status === "pending" && (
-                  <Button
-                    size="sm"
-                    className="w-full"
-                    onClick={() => payFineMutation.mutate(fine.id)}
-                    disabled={payFineMutation.isPending}
-                  >
-                    {payFineMutation.isPending && payFineMutation.variables === fine.id ? (
-                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    ) : null}
-                    {payFineMutation.isPending ? "Processando..." : "Liquidar"}
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" className="flex-1" onClick={() => setLedgerFine(fine)}>
+                    <ListOrdered className="h-4 w-4 mr-2" />
+                    Movimentos
                   </Button>
-                )}
+                  {fine.balance > 0 && (
+                    <Button
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => payFineMutation.mutate(fine.id)}
+                      disabled={payFineMutation.isPending}
+                    >
+                      {payFineMutation.isPending && payFineMutation.variables === fine.id ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : null}
+                      {payFineMutation.isPending ? "Processando..." : "Liquidar"}
+                    </Button>
+                  )}
+                </div>
               </Card>
             ))
           )}
@@ -204,6 +757,7 @@ export default function Fines() {
                 <TableHead>Empréstimo ID</TableHead>
                 <TableHead>Dias de Atraso</TableHead>
                 <TableHead>Valor</TableHead>
+                <TableHead>Em Dívida</TableHead>
                 <TableHead>Estado</TableHead>
                 <TableHead className="text-right">Ações</TableHead>
               </TableRow>
@@ -211,13 +765,13 @@ export default function Fines() {
             <TableBody>
               {isLoading ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                  <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
                     Carregando multas...
                   </TableCell>
                 </TableRow>
               ) : filteredFines.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                  <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
                     Nenhuma multa encontrada
                   </TableCell>
                 </TableRow>
@@ -238,12 +792,26 @@ export default function Fines() {
                       </span>
                     </TableCell>
                     <TableCell>
-                      <Badge className={statusConfig[fine.status].color} data-testid={`badge-status-${fine.id}`}>
-                        {statusConfig[fine.status].text}
+                      <span className={fine.balance > 0 ? "font-bold text-destructive" : "text-muted-foreground"}>
+                        {fine.balance.toLocaleString()} Kz
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={fineStatusConfig[fine.status].color} data-testid={`badge-status-${fine.id}`}>
+                        {fineStatusConfig[fine.status].text}
                       </Badge>
                     </TableCell>
-                    <TableCell className="text-right">
-                      {fine.status === "pending" && (
+                    <TableCell className="text-right space-x-2">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => setLedgerFine(fine)}
+                        title="Movimentos"
+                        data-testid={`button-ledger-${fine.id}`}
+                      >
+                        <ListOrdered className="h-4 w-4" />
+                      </Button>
+                      {fine.balance > 0 && (
                         <Button
                           size="sm"
                           variant="outline"
@@ -264,6 +832,10 @@ export default function Fines() {
           </Table>
         </div>
       </div>
+
+      <FineLedgerDialog fine={ledgerFine} onOpenChange={(open) => !open && setLedgerFine(null)} />
+      <DisputeReviewDialog dispute={reviewedDispute} onOpenChange={(open) => !open && setReviewedDispute(null)} />
+      <CashCloseDialog open={cashCloseOpen} onOpenChange={setCashCloseOpen} />
     </div>
   );
 }
@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Play } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { JobRun } from "@shared/schema";
+
+interface ScheduledJob {
+  name: string;
+  label: string;
+  description: string;
+  schedule: string;
+  period: "day" | "hour";
+  runKey: string;
+  lastRun: JobRun | null;
+  currentRun: JobRun | null;
+}
+
+type JobRunEntry = JobRun & { triggeredByName: string | null };
+
+const ALL = "all";
+
+const statusConfig: Record<JobRun["status"], { text: string; color: string }> = {
+  running: { text: "Em execução", color: "bg-blue-50 text-blue-700 border-blue-200" },
+  succeeded: { text: "Concluída", color: "bg-green-50 text-green-700 border-green-200" },
+  failed: { text: "Falhou", color: "bg-red-50 text-red-700 border-red-200" },
+};
+
+function describeSchedule(job: ScheduledJob): string {
+  if (job.period === "hour") return "De hora a hora";
+  const [minute, hour] = job.schedule.split(" ");
+  return `Diariamente às ${hour.padStart(2, "0")}:${minute.padStart(2, "0")}`;
+}
+
+function formatResult(result: Record<string, number> | null): string {
+  if (!result) return "—";
+  return Object.entries(result).map(([key, value]) => `${key}: ${value}`).join(", ");
+}
+
+function formatDuration(run: JobRun): string {
+  if (!run.finishedAt) return "—";
+  const seconds = Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}min ${seconds % 60}s`;
+}
+
+export default function Jobs() {
+  const { toast } = useToast();
+  const [jobFilter, setJobFilter] = useState(ALL);
+
+  const { data: jobs = [], isLoading } = useQuery<ScheduledJob[]>({
+    queryKey: ["/api/jobs"],
+    refetchInterval: (query) => query.state.data?.some(j => j.currentRun?.status === "running") ? 5000 : false,
+  });
+
+  const { data: runs = [], isLoading: runsLoading } = useQuery<JobRunEntry[]>({
+    queryKey: ["/api/jobs/runs", jobFilter === ALL ? {} : { job: jobFilter }],
+    refetchInterval: jobs.some(j => j.currentRun?.status === "running") ? 5000 : false,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await apiRequest("POST", `/api/jobs/${name}/run`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/runs"] });
+      toast({ title: "Tarefa iniciada", description: "Acompanhe o resultado no histórico." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Não foi possível iniciar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const labelOf = (name: string) => jobs.find(j => j.name === name)?.label ?? name;
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Tarefas Agendadas</h1>
+        <p className="text-muted-foreground">
+          Cada tarefa corre uma vez por período, mesmo com vários servidores ou após um reinício
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-3">
+          {jobs.map(job => (
+            <Card key={job.name} data-testid={`card-job-${job.name}`}>
+              <CardHeader>
+                <CardTitle className="text-lg">{job.label}</CardTitle>
+                <CardDescription>{job.description}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-muted-foreground">{describeSchedule(job)}</p>
+                {job.lastRun ? (
+                  <div className="flex items-center gap-2 flex-wrap text-sm">
+                    <Badge variant="outline" className={statusConfig[job.lastRun.status].color}>
+                      {statusConfig[job.lastRun.status].text}
+                    </Badge>
+                    <span className="text-muted-foreground">{new Date(job.lastRun.startedAt).toLocaleString("pt-PT")}</span>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Ainda não foi executada</p>
+                )}
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => runMutation.mutate(job.name)}
+                  disabled={!!job.currentRun || runMutation.isPending}
+                  data-testid={`button-run-job-${job.name}`}
+                >
+                  {job.currentRun?.status === "running" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+                  {job.currentRun
+                    ? job.currentRun.status === "running" ? "Em execução" : `Já executada (${job.period === "day" ? "hoje" : "nesta hora"})`
+                    : "Executar agora"}
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div>
+              <CardTitle>Histórico</CardTitle>
+              <CardDescription>Execuções recentes, agendadas e manuais</CardDescription>
+            </div>
+            <Select value={jobFilter} onValueChange={setJobFilter}>
+              <SelectTrigger className="w-64" data-testid="select-job-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas as tarefas</SelectItem>
+                {jobs.map(job => (
+                  <SelectItem key={job.name} value={job.name}>{job.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {runsLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : runs.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">Nenhuma execução registada</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tarefa</TableHead>
+                  <TableHead>Período</TableHead>
+                  <TableHead>Início</TableHead>
+                  <TableHead>Duração</TableHead>
+                  <TableHead>Origem</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead>Resultado</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map(run => (
+                  <TableRow key={run.id} data-testid={`row-job-run-${run.id}`}>
+                    <TableCell className="font-medium">{labelOf(run.job)}</TableCell>
+                    <TableCell className="font-mono text-xs">{run.runKey}</TableCell>
+                    <TableCell className="whitespace-nowrap">{new Date(run.startedAt).toLocaleString("pt-PT")}</TableCell>
+                    <TableCell>{formatDuration(run)}</TableCell>
+                    <TableCell>{run.trigger === "manual" ? `Manual${run.triggeredByName ? ` (${run.triggeredByName})` : ""}` : "Agendada"}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={statusConfig[run.status].color}>
+                        {statusConfig[run.status].text}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="max-w-xs text-xs">
+                      {run.error ? <span className="text-destructive">{run.error}</span> : formatResult(run.result)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
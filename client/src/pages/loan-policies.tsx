@@ -0,0 +1,427 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Edit, Trash2, Loader2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { LoanPolicy, BorrowerPolicy, Category } from "@shared/schema";
+
+const userTypeLabels: Record<string, string> = {
+  student: "Estudante",
+  teacher: "Docente",
+  staff: "Funcionário",
+  admin: "Administrador",
+};
+
+const tagConfig: Record<string, { text: string; color: string }> = {
+  white: { text: "Branca", color: "bg-white text-black border" },
+  yellow: { text: "Amarela", color: "bg-yellow-400 text-black" },
+  red: { text: "Vermelha", color: "bg-red-600 text-white" },
+};
+
+const departmentLabels: Record<string, string> = {
+  engenharia: "Engenharia",
+  "ciencias-sociais": "Ciências Sociais",
+  outros: "Outros",
+};
+
+const ANY = "any";
+
+interface PolicyFormState {
+  userType: string;
+  tag: string;
+  department: string;
+  categoryId: string;
+  isLoanable: boolean;
+  loanDays: string;
+  maxRenewals: string;
+  finePerDay: string;
+}
+
+const emptyPolicyForm: PolicyFormState = {
+  userType: "student",
+  tag: "white",
+  department: ANY,
+  categoryId: ANY,
+  isLoanable: true,
+  loanDays: "5",
+  maxRenewals: "2",
+  finePerDay: "500",
+};
+
+function BorrowerLimitRow({ userType, policy }: { userType: string; policy?: BorrowerPolicy }) {
+  const { toast } = useToast();
+  const [maxBooks, setMaxBooks] = useState("");
+  const [maxReservations, setMaxReservations] = useState("");
+  const [maxFineAmount, setMaxFineAmount] = useState("");
+
+  useEffect(() => {
+    setMaxBooks(policy ? String(policy.maxBooks) : "");
+    setMaxReservations(policy ? String(policy.maxReservations) : "");
+    setMaxFineAmount(policy ? String(parseFloat(policy.maxFineAmount)) : "");
+  }, [policy]);
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PUT", `/api/borrower-policies/${userType}`, {
+        maxBooks: parseInt(maxBooks, 10),
+        maxReservations: parseInt(maxReservations, 10),
+        maxFineAmount: maxFineAmount,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/borrower-policies"] });
+      toast({ title: "Limites atualizados", description: `Limites de ${userTypeLabels[userType]} guardados.` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao guardar limites", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <TableRow data-testid={`row-borrower-policy-${userType}`}>
+      <TableCell className="font-medium">{userTypeLabels[userType]}</TableCell>
+      <TableCell>
+        <Input type="number" min={0} className="w-24" value={maxBooks} onChange={(e) => setMaxBooks(e.target.value)} />
+      </TableCell>
+      <TableCell>
+        <Input type="number" min={0} className="w-24" value={maxReservations} onChange={(e) => setMaxReservations(e.target.value)} />
+      </TableCell>
+      <TableCell>
+        <Input type="number" min={0} className="w-32" value={maxFineAmount} onChange={(e) => setMaxFineAmount(e.target.value)} />
+      </TableCell>
+      <TableCell className="text-right">
+        <Button size="sm" variant="outline" onClick={() => mutation.mutate()} disabled={mutation.isPending}>
+          {mutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function LoanPolicies() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<LoanPolicy | null>(null);
+  const [form, setForm] = useState<PolicyFormState>(emptyPolicyForm);
+
+  const { data: policies, isLoading } = useQuery<LoanPolicy[]>({
+    queryKey: ["/api/loan-policies"],
+  });
+
+  const { data: borrowerPolicies } = useQuery<BorrowerPolicy[]>({
+    queryKey: ["/api/borrower-policies"],
+  });
+
+  const { data: categories } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        userType: form.userType,
+        tag: form.tag,
+        department: form.department === ANY ? null : form.department,
+        categoryId: form.categoryId === ANY ? null : form.categoryId,
+        isLoanable: form.isLoanable,
+        loanDays: parseInt(form.loanDays, 10) || 0,
+        maxRenewals: parseInt(form.maxRenewals, 10) || 0,
+        finePerDay: form.finePerDay || "0",
+      };
+      if (editingPolicy) {
+        return apiRequest("PATCH", `/api/loan-policies/${editingPolicy.id}`, payload);
+      }
+      return apiRequest("POST", "/api/loan-policies", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/loan-policies"] });
+      setIsDialogOpen(false);
+      toast({
+        title: editingPolicy ? "Política atualizada" : "Política criada",
+        description: "As novas regras aplicam-se aos próximos empréstimos e renovações.",
+      });
+      setEditingPolicy(null);
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao guardar política", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/loan-policies/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/loan-policies"] });
+      toast({ title: "Política removida" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erro ao remover política", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openAddDialog = () => {
+    setEditingPolicy(null);
+    setForm(emptyPolicyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (policy: LoanPolicy) => {
+    setEditingPolicy(policy);
+    setForm({
+      userType: policy.userType,
+      tag: policy.tag,
+      department: policy.department || ANY,
+      categoryId: policy.categoryId || ANY,
+      isLoanable: policy.isLoanable,
+      loanDays: String(policy.loanDays),
+      maxRenewals: String(policy.maxRenewals),
+      finePerDay: String(parseFloat(policy.finePerDay)),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const sortedPolicies = [...(policies || [])].sort((a, b) =>
+    a.userType.localeCompare(b.userType) || a.tag.localeCompare(b.tag)
+  );
+
+  const categoryName = (id: string | null) =>
+    id ? categories?.find((c) => c.id === id)?.name || "—" : "Todas";
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Políticas de Empréstimo</h1>
+          <p className="text-muted-foreground">
+            Prazos, renovações, multas e limites aplicados a cada tipo de utilizador
+          </p>
+        </div>
+        <Button onClick={openAddDialog} data-testid="button-add-policy">
+          <Plus className="mr-2 h-4 w-4" />
+          Nova Regra
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Limites por Tipo de Utilizador</CardTitle>
+          <CardDescription>
+            Número máximo de livros e reservas em simultâneo, e valor de multas a partir do qual novos empréstimos são bloqueados.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Máx. Livros</TableHead>
+                <TableHead>Máx. Reservas</TableHead>
+                <TableHead title="0 = sem limite">Multa Máx. (Kz)</TableHead>
+                <TableHead className="text-right">Guardar</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {Object.keys(userTypeLabels).map((userType) => (
+                <BorrowerLimitRow
+                  key={userType}
+                  userType={userType}
+                  policy={borrowerPolicies?.find((p) => p.userType === userType)}
+                />
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Regras por Etiqueta</CardTitle>
+          <CardDescription>
+            Quando várias regras se aplicam a um livro, prevalece a mais específica (categoria, depois departamento).
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Etiqueta</TableHead>
+                <TableHead>Departamento</TableHead>
+                <TableHead>Categoria</TableHead>
+                <TableHead>Prazo</TableHead>
+                <TableHead>Renovações</TableHead>
+                <TableHead>Multa/Dia</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                    Carregando políticas...
+                  </TableCell>
+                </TableRow>
+              ) : sortedPolicies.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                    Nenhuma política configurada
+                  </TableCell>
+                </TableRow>
+              ) : (
+                sortedPolicies.map((policy) => (
+                  <TableRow key={policy.id} data-testid={`row-policy-${policy.id}`}>
+                    <TableCell>{userTypeLabels[policy.userType]}</TableCell>
+                    <TableCell>
+                      <Badge className={tagConfig[policy.tag].color}>{tagConfig[policy.tag].text}</Badge>
+                    </TableCell>
+                    <TableCell>{policy.department ? departmentLabels[policy.department] : "Todos"}</TableCell>
+                    <TableCell>{categoryName(policy.categoryId)}</TableCell>
+                    <TableCell>
+                      {policy.isLoanable ? `${policy.loanDays} dia(s)` : <span className="text-muted-foreground">Apenas consulta</span>}
+                    </TableCell>
+                    <TableCell>{policy.maxRenewals}</TableCell>
+                    <TableCell>{parseFloat(policy.finePerDay).toLocaleString()} Kz</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="icon" onClick={() => openEditDialog(policy)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive"
+                          onClick={() => deleteMutation.mutate(policy.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingPolicy ? "Editar Regra" : "Nova Regra"}</DialogTitle>
+            <DialogDescription>
+              Defina o prazo e a multa para um tipo de utilizador e etiqueta.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              mutation.mutate();
+            }}
+          >
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Tipo de Utilizador</Label>
+                <Select value={form.userType} onValueChange={(v) => setForm({ ...form, userType: v })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(userTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Etiqueta</Label>
+                <Select value={form.tag} onValueChange={(v) => setForm({ ...form, tag: v })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(tagConfig).map(([value, cfg]) => (
+                      <SelectItem key={value} value={value}>{cfg.text}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Departamento</Label>
+                <Select value={form.department} onValueChange={(v) => setForm({ ...form, department: v })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Todos</SelectItem>
+                    {Object.entries(departmentLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Categoria</Label>
+                <Select value={form.categoryId} onValueChange={(v) => setForm({ ...form, categoryId: v })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Todas</SelectItem>
+                    {categories?.map((c) => (
+                      <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <Label>Permite empréstimo domiciliário</Label>
+                <p className="text-xs text-muted-foreground">Desative para livros de consulta local</p>
+              </div>
+              <Switch checked={form.isLoanable} onCheckedChange={(v) => setForm({ ...form, isLoanable: v })} />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Prazo (dias)</Label>
+                <Input type="number" min={0} value={form.loanDays} onChange={(e) => setForm({ ...form, loanDays: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Renovações</Label>
+                <Input type="number" min={0} value={form.maxRenewals} onChange={(e) => setForm({ ...form, maxRenewals: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Multa/Dia (Kz)</Label>
+                <Input type="number" min={0} value={form.finePerDay} onChange={(e) => setForm({ ...form, finePerDay: e.target.value })} />
+              </div>
+            </div>
+
+            <Button type="submit" className="w-full" disabled={mutation.isPending}>
+              {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editingPolicy ? "Atualizar" : "Criar"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { UserDetailsDialog } from "@/components/UserDetailsDialog";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { holdStatusConfig } from "@/components/MyHolds";
 
 import {
   Dialog,
@@ -56,25 +57,28 @@ export default function Loans() {
     queryKey: ["/api/loans"],
   });
 
-  const { data: requests, isLoading: requestsLoading } = useQuery<any[]>({
-    queryKey: ["/api/loan-requests"],
+  const { data: holds, isLoading: holdsLoading } = useQuery<any[]>({
+    queryKey: ["/api/holds", { status: "open" }],
   });
 
   const { data: renewalRequests, isLoading: renewalRequestsLoading } = useQuery<any[]>({
     queryKey: ["/api/renewal-requests"],
   });
 
-  const { data: reservations, isLoading: reservationsLoading } = useQuery<any[]>({
-    queryKey: ["/api/reservations"],
-  });
+  // Requests wait for approval in their own tab; the rest of the open holds form the waiting list
+  const reservations = holds?.filter((h) => h.status !== "requested");
 
   const { data: users } = useQuery<any[]>({
     queryKey: ["/api/users"],
   });
 
-  const { data: books } = useQuery<any[]>({
-    queryKey: ["/api/books"],
+  // The first matches on the shelf; typing narrows them down
+  const [bookSearch, setBookSearch] = useState("");
+  const { data: bookResults } = useQuery<{ books: any[] }>({
+    queryKey: ["/api/books", { search: bookSearch, available: "true", pageSize: 50 }],
+    enabled: isLoanDialogOpen,
   });
+  const loanableBooks = bookResults?.books.filter(b => b.tag !== "red") ?? [];
 
   const form = useForm<LoanFormValues>({
     resolver: zodResolver(loanFormSchema),
@@ -94,7 +98,7 @@ export default function Loans() {
   const activeLoans = loans?.filter(l => l.status === "active") || [];
   const overdueLoans = loans?.filter(l => l.status === "active" && new Date(l.dueDate) < new Date()) || [];
   const returnedLoans = loans?.filter(l => l.status === "returned") || [];
-  const pendingRequests = requests?.filter(r => r.status === "pending") || [];
+  const pendingRequests = holds?.filter(h => h.status === "requested") || [];
   const pendingRenewals = renewalRequests?.filter(r => r.status === "pending") || [];
 
   const createLoanMutation = useMutation({
@@ -107,6 +111,7 @@ export default function Loans() {
       toast({ title: "Empréstimo realizado com sucesso!" });
       setIsLoanDialogOpen(false);
       form.reset();
+      setBookSearch("");
     },
     onError: (error: any) => {
       toast({
@@ -157,14 +162,18 @@ export default function Loans() {
 
   const approveLoanMutation = useMutation({
     mutationFn: async (id: string) => {
-      await apiRequest("POST", `/api/loan-requests/${id}/approve`);
+      const res = await apiRequest("POST", `/api/holds/${id}/approve`);
+      return res.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/loan-requests"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/loans/user"] });
+    onSuccess: (hold) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/holds"] });
       queryClient.invalidateQueries({ queryKey: ["/api/books"] });
-      toast({ title: "Solicitação aprovada e empréstimo criado!" });
+      toast({
+        title: "Solicitação aprovada",
+        description: hold.status === "ready_for_pickup"
+          ? "O exemplar ficou guardado para levantamento."
+          : "Sem exemplar livre; o pedido fica à frente na lista de espera.",
+      });
     },
     onError: (error: any) => {
       toast({
@@ -177,10 +186,10 @@ export default function Loans() {
 
   const rejectLoanMutation = useMutation({
     mutationFn: async (id: string) => {
-      await apiRequest("POST", `/api/loan-requests/${id}/reject`);
+      await apiRequest("POST", `/api/holds/${id}/reject`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/loan-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/holds"] });
       toast({ title: "Solicitação rejeitada" });
     },
     onError: (error: any) => {
@@ -192,6 +201,26 @@ export default function Loans() {
     }
   });
 
+  const checkoutHoldMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/holds/${id}/checkout`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/holds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/loans/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/books"] });
+      toast({ title: "Empréstimo criado", description: "A reserva foi levantada." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao emprestar",
+        description: error.message || "Tente novamente",
+        variant: "destructive"
+      });
+    }
+  });
+
   const approveRenewalMutation = useMutation({
     mutationFn: async (id: string) => {
       await apiRequest("POST", `/api/renewal-requests/${id}/approve`, {});
@@ -240,7 +269,7 @@ export default function Loans() {
         loan.bookTitle.toLowerCase().includes(searchQuery.toLowerCase())
     );
 
-  const isLoading = loansLoading || requestsLoading || reservationsLoading;
+  const isLoading = loansLoading || holdsLoading;
 
   if (isLoading) {
     return <div className="p-6">Carregando empréstimos...</div>;
@@ -305,14 +334,20 @@ export default function Loans() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Livro</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <Input
+                          placeholder="Pesquisar por título, autor ou ISBN..."
+                          value={bookSearch}
+                          onChange={(e) => setBookSearch(e.target.value)}
+                          data-testid="input-search-loan-book"
+                        />
+                        <Select onValueChange={field.onChange} value={field.value}>
                           <FormControl>
                             <SelectTrigger data-testid="select-book">
                               <SelectValue placeholder="Selecione um livro" />
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            {books?.filter(b => b.availableCopies > 0 && b.tag !== "red").map((book) => (
+                            {loanableBooks.map((book) => (
                               <SelectItem key={book.id} value={book.id}>
                                 {book.title} ({book.availableCopies} disponíveis)
                               </SelectItem>
@@ -459,7 +494,6 @@ export default function Loans() {
                     ) : (
                       pendingRequests.map((req) => {
                         const user = users?.find(u => u.id === req.userId);
-                        const book = books?.find(b => b.id === req.bookId);
                         return (
                           <tr key={req.id} className="hover:bg-muted/30 transition-colors">
                             <td className="p-3">
@@ -467,8 +501,8 @@ export default function Loans() {
                               <div className="text-xs text-muted-foreground capitalize">{user?.userType}</div>
                             </td>
                             <td className="p-3">
-                              <span className="font-medium">{book?.title || "..."}</span>
-                              <div className="text-xs text-muted-foreground">ISBN: {book?.isbn || "N/A"}</div>
+                              <span className="font-medium">{req.bookTitle}</span>
+                              <div className="text-xs text-muted-foreground">ISBN: {req.bookIsbn || "N/A"}</div>
                             </td>
                             <td className="p-3 text-muted-foreground">
                               {format(new Date(req.requestDate), "dd/MM/yyyy HH:mm")}
@@ -538,7 +572,6 @@ export default function Loans() {
                       pendingRenewals.map((req: any) => {
                         const user = users?.find(u => u.id === req.userId);
                         const loan = loans?.find(l => l.id === req.loanId);
-                        const book = books?.find(b => b.id === loan?.bookId);
 
                         return (
                           <tr key={req.id} className="hover:bg-muted/30 transition-colors">
@@ -547,7 +580,7 @@ export default function Loans() {
                               <div className="text-xs text-muted-foreground capitalize">{user?.userType}</div>
                             </td>
                             <td className="p-3">
-                              <span className="font-medium">{book?.title || "..."}</span>
+                              <span className="font-medium">{loan?.bookTitle || "..."}</span>
                               <div className="text-xs text-muted-foreground">
                                 Vencimento: {loan?.dueDate ? format(new Date(loan.dueDate), "dd/MM/yyyy") : "N/A"}
                               </div>
@@ -637,12 +670,13 @@ export default function Loans() {
                     <th className="p-3 text-left font-medium">Data da Reserva</th>
                     <th className="p-3 text-left font-medium">Status</th>
                     <th className="p-3 text-right font-medium">Prioridade</th>
+                    <th className="p-3 text-right font-medium">Ações</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y">
                   {reservations?.length === 0 ? (
                     <tr>
-                      <td colSpan={5} className="p-8 text-center text-muted-foreground">
+                      <td colSpan={6} className="p-8 text-center text-muted-foreground">
                         Ninguém na lista de espera atualmente
                       </td>
                     </tr>
@@ -652,23 +686,27 @@ export default function Loans() {
                         <td className="p-3">
                           <span className="font-semibold text-foreground">{res.userName}</span>
                           <div className="text-xs text-muted-foreground capitalize">{res.userType}</div>
+                          {res.userNoShows > 0 && (
+                            <div className="text-xs text-destructive">{res.userNoShows} reserva(s) não levantada(s)</div>
+                          )}
                         </td>
                         <td className="p-3">
                           <span className="font-medium">{res.bookTitle}</span>
                         </td>
                         <td className="p-3 text-muted-foreground">
-                          {format(new Date(res.reservationDate), "dd/MM/yyyy HH:mm")}
+                          {format(new Date(res.requestDate), "dd/MM/yyyy HH:mm")}
                         </td>
                         <td className="p-3">
-                          {res.status === "notified" ? (
-                            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
-                              Notificado (Retirada)
+                          <div className="space-y-1">
+                            <span className={`inline-flex items-center px-2 py-0.5 rounded border text-xs font-medium ${holdStatusConfig[res.status as keyof typeof holdStatusConfig].color}`}>
+                              {holdStatusConfig[res.status as keyof typeof holdStatusConfig].text}
                             </span>
-                          ) : (
-                            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">
-                              Em espera
-                            </span>
-                          )}
+                            {res.status === "ready_for_pickup" && res.expirationDate && (
+                              <div className="text-xs text-muted-foreground">
+                                {res.copyBarcode ? `Exemplar ${res.copyBarcode} guardado` : "Guardado"} até {format(new Date(res.expirationDate), "dd/MM/yyyy HH:mm")}
+                              </div>
+                            )}
+                          </div>
                         </td>
                         <td className="p-3 text-right">
                           {res.userType === "teacher" && (
@@ -677,6 +715,24 @@ export default function Loans() {
                             </span>
                           )}
                         </td>
+                        <td className="p-3 text-right">
+                          {res.status === "ready_for_pickup" && (
+                            <Button
+                              size="sm"
+                              className="bg-chart-2 hover:bg-chart-2/90"
+                              onClick={() => checkoutHoldMutation.mutate(res.id)}
+                              disabled={checkoutHoldMutation.isPending}
+                              data-testid={`button-checkout-hold-${res.id}`}
+                            >
+                              {checkoutHoldMutation.isPending && checkoutHoldMutation.variables === res.id ? (
+                                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                              ) : (
+                                <BookOpen className="h-4 w-4 mr-1" />
+                              )}
+                              Emprestar
+                            </Button>
+                          )}
+                        </td>
                       </tr>
                     ))
                   )}
@@ -5,7 +5,6 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ArrowLeft } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation } from "@tanstack/react-query";
@@ -21,7 +20,6 @@ export default function Login() {
   const [registerName, setRegisterName] = useState("");
   const [registerEmail, setRegisterEmail] = useState("");
   const [registerPassword, setRegisterPassword] = useState("");
-  const [registerUserType, setRegisterUserType] = useState<"student" | "teacher" | "staff">("student");
 
   const { toast } = useToast();
   const { login } = useAuth();
@@ -72,7 +70,6 @@ export default function Login() {
       username: string;
       email: string;
       password: string;
-      userType: string;
     }) => {
       const response = await apiRequest("POST", "/api/users", userData);
       return await response.json();
@@ -86,7 +83,6 @@ export default function Login() {
       setRegisterName("");
       setRegisterEmail("");
       setRegisterPassword("");
-      setRegisterUserType("student");
     },
     onError: (error: any) => {
       let errorMessage = error.message || "Não foi possível criar a conta";
@@ -173,22 +169,11 @@ export default function Login() {
       username = `${registerEmail}@isptec.co.ao`;
     }
 
-    // Validação de tipo de conta vs formato de email/ID
-    const isNumeric = /^\d/.test(registerEmail);
-
-    if (registerUserType === "student" && !isNumeric) {
-      toast({
-        title: "Erro no cadastro",
-        description: "Estudantes devem usar o número de matrícula.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    if ((registerUserType === "teacher" || registerUserType === "staff") && isNumeric) {
+    // O registo cria contas de estudante; docentes e funcionários recebem a conta da biblioteca
+    if (!/^\d/.test(registerEmail)) {
       toast({
         title: "Erro no cadastro",
-        description: "Docentes e Funcionários devem usar o email institucional (nome.sobrenome).",
+        description: "Estudantes devem usar o número de matrícula. Docentes e funcionários pedem a conta na biblioteca.",
         variant: "destructive",
       });
       return;
@@ -199,7 +184,6 @@ export default function Login() {
       username: username,
       email: fullEmail,
       password: registerPassword,
-      userType: registerUserType,
     });
   };
 
@@ -312,12 +296,12 @@ export default function Login() {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="register-email">Email/Número de Matrícula</Label>
+                    <Label htmlFor="register-email">Número de Matrícula</Label>
                     <div className="flex items-center gap-0 border rounded-md bg-background">
                       <Input
                         id="register-email"
                         type="text"
-                        placeholder="joao.silva"
+                        placeholder="20230001"
                         value={registerEmail}
                         onChange={(e) => setRegisterEmail(e.target.value)}
                         data-testid="input-register-email"
@@ -339,23 +323,9 @@ export default function Login() {
                       disabled={registerMutation.isPending}
                     />
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="register-type">Tipo de Utilizador</Label>
-                    <Select
-                      value={registerUserType}
-                      onValueChange={(value: "student" | "teacher" | "staff") => setRegisterUserType(value)}
-                      disabled={registerMutation.isPending}
-                    >
-                      <SelectTrigger data-testid="select-register-type">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="student">Estudante</SelectItem>
-                        <SelectItem value="teacher">Docente</SelectItem>
-                        <SelectItem value="staff">Funcionário</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Contas de docentes e funcionários são criadas pela biblioteca.
+                  </p>
                   <Button
                     type="submit"
                     className="w-full"
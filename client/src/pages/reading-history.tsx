@@ -98,8 +98,8 @@ export default function ReadingHistory() {
                                 <Card key={loan.id} className="p-4 border shadow-none bg-muted/20">
                                     <div className="flex justify-between items-start mb-3">
                                         <div className="font-bold text-lg leading-tight">{loan.book?.title || "Livro Desconhecido"}</div>
-                                        <Badge variant={loan.status === "active" ? "default" : loan.status === "overdue" ? "destructive" : "secondary"}>
-                                            {loan.status === "active" ? "Ativo" : loan.status === "overdue" ? "Atrasado" : "Devolvido"}
+                                        <Badge variant={loan.status === "active" ? "default" : loan.status === "overdue" || loan.status === "lost" ? "destructive" : "secondary"}>
+                                            {loan.status === "active" ? "Ativo" : loan.status === "overdue" ? "Atrasado" : loan.status === "lost" ? "Perdido" : "Devolvido"}
                                         </Badge>
                                     </div>
 
@@ -172,8 +172,8 @@ export default function ReadingHistory() {
                                                 )}
                                             </TableCell>
                                             <TableCell>
-                                                <Badge variant={loan.status === "active" ? "default" : loan.status === "overdue" ? "destructive" : "secondary"}>
-                                                    {loan.status === "active" ? "Ativo" : loan.status === "overdue" ? "Atrasado" : "Devolvido"}
+                                                <Badge variant={loan.status === "active" ? "default" : loan.status === "overdue" || loan.status === "lost" ? "destructive" : "secondary"}>
+                                                    {loan.status === "active" ? "Ativo" : loan.status === "overdue" ? "Atrasado" : loan.status === "lost" ? "Perdido" : "Devolvido"}
                                                 </Badge>
                                             </TableCell>
                                         </TableRow>
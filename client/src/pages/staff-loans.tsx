@@ -10,6 +10,9 @@ import { pt } from "date-fns/locale";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Skeleton } from "@/components/ui/skeleton";
+import { MyHolds } from "@/components/MyHolds";
+import { formatTagRule } from "@/components/loan-rules";
+import { useLoanRules } from "@/hooks/use-loan-rules";
 
 interface Loan {
   id: string;
@@ -18,6 +21,7 @@ interface Loan {
   dueDate: string;
   status: string;
   renewalCount: number;
+  book?: Book; // Sent along with the loan
 }
 
 interface Book {
@@ -37,12 +41,8 @@ export default function StaffLoans() {
     enabled: !!user?.id,
   });
 
-  const { data: books } = useQuery<Book[]>({
-    queryKey: ["/api/books"],
-  });
-
-  const { data: loanRequests } = useQuery({
-    queryKey: ["/api/loan-requests", { userId: user?.id, status: "pending" }],
+  const { data: openHolds } = useQuery({
+    queryKey: ["/api/holds", { userId: user?.id, status: "open" }],
     enabled: !!user?.id,
   });
 
@@ -75,26 +75,6 @@ export default function StaffLoans() {
     },
   });
 
-  const cancelRequestMutation = useMutation({
-    mutationFn: async (requestId: string) => {
-      await apiRequest("DELETE", `/api/loan-requests/${requestId}`);
-    },
-    onSuccess: () => {
-      toast({
-        title: "Solicitação cancelada",
-        description: "O pedido de empréstimo foi removido.",
-      });
-      queryClient.invalidateQueries({ queryKey: ["/api/loan-requests"] });
-    },
-    onError: (error: any) => {
-      toast({
-        title: "Erro ao cancelar",
-        description: error.message,
-        variant: "destructive",
-      });
-    },
-  });
-
   const cancelRenewalMutation = useMutation({
     mutationFn: async (requestId: string) => {
       await apiRequest("DELETE", `/api/renewal-requests/${requestId}`);
@@ -115,22 +95,20 @@ export default function StaffLoans() {
     },
   });
 
+  const rules = useLoanRules(user?.userType);
+
   if (!user) {
     return null;
   }
 
   const activeLoans = (loans || []).filter((l) => l.status === "active");
-  const pendingRequests = Array.isArray(loanRequests) ? loanRequests : [];
+  const holds = Array.isArray(openHolds) ? openHolds : [];
   const pendingRenewals = Array.isArray(renewalRequests) ? renewalRequests : [];
 
-  const getLoanBook = (bookId: string) => {
-    return books?.find((b) => b.id === bookId);
-  };
-
   const tagInfo = {
-    red: { label: "Etiqueta Vermelha (Uso Local)", color: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300" },
-    yellow: { label: "Etiqueta Amarela (1 Dia)", color: "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300" },
-    white: { label: "Etiqueta Branca (5 Dias)", color: "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300" },
+    red: { label: "Etiqueta Vermelha", color: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300" },
+    yellow: { label: "Etiqueta Amarela", color: "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300" },
+    white: { label: "Etiqueta Branca", color: "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300" },
   };
 
   const getDaysUntilDue = (dueDate: string) => {
@@ -169,7 +147,7 @@ export default function StaffLoans() {
               <Skeleton key={i} className="h-40 w-full" />
             ))}
           </div>
-        ) : activeLoans.length === 0 && pendingRequests.length === 0 ? (
+        ) : activeLoans.length === 0 && holds.length === 0 ? (
           <Card>
             <CardContent className="flex flex-col items-center justify-center py-12">
               <BookOpen className="h-12 w-12 text-muted-foreground mb-4" />
@@ -188,18 +166,18 @@ export default function StaffLoans() {
               <div className="flex items-center gap-2 mb-2">
                 <BookOpen className="h-5 w-5 text-muted-foreground" />
                 <h2 className="text-lg font-semibold">
-                  Empréstimos Ativos ({activeLoans.length}/2)
+                  Empréstimos Ativos ({activeLoans.length}{rules && `/${rules.maxBooks}`})
                 </h2>
               </div>
               <p className="text-sm text-muted-foreground">
                 Você tem {activeLoans.length} {activeLoans.length === 1 ? "livro emprestado" : "livros emprestados"}.
-                Máximo de 2 livros por funcionário.
+                {rules && `Máximo de ${rules.maxBooks} livros por funcionário.`}
               </p>
             </div>
 
             <div className="space-y-4">
               {activeLoans.map((loan) => {
-                const book = getLoanBook(loan.bookId);
+                const book = loan.book;
                 const daysUntilDue = getDaysUntilDue(loan.dueDate);
                 const overdue = isOverdue(loan.dueDate);
                 const hasPendingRenewal = pendingRenewals.some((r: any) => r.loanId === loan.id && r.status === 'pending');
@@ -221,7 +199,7 @@ export default function StaffLoans() {
                           <CardTitle className="flex items-start gap-2 flex-wrap">
                             <span data-testid={`text-book-title-${loan.id}`}>{book.title}</span>
                             <Badge className={tagInfo[book.tag].color}>
-                              {tagInfo[book.tag].label}
+                              {tagInfo[book.tag].label}{rules && ` (${formatTagRule(rules.tags[book.tag])})`}
                             </Badge>
                           </CardTitle>
                           <CardDescription className="mt-1" data-testid={`text-book-author-${loan.id}`}>
@@ -274,7 +252,7 @@ export default function StaffLoans() {
 
                       <div className="flex items-center justify-between pt-4 border-t">
                         <div className="text-sm text-muted-foreground">
-                          <span>Renovações: {loan.renewalCount}/2</span>
+                          <span>Renovações: {loan.renewalCount}{rules && `/${rules.tags[book.tag].maxRenewals}`}</span>
                         </div>
                         <div className="flex items-center gap-2">
                           <Button
@@ -324,75 +302,35 @@ export default function StaffLoans() {
               })}
             </div>
 
-            <Card className="mt-8">
-              <CardHeader>
-                <CardTitle>Informações Importantes</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3 text-sm">
-                <div className="flex items-start gap-2">
-                  <AlertCircle className="h-4 w-4 text-muted-foreground mt-0.5" />
-                  <p>
-                    <strong>Limite:</strong> Funcionários podem emprestar até 2 livros simultaneamente.
-                  </p>
-                </div>
-                <div className="flex items-start gap-2">
-                  <AlertCircle className="h-4 w-4 text-muted-foreground mt-0.5" />
-                  <p>
-                    <strong>Renovações:</strong> Você pode renovar cada empréstimo até 2 vezes, desde que não haja reservas pendentes.
-                  </p>
-                </div>
-                <div className="flex items-start gap-2">
-                  <AlertCircle className="h-4 w-4 text-muted-foreground mt-0.5" />
-                  <p>
-                    <strong>Multas:</strong> Livros devolvidos em atraso geram multa de 500 Kz por dia.
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
-
-            {pendingRequests.length > 0 && (
-              <div className="mt-8">
-                <div className="flex items-center gap-2 mb-4">
-                  <Clock className="h-5 w-5 text-muted-foreground" />
-                  <h2 className="text-lg font-semibold">Solicitações Pendentes</h2>
-                </div>
-                <div className="space-y-4">
-                  {pendingRequests.map((req: any) => {
-                    const book = getLoanBook(req.bookId);
-                    if (!book) return null;
-                    return (
-                      <Card key={req.id}>
-                        <CardContent className="flex items-center justify-between py-4">
-                          <div>
-                            <p className="font-medium">{book.title}</p>
-                            <p className="text-sm text-muted-foreground">Solicitado em {format(new Date(req.requestDate), "dd/MM/yyyy", { locale: pt })}</p>
-                          </div>
-                          <div className="flex items-center gap-2">
-                            <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200">
-                              Aguardando Aprovação
-                            </Badge>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              className="text-destructive hover:text-destructive hover:bg-destructive/10 h-8 w-8 p-0"
-                              onClick={() => cancelRequestMutation.mutate(req.id)}
-                              disabled={cancelRequestMutation.isPending}
-                              title="Cancelar solicitação"
-                            >
-                              {cancelRequestMutation.isPending && cancelRequestMutation.variables === req.id ? (
-                                <Loader2 className="h-4 w-4 animate-spin" />
-                              ) : (
-                                <X className="h-4 w-4" />
-                              )}
-                            </Button>
-                          </div>
-                        </CardContent>
-                      </Card>
-                    );
-                  })}
-                </div>
-              </div>
+            {rules && (
+              <Card className="mt-8">
+                <CardHeader>
+                  <CardTitle>Informações Importantes</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <div className="flex items-start gap-2">
+                    <AlertCircle className="h-4 w-4 text-muted-foreground mt-0.5" />
+                    <p>
+                      <strong>Limite:</strong> Funcionários podem emprestar até {rules.maxBooks} livros simultaneamente.
+                    </p>
+                  </div>
+                  <div className="flex items-start gap-2">
+                    <AlertCircle className="h-4 w-4 text-muted-foreground mt-0.5" />
+                    <p>
+                      <strong>Renovações:</strong> Você pode renovar cada empréstimo até {rules.tags.white.maxRenewals} vezes, desde que não haja reservas pendentes.
+                    </p>
+                  </div>
+                  <div className="flex items-start gap-2">
+                    <AlertCircle className="h-4 w-4 text-muted-foreground mt-0.5" />
+                    <p>
+                      <strong>Multas:</strong> Livros devolvidos em atraso geram multa de {rules.tags.white.finePerDay} Kz por dia.
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
             )}
+
+            <MyHolds userId={user.id} />
           </>
         )}
       </main>
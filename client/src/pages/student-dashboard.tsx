@@ -4,6 +4,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { BookOpen, Calendar, AlertCircle, Search, Clock } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
+import { MyFines } from "@/components/MyFines";
+import { LoanRulesList, formatTagRule } from "@/components/loan-rules";
+import { useLoanRules } from "@/hooks/use-loan-rules";
 import { differenceInDays, differenceInHours, differenceInMinutes, isPast } from "date-fns";
 import { useEffect, useState } from "react";
 
@@ -21,8 +24,8 @@ export default function StudentDashboard() {
     enabled: !!user?.id,
   });
 
-  const { data: loanRequests } = useQuery({
-    queryKey: ["/api/loan-requests", { userId: user?.id, status: "pending" }],
+  const { data: openHolds } = useQuery({
+    queryKey: ["/api/holds", { userId: user?.id, status: "open" }],
     enabled: !!user?.id,
   });
 
@@ -71,6 +74,8 @@ export default function StudentDashboard() {
     return () => clearInterval(interval);
   }, [loans]);
 
+  const rules = useLoanRules(user?.userType);
+
   if (!user) {
     return null;
   }
@@ -78,8 +83,8 @@ export default function StudentDashboard() {
   const loansArray = Array.isArray(loans) ? loans : [];
   const finesArray = Array.isArray(fines) ? fines : [];
   const activeLoans = loansArray.filter((l: any) => l.status === "active");
-  const pendingFines = finesArray.filter((f: any) => f.status === "pending");
-  const totalFines = pendingFines.reduce((sum: number, f: any) => sum + parseFloat(f.amount), 0);
+  const pendingFines = finesArray.filter((f: any) => f.balance > 0);
+  const totalFines = pendingFines.reduce((sum: number, f: any) => sum + f.balance, 0);
 
   const isLoading = loansLoading || finesLoading;
 
@@ -114,15 +119,15 @@ export default function StudentDashboard() {
                 data-testid="card-active-loans"
               >
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <CardTitle className="text-sm font-medium">Empréstimos e Solicitações</CardTitle>
+                  <CardTitle className="text-sm font-medium">Empréstimos e Reservas</CardTitle>
                   <BookOpen className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold" data-testid="text-active-loans">
-                    {activeLoans.length + (Array.isArray(loanRequests) ? loanRequests.length : 0)}/2
+                    {activeLoans.length}{rules && `/${rules.maxBooks}`}
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    {activeLoans.length} ativos, {Array.isArray(loanRequests) ? loanRequests.length : 0} pendentes
+                    {activeLoans.length} ativos, {Array.isArray(openHolds) ? openHolds.length : 0} reservas e solicitações
                   </p>
                 </CardContent>
               </Card>
@@ -148,9 +153,9 @@ export default function StudentDashboard() {
                   <Calendar className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">1 ou 5 dias</div>
+                  <div className="text-2xl font-bold">{rules ? formatTagRule(rules.tags.white) : "—"}</div>
                   <p className="text-xs text-muted-foreground">
-                    1 dia (Amarela) / 5 dias (Branca)
+                    {rules ? `Branca; amarela: ${formatTagRule(rules.tags.yellow)}` : "Etiqueta branca"}
                   </p>
                 </CardContent>
               </Card>
@@ -170,6 +175,7 @@ export default function StudentDashboard() {
             </div>
 
             <div className="grid gap-6 md:grid-cols-1 mb-8">
+              <MyFines userId={user.id} />
 
               <Card>
                 <CardHeader>
@@ -177,23 +183,7 @@ export default function StudentDashboard() {
                   <CardDescription>Informações importantes sobre seus empréstimos</CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  <div>
-                    <h3 className="font-semibold mb-2">Limites:</h3>
-                    <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
-                      <li>Máximo de 2 livros simultâneos</li>
-                      <li>Prazo de 5 dias para livros com etiqueta cor branca</li>
-                      <li>Livros com etiqueta cor amarela: apenas 1 dia</li>
-                      <li>Livros com etiqueta cor vermelha: uso exclusivo na biblioteca</li>
-                    </ul>
-                  </div>
-                  <div>
-                    <h3 className="font-semibold mb-2">Restrições:</h3>
-                    <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
-                      <li>Não é permitido ter títulos repetidos</li>
-                      <li>Multas acima de 2000 Kz bloqueiam novos empréstimos</li>
-                      <li>Multa de 500 Kz por dia de atraso</li>
-                    </ul>
-                  </div>
+                  {rules && <LoanRulesList rules={rules} titleRule="Não é permitido ter títulos repetidos" />}
                 </CardContent>
               </Card>
             </div>
@@ -4,6 +4,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { BookOpen, Calendar, AlertCircle, Search } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
+import { MyFines } from "@/components/MyFines";
+import { LoanRulesList, formatTagRule } from "@/components/loan-rules";
+import { useLoanRules } from "@/hooks/use-loan-rules";
 
 export default function TeacherDashboard() {
   const { user } = useAuth();
@@ -19,11 +22,13 @@ export default function TeacherDashboard() {
     enabled: !!user?.id,
   });
 
-  const { data: loanRequests } = useQuery({
-    queryKey: ["/api/loan-requests", { userId: user?.id, status: "pending" }],
+  const { data: openHolds } = useQuery({
+    queryKey: ["/api/holds", { userId: user?.id, status: "open" }],
     enabled: !!user?.id,
   });
 
+  const rules = useLoanRules(user?.userType);
+
   if (!user) {
     return null;
   }
@@ -31,8 +36,8 @@ export default function TeacherDashboard() {
   const loansArray = Array.isArray(loans) ? loans : [];
   const finesArray = Array.isArray(fines) ? fines : [];
   const activeLoans = loansArray.filter((l: any) => l.status === "active");
-  const pendingFines = finesArray.filter((f: any) => f.status === "pending");
-  const totalFines = pendingFines.reduce((sum: number, f: any) => sum + parseFloat(f.amount), 0);
+  const pendingFines = finesArray.filter((f: any) => f.balance > 0);
+  const totalFines = pendingFines.reduce((sum: number, f: any) => sum + f.balance, 0);
 
   const isLoading = loansLoading || finesLoading;
 
@@ -67,15 +72,15 @@ export default function TeacherDashboard() {
                 data-testid="card-active-loans"
               >
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <CardTitle className="text-sm font-medium">Empréstimos e Solicitações</CardTitle>
+                  <CardTitle className="text-sm font-medium">Empréstimos e Reservas</CardTitle>
                   <BookOpen className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold" data-testid="text-active-loans">
-                    {activeLoans.length + (Array.isArray(loanRequests) ? loanRequests.length : 0)}/4
+                    {activeLoans.length}{rules && `/${rules.maxBooks}`}
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    {activeLoans.length} ativos, {Array.isArray(loanRequests) ? loanRequests.length : 0} pendentes
+                    {activeLoans.length} ativos, {Array.isArray(openHolds) ? openHolds.length : 0} reservas e solicitações
                   </p>
                 </CardContent>
               </Card>
@@ -86,7 +91,7 @@ export default function TeacherDashboard() {
                   <Calendar className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">15 dias</div>
+                  <div className="text-2xl font-bold">{rules ? formatTagRule(rules.tags.white) : "—"}</div>
                   <p className="text-xs text-muted-foreground">
                     Livros com etiqueta cor branca
                   </p>
@@ -99,7 +104,7 @@ export default function TeacherDashboard() {
                   <Calendar className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">1 dia</div>
+                  <div className="text-2xl font-bold">{rules ? formatTagRule(rules.tags.yellow) : "—"}</div>
                   <p className="text-xs text-muted-foreground">
                     Livros com etiqueta cor amarela
                   </p>
@@ -121,6 +126,7 @@ export default function TeacherDashboard() {
             </div>
 
             <div className="grid gap-6 md:grid-cols-1 mb-8">
+              <MyFines userId={user.id} />
 
               <Card>
                 <CardHeader>
@@ -128,23 +134,7 @@ export default function TeacherDashboard() {
                   <CardDescription>Informações importantes sobre seus empréstimos</CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  <div>
-                    <h3 className="font-semibold mb-2">Limites:</h3>
-                    <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
-                      <li>Máximo de 4 livros simultâneos</li>
-                      <li>Prazo de 15 dias para livros com etiqueta cor branca</li>
-                      <li>Livros com etiqueta cor amarela: apenas 1 dia</li>
-                      <li>Livros com etiqueta cor vermelha: uso exclusivo na biblioteca</li>
-                    </ul>
-                  </div>
-                  <div>
-                    <h3 className="font-semibold mb-2">Restrições:</h3>
-                    <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
-                      <li>Apenas 1 obra por título (não pode ter exemplares duplicados do mesmo título)</li>
-                      <li>Multas acima de 2000 Kz bloqueiam novos empréstimos</li>
-                      <li>Multa de 500 Kz por dia de atraso</li>
-                    </ul>
-                  </div>
+                  {rules && <LoanRulesList rules={rules} titleRule="Apenas 1 obra por título (não pode ter exemplares duplicados do mesmo título)" />}
                 </CardContent>
               </Card>
             </div>
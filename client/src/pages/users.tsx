@@ -24,6 +24,8 @@ import {
 import { useQuery } from "@tanstack/react-query";
 import { User } from "@shared/schema";
 import { UserDetailsDialog } from "@/components/UserDetailsDialog";
+import { formatLoanDays } from "@/components/loan-rules";
+import { usePatronRules, type PatronRules } from "@/hooks/use-loan-rules";
 
 // Helper type for the enriched user data
 type UserWithStats = User & {
@@ -34,12 +36,19 @@ type UserWithStats = User & {
 };
 
 const userTypeConfig = {
-  teacher: { text: "Docente", limit: "4 livros, 15 dias" },
-  student: { text: "Estudante", limit: "2 livros, 5 dias" },
-  staff: { text: "Funcionário", limit: "2 livros, 5 dias" },
-  admin: { text: "Administrador", limit: "Ilimitado" },
+  teacher: { text: "Docente" },
+  student: { text: "Estudante" },
+  staff: { text: "Funcionário" },
+  admin: { text: "Administrador" },
 } as const;
 
+// Loan limit and white-tag loan period of a user type, from its policies
+function describeLimit(type: keyof typeof userTypeConfig, rules: PatronRules[] | undefined): string {
+  if (type === "admin") return "Ilimitado";
+  const r = rules?.find(rule => rule.userType === type);
+  return r ? `${r.maxBooks} livros, ${formatLoanDays(r.tags.white.loanDays)}` : "";
+}
+
 // Helper to map DB user types to config keys
 function getUserTypeKey(type: string): keyof typeof userTypeConfig {
   if (type === "teacher" || type === "student" || type === "staff" || type === "admin") {
@@ -63,6 +72,8 @@ export default function Users() {
     queryKey: ["/api/users"],
   });
 
+  const { data: patronRules } = usePatronRules();
+
   const normalize = (str: string) =>
     str.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
 
@@ -148,7 +159,7 @@ export default function Users() {
                   <div>
                     <div className="text-xs text-muted-foreground uppercase font-semibold">Tipo</div>
                     <div className="text-sm font-medium capitalize">{userTypeConfig[getUserTypeKey(user.userType)].text}</div>
-                    <div className="text-[10px] text-muted-foreground">{userTypeConfig[getUserTypeKey(user.userType)].limit}</div>
+                    <div className="text-[10px] text-muted-foreground">{describeLimit(getUserTypeKey(user.userType), patronRules)}</div>
                   </div>
                   <div>
                     <div className="text-xs text-muted-foreground uppercase font-semibold">Empréstimos</div>
@@ -226,7 +237,7 @@ export default function Users() {
                       <div>
                         <div className="font-medium capitalize">{userTypeConfig[getUserTypeKey(user.userType)].text}</div>
                         <div className="text-xs text-muted-foreground">
-                          {userTypeConfig[getUserTypeKey(user.userType)].limit}
+                          {describeLimit(getUserTypeKey(user.userType), patronRules)}
                         </div>
                       </div>
                     </TableCell>
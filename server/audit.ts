@@ -0,0 +1,142 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Request, Response, NextFunction } from "express";
+import type { IStorage } from "./storage";
+
+interface AuditActor {
+  actorId: string | null;
+  ip: string | null;
+}
+
+// Who is behind the storage calls made while handling a request. Read when
+// the event is written, so it sees the user passport attached to the request.
+const auditContext = new AsyncLocalStorage<() => AuditActor>();
+
+export function auditMiddleware(req: Request, _res: Response, next: NextFunction) {
+  auditContext.run(() => ({ actorId: req.user?.id ?? null, ip: req.ip ?? null }), next);
+}
+
+type Row = Record<string, unknown>;
+type Loader = (storage: IStorage, id: string) => Promise<object | undefined>;
+
+interface AuditedMethod {
+  entityType: string;
+  action: string | ((args: any[]) => string);
+  // Id of the entity the call changes, when known before it runs; creates
+  // take it from the row they return
+  target?: (args: any[]) => string;
+  load: Loader;
+}
+
+const create = (entityType: string, load: Loader, action = "create"): AuditedMethod =>
+  ({ entityType, action, load });
+const update = (entityType: string, load: Loader, action: AuditedMethod["action"] = "update"): AuditedMethod =>
+  ({ entityType, action, target: args => args[0], load });
+const remove = (entityType: string, load: Loader): AuditedMethod =>
+  ({ entityType, action: "delete", target: args => args[0], load });
+
+const loadUser: Loader = (s, id) => s.getUser(id);
+const loadBook: Loader = (s, id) => s.getBook(id);
+const loadCopy: Loader = (s, id) => s.getBookCopy(id);
+const loadLoan: Loader = (s, id) => s.getLoan(id);
+const loadHold: Loader = (s, id) => s.getHold(id);
+const loadFine: Loader = (s, id) => s.getFine(id);
+const loadDispute: Loader = (s, id) => s.getFineDispute(id);
+const loadBlock: Loader = (s, id) => s.getUserBlock(id);
+const loadRenewal: Loader = (s, id) => s.getRenewalRequest(id);
+
+// Nightly fine accruals are left out: the fine ledger already records each charge
+const auditedMethods: Partial<Record<keyof IStorage, AuditedMethod>> = {
+  createUser: create("user", loadUser),
+  updateUser: update("user", loadUser),
+  deleteUser: remove("user", loadUser),
+  createBook: create("book", loadBook),
+  updateBook: update("book", loadBook),
+  deleteBook: remove("book", loadBook),
+  createBookCopy: create("book_copy", loadCopy),
+  updateBookCopy: update("book_copy", loadCopy),
+  deleteBookCopy: remove("book_copy", loadCopy),
+  createLoan: create("loan", loadLoan),
+  updateLoan: update("loan", loadLoan),
+  deleteLoan: remove("loan", loadLoan),
+  checkoutBook: create("loan", loadLoan, "checkout"),
+  checkinLoan: update("loan", loadLoan, "checkin"),
+  createHold: create("hold", loadHold),
+  updateHold: update("hold", loadHold),
+  holdCopy: update("hold", loadHold, "hold_copy"),
+  // Staff refusing a request release it with a reviewer; users cancel without one
+  releaseHold: update("hold", loadHold, args =>
+    args[1].status === "expired" ? "expire" : args[1].reviewedBy ? "reject" : "cancel"),
+  createFine: create("fine", loadFine),
+  updateFine: update("fine", loadFine),
+  postFineTransaction: { entityType: "fine", action: args => args[0].type, target: args => args[0].fineId, load: loadFine },
+  createFineDispute: create("fine_dispute", loadDispute),
+  decideFineDispute: update("fine_dispute", loadDispute, args => args[1].approved ? "approve" : "reject"),
+  createUserBlock: create("user_block", loadBlock),
+  updateUserBlock: update("user_block", loadBlock),
+  createRenewalRequest: create("renewal_request", loadRenewal),
+  updateRenewalRequest: update("renewal_request", loadRenewal),
+  deleteRenewalRequest: remove("renewal_request", loadRenewal),
+};
+
+const IGNORED_FIELDS = new Set(["updatedAt"]);
+const REDACTED_FIELDS = new Set(["password"]);
+
+/**
+ * The fields that differ between two versions of a row. Either side may be
+ * missing (a create or a delete). Redacted fields only show that they changed.
+ */
+export function diffRows(before: Row | undefined, after: Row | undefined): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const key of Array.from(keys)) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    const from = before ? before[key] ?? null : null;
+    const to = after ? after[key] ?? null : null;
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+    changes[key] = REDACTED_FIELDS.has(key)
+      ? { from: from === null ? null : "[oculto]", to: to === null ? null : "[oculto]" }
+      : { from, to };
+  }
+  return changes;
+}
+
+async function recordEvent(storage: IStorage, method: AuditedMethod, args: any[], result: any, before: object | undefined) {
+  const action = typeof method.action === "function" ? method.action(args) : method.action;
+  const entityId: string | undefined = method.target?.(args) ?? result?.id;
+  if (!entityId || result === false) return;
+
+  const after = action === "delete" ? undefined : await method.load(storage, entityId);
+  const changes = diffRows(before as Row | undefined, after as Row | undefined);
+  if (Object.keys(changes).length === 0) return;
+
+  const actor = auditContext.getStore()?.() ?? { actorId: null, ip: null };
+  await storage.createAuditEvent({ ...actor, action, entityType: method.entityType, entityId, changes });
+}
+
+/**
+ * Wraps the storage so every audited write also records an audit event. A
+ * failure to record is logged and never undoes the write.
+ */
+export function withAuditing(storage: IStorage): IStorage {
+  return new Proxy(storage, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      const method = typeof prop === "string" ? auditedMethods[prop as keyof IStorage] : undefined;
+      if (!method || typeof value !== "function") return value;
+
+      return async (...args: any[]) => {
+        const targetId = method.target?.(args);
+        const before = targetId ? await method.load(target, targetId) : undefined;
+        const result = await value.apply(target, args);
+        try {
+          await recordEvent(target, method, args, result, before);
+        } catch (error) {
+          console.error(`Failed to record audit event for ${String(prop)}:`, error);
+        }
+        return result;
+      };
+    },
+  });
+}
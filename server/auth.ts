@@ -0,0 +1,161 @@
+import type { Express } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import bcrypt from "bcryptjs";
+import { timingSafeEqual } from "crypto";
+import { pool, useMemoryStorage } from "./db";
+import { storage } from "./storage";
+import { authorize } from "./permissions";
+import { auditMiddleware } from "./audit";
+import type { User as SelectUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const BCRYPT_ROUNDS = 12;
+
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+// Legacy accounts were stored in plaintext; anything that is not a bcrypt hash
+// is treated as such and compared directly until the user logs in again.
+function isHashed(stored: string): boolean {
+  return /^\$2[aby]\$\d{2}\$/.test(stored);
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isHashed(stored)) {
+    // Constant time, so response times give nothing away about the stored password
+    const given = Buffer.from(password);
+    const expected = Buffer.from(stored);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+  return bcrypt.compare(password, stored);
+}
+
+export function toPublicUser(user: SelectUser) {
+  const { password, ...userWithoutPassword } = user;
+  return userWithoutPassword;
+}
+
+export function setupAuth(app: Express) {
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production.");
+  }
+
+  const PgStore = connectPg(session);
+  const MemoryStore = createMemoryStore(session);
+
+  if (app.get("env") === "production") {
+    app.set("trust proxy", 1);
+  }
+
+  app.use(session({
+    secret: sessionSecret || "biblioteca-isptec-dev-secret",
+    resave: false,
+    saveUninitialized: false,
+    store: useMemoryStorage
+      ? new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 })
+      : new PgStore({
+        pool,
+        tableName: "session",
+        createTableIfMissing: false,
+        ttl: SESSION_TTL_MS / 1000,
+      }),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: SESSION_TTL_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+  // After the session is loaded: storage writes from here on are attributed to req.user
+  app.use(auditMiddleware);
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false, { message: "Credenciais inválidas" });
+      }
+
+      // Migrate legacy plaintext passwords on first successful login
+      if (!isHashed(user.password)) {
+        const rehashed = await storage.updateUser(user.id, { password: await hashPassword(password) });
+        return done(null, rehashed || user);
+      }
+
+      return done(null, user);
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // Drop the session if the account was removed or deactivated meanwhile
+      done(null, user && user.isActive ? user : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/login", authorize("public"), (req, res, next) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false, info?: { message?: string }) => {
+      if (err) {
+        return res.status(500).json({ message: "Erro no servidor" });
+      }
+      if (!user) {
+        return res.status(401).json({ message: info?.message || "Credenciais inválidas" });
+      }
+      if (!user.isActive) {
+        return res.status(403).json({ message: "Utilizador inativo" });
+      }
+
+      // Regenerate the session id on login to prevent fixation
+      req.session.regenerate((regenerateErr) => {
+        if (regenerateErr) {
+          return res.status(500).json({ message: "Erro no servidor" });
+        }
+        req.login(user, (loginErr) => {
+          if (loginErr) {
+            return res.status(500).json({ message: "Erro no servidor" });
+          }
+          res.json({ user: toPublicUser(user) });
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", authorize("public"), (req, res) => {
+    req.logout((logoutErr) => {
+      if (logoutErr) {
+        return res.status(500).json({ message: "Erro ao terminar sessão" });
+      }
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ message: "Sessão terminada" });
+      });
+    });
+  });
+
+  app.get("/api/auth/me", authorize("public"), (req, res) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ message: "Não autenticado" });
+    }
+    res.json({ user: toPublicUser(req.user) });
+  });
+}
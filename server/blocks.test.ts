@@ -0,0 +1,41 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { subDays } from "date-fns";
+import { storage } from "./storage";
+import { seedDefaultPolicies } from "./policy";
+import { recalculateUserBlocks } from "./blocks";
+import { createTestUser, createTestBook } from "./test-helpers";
+import type { User } from "@shared/schema";
+
+before(async () => {
+  await seedDefaultPolicies();
+});
+
+// Returns a loan `days` days late with `days` accruals of 500 Kz on its fine
+async function oweFine(user: User, days: number) {
+  const book = await createTestBook(1);
+  const loan = await storage.checkoutBook({ userId: user.id, bookId: book.id, dueDate: subDays(new Date(), days) });
+  const fineAccruals = Array.from({ length: days }, (_, i) => ({ accrualDate: `2020-01-${String(i + 1).padStart(2, "0")}`, amount: 500 }));
+  await storage.checkinLoan(loan.id, { returnDate: new Date(), fineAccruals });
+}
+
+describe("fines block", () => {
+  it("blocks once the balance reaches the limit of the user type", async () => {
+    const student = await createTestUser("student");
+    await oweFine(student, 3);
+    assert.deepEqual(await recalculateUserBlocks(student.id), []);
+
+    await oweFine(student, 1);
+    const blocks = await recalculateUserBlocks(student.id);
+    assert.deepEqual(blocks.map(b => b.reason), ["fines"]);
+  });
+
+  it("never blocks when the limit is 0", async () => {
+    await storage.upsertBorrowerPolicy({ userType: "staff", maxBooks: 2, maxReservations: 3, maxFineAmount: "0" });
+    const [clear, owing] = [await createTestUser("staff"), await createTestUser("staff")];
+    await oweFine(owing, 5);
+
+    assert.deepEqual(await recalculateUserBlocks(clear.id), []);
+    assert.deepEqual(await recalculateUserBlocks(owing.id), []);
+  });
+});
@@ -0,0 +1,119 @@
+import { storage } from "./storage";
+import { getBorrowerLimits } from "./policy";
+import { format } from "date-fns";
+import type { UserBlock } from "@shared/schema";
+
+type BlockReason = UserBlock["reason"];
+
+export const blockReasonLabels: Record<BlockReason, string> = {
+  fines: "Multas em dívida",
+  lost_book: "Livro perdido",
+  manual: "Bloqueio manual",
+  disciplinary: "Medida disciplinar",
+};
+
+export function isBlockActive(block: UserBlock, at: Date = new Date()): boolean {
+  return block.startDate <= at && (!block.endDate || block.endDate > at);
+}
+
+export async function getActiveBlocks(userId: string, at: Date = new Date()): Promise<UserBlock[]> {
+  return (await storage.getUserBlocks(userId)).filter(b => isBlockActive(b, at));
+}
+
+/**
+ * Why the user may not borrow, e.g. "Conta bloqueada: Medida disciplinar (até
+ * 30/06/2026)", or undefined when no block is in force.
+ */
+export async function describeActiveBlocks(userId: string): Promise<string | undefined> {
+  const active = await getActiveBlocks(userId);
+  if (active.length === 0) return undefined;
+
+  const reasons = active.map(b =>
+    b.endDate ? `${blockReasonLabels[b.reason]} (até ${format(b.endDate, "dd/MM/yyyy")})` : blockReasonLabels[b.reason]
+  );
+  return `Conta bloqueada: ${reasons.join("; ")}`;
+}
+
+/**
+ * Opens or closes the automatic blocks of a user to match their situation: a
+ * fines block while the balance reaches the limit of their user type (a limit
+ * of 0 means no limit), and a lost-book block while a copy they borrowed is
+ * marked lost. Call it after anything that moves the balance or a loan
+ * (payments, waivers, returns...).
+ */
+export async function recalculateUserBlocks(userId: string): Promise<UserBlock[]> {
+  const user = await storage.getUser(userId);
+  if (!user) return [];
+
+  const [{ maxFineAmount }, balance, userLoans] = await Promise.all([
+    getBorrowerLimits(user.userType),
+    storage.getUserFineBalance(userId),
+    storage.getLoansByUser(userId),
+  ]);
+
+  let lostCopies = 0;
+  for (const loan of userLoans) {
+    if (loan.status === "returned" || !loan.copyId) continue;
+    const copy = await storage.getBookCopy(loan.copyId);
+    if (copy?.status === "lost") lostCopies++;
+  }
+
+  await syncAutomaticBlock(userId, "fines", maxFineAmount > 0 && balance >= maxFineAmount, `Saldo em dívida de ${balance} Kz`);
+  await syncAutomaticBlock(userId, "lost_book", lostCopies > 0, `${lostCopies} exemplar(es) perdido(s)`);
+
+  return getActiveBlocks(userId);
+}
+
+async function syncAutomaticBlock(userId: string, reason: BlockReason, blocked: boolean, notes: string): Promise<void> {
+  const now = new Date();
+  // Blocks an admin placed by hand (createdBy set) are only lifted by an admin
+  const open = (await getActiveBlocks(userId, now)).filter(b => b.reason === reason && !b.createdBy);
+
+  if (blocked && open.length === 0) {
+    await storage.createUserBlock({ userId, reason, notes, startDate: now });
+  } else if (!blocked) {
+    for (const block of open) {
+      await storage.updateUserBlock(block.id, { endDate: now });
+    }
+  }
+}
+
+/**
+ * Nightly pass over every patron, so blocks also follow accruals and changes
+ * to the borrower policies. Returns the number of users left blocked.
+ */
+export async function recalculateAllUserBlocks(): Promise<number> {
+  const users = await storage.getAllUsers();
+  let blocked = 0;
+  for (const user of users) {
+    if (user.userType === "admin") continue;
+    if ((await recalculateUserBlocks(user.id)).length > 0) blocked++;
+  }
+  return blocked;
+}
+
+/**
+ * The nightly job used to deactivate the account of users whose fines reached
+ * the limit, and nothing reactivated it. Accounts that are inactive while
+ * owing at least the limit are taken to be such cases: reactivate them and let
+ * a fines block, which lifts itself once the balance drops, take over. Users
+ * that already have a block history were handled before and are left alone.
+ */
+export async function migrateFineDeactivations(): Promise<number> {
+  const users = await storage.getAllUsers();
+  let migrated = 0;
+
+  for (const user of users) {
+    if (user.isActive || user.userType === "admin") continue;
+
+    const { maxFineAmount } = await getBorrowerLimits(user.userType);
+    if (maxFineAmount <= 0 || await storage.getUserFineBalance(user.id) < maxFineAmount) continue;
+    if ((await storage.getUserBlocks(user.id)).length > 0) continue;
+
+    await storage.updateUser(user.id, { isActive: true });
+    await recalculateUserBlocks(user.id);
+    migrated++;
+  }
+
+  return migrated;
+}
@@ -0,0 +1,171 @@
+import { storage } from "./storage";
+import { addCopies } from "./copies";
+import { bookImportRowSchema, type Book, type BookImportRow } from "@shared/schema";
+
+// Rows accepted in one import; bigger collections go in several files
+export const MAX_IMPORT_ROWS = 2000;
+
+// What the book form stores for a missing title or author; never a duplicate
+const UNIDENTIFIED = "Não Identificado";
+
+type BookIdentity = Pick<Book, "isbn" | "title" | "author">;
+
+export interface BookImportPlanRow {
+  line: number; // Spreadsheet line, the header being line 1
+  status: "ready" | "duplicate" | "invalid";
+  book?: BookImportRow; // Unless invalid
+  messages: string[];
+}
+
+export interface BookImportPlan {
+  rows: BookImportPlanRow[];
+  newAuthors: string[]; // To be created for the ready rows
+  newCategories: string[];
+}
+
+export interface BookImportResult {
+  line: number;
+  status: "created" | "skipped" | "failed";
+  message?: string;
+  bookId?: string;
+}
+
+export interface BookImportReport {
+  rows: BookImportResult[];
+  created: number;
+  skipped: number;
+  failed: number;
+  newAuthors: string[];
+  newCategories: string[];
+}
+
+/**
+ * The book among existing that the given one would duplicate: same ISBN, or
+ * same title and author ignoring case. Comes with the message to show.
+ */
+export function findDuplicateBook<T extends BookIdentity>(book: BookIdentity, existing: T[]): { match: T; message: string } | undefined {
+  if (book.isbn) {
+    const match = existing.find(b => b.isbn === book.isbn);
+    if (match) {
+      return { match, message: `Já existe um livro cadastrado com o ISBN ${book.isbn} ("${match.title}")` };
+    }
+  }
+
+  if (book.title !== UNIDENTIFIED && book.author !== UNIDENTIFIED) {
+    const match = existing.find(b =>
+      b.title.toLowerCase() === book.title.toLowerCase() &&
+      b.author.toLowerCase() === book.author.toLowerCase()
+    );
+    if (match) {
+      return { match, message: `Este livro ("${book.title}") de ${book.author} já está cadastrado no acervo.` };
+    }
+  }
+
+  return undefined;
+}
+
+// Authors and categories are matched by name, ignoring case
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Dry run of an import: validates each row (already mapped to book fields) and
+ * checks it against the catalogue and the rows above it. Writes nothing.
+ */
+export async function planBookImport(rows: Record<string, unknown>[]): Promise<BookImportPlan> {
+  const [books, authors, categories] = await Promise.all([
+    storage.getAllBooks(),
+    storage.getAllAuthors(),
+    storage.getAllCategories(),
+  ]);
+  const knownAuthors = new Set(authors.map(a => nameKey(a.name)));
+  const knownCategories = new Set(categories.map(c => nameKey(c.name)));
+  const newAuthors = new Map<string, string>();
+  const newCategories = new Map<string, string>();
+  const accepted: (BookIdentity & { line: number })[] = [];
+
+  const planned = rows.map((row, index): BookImportPlanRow => {
+    const line = index + 2;
+    const parsed = bookImportRowSchema.safeParse(row);
+    if (!parsed.success) {
+      return { line, status: "invalid", messages: parsed.error.issues.map(issue => issue.message) };
+    }
+
+    const book = parsed.data;
+    const identity = { title: book.title, author: book.author, isbn: book.isbn ?? null };
+    const existing = findDuplicateBook(identity, books);
+    if (existing) {
+      return { line, status: "duplicate", book, messages: [existing.message] };
+    }
+    const earlier = findDuplicateBook(identity, accepted);
+    if (earlier) {
+      return { line, status: "duplicate", book, messages: [`Repete a linha ${earlier.match.line} do ficheiro`] };
+    }
+
+    accepted.push({ ...identity, line });
+    if (!knownAuthors.has(nameKey(book.author))) newAuthors.set(nameKey(book.author), book.author);
+    if (book.category && !knownCategories.has(nameKey(book.category))) newCategories.set(nameKey(book.category), book.category);
+    return { line, status: "ready", book, messages: [] };
+  });
+
+  return {
+    rows: planned,
+    newAuthors: Array.from(newAuthors.values()),
+    newCategories: Array.from(newCategories.values()),
+  };
+}
+
+/**
+ * Imports the rows the dry run finds ready, creating their missing authors and
+ * categories first, and skips the rest. A row that fails does not stop the others.
+ */
+export async function runBookImport(rows: Record<string, unknown>[]): Promise<BookImportReport> {
+  const plan = await planBookImport(rows);
+  const [authors, categories] = await Promise.all([storage.getAllAuthors(), storage.getAllCategories()]);
+  const authorsByName = new Map(authors.map(a => [nameKey(a.name), a]));
+  const categoriesByName = new Map(categories.map(c => [nameKey(c.name), c]));
+
+  for (const name of plan.newAuthors) {
+    authorsByName.set(nameKey(name), await storage.createAuthor({ name }));
+  }
+  for (const name of plan.newCategories) {
+    categoriesByName.set(nameKey(name), await storage.createCategory({ name }));
+  }
+
+  const results: BookImportResult[] = [];
+  for (const row of plan.rows) {
+    if (row.status !== "ready" || !row.book) {
+      results.push({ line: row.line, status: "skipped", message: row.messages.join("; ") });
+      continue;
+    }
+
+    const { category, totalCopies, department, tag, ...fields } = row.book;
+    const author = authorsByName.get(nameKey(fields.author));
+    try {
+      const book = await storage.createBook({
+        title: fields.title,
+        author: author?.name ?? fields.author,
+        authorId: author?.id ?? null,
+        isbn: fields.isbn ?? null,
+        publisher: fields.publisher ?? null,
+        yearPublished: fields.yearPublished ?? null,
+        categoryId: category ? categoriesByName.get(nameKey(category))?.id ?? null : null,
+        description: fields.description ?? null,
+        ...(department && { department }),
+        ...(tag && { tag }),
+      });
+      await addCopies(book.id, totalCopies);
+      results.push({ line: row.line, status: "created", bookId: book.id });
+    } catch (error: any) {
+      results.push({ line: row.line, status: "failed", message: error.message || "Erro ao criar livro" });
+    }
+  }
+
+  return {
+    rows: results,
+    created: results.filter(r => r.status === "created").length,
+    skipped: results.filter(r => r.status === "skipped").length,
+    failed: results.filter(r => r.status === "failed").length,
+    newAuthors: plan.newAuthors,
+    newCategories: plan.newCategories,
+  };
+}
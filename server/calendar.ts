@@ -0,0 +1,85 @@
+import { addDays, format } from "date-fns";
+import { storage } from "./storage";
+import type { CalendarEvent, InsertOpeningHours, OpeningHours } from "@shared/schema";
+
+// Monday to Friday 08:00-20:00, Saturday 08:00-13:00, closed on Sunday
+export const DEFAULT_OPENING_HOURS: InsertOpeningHours[] = [
+  { weekday: 0, isOpen: false, opensAt: null, closesAt: null },
+  { weekday: 1, isOpen: true, opensAt: "08:00", closesAt: "20:00" },
+  { weekday: 2, isOpen: true, opensAt: "08:00", closesAt: "20:00" },
+  { weekday: 3, isOpen: true, opensAt: "08:00", closesAt: "20:00" },
+  { weekday: 4, isOpen: true, opensAt: "08:00", closesAt: "20:00" },
+  { weekday: 5, isOpen: true, opensAt: "08:00", closesAt: "20:00" },
+  { weekday: 6, isOpen: true, opensAt: "08:00", closesAt: "13:00" },
+];
+
+// Safety net so a misconfigured calendar (every day closed) cannot loop forever
+const MAX_LOOKAHEAD_DAYS = 366;
+
+export function dayKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+/**
+ * Snapshot of the opening hours and closures, loaded once per calculation so
+ * that walking day by day does not hit the database for every date.
+ */
+export class LibraryCalendar {
+  constructor(
+    private readonly hours: Pick<OpeningHours, "weekday" | "isOpen">[],
+    private readonly events: Pick<CalendarEvent, "startDate" | "endDate" | "libraryClosed">[],
+  ) {}
+
+  isOpen(date: Date): boolean {
+    const weekday = this.hours.find(h => h.weekday === date.getDay())
+      ?? DEFAULT_OPENING_HOURS.find(h => h.weekday === date.getDay())!;
+    if (!weekday.isOpen) return false;
+
+    const key = dayKey(date);
+    return !this.events.some(e => e.libraryClosed && e.startDate <= key && key <= e.endDate);
+  }
+
+  /**
+   * Returns `date` itself when the library is open that day, otherwise the
+   * same time of day on the next open day.
+   */
+  nextOpenDay(date: Date): Date {
+    let candidate = new Date(date);
+    for (let i = 0; i < MAX_LOOKAHEAD_DAYS && !this.isOpen(candidate); i++) {
+      candidate = addDays(candidate, 1);
+    }
+    return candidate;
+  }
+
+  /**
+   * The open days among the `days` calendar days that follow `from`.
+   */
+  openDaysAfter(from: Date, days: number): Date[] {
+    const open: Date[] = [];
+    for (let i = 1; i <= days; i++) {
+      const day = addDays(from, i);
+      if (this.isOpen(day)) open.push(day);
+    }
+    return open;
+  }
+}
+
+export async function loadCalendar(): Promise<LibraryCalendar> {
+  const [hours, events] = await Promise.all([
+    storage.getAllOpeningHours(),
+    storage.getAllCalendarEvents(),
+  ]);
+  return new LibraryCalendar(hours, events);
+}
+
+export async function seedDefaultOpeningHours(): Promise<number> {
+  const existing = await storage.getAllOpeningHours();
+  let created = 0;
+  for (const hours of DEFAULT_OPENING_HOURS) {
+    if (!existing.some(h => h.weekday === hours.weekday)) {
+      await storage.upsertOpeningHours(hours);
+      created++;
+    }
+  }
+  return created;
+}
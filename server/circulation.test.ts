@@ -0,0 +1,117 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { subDays } from "date-fns";
+import { storage } from "./storage";
+import { seedDefaultPolicies } from "./policy";
+import { startTestServer, createTestUser, createTestBook, type ApiClient, type TestServer } from "./test-helpers";
+
+// Checkout and return run as locked transactions: concurrent requests on the
+// same copy, loan or user must leave exactly as many through as the limits
+// allow. These run on MemStorage, whose locks stand in for the Postgres row
+// locks and which yields between each check and its write: they catch a check
+// made outside the critical section, not a fault in the SQL locking itself.
+
+let server: TestServer;
+let desk: ApiClient;
+
+before(async () => {
+  await seedDefaultPolicies();
+  for (let weekday = 0; weekday < 7; weekday++) {
+    await storage.upsertOpeningHours({ weekday, isOpen: true, opensAt: "08:00", closesAt: "20:00" });
+  }
+  server = await startTestServer();
+  desk = await server.login(await createTestUser("admin"));
+});
+
+after(() => server.close());
+
+describe("concurrent checkouts", () => {
+  it("lend the last copy once", async () => {
+    const book = await createTestBook(1);
+    const users = await Promise.all(Array.from({ length: 5 }, () => createTestUser("student")));
+
+    const responses = await Promise.all(users.map(u => desk.post("/api/loans", { userId: u.id, bookId: book.id })));
+    assert.equal(responses.filter(r => r.status === 201).length, 1);
+    assert.ok(responses.every(r => r.status === 201 || r.status === 400));
+
+    assert.equal((await storage.getBook(book.id))!.availableCopies, 0);
+    assert.equal((await storage.getLoansByBook(book.id)).length, 1);
+  });
+
+  it("never take availability below zero in storage", async () => {
+    const book = await createTestBook(2);
+    const users = await Promise.all(Array.from({ length: 6 }, () => createTestUser("student")));
+    const dueDate = new Date(Date.now() + 5 * 24 * 60 * 60 * 1000);
+
+    const results = await Promise.allSettled(users.map(u => storage.checkoutBook({ userId: u.id, bookId: book.id, dueDate })));
+    const lent = results.filter(r => r.status === "fulfilled");
+    assert.equal(lent.length, 2);
+    for (const r of results) {
+      if (r.status === "rejected") assert.match(r.reason.message, /zero cópias/);
+    }
+
+    const copies = await storage.getCopiesByBook(book.id);
+    assert.ok(copies.every(c => c.status === "on_loan"));
+    assert.equal(new Set(lent.map(r => (r as PromiseFulfilledResult<{ copyId: string }>).value.copyId)).size, 2);
+    assert.equal((await storage.getBook(book.id))!.availableCopies, 0);
+  });
+
+  it("lend the same user one copy when the desk double-submits", async () => {
+    const book = await createTestBook(3);
+    const student = await createTestUser("student");
+
+    const responses = await Promise.all([1, 2, 3].map(() => desk.post("/api/loans", { userId: student.id, bookId: book.id })));
+    assert.equal(responses.filter(r => r.status === 201).length, 1);
+    assert.equal((await storage.getBook(book.id))!.availableCopies, 2);
+  });
+
+  it("keep a user within the loan limit across titles", async () => {
+    const student = await createTestUser("student");
+    const books = await Promise.all([1, 2, 3, 4].map(() => createTestBook(1)));
+
+    const responses = await Promise.all(books.map(b => desk.post("/api/loans", { userId: student.id, bookId: b.id })));
+    assert.equal(responses.filter(r => r.status === 201).length, 2);
+    assert.equal((await storage.getLoansByUser(student.id)).length, 2);
+  });
+
+  it("leave the copy another user's request counts on", async () => {
+    const [requester, walkIn] = [await createTestUser("student"), await createTestUser("student")];
+    const book = await createTestBook(1);
+    const dueDate = new Date(Date.now() + 5 * 24 * 60 * 60 * 1000);
+    await storage.createHold({ userId: requester.id, bookId: book.id, status: "requested" });
+
+    await assert.rejects(storage.checkoutBook({ userId: walkIn.id, bookId: book.id, dueDate }), /além das reservadas/);
+    assert.equal((await storage.checkoutBook({ userId: requester.id, bookId: book.id, dueDate })).userId, requester.id);
+  });
+});
+
+describe("concurrent returns", () => {
+  it("return a loan and charge its fine once", async () => {
+    const student = await createTestUser("student");
+    const book = await createTestBook(1);
+    const loan = await storage.checkoutBook({ userId: student.id, bookId: book.id, dueDate: subDays(new Date(), 4) });
+
+    const responses = await Promise.all([1, 2, 3].map(() => desk.post(`/api/loans/${loan.id}/return`)));
+    assert.equal(responses.filter(r => r.status === 200).length, 1);
+
+    const fines = await storage.getFinesByLoan(loan.id);
+    assert.equal(fines.length, 1);
+    assert.equal(fines[0].daysOverdue, 4);
+    assert.equal((await storage.getFineTransactions(fines[0].id)).length, 4);
+    assert.equal(await storage.getUserFineBalance(student.id), 2000);
+    assert.equal((await storage.getBook(book.id))!.availableCopies, 1);
+  });
+
+  it("charge nothing when the check-in is refused", async () => {
+    const student = await createTestUser("student");
+    const book = await createTestBook(1);
+    const loan = await storage.checkoutBook({ userId: student.id, bookId: book.id, dueDate: subDays(new Date(), 2) });
+    await storage.checkinLoan(loan.id, { returnDate: new Date() });
+
+    await assert.rejects(
+      storage.checkinLoan(loan.id, { returnDate: new Date(), fineAccruals: [{ accrualDate: "2020-01-01", amount: 500 }] }),
+      /já foi devolvido/,
+    );
+    assert.deepEqual(await storage.getFinesByLoan(loan.id), []);
+  });
+});
@@ -0,0 +1,66 @@
+import { storage } from "./storage";
+import type { BookCopy, InsertBookCopy } from "@shared/schema";
+
+const BARCODE_PREFIX = "ISP";
+
+/**
+ * Generates a barcode that is not yet used by any copy, e.g. "ISP482913074".
+ */
+export async function generateBarcode(): Promise<string> {
+  for (;;) {
+    const digits = Math.floor(Math.random() * 1_000_000_000).toString().padStart(9, "0");
+    const barcode = `${BARCODE_PREFIX}${digits}`;
+    if (!(await storage.getBookCopyByBarcode(barcode))) {
+      return barcode;
+    }
+  }
+}
+
+export async function addCopies(
+  bookId: string,
+  count: number,
+  details: Omit<Partial<InsertBookCopy>, "bookId" | "barcode"> = {},
+): Promise<BookCopy[]> {
+  const created: BookCopy[] = [];
+  for (let i = 0; i < count; i++) {
+    created.push(await storage.createBookCopy({
+      ...details,
+      bookId,
+      barcode: await generateBarcode(),
+    }));
+  }
+  return created;
+}
+
+/**
+ * Books registered before copies were tracked only have a copy counter. Create
+ * that many copies, attach the active loans to them and leave the rest on the
+ * shelf.
+ */
+export async function seedCopiesForLegacyBooks(): Promise<number> {
+  const [books, copies] = await Promise.all([storage.getAllBooks(), storage.getAllBookCopies()]);
+  let created = 0;
+
+  for (const book of books) {
+    if (book.totalCopies <= 0 || copies.some(c => c.bookId === book.id)) continue;
+
+    const activeLoans = (await storage.getLoansByBook(book.id))
+      .filter(l => (l.status === "active" || l.status === "overdue") && !l.copyId);
+    const count = Math.max(book.totalCopies, activeLoans.length);
+
+    for (let i = 0; i < count; i++) {
+      const loan = activeLoans[i];
+      const copy = await storage.createBookCopy({
+        bookId: book.id,
+        barcode: await generateBarcode(),
+        status: loan ? "on_loan" : "available",
+      });
+      if (loan) {
+        await storage.updateLoan(loan.id, { copyId: copy.id });
+      }
+      created++;
+    }
+  }
+
+  return created;
+}
@@ -1,21 +1,78 @@
 import cron from "node-cron";
 import { storage } from "./storage";
-import { sendEmail } from "./email";
-import { addDays, isBefore, differenceInDays } from "date-fns";
+import { sendDueSoonAlert, sendOverdueAlert } from "./email";
+import { accrueOverdueFines, getLoanFineBalance } from "./fines";
+import { recalculateAllUserBlocks } from "./blocks";
+import { dayKey } from "./calendar";
+import { expireHolds } from "./holds";
+import { notify, sendNotificationDigests } from "./notifications";
+import { processOutbox } from "./outbox";
+import { startJob, type JobDefinition, type JobTrigger } from "./jobs";
+import { isBefore, differenceInDays } from "date-fns";
+
+/**
+ * Jobs tracked in job_runs: each runs once per period across all instances,
+ * and admins can start one from the jobs page.
+ */
+export const scheduledJobs = {
+    overdue_check: {
+        label: "Verificação diária de atrasos",
+        description: "Lança as multas do dia, avisa empréstimos atrasados e a devolver amanhã e atualiza bloqueios",
+        schedule: "0 0 * * *",
+        period: "day",
+        run: checkOverdueLoans,
+    },
+    // Notices queued for the digest since yesterday go out in one email per user
+    notification_digest: {
+        label: "Resumo diário de notificações",
+        description: "Envia a cada utilizador um email com as notificações acumuladas para o resumo",
+        schedule: "0 8 * * *",
+        period: "day",
+        run: async () => ({ sent: await sendNotificationDigests() }),
+    },
+    // Reservation holds last 48h, so check them every hour
+    hold_expiry: {
+        label: "Expiração de reservas",
+        description: "Expira reservas não levantadas, envia lembretes e guarda exemplares para o próximo da fila",
+        schedule: "0 * * * *",
+        period: "hour",
+        run: async () => ({ ...(await expireHolds()) }),
+    },
+} satisfies Record<string, JobDefinition>;
+
+export type ScheduledJobName = keyof typeof scheduledJobs;
+
+export function isScheduledJobName(name: string): name is ScheduledJobName {
+    return Object.prototype.hasOwnProperty.call(scheduledJobs, name);
+}
 
-const FINE_AMOUNT_PER_DAY = 500; // 500 Kz
-const MAX_FINE_FOR_BLOCK = 2000; // 2000 Kz blocks user
+export function runScheduledJob(name: ScheduledJobName, trigger: JobTrigger) {
+    return startJob(name, scheduledJobs[name], trigger);
+}
 
 export function startCronJobs() {
-    console.log("⏰ Cron Service: Started. Schedule: Daily at 00:00");
+    console.log("⏰ Cron Service: Started. Schedule: Daily at 00:00, digests at 08:00, reservation holds hourly, email outbox every minute");
+
+    for (const name of Object.keys(scheduledJobs) as ScheduledJobName[]) {
+        cron.schedule(scheduledJobs[name].schedule, async () => {
+            try {
+                await runScheduledJob(name, { trigger: "schedule" });
+            } catch (error) {
+                console.error(`❌ Error starting job ${name}:`, error);
+            }
+        });
+    }
 
-    // Run every day at midnight (00:00)
-    cron.schedule("0 0 * * *", async () => {
-        console.log("⏰ Running daily fine check and notification job...");
+    // Queued emails are sent as soon as they are queued; this picks up retries
+    // that came due and anything left from before a restart
+    cron.schedule("* * * * *", async () => {
         try {
-            await checkOverdueLoans();
+            const { sent, retrying, failed, bounced } = await processOutbox();
+            if (sent > 0 || retrying > 0 || failed > 0 || bounced > 0) {
+                console.log(`📤 Email outbox: ${sent} sent, ${retrying} to retry, ${failed} failed, ${bounced} bounced.`);
+            }
         } catch (error) {
-            console.error("❌ Error in daily cron job:", error);
+            console.error("❌ Error in email outbox job:", error);
         }
     });
 
@@ -38,8 +95,16 @@ export function startCronJobs() {
 }
 
 async function checkOverdueLoans() {
-    const activeLoans = await storage.getActiveLoans();
+    let overdue = 0;
+    let dueSoon = 0;
     const now = new Date();
+    const today = dayKey(now);
+
+    // Charge today's overdue days to the fine ledger before anything reads balances
+    const charged = await accrueOverdueFines(now);
+    console.log(`💰 Fine ledger: ${charged} overdue loans charged.`);
+
+    const activeLoans = await storage.getActiveLoans();
 
     console.log(`🔍 Checking ${activeLoans.length} active loans for overdue status...`);
 
@@ -48,87 +113,48 @@ async function checkOverdueLoans() {
 
         // Check if overdue
         if (isBefore(dueDate, now)) {
-            const daysOverdue = differenceInDays(now, dueDate);
+            const loanFines = await storage.getFinesByLoan(loan.id);
+            const daysOverdue = loanFines.reduce((max, f) => Math.max(max, f.daysOverdue), 0);
 
             if (daysOverdue > 0) {
-                const fineAmount = daysOverdue * FINE_AMOUNT_PER_DAY;
-
+                const fineAmount = await getLoanFineBalance(loan.id);
                 console.log(`⚠️ Loan ${loan.id} is overdue by ${daysOverdue} days. Fine: ${fineAmount} Kz`);
 
-                // Create or Update Fine
-                // Note: In a real system we might update an existing pending fine or create a new one.
-                // For simplicity here, we'll check if a pending fine exists for this loan
-                // Ideally existing fine logic should be robust (e.g., getFineByLoanId)
-                // Since storage interface doesn't have getFineByLoanId, we might need to add it or fetch all fines for user
-
-                // For this iteration, let's just log and send email to avoid duplicating fines indiscriminately 
-                // without a proper check. 
-                // Improvement: We will implement storage.getFineByLoanId later.
-
                 const user = await storage.getUser(loan.userId);
                 const book = await storage.getBook(loan.bookId);
 
-                if (user && book) {
-                    // Send Overdue Email
-                    await sendOverdueAlert(user, book, daysOverdue, fineAmount);
-
-                    // Check for blocking
-                    // This is a simplification. Real blocking should check TOTAL unpaid fines.
-                    if (fineAmount >= MAX_FINE_FOR_BLOCK) {
-                        if (user.isActive) {
-                            console.log(`🚫 Blocking user ${user.name} due to high fines.`);
-                            await storage.updateUser(user.id, { isActive: false });
-                        }
-                    }
+                // A retried run the same day skips the loans already warned
+                if (user && book && await storage.claimLoanNotice(loan.id, "overdue", today)) {
+                    overdue++;
+                    await notify(user, {
+                        type: "overdue",
+                        title: "Empréstimo atrasado",
+                        message: `"${book.title}" está atrasado ${daysOverdue} dia(s). Multa acumulada: ${fineAmount} Kz.`,
+                        email: () => sendOverdueAlert(user, book, daysOverdue, fineAmount),
+                    });
                 }
             }
         } else {
             // Check if due tomorrow (for warning)
-            const tomorrow = addDays(now, 1);
             if (differenceInDays(dueDate, now) === 1) {
                 const user = await storage.getUser(loan.userId);
                 const book = await storage.getBook(loan.bookId);
-                if (user && book) {
-                    await sendDueSoonAlert(user, book);
+                if (user && book && await storage.claimLoanNotice(loan.id, "due_soon", today)) {
+                    dueSoon++;
+                    await notify(user, {
+                        type: "due_soon",
+                        title: "Devolução amanhã",
+                        message: `"${book.title}" deve ser devolvido amanhã. Devolva ou renove para evitar multas.`,
+                        email: () => sendDueSoonAlert(user, book, dueDate),
+                    });
                 }
             }
         }
     }
-}
 
-async function sendOverdueAlert(user: any, book: any, days: number, fine: number) {
-    if (!user.email) return;
-
-    await sendEmail({
-        to: user.email,
-        subject: `⚠️ AVISO: Empréstimo Atrasado - ${book.title}`,
-        text: `Olá ${user.name},\n\nO livro "${book.title}" está atrasado em ${days} dias.\nMulta acumulada até agora: ${fine} Kz.\n\nPor favor, devolva o livro o mais rápido possível para evitar bloqueio.`,
-        html: `
-            <div style="font-family: Arial, sans-serif; color: #333;">
-                <h2 style="color: red;">Empréstimo Atrasado!</h2>
-                <p>Olá <strong>${user.name}</strong>,</p>
-                <p>O livro <strong>${book.title}</strong> deveria ter sido devolvido há <strong>${days} dias</strong>.</p>
-                <p style="font-size: 1.1em; font-weight: bold;">Multa Atual: <span style="color: red;">${fine} Kz</span></p>
-                <p>Por favor, devolva-o imediatamente na biblioteca.</p>
-            </div>
-        `
-    });
-}
+    // Open or lift fine and lost-book blocks now that today's accruals are in
+    const blocked = await recalculateAllUserBlocks();
+    console.log(`🚫 User blocks: ${blocked} users blocked.`);
 
-async function sendDueSoonAlert(user: any, book: any) {
-    if (!user.email) return;
-
-    await sendEmail({
-        to: user.email,
-        subject: `📅 Lembrete de Devolução - ${book.title}`,
-        text: `Olá ${user.name},\n\nLembrete: O livro "${book.title}" vence amanhã.\nDevolva ou renove para evitar multas.`,
-        html: `
-            <div style="font-family: Arial, sans-serif; color: #333;">
-                <h2>Lembrete de Devolução</h2>
-                <p>Olá <strong>${user.name}</strong>,</p>
-                <p>O livro <strong>${book.title}</strong> tem devolução prevista para <strong>AMANHÃ</strong>.</p>
-                <p>Evite multas devolvendo no prazo ou solicitando renovação pelo sistema.</p>
-            </div>
-        `
-    });
+    return { charged, overdue, dueSoon, blocked };
 }
@@ -0,0 +1,27 @@
+import { pool } from "./db";
+
+// Database objects drizzle-kit cannot create but the schema depends on: the
+// catalogue search indexes use pg_trgm and an unaccent() that can be indexed
+// (the extension's own is only STABLE). Runs before every db:push; each
+// statement is idempotent.
+const statements = [
+  "CREATE EXTENSION IF NOT EXISTS unaccent",
+  "CREATE EXTENSION IF NOT EXISTS pg_trgm",
+  `CREATE OR REPLACE FUNCTION immutable_unaccent(text) RETURNS text
+    LANGUAGE sql IMMUTABLE PARALLEL SAFE
+    AS $$ SELECT public.unaccent('public.unaccent'::regdictionary, $1) $$`,
+];
+
+(async () => {
+  try {
+    for (const statement of statements) {
+      await pool.query(statement);
+    }
+    console.log("Database extensions ready.");
+  } finally {
+    await pool.end();
+  }
+})().catch((error) => {
+  console.error("Database setup failed:", error);
+  process.exit(1);
+});
@@ -2,7 +2,10 @@ import { Pool } from 'pg';
 import { drizzle } from 'drizzle-orm/node-postgres';
 import * as schema from "@shared/schema";
 
-if (!process.env.DATABASE_URL) {
+// STORAGE=memory runs the server on MemStorage, without a database
+export const useMemoryStorage = process.env.STORAGE === "memory";
+
+if (!process.env.DATABASE_URL && !useMemoryStorage) {
   throw new Error(
     "DATABASE_URL must be set. Did you forget to provision a database?",
   );
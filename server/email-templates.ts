@@ -0,0 +1,527 @@
+import { storage } from "./storage";
+import type { User } from "@shared/schema";
+
+export type EmailLanguage = User["language"];
+
+export interface TemplateContent {
+  subject: string;
+  body: string; // HTML placed inside the shared layout
+}
+
+interface TemplateDefinition {
+  name: string;
+  variables: string[];
+  sample: Record<string, unknown>;
+  defaults: Record<EmailLanguage, TemplateContent>;
+}
+
+export const emailLanguages: EmailLanguage[] = ["pt", "en"];
+
+const locales: Record<EmailLanguage, string> = { pt: "pt-PT", en: "en-GB" };
+
+const sampleUser = { name: "Ana Silva" };
+const sampleBook = { title: "Introdução aos Algoritmos", author: "Thomas H. Cormen" };
+const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+/**
+ * Built-in templates. Admins may override the subject and body of each one
+ * per language; the override is stored in email_templates and these stay the
+ * fallback. Placeholders follow a small Mustache subset:
+ *   {{book.title}}            value, HTML-escaped (dates in the language's format;
+ *                             names ending in "At" also show the time)
+ *   {{{items}}}               value inserted as is (HTML built by the sender)
+ *   {{#notes}}...{{/notes}}   only when the value is set
+ *   {{^notes}}...{{/notes}}   only when it is not
+ */
+export const emailTemplateDefinitions = {
+  loan_confirmation: {
+    name: "Confirmação de empréstimo",
+    variables: ["user.name", "book.title", "book.author", "dueDate"],
+    sample: { user: sampleUser, book: sampleBook, dueDate: inDays(5) },
+    defaults: {
+      pt: {
+        subject: "📚 Confirmação de Empréstimo - Biblioteca ISPTEC",
+        body: `<h2>Confirmação de Empréstimo</h2>
+<p>Olá <strong>{{user.name}}</strong>,</p>
+<p>Confirmamos o empréstimo do seguinte livro:</p>
+<ul>
+  <li><strong>Livro:</strong> {{book.title}}</li>
+  <li><strong>Autor:</strong> {{book.author}}</li>
+  <li><strong>Data de Devolução:</strong> {{dueDate}}</li>
+</ul>
+<p>Fique atento ao prazo para evitar multas. Boa leitura!</p>`,
+      },
+      en: {
+        subject: "📚 Loan Confirmation - ISPTEC Library",
+        body: `<h2>Loan Confirmation</h2>
+<p>Hello <strong>{{user.name}}</strong>,</p>
+<p>This confirms your loan of the following book:</p>
+<ul>
+  <li><strong>Book:</strong> {{book.title}}</li>
+  <li><strong>Author:</strong> {{book.author}}</li>
+  <li><strong>Due date:</strong> {{dueDate}}</li>
+</ul>
+<p>Please return it on time to avoid fines. Happy reading!</p>`,
+      },
+    },
+  },
+  due_soon: {
+    name: "Lembrete de devolução",
+    variables: ["user.name", "book.title", "dueDate"],
+    sample: { user: sampleUser, book: sampleBook, dueDate: inDays(1) },
+    defaults: {
+      pt: {
+        subject: "📅 Lembrete de Devolução - {{book.title}}",
+        body: `<h2>Lembrete de Devolução</h2>
+<p>Olá <strong>{{user.name}}</strong>,</p>
+<p>O livro <strong>{{book.title}}</strong> tem devolução prevista para <strong>amanhã, {{dueDate}}</strong>.</p>
+<p>Evite multas devolvendo no prazo ou solicitando renovação pelo sistema.</p>`,
+      },
+      en: {
+        subject: "📅 Return Reminder - {{book.title}}",
+        body: `<h2>Return Reminder</h2>
+<p>Hello <strong>{{user.name}}</strong>,</p>
+<p><strong>{{book.title}}</strong> is due <strong>tomorrow, {{dueDate}}</strong>.</p>
+<p>Avoid fines by returning it on time or requesting a renewal in the system.</p>`,
+      },
+    },
+  },
+  overdue_alert: {
+    name: "Empréstimo atrasado",
+    variables: ["user.name", "book.title", "daysOverdue", "fineAmount"],
+    sample: { user: sampleUser, book: sampleBook, daysOverdue: 3, fineAmount: 1500 },
+    defaults: {
+      pt: {
+        subject: "⚠️ AVISO: Empréstimo Atrasado - {{book.title}}",
+        body: `<h2 style="color: red;">Empréstimo Atrasado!</h2>
+<p>Olá <strong>{{user.name}}</strong>,</p>
+<p>O livro <strong>{{book.title}}</strong> deveria ter sido devolvido há <strong>{{daysOverdue}} dias</strong>.</p>
+<p style="font-size: 1.1em; font-weight: bold;">Multa Atual: <span style="color: red;">{{fineAmount}} Kz</span></p>
+<p>Por favor, devolva-o imediatamente na biblioteca para evitar o bloqueio da conta.</p>`,
+      },
+      en: {
+        subject: "⚠️ NOTICE: Overdue Loan - {{book.title}}",
+        body: `<h2 style="color: red;">Overdue Loan!</h2>
+<p>Hello <strong>{{user.name}}</strong>,</p>
+<p><strong>{{book.title}}</strong> was due <strong>{{daysOverdue}} days</strong> ago.</p>
+<p style="font-size: 1.1em; font-weight: bold;">Current fine: <span style="color: red;">{{fineAmount}} Kz</span></p>
+<p>Please return it to the library right away to keep your account from being blocked.</p>`,
+      },
+    },
+  },
+  renewal_request_received: {
+    name: "Pedido de renovação recebido",
+    variables: ["user.name", "book.title"],
+    sample: { user: sampleUser, book: sampleBook },
+    defaults: {
+      pt: {
+        subject: "🔄 Solicitação de Renovação Recebida",
+        body: `<h2>Solicitação Recebida</h2>
+<p>Olá <strong>{{user.name}}</strong>,</p>
+<p>O seu pedido de renovação para o livro <strong>{{book.title}}</strong> foi registado.</p>
+<p>Estado: <span style="color: orange;">Pendente de Aprovação</span></p>
+<p>Será notificado assim que o administrador processar o seu pedido.</p>`,
+      },
+      en: {
+        subject: "🔄 Renewal Request Received",
+        body: `<h2>Request Received</h2>
+<p>Hello <strong>{{user.name}}</strong>,</p>
+<p>Your renewal request for <strong>{{book.title}}</strong> has been recorded.</p>
+<p>Status: <span style="color: orange;">Awaiting approval</span></p>
+<p>You will be notified as soon as an administrator reviews it.</p>`,
+      },
+    },
+  },
+  renewal_decision: {
+    name: "Decisão de renovação",
+    variables: ["user.name", "book.title", "approved", "dueDate", "notes"],
+    sample: { user: sampleUser, book: sampleBook, approved: true, dueDate: inDays(10), notes: null },
+    defaults: {
+      pt: {
+        subject: "{{#approved}}✅ Renovação Aprovada{{/approved}}{{^approved}}❌ Renovação Rejeitada{{/approved}} - Biblioteca ISPTEC",
+        body: `{{#approved}}<h2 style="color: green;">Renovação Aprovada!</h2>
+<p>Olá <strong>{{user.name}}</strong>,</p>
+<p>O seu pedido de renovação para o livro <strong>{{book.title}}</strong> foi aprovado.</p>
+<p><strong>Nova Data de Devolução:</strong> {{dueDate}}</p>
+<p>Boa leitura!</p>{{/approved}}{{^approved}}<h2 style="color: red;">Renovação Rejeitada</h2>
+<p>Olá <strong>{{user.name}}</strong>,</p>
+<p>Infelizmente, o seu pedido de renovação para o livro <strong>{{book.title}}</strong> não pôde ser aprovado neste momento.</p>
+{{#notes}}<p><strong>Motivo:</strong> {{notes}}</p>{{/notes}}
+<p>Por favor, devolva o livro na data original ou entre em contacto com a biblioteca.</p>{{/approved}}`,
+      },
+      en: {
+        subject: "{{#approved}}✅ Renewal Approved{{/approved}}{{^approved}}❌ Renewal Declined{{/approved}} - ISPTEC Library",
+        body: `{{#approved}}<h2 style="color: green;">Renewal Approved!</h2>
+<p>Hello <strong>{{user.name}}</strong>,</p>
+<p>Your renewal request for <strong>{{book.title}}</strong> has been approved.</p>
+<p><strong>New due date:</strong> {{dueDate}}</p>
+<p>Happy reading!</p>{{/approved}}{{^approved}}<h2 style="color: red;">Renewal Declined</h2>
+<p>Hello <strong>{{user.name}}</strong>,</p>
+<p>Unfortunately, your renewal request for <strong>{{book.title}}</strong> could not be approved at this time.</p>
+{{#notes}}<p><strong>Reason:</strong> {{notes}}</p>{{/notes}}
+<p>Please return the book by the original due date or contact the library.</p>{{/approved}}`,
+      },
+    },
+  },
+  fine_issued: {
+    name: "Multa aplicada",
+    variables: ["user.name", "book.title", "daysOverdue", "fineAmount"],
+    sample: { user: sampleUser, book: sampleBook, daysOverdue: 1, fineAmount: 500 },
+    defaults: {
+      pt: {
+        subject: "💰 Multa Aplicada - {{book.title}}",
+        body: `<h2 style="color: red;">Multa Aplicada</h2>
+<p>Olá <strong>{{user.name}}</strong>,</p>
+<p>Foi aplicada uma multa ao empréstimo do livro <strong>{{book.title}}</strong> por atraso de <strong>{{daysOverdue}} dia(s)</strong>.</p>
+<p>Valor atual: <strong>{{fineAmount}} Kz</strong>. A multa continua a aumentar enquanto o livro não for devolvido.</p>`,
+      },
+      en: {
+        subject: "💰 Fine Issued - {{book.title}}",
+        body: `<h2 style="color: red;">Fine Issued</h2>
+<p>Hello <strong>{{user.name}}</strong>,</p>
+<p>A fine was issued on your loan of <strong>{{book.title}}</strong>, <strong>{{daysOverdue}} day(s)</strong> overdue.</p>
+<p>Current amount: <strong>{{fineAmount}} Kz</strong>. It keeps growing until the book is returned.</p>`,
+      },
+    },
+  },
+  fine_dispute_decision: {
+    name: "Decisão de contestação de multa",
+    variables: ["user.name", "book.title", "approved", "fullyWaived", "waivedAmount", "balance", "notes"],
+    sample: { user: sampleUser, book: sampleBook, approved: true, fullyWaived: false, waivedAmount: 1000, balance: 500, notes: "Biblioteca fechada durante dois dias" },
+    defaults: {
+      pt: {
+        subject: "{{#approved}}✅ Contestação de Multa Aceite{{/approved}}{{^approved}}❌ Contestação de Multa Recusada{{/approved}} - Biblioteca ISPTEC",
+        body: `<h2 style="color: {{#approved}}green{{/approved}}{{^approved}}red{{/approved}};">Contestação {{#approved}}Aceite{{/approved}}{{^approved}}Recusada{{/approved}}</h2>
+<p>Olá <strong>{{user.name}}</strong>,</p>
+<p>A sua contestação da multa referente ao livro <strong>{{book.title}}</strong> foi {{#approved}}aceite{{/approved}}{{^approved}}recusada{{/approved}}.</p>
+<p>{{#approved}}{{#fullyWaived}}A multa foi totalmente perdoada ({{waivedAmount}} Kz).{{/fullyWaived}}{{^fullyWaived}}Foram perdoados {{waivedAmount}} Kz. Saldo em dívida: {{balance}} Kz.{{/fullyWaived}}{{/approved}}{{^approved}}A multa mantém-se. Saldo em dívida: {{balance}} Kz.{{/approved}}</p>
+{{#notes}}<p><strong>Motivo:</strong> {{notes}}</p>{{/notes}}`,
+      },
+      en: {
+        subject: "{{#approved}}✅ Fine Dispute Accepted{{/approved}}{{^approved}}❌ Fine Dispute Declined{{/approved}} - ISPTEC Library",
+        body: `<h2 style="color: {{#approved}}green{{/approved}}{{^approved}}red{{/approved}};">Dispute {{#approved}}Accepted{{/approved}}{{^approved}}Declined{{/approved}}</h2>
+<p>Hello <strong>{{user.name}}</strong>,</p>
+<p>Your dispute of the fine for <strong>{{book.title}}</strong> was {{#approved}}accepted{{/approved}}{{^approved}}declined{{/approved}}.</p>
+<p>{{#approved}}{{#fullyWaived}}The fine was waived in full ({{waivedAmount}} Kz).{{/fullyWaived}}{{^fullyWaived}}{{waivedAmount}} Kz were waived. Outstanding balance: {{balance}} Kz.{{/fullyWaived}}{{/approved}}{{^approved}}The fine stands. Outstanding balance: {{balance}} Kz.{{/approved}}</p>
+{{#notes}}<p><strong>Reason:</strong> {{notes}}</p>{{/notes}}`,
+      },
+    },
+  },
+  hold_ready: {
+    name: "Reserva pronta para levantamento",
+    variables: ["user.name", "book.title", "expiresAt"],
+    sample: { user: sampleUser, book: sampleBook, expiresAt: inDays(2) },
+    defaults: {
+      pt: {
+        subject: "📗 Reserva Disponível para Levantamento - Biblioteca ISPTEC",
+        body: `<h2 style="color: green;">Reserva Disponível</h2>
+<p>Olá <strong>{{user.name}}</strong>,</p>
+<p>O livro <strong>{{book.title}}</strong> que reservou já está disponível na biblioteca.</p>
+<p>O exemplar fica guardado para si até <strong>{{expiresAt}}</strong>. Depois dessa data a reserva expira e o exemplar passa ao próximo utilizador da lista de espera.</p>`,
+      },
+      en: {
+        subject: "📗 Your Hold Is Ready for Pickup - ISPTEC Library",
+        body: `<h2 style="color: green;">Hold Ready</h2>
+<p>Hello <strong>{{user.name}}</strong>,</p>
+<p><strong>{{book.title}}</strong>, which you reserved, is now available at the library.</p>
+<p>The copy is kept for you until <strong>{{expiresAt}}</strong>. After that the hold expires and the copy goes to the next person on the waiting list.</p>`,
+      },
+    },
+  },
+  hold_expiring: {
+    name: "Reserva a expirar",
+    variables: ["user.name", "book.title", "expiresAt"],
+    sample: { user: sampleUser, book: sampleBook, expiresAt: inDays(0.5) },
+    defaults: {
+      pt: {
+        subject: "⏳ A sua reserva expira em breve - Biblioteca ISPTEC",
+        body: `<h2 style="color: orange;">Reserva a Expirar</h2>
+<p>Olá <strong>{{user.name}}</strong>,</p>
+<p>O livro <strong>{{book.title}}</strong> continua guardado para si, mas só até <strong>{{expiresAt}}</strong>.</p>
+<p>Se não o levantar até lá, a reserva expira e conta como não levantada.</p>`,
+      },
+      en: {
+        subject: "⏳ Your hold expires soon - ISPTEC Library",
+        body: `<h2 style="color: orange;">Hold Expiring</h2>
+<p>Hello <strong>{{user.name}}</strong>,</p>
+<p><strong>{{book.title}}</strong> is still kept for you, but only until <strong>{{expiresAt}}</strong>.</p>
+<p>If you do not pick it up by then, the hold expires and counts as a no-show.</p>`,
+      },
+    },
+  },
+  hold_expired: {
+    name: "Reserva expirada",
+    variables: ["user.name", "book.title", "expiresAt"],
+    sample: { user: sampleUser, book: sampleBook, expiresAt: inDays(-0.1) },
+    defaults: {
+      pt: {
+        subject: "⌛ Reserva Expirada - Biblioteca ISPTEC",
+        body: `<h2 style="color: red;">Reserva Expirada</h2>
+<p>Olá <strong>{{user.name}}</strong>,</p>
+<p>A sua reserva do livro <strong>{{book.title}}</strong> expirou porque o exemplar não foi levantado até <strong>{{expiresAt}}</strong>.</p>
+<p>O exemplar passou ao próximo utilizador da lista de espera. Pode voltar a reservar o livro quando quiser.</p>`,
+      },
+      en: {
+        subject: "⌛ Hold Expired - ISPTEC Library",
+        body: `<h2 style="color: red;">Hold Expired</h2>
+<p>Hello <strong>{{user.name}}</strong>,</p>
+<p>Your hold on <strong>{{book.title}}</strong> expired because the copy was not picked up by <strong>{{expiresAt}}</strong>.</p>
+<p>The copy went to the next person on the waiting list. You can place a new hold at any time.</p>`,
+      },
+    },
+  },
+  hold_request_decision: {
+    name: "Decisão de solicitação de empréstimo",
+    variables: ["user.name", "book.title", "approved", "expiresAt", "notes"],
+    sample: { user: sampleUser, book: sampleBook, approved: true, expiresAt: inDays(2), notes: null },
+    defaults: {
+      pt: {
+        subject: "{{#approved}}✅ Solicitação de Empréstimo Aprovada{{/approved}}{{^approved}}❌ Solicitação de Empréstimo Rejeitada{{/approved}} - Biblioteca ISPTEC",
+        body: `{{#approved}}<h2 style="color: green;">Solicitação Aprovada</h2>
+<p>Olá <strong>{{user.name}}</strong>,</p>
+<p>O seu pedido de empréstimo do livro <strong>{{book.title}}</strong> foi aprovado.</p>
+{{#expiresAt}}<p>O exemplar fica guardado para si até <strong>{{expiresAt}}</strong>. Levante-o no balcão da biblioteca.</p>{{/expiresAt}}{{^expiresAt}}<p>De momento não há nenhum exemplar livre. Está à frente na lista de espera e será avisado assim que um exemplar for guardado para si.</p>{{/expiresAt}}{{/approved}}{{^approved}}<h2 style="color: red;">Solicitação Rejeitada</h2>
+<p>Olá <strong>{{user.name}}</strong>,</p>
+<p>Infelizmente, o seu pedido de empréstimo do livro <strong>{{book.title}}</strong> não foi aprovado.</p>
+{{#notes}}<p>Motivo: {{notes}}</p>{{/notes}}{{/approved}}`,
+      },
+      en: {
+        subject: "{{#approved}}✅ Loan Request Approved{{/approved}}{{^approved}}❌ Loan Request Declined{{/approved}} - ISPTEC Library",
+        body: `{{#approved}}<h2 style="color: green;">Request Approved</h2>
+<p>Hello <strong>{{user.name}}</strong>,</p>
+<p>Your loan request for <strong>{{book.title}}</strong> has been approved.</p>
+{{#expiresAt}}<p>The copy is kept for you until <strong>{{expiresAt}}</strong>. Pick it up at the library desk.</p>{{/expiresAt}}{{^expiresAt}}<p>No copy is free right now. You are at the front of the waiting list and will be told as soon as a copy is set aside for you.</p>{{/expiresAt}}{{/approved}}{{^approved}}<h2 style="color: red;">Request Declined</h2>
+<p>Hello <strong>{{user.name}}</strong>,</p>
+<p>Unfortunately, your loan request for <strong>{{book.title}}</strong> was not approved.</p>
+{{#notes}}<p>Reason: {{notes}}</p>{{/notes}}{{/approved}}`,
+      },
+    },
+  },
+  hold_cancelled: {
+    name: "Reserva cancelada",
+    variables: ["user.name", "book.title", "releasedCopy"],
+    sample: { user: sampleUser, book: sampleBook, releasedCopy: true },
+    defaults: {
+      pt: {
+        subject: "🗑️ Reserva Cancelada - Biblioteca ISPTEC",
+        body: `<h2>Reserva Cancelada</h2>
+<p>Olá <strong>{{user.name}}</strong>,</p>
+<p>A sua reserva do livro <strong>{{book.title}}</strong> foi cancelada.</p>
+{{#releasedCopy}}<p>O exemplar que estava guardado para si foi libertado para o próximo utilizador.</p>{{/releasedCopy}}`,
+      },
+      en: {
+        subject: "🗑️ Hold Cancelled - ISPTEC Library",
+        body: `<h2>Hold Cancelled</h2>
+<p>Hello <strong>{{user.name}}</strong>,</p>
+<p>Your hold on <strong>{{book.title}}</strong> has been cancelled.</p>
+{{#releasedCopy}}<p>The copy that was kept for you has been released to the next person.</p>{{/releasedCopy}}`,
+      },
+    },
+  },
+  notification_digest: {
+    name: "Resumo diário de notificações",
+    variables: ["user.name", "count", "items"],
+    sample: {
+      user: sampleUser,
+      count: 2,
+      items: `<li><strong>Devolução amanhã</strong>: "Introdução aos Algoritmos" deve ser devolvido amanhã.</li>
+<li><strong>Reserva pronta para levantamento</strong>: "Cálculo I" está guardado para si.</li>`,
+    },
+    defaults: {
+      pt: {
+        subject: "📬 Resumo Diário ({{count}}) - Biblioteca ISPTEC",
+        body: `<h2>Resumo Diário</h2>
+<p>Olá <strong>{{user.name}}</strong>,</p>
+<p>Aqui está o resumo das suas notificações:</p>
+<ul>
+{{{items}}}
+</ul>`,
+      },
+      en: {
+        subject: "📬 Daily Summary ({{count}}) - ISPTEC Library",
+        body: `<h2>Daily Summary</h2>
+<p>Hello <strong>{{user.name}}</strong>,</p>
+<p>Here is a summary of your notifications:</p>
+<ul>
+{{{items}}}
+</ul>`,
+      },
+    },
+  },
+} satisfies Record<string, TemplateDefinition>;
+
+export type EmailTemplateKey = keyof typeof emailTemplateDefinitions;
+
+export function isEmailTemplateKey(key: string): key is EmailTemplateKey {
+  return Object.prototype.hasOwnProperty.call(emailTemplateDefinitions, key);
+}
+
+const footers: Record<EmailLanguage, string> = {
+  pt: "Mensagem enviada automaticamente pela Biblioteca ISPTEC. Pode escolher que notificações recebe, e como, nas preferências de notificação da sua conta.",
+  en: "Automatic message from the ISPTEC Library. You can choose which notifications you get, and how, in the notification preferences of your account.",
+};
+
+/**
+ * Shared branded frame around every email body.
+ */
+export function renderLayout(body: string, language: EmailLanguage): string {
+  return `<div style="background: #f4f5f7; padding: 24px 0; font-family: Arial, sans-serif; color: #333;">
+  <div style="max-width: 560px; margin: 0 auto; background: #ffffff; border: 1px solid #e5e7eb; border-radius: 8px; overflow: hidden;">
+    <div style="background: #1e3a8a; color: #ffffff; padding: 16px 24px; font-size: 18px; font-weight: bold;">📚 ${language === "en" ? "ISPTEC Library" : "Biblioteca ISPTEC"}</div>
+    <div style="padding: 8px 24px 16px;">
+${body}
+      <p><em>${language === "en" ? "ISPTEC Library" : "Biblioteca ISPTEC"}</em></p>
+    </div>
+    <div style="background: #f9fafb; color: #6b7280; padding: 12px 24px; font-size: 12px;">${footers[language]}</div>
+  </div>
+</div>`;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function lookup(vars: Record<string, unknown>, path: string): unknown {
+  return path.split(".").reduce<any>((value, key) => (value == null ? undefined : value[key]), vars);
+}
+
+export function formatDateTime(date: Date, language: EmailLanguage): string {
+  return new Date(date).toLocaleString(locales[language], { dateStyle: "short", timeStyle: "short" });
+}
+
+function formatValue(value: unknown, path: string, language: EmailLanguage): string {
+  if (value === null || value === undefined || value === false) return "";
+  if (value instanceof Date) {
+    return path.endsWith("At") ? formatDateTime(value, language) : value.toLocaleDateString(locales[language]);
+  }
+  return String(value);
+}
+
+const SECTION = /\{\{([#^])([\w.]+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const RAW = /\{\{\{([\w.]+)\}\}\}/g;
+const ESCAPED = /\{\{([\w.]+)\}\}/g;
+
+/**
+ * Fills the placeholders of a template string. `html` escapes values for an
+ * HTML body; subjects are plain text.
+ */
+export function renderTemplateString(template: string, vars: Record<string, unknown>, language: EmailLanguage, html: boolean): string {
+  let rendered = template;
+  let previous: string;
+  // Inner sections are resolved on the following pass
+  do {
+    previous = rendered;
+    rendered = rendered.replace(SECTION, (_, kind: string, path: string, inner: string) => {
+      const value = lookup(vars, path);
+      const set = value !== null && value !== undefined && value !== false && value !== "";
+      return (kind === "#") === set ? inner : "";
+    });
+  } while (rendered !== previous);
+
+  return rendered
+    .replace(RAW, (_, path: string) => formatValue(lookup(vars, path), path, language))
+    .replace(ESCAPED, (_, path: string) => {
+      const value = formatValue(lookup(vars, path), path, language);
+      return html ? escapeHtml(value) : value;
+    });
+}
+
+/**
+ * Plain-text alternative of an HTML body.
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "- ")
+    .replace(/<\/(p|h[1-6]|li|ul|div)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&amp;/g, "&")
+    .split("\n")
+    .map(line => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/\n\n(?=- )/g, "\n")
+    .trim();
+}
+
+/**
+ * Why a template cannot be saved (an unclosed section or a placeholder the
+ * template does not provide), or undefined when it is fine.
+ */
+export function validateTemplate(key: EmailTemplateKey, content: TemplateContent): string | undefined {
+  const allowed = new Set<string>(emailTemplateDefinitions[key].variables);
+  for (const text of [content.subject, content.body]) {
+    const opened = Array.from(text.matchAll(/\{\{([#^])([\w.]+)\}\}/g)).map(m => m[2]);
+    const closed = Array.from(text.matchAll(/\{\{\/([\w.]+)\}\}/g)).map(m => m[1]);
+    for (const name of Array.from(new Set([...opened, ...closed]))) {
+      if (opened.filter(n => n === name).length !== closed.filter(n => n === name).length) {
+        return `A secção {{#${name}}} não está fechada corretamente`;
+      }
+    }
+    for (const match of Array.from(text.matchAll(/\{\{\{?[#^/]?([\w.]+)\}?\}\}/g))) {
+      if (!allowed.has(match[1])) {
+        return `Variável desconhecida: {{${match[1]}}}`;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The subject and body in use for a template: the admin's version when there
+ * is one, the built-in default otherwise.
+ */
+export async function getTemplateContent(key: EmailTemplateKey, language: EmailLanguage): Promise<TemplateContent> {
+  const custom = await storage.getEmailTemplate(key, language);
+  return custom ? { subject: custom.subject, body: custom.body } : emailTemplateDefinitions[key].defaults[language];
+}
+
+export function renderEmailContent(content: TemplateContent, vars: Record<string, unknown>, language: EmailLanguage) {
+  const body = renderTemplateString(content.body, vars, language, true);
+  return {
+    subject: renderTemplateString(content.subject, vars, language, false),
+    html: renderLayout(body, language),
+    text: htmlToText(body),
+  };
+}
+
+export async function renderEmail(key: EmailTemplateKey, language: EmailLanguage, vars: Record<string, unknown>) {
+  return renderEmailContent(await getTemplateContent(key, language), vars, language);
+}
+
+/**
+ * Every template with its variables, defaults and the admins' versions, for
+ * the template editor.
+ */
+export async function listEmailTemplates() {
+  const custom = await storage.getEmailTemplates();
+  return (Object.keys(emailTemplateDefinitions) as EmailTemplateKey[]).map(key => {
+    const definition: TemplateDefinition = emailTemplateDefinitions[key];
+    return {
+      key,
+      name: definition.name,
+      variables: definition.variables,
+      languages: emailLanguages.map(language => {
+        const saved = custom.find(t => t.key === key && t.language === language);
+        return {
+          language,
+          subject: saved?.subject ?? definition.defaults[language].subject,
+          body: saved?.body ?? definition.defaults[language].body,
+          customized: !!saved,
+          updatedAt: saved?.updatedAt ?? null,
+        };
+      }),
+    };
+  });
+}
+
+export function renderTemplatePreview(key: EmailTemplateKey, language: EmailLanguage, content: TemplateContent) {
+  return renderEmailContent(content, emailTemplateDefinitions[key].sample, language);
+}
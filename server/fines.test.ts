@@ -0,0 +1,51 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { subDays } from "date-fns";
+import { storage } from "./storage";
+import { seedDefaultPolicies } from "./policy";
+import { buildCashClose, migrateLegacyFines } from "./fines";
+import { createTestUser, createTestBook } from "./test-helpers";
+
+before(async () => {
+  await seedDefaultPolicies();
+});
+
+describe("legacy fine migration", () => {
+  it("records paid legacy fines without a receipt or a place in the cash close", async () => {
+    const [student, cashier] = [await createTestUser("student"), await createTestUser("admin")];
+    const book = await createTestBook(2);
+    const dueDate = subDays(new Date(), 10);
+    const paidLoan = await storage.checkoutBook({ userId: student.id, bookId: book.id, dueDate });
+    await storage.checkinLoan(paidLoan.id, { returnDate: subDays(new Date(), 6) });
+    const paidFine = await storage.createFine({ loanId: paidLoan.id, userId: student.id, amount: "2000", daysOverdue: 4, status: "paid" });
+
+    const closeBefore = await buildCashClose(new Date());
+    assert.equal(await migrateLegacyFines(), 1);
+
+    const payment = (await storage.getFineTransactions(paidFine.id)).find(t => t.type === "payment")!;
+    assert.equal(payment.isLegacy, true);
+    assert.equal(payment.receiptNumber, null);
+    assert.equal(await storage.getFineBalance(paidFine.id), 0);
+    assert.equal((await storage.getFine(paidFine.id))!.status, "paid");
+
+    const closeAfter = await buildCashClose(new Date());
+    assert.equal(closeAfter.count, closeBefore.count);
+    assert.equal(closeAfter.total, closeBefore.total);
+
+    // Payments taken at the desk still get their receipt and count for the day
+    const otherLoan = await storage.checkoutBook({ userId: student.id, bookId: book.id, dueDate });
+    await storage.checkinLoan(otherLoan.id, { returnDate: new Date(), fineAccruals: [{ accrualDate: "2020-01-01", amount: 500 }] });
+    const [otherFine] = await storage.getFinesByLoan(otherLoan.id);
+    const deskPayment = await storage.postFineTransaction({
+      fineId: otherFine.id,
+      userId: student.id,
+      type: "payment",
+      amount: "-500.00",
+      recordedBy: cashier.id,
+      paymentMethod: "cash",
+    });
+    assert.equal(deskPayment.isLegacy, false);
+    assert.ok(deskPayment.receiptNumber);
+    assert.equal((await buildCashClose(new Date())).count, closeBefore.count + 1);
+  });
+});
@@ -0,0 +1,264 @@
+import { storage, type FineAccrual } from "./storage";
+import { dayKey, loadCalendar, type LibraryCalendar } from "./calendar";
+import { getLoanRuleForLoan } from "./policy";
+import { sendFineIssued } from "./email";
+import { notify } from "./notifications";
+import { addDays, format, startOfDay } from "date-fns";
+import type { Fine, FineTransaction, Loan } from "@shared/schema";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * The fine account of a loan, opened with a zero balance the first time the
+ * loan is charged.
+ */
+export async function getOrOpenLoanFine(loan: Pick<Loan, "id" | "userId">): Promise<Fine> {
+  const existing = await storage.getFinesByLoan(loan.id);
+  if (existing.length > 0) {
+    // Loans from before the ledger may have several rows; keep charging the latest
+    return existing.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+  }
+  return storage.createFine({ loanId: loan.id, userId: loan.userId });
+}
+
+/**
+ * One ledger entry per open day the loan has been overdue up to `asOf`, at the
+ * fine rate of its policy, including days already charged.
+ */
+async function loanFineAccruals(loan: Loan, asOf: Date, calendar?: LibraryCalendar): Promise<FineAccrual[]> {
+  const elapsedDays = Math.floor((asOf.getTime() - new Date(loan.dueDate).getTime()) / DAY_MS);
+  if (elapsedDays <= 0) return [];
+
+  const openDays = (calendar ?? await loadCalendar()).openDaysAfter(new Date(loan.dueDate), elapsedDays);
+  if (openDays.length === 0) return [];
+
+  const rule = await getLoanRuleForLoan(loan);
+  if (rule.finePerDay <= 0) return [];
+
+  return openDays.map(day => ({ accrualDate: dayKey(day), amount: rule.finePerDay }));
+}
+
+/**
+ * Charges the loan's overdue days up to `asOf`. Days already charged are
+ * skipped, so the nightly job and the return desk can both call this without
+ * overlap. The user is notified when the loan's fine is opened.
+ */
+export async function accrueLoanFine(loan: Loan, asOf: Date, calendar?: LibraryCalendar): Promise<Fine | undefined> {
+  const accruals = await loanFineAccruals(loan, asOf, calendar);
+  if (accruals.length === 0) return undefined;
+
+  const opened = (await storage.getFinesByLoan(loan.id)).length === 0;
+  const fine = await getOrOpenLoanFine(loan);
+  await storage.accrueFine(fine.id, accruals);
+  const charged = await storage.getFine(fine.id);
+
+  if (opened && charged) {
+    await notifyFineIssued(loan, charged);
+  }
+  return charged;
+}
+
+/**
+ * Returns the loan, charging the overdue days the nightly job has not reached
+ * in the same transaction: a return that fails or is repeated charges nothing.
+ * Returns the loan's fine when it has overdue days.
+ */
+export async function checkinLoanWithFine(loan: Loan, returnDate: Date): Promise<Fine | undefined> {
+  const fineAccruals = await loanFineAccruals(loan, returnDate);
+  const opened = fineAccruals.length > 0 && (await storage.getFinesByLoan(loan.id)).length === 0;
+  await storage.checkinLoan(loan.id, { returnDate, fineAccruals });
+  if (fineAccruals.length === 0) return undefined;
+
+  const charged = await getOrOpenLoanFine(loan);
+  if (opened) {
+    await notifyFineIssued(loan, charged);
+  }
+  return charged;
+}
+
+async function notifyFineIssued(loan: Loan, fine: Fine): Promise<void> {
+  const [user, book] = await Promise.all([storage.getUser(loan.userId), storage.getBook(loan.bookId)]);
+  if (!user || !book) return;
+
+  const amount = parseFloat(fine.amount);
+  await notify(user, {
+    type: "fine_issued",
+    title: "Multa aplicada",
+    message: `"${book.title}" está atrasado ${fine.daysOverdue} dia(s): multa de ${amount} Kz, que aumenta até à devolução.`,
+    email: () => sendFineIssued(user, book, fine.daysOverdue, amount),
+  });
+}
+
+/**
+ * Nightly accrual for every loan still out. Returns the number of loans that
+ * carry a fine.
+ */
+export async function accrueOverdueFines(asOf: Date = new Date()): Promise<number> {
+  const [activeLoans, calendar] = await Promise.all([storage.getActiveLoans(), loadCalendar()]);
+  let charged = 0;
+  for (const loan of activeLoans) {
+    if (await accrueLoanFine(loan, asOf, calendar)) charged++;
+  }
+  return charged;
+}
+
+/**
+ * Sum of the outstanding balances of a loan's fines.
+ */
+export async function getLoanFineBalance(loanId: string): Promise<number> {
+  const fines = await storage.getFinesByLoan(loanId);
+  let balance = 0;
+  for (const fine of fines) {
+    balance += await storage.getFineBalance(fine.id);
+  }
+  return balance;
+}
+
+/**
+ * Fines recorded before the ledger only have an amount and a status. Give them
+ * opening entries so balances match: a returned loan's fine gets a single
+ * adjustment, a loan still out is re-accrued day by day on one fine (the old
+ * per-payment rows of that loan are folded into it), and whatever was paid is
+ * recorded as a payment.
+ */
+export async function migrateLegacyFines(): Promise<number> {
+  const [allFines, entries] = await Promise.all([storage.getAllFines(), storage.getAllFineTransactions()]);
+  const withLedger = new Set(entries.map(e => e.fineId));
+  const legacy = allFines.filter(f => !withLedger.has(f.id) && parseFloat(f.amount) > 0);
+  const migratedLoans = new Set<string>();
+  let migrated = 0;
+
+  for (const fine of legacy) {
+    if (migratedLoans.has(fine.loanId)) continue;
+
+    const loan = await storage.getLoan(fine.loanId);
+    if (loan && loan.status !== "returned") {
+      migratedLoans.add(loan.id);
+      const loanFines = legacy.filter(f => f.loanId === loan.id);
+      const paid = loanFines.filter(f => f.status === "paid").reduce((sum, f) => sum + parseFloat(f.amount), 0);
+
+      const target = await getOrOpenLoanFine(loan);
+      for (const other of loanFines) {
+        await storage.updateFine(other.id, other.id === target.id ? { amount: "0", daysOverdue: 0 } : { amount: "0" });
+      }
+      await accrueLoanFine(loan, new Date());
+      await recordLegacyPayment(target.id, loan.userId, paid);
+      migrated += loanFines.length;
+      continue;
+    }
+
+    await storage.postFineTransaction({
+      fineId: fine.id,
+      userId: fine.userId,
+      type: "adjustment",
+      amount: fine.amount,
+      reason: "Saldo anterior ao livro-razão",
+    });
+    if (fine.status === "paid") {
+      await recordLegacyPayment(fine.id, fine.userId, parseFloat(fine.amount));
+    }
+    migrated++;
+  }
+
+  return migrated;
+}
+
+async function recordLegacyPayment(fineId: string, userId: string, amount: number): Promise<void> {
+  const paid = Math.min(amount, await storage.getFineBalance(fineId));
+  if (paid <= 0) return;
+  await storage.postFineTransaction({
+    fineId,
+    userId,
+    type: "payment",
+    amount: (-paid).toFixed(2),
+    reason: "Pagamento anterior ao livro-razão",
+    isLegacy: true,
+  });
+}
+
+export function formatReceiptNumber(receiptNumber: number): string {
+  return `REC-${receiptNumber.toString().padStart(6, "0")}`;
+}
+
+/**
+ * Everything printed on a payment receipt.
+ */
+export async function buildFineReceipt(payment: FineTransaction) {
+  const [fine, patron, cashier] = await Promise.all([
+    storage.getFine(payment.fineId),
+    storage.getUser(payment.userId),
+    payment.recordedBy ? storage.getUser(payment.recordedBy) : undefined,
+  ]);
+  const loan = fine ? await storage.getLoan(fine.loanId) : undefined;
+  const book = loan ? await storage.getBook(loan.bookId) : undefined;
+
+  return {
+    receiptNumber: payment.receiptNumber,
+    receiptCode: formatReceiptNumber(payment.receiptNumber ?? 0),
+    paidAt: payment.createdAt,
+    amount: -parseFloat(payment.amount),
+    paymentMethod: payment.paymentMethod,
+    paymentReference: payment.paymentReference,
+    notes: payment.reason,
+    patron: patron ? { name: patron.name, username: patron.username, email: patron.email } : null,
+    cashier: cashier?.name ?? null,
+    bookTitle: book?.title ?? null,
+    loanDueDate: loan?.dueDate ?? null,
+    loanReturnDate: loan?.returnDate ?? null,
+    daysOverdue: fine?.daysOverdue ?? 0,
+    fineAmount: fine ? parseFloat(fine.amount) : 0,
+    balance: fine ? await storage.getFineBalance(fine.id) : 0,
+  };
+}
+
+interface CashCloseTotals {
+  count: number;
+  total: number;
+  byMethod: Record<string, number>;
+}
+
+function addPayment(totals: CashCloseTotals, payment: FineTransaction) {
+  const amount = -parseFloat(payment.amount);
+  const method = payment.paymentMethod ?? "cash";
+  totals.count++;
+  totals.total += amount;
+  totals.byMethod[method] = (totals.byMethod[method] ?? 0) + amount;
+}
+
+/**
+ * Payments taken on `day`, totalled per cashier and per payment method so the
+ * drawer and the Multicaixa/bank statements can be reconciled at closing.
+ */
+export async function buildCashClose(day: Date) {
+  const from = startOfDay(day);
+  const payments = await storage.getFinePayments(from, addDays(from, 1));
+
+  const summary: CashCloseTotals = { count: 0, total: 0, byMethod: {} };
+  const cashiers = new Map<string, CashCloseTotals & { cashierId: string | null; cashierName: string }>();
+
+  for (const payment of payments) {
+    addPayment(summary, payment);
+
+    const key = payment.recordedBy ?? "";
+    let cashier = cashiers.get(key);
+    if (!cashier) {
+      const user = payment.recordedBy ? await storage.getUser(payment.recordedBy) : undefined;
+      cashier = {
+        cashierId: payment.recordedBy,
+        cashierName: user?.name ?? "Sistema",
+        count: 0,
+        total: 0,
+        byMethod: {},
+      };
+      cashiers.set(key, cashier);
+    }
+    addPayment(cashier, payment);
+  }
+
+  return {
+    date: format(from, "yyyy-MM-dd"),
+    ...summary,
+    cashiers: Array.from(cashiers.values()),
+    payments: await Promise.all(payments.map(buildFineReceipt)),
+  };
+}
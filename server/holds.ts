@@ -0,0 +1,363 @@
+import { storage } from "./storage";
+import { sendHoldCancelled, sendHoldExpired, sendHoldExpiring, sendHoldReady, sendHoldRequestDecision } from "./email";
+import { getBorrowerLimits, getLoanRule } from "./policy";
+import { describeActiveBlocks } from "./blocks";
+import { notify, type Notice } from "./notifications";
+import { addHours, format, subHours } from "date-fns";
+import { openHoldStatuses, type Book, type Hold, type LoanRequest, type Reservation, type User } from "@shared/schema";
+
+export const HOLD_PICKUP_HOURS = 48;
+export const HOLD_REMINDER_HOURS = 12;
+
+type QueuedHold = Hold & { userType: string };
+
+const statusRank: Partial<Record<Hold["status"], number>> = {
+  ready_for_pickup: 0,
+  requested: 1,
+  approved: 2,
+  waiting: 3,
+};
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+export function isHoldOpen(hold: Pick<Hold, "status">): boolean {
+  return openHoldStatuses.includes(hold.status);
+}
+
+/**
+ * Queue order: holds with a copy set aside first, then approved requests
+ * ahead of the waiting list, then teachers (priority), then by request date.
+ */
+export function compareHolds(
+  a: Pick<QueuedHold, "status" | "userType" | "requestDate">,
+  b: Pick<QueuedHold, "status" | "userType" | "requestDate">,
+): number {
+  const rankA = statusRank[a.status] ?? 4;
+  const rankB = statusRank[b.status] ?? 4;
+  if (rankA !== rankB) return rankA - rankB;
+  if (a.userType === "teacher" && b.userType !== "teacher") return -1;
+  if (a.userType !== "teacher" && b.userType === "teacher") return 1;
+  return new Date(a.requestDate).getTime() - new Date(b.requestDate).getTime();
+}
+
+/**
+ * Holds still waiting for a copy of the book, next in line first.
+ */
+export async function getHoldQueue(bookId: string): Promise<QueuedHold[]> {
+  const waiting = (await storage.getHoldsByBook(bookId)).filter(h => h.status === "approved" || h.status === "waiting");
+  const queue = await Promise.all(waiting.map(async (h) => {
+    const user = await storage.getUser(h.userId);
+    return { ...h, userType: user?.userType || "student" };
+  }));
+  return queue.sort(compareHolds);
+}
+
+/**
+ * Requests that count against the copies on the shelf: made while a copy was
+ * free, and not yet given one.
+ */
+export async function getShelfClaims(bookId: string): Promise<Hold[]> {
+  return (await storage.getHoldsByBook(bookId)).filter(h => h.status === "requested" || h.status === "approved");
+}
+
+/**
+ * The one way a patron asks for a book. With a copy free beyond those already
+ * requested, the hold is a request for staff to approve; otherwise it joins
+ * the waiting list. Open holds of every kind count against the reservation
+ * limit of the user type. Throws with a user-facing message when refused.
+ */
+export async function placeHold(userId: string, bookId: string): Promise<Hold> {
+  const user = await storage.getUser(userId);
+  if (!user || !user.isActive) {
+    throw new Error("Utilizador não encontrado ou inativo");
+  }
+
+  const blockReason = await describeActiveBlocks(userId);
+  if (blockReason) {
+    throw new Error(blockReason);
+  }
+
+  const book = await storage.getBook(bookId);
+  if (!book) {
+    throw new Error("Livro não encontrado");
+  }
+
+  const rule = await getLoanRule(user.userType, book);
+  if (!rule.isLoanable) {
+    throw new Error("Este livro não pode ser reservado (apenas consulta local)");
+  }
+
+  const [{ maxReservations }, userHolds, userLoans] = await Promise.all([
+    getBorrowerLimits(user.userType),
+    storage.getHoldsByUser(userId),
+    storage.getLoansByUser(userId),
+  ]);
+
+  const openHolds = userHolds.filter(isHoldOpen);
+  if (openHolds.length >= maxReservations) {
+    throw new Error(`Limite de ${maxReservations} reservas simultâneas atingido`);
+  }
+
+  const title = normalizeTitle(book.title);
+  for (const loan of userLoans.filter(l => l.status === "active" || l.status === "overdue")) {
+    const loanBook = await storage.getBook(loan.bookId);
+    if (loanBook && normalizeTitle(loanBook.title) === title) {
+      throw new Error(`Você já possui um exemplar do livro '${book.title}' emprestado.`);
+    }
+  }
+  for (const hold of openHolds) {
+    const holdBook = await storage.getBook(hold.bookId);
+    if (holdBook && normalizeTitle(holdBook.title) === title) {
+      throw new Error(hold.status === "ready_for_pickup"
+        ? "Você já tem uma reserva disponível para levantamento para este livro."
+        : "Você já tem uma reserva ativa para este título.");
+    }
+  }
+
+  const freeCopies = book.availableCopies - (await getShelfClaims(bookId)).length;
+  return storage.createHold({ userId, bookId, status: freeCopies > 0 ? "requested" : "waiting" });
+}
+
+/**
+ * Sets copies on the shelf aside for the holds waiting on the book, one per
+ * hold in queue order, and tells each user they can pick it up. Called
+ * whenever a copy may have come free: returns, approvals, expired or
+ * cancelled holds. `quietHoldId` is left for the caller to notify.
+ */
+export async function promoteHolds(bookId: string, quietHoldId?: string): Promise<Hold[]> {
+  const [queue, copies, bookHolds] = await Promise.all([
+    getHoldQueue(bookId),
+    storage.getCopiesByBook(bookId),
+    storage.getHoldsByBook(bookId),
+  ]);
+  // Requests awaiting approval keep the copies they were placed against
+  const unapproved = bookHolds.filter(h => h.status === "requested").length;
+  const shelf = copies.filter(c => c.status === "available").slice(unapproved);
+  const held: Hold[] = [];
+
+  for (const next of queue) {
+    const copy = shelf.shift();
+    if (!copy) break;
+
+    let hold: Hold;
+    try {
+      hold = await storage.holdCopy(next.id, copy.id, addHours(new Date(), HOLD_PICKUP_HOURS));
+    } catch (error: any) {
+      // Lent or held by a concurrent request in the meantime
+      console.warn(`[Hold] Could not hold copy ${copy.barcode} for ${next.id}: ${error.message}`);
+      continue;
+    }
+    held.push(hold);
+    if (hold.id !== quietHoldId) {
+      await notifyHolder(hold, (user, book) => ({
+        type: "hold_ready",
+        title: "Reserva pronta para levantamento",
+        message: `"${book.title}" está guardado para si até ${formatDeadline(hold.expirationDate!)}.`,
+        email: () => sendHoldReady(user, book, hold.expirationDate!),
+      }));
+    }
+  }
+
+  return held;
+}
+
+function formatDeadline(date: Date): string {
+  return format(date, "dd/MM/yyyy HH:mm");
+}
+
+// Holds that count against a copy on the shelf or have one set aside
+function claimsCopy(hold: Hold): boolean {
+  return hold.status === "requested" || hold.status === "approved" || hold.status === "ready_for_pickup";
+}
+
+async function notifyHolder(hold: Hold, notice: (user: User, book: Book) => Notice): Promise<void> {
+  const [user, book] = await Promise.all([storage.getUser(hold.userId), storage.getBook(hold.bookId)]);
+  if (user && book) {
+    await notify(user, notice(user, book));
+  }
+}
+
+/**
+ * Staff approval of a request: the hold goes to the front of the queue and is
+ * given a copy straight away when one is on the shelf. The user is emailed
+ * the decision, with the pickup deadline when a copy was set aside.
+ */
+export async function approveHold(hold: Hold, reviewerId: string): Promise<Hold> {
+  if (hold.status !== "requested") {
+    throw new Error("Esta solicitação já foi processada");
+  }
+  await storage.updateHold(hold.id, { status: "approved", reviewedBy: reviewerId, reviewDate: new Date() });
+  await promoteHolds(hold.bookId, hold.id);
+
+  const approved = (await storage.getHold(hold.id))!;
+  await notifyHolder(approved, (user, book) => ({
+    type: approved.expirationDate ? "hold_ready" : "hold_update",
+    title: "Solicitação aprovada",
+    message: approved.expirationDate
+      ? `"${book.title}" está guardado para si até ${formatDeadline(approved.expirationDate)}.`
+      : `"${book.title}" será guardado para si quando houver um exemplar livre.`,
+    email: () => sendHoldRequestDecision(user, book, true, { expirationDate: approved.expirationDate }),
+  }));
+  return approved;
+}
+
+/**
+ * Staff refusal of a request; the reason is kept in the hold's notes and sent
+ * to the user.
+ */
+export async function rejectHold(hold: Hold, reviewerId: string, notes: string | null): Promise<Hold> {
+  if (hold.status !== "requested") {
+    throw new Error("Esta solicitação já foi processada");
+  }
+  const rejected = await storage.releaseHold(hold.id, { status: "cancelled", reviewedBy: reviewerId, notes });
+  await notifyHolder(rejected, (user, book) => ({
+    type: "hold_update",
+    title: "Solicitação rejeitada",
+    message: `O pedido de "${book.title}" não foi aprovado.${notes ? ` Motivo: ${notes}` : ""}`,
+    email: () => sendHoldRequestDecision(user, book, false, { notes }),
+  }));
+  // The copy the request counted on is free for the waiting list
+  await promoteHolds(hold.bookId);
+  return rejected;
+}
+
+/**
+ * Cancels a hold at the user's request. A copy it was holding or counting on
+ * goes to the next in line.
+ */
+export async function cancelHold(hold: Hold): Promise<Hold> {
+  const cancelled = await storage.releaseHold(hold.id, { status: "cancelled", notes: "Cancelado pelo utilizador" });
+  await notifyHolder(cancelled, (user, book) => ({
+    type: "hold_update",
+    title: "Reserva cancelada",
+    message: `A reserva de "${book.title}" foi cancelada.`,
+    email: () => sendHoldCancelled(user, book, hold.status === "ready_for_pickup"),
+  }));
+  if (claimsCopy(hold)) {
+    await promoteHolds(hold.bookId);
+  }
+  return cancelled;
+}
+
+/**
+ * Scheduled job: copies not picked up before their expiration date expire the
+ * hold (a no-show for the user) and move down the queue; holds getting close
+ * to it are reminded once. Books with holds waiting while copies sit on the
+ * shelf are promoted too.
+ */
+export async function expireHolds(now: Date = new Date()): Promise<{ expired: number; reminded: number; promoted: number }> {
+  const allHolds = await storage.getAllHolds();
+  let expired = 0;
+  let reminded = 0;
+
+  for (const hold of allHolds) {
+    if (hold.status !== "ready_for_pickup" || !hold.expirationDate) continue;
+    const expirationDate = hold.expirationDate;
+
+    if (expirationDate > now) {
+      if (hold.reminderDate || subHours(expirationDate, HOLD_REMINDER_HOURS) > now) continue;
+      await storage.updateHold(hold.id, { reminderDate: now });
+      await notifyHolder(hold, (user, book) => ({
+        type: "hold_ready",
+        title: "Reserva a expirar",
+        message: `Levante "${book.title}" até ${formatDeadline(expirationDate)} ou a reserva expira.`,
+        email: () => sendHoldExpiring(user, book, expirationDate),
+      }));
+      reminded++;
+      continue;
+    }
+
+    try {
+      await storage.releaseHold(hold.id, { status: "expired" });
+      expired++;
+    } catch (error: any) {
+      // Picked up or cancelled since the list was read
+      console.warn(`[Hold] Could not expire ${hold.id}: ${error.message}`);
+      continue;
+    }
+    await notifyHolder(hold, (user, book) => ({
+      type: "hold_update",
+      title: "Reserva expirada",
+      message: `"${book.title}" não foi levantado até ${formatDeadline(expirationDate)} e passou ao próximo da lista.`,
+      email: () => sendHoldExpired(user, book, expirationDate),
+    }));
+  }
+
+  const waitingBooks = new Set((await storage.getAllHolds())
+    .filter(h => h.status === "approved" || h.status === "waiting")
+    .map(h => h.bookId));
+  let promoted = 0;
+  for (const bookId of Array.from(waitingBooks)) {
+    promoted += (await promoteHolds(bookId)).length;
+  }
+
+  return { expired, reminded, promoted };
+}
+
+/**
+ * Number of holds the user let expire without picking the book up.
+ */
+export async function getNoShowCount(userId: string): Promise<number> {
+  return (await storage.getHoldsByUser(userId)).filter(h => h.status === "expired").length;
+}
+
+const requestStatusMap: Record<LoanRequest["status"], Hold["status"]> = {
+  pending: "requested",
+  approved: "fulfilled",
+  rejected: "cancelled",
+};
+
+const reservationStatusMap: Record<Reservation["status"], Hold["status"]> = {
+  pending: "waiting",
+  notified: "ready_for_pickup",
+  completed: "fulfilled",
+  cancelled: "cancelled",
+  expired: "expired",
+};
+
+/**
+ * Loan requests and reservations used to be separate tables with their own
+ * limits. Copy both into holds, keeping their ids so the migration can run on
+ * every start and only pick up rows it has not seen.
+ */
+export async function migrateLegacyHolds(): Promise<number> {
+  const [requests, reservations] = await Promise.all([storage.getAllLoanRequests(), storage.getAllReservations()]);
+
+  const fromRequests: Hold[] = requests.map(r => ({
+    id: r.id,
+    userId: r.userId,
+    bookId: r.bookId,
+    copyId: null,
+    status: requestStatusMap[r.status],
+    requestDate: r.requestDate,
+    reviewedBy: r.reviewedBy,
+    reviewDate: r.reviewDate,
+    notes: r.notes,
+    notificationDate: null,
+    expirationDate: null,
+    reminderDate: null,
+    loanId: null,
+    createdAt: r.createdAt,
+  }));
+
+  const fromReservations: Hold[] = reservations.map(r => ({
+    id: r.id,
+    userId: r.userId,
+    bookId: r.bookId,
+    copyId: r.copyId,
+    status: reservationStatusMap[r.status],
+    requestDate: r.reservationDate,
+    reviewedBy: null,
+    reviewDate: null,
+    notes: null,
+    notificationDate: r.notificationDate,
+    expirationDate: r.expirationDate,
+    reminderDate: null,
+    loanId: null,
+    createdAt: r.createdAt,
+  }));
+
+  return storage.importHolds([...fromRequests, ...fromReservations]);
+}
@@ -4,6 +4,13 @@ import { setupVite, serveStatic, log } from "./vite";
 import { storage } from "./storage";
 import { insertUserSchema } from "@shared/schema";
 import { startCronJobs } from "./cron";
+import { hashPassword } from "./auth";
+import { seedDefaultPolicies } from "./policy";
+import { seedDefaultOpeningHours } from "./calendar";
+import { seedCopiesForLegacyBooks } from "./copies";
+import { migrateLegacyFines } from "./fines";
+import { migrateFineDeactivations } from "./blocks";
+import { migrateLegacyHolds } from "./holds";
 
 const app = express();
 
@@ -67,7 +74,7 @@ app.use((req, res, next) => {
       log("Seeding default admin user...");
       const adminData = {
         username: adminEmail, // username must match email for this auth system
-        password: "123456789",
+        password: await hashPassword("123456789"),
         name: "Administrador",
         email: adminEmail,
         userType: "admin" as const,
@@ -90,7 +97,7 @@ app.use((req, res, next) => {
     if (problematicUser) {
       log(`Resetting password for ${problematicEmail}...`);
       await storage.updateUser(problematicUser.id, {
-        password: "123456",
+        password: await hashPassword("123456"),
         name: "Geraldo Abreu Leão Chiquemba"
       });
       log("Password and name fixed successfully.");
@@ -145,6 +152,39 @@ app.use((req, res, next) => {
       }
     }
 
+    // Seed default loan policies (previously hard-coded business rules)
+    const seededPolicies = await seedDefaultPolicies();
+    if (seededPolicies > 0) {
+      log(`Seeded ${seededPolicies} default loan policies.`);
+    }
+
+    // Seed default opening hours for the academic calendar
+    const seededHours = await seedDefaultOpeningHours();
+    if (seededHours > 0) {
+      log(`Seeded opening hours for ${seededHours} weekdays.`);
+    }
+
+    // Turn the legacy copy counters into individually tracked copies
+    const seededCopies = await seedCopiesForLegacyBooks();
+    if (seededCopies > 0) {
+      log(`Created ${seededCopies} book copies from legacy copy counts.`);
+    }
+
+    const migratedFines = await migrateLegacyFines();
+    if (migratedFines > 0) {
+      log(`Moved ${migratedFines} legacy fines onto the fine ledger.`);
+    }
+
+    const reactivatedUsers = await migrateFineDeactivations();
+    if (reactivatedUsers > 0) {
+      log(`Replaced the fine deactivation of ${reactivatedUsers} users with fine blocks.`);
+    }
+
+    const migratedHolds = await migrateLegacyHolds();
+    if (migratedHolds > 0) {
+      log(`Moved ${migratedHolds} legacy loan requests and reservations into holds.`);
+    }
+
   } catch (err: any) {
     log(`Error ensuring default data: ${err.message}`);
   }
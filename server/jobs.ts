@@ -0,0 +1,55 @@
+import { storage } from "./storage";
+import { format, subMinutes } from "date-fns";
+import type { JobRun } from "@shared/schema";
+
+// A run still marked running after this long is taken to have died with its server
+export const JOB_TIMEOUT_MINUTES = 60;
+
+export interface JobDefinition {
+  label: string;
+  description: string;
+  schedule: string; // cron expression, server time
+  // Each period runs at most once successfully, whichever instance gets it
+  period: "day" | "hour";
+  // Resolves to the counts shown in the job history
+  run: () => Promise<Record<string, number>>;
+}
+
+export interface JobTrigger {
+  trigger: JobRun["trigger"];
+  userId?: string;
+}
+
+export function jobRunKey(period: JobDefinition["period"], at: Date = new Date()): string {
+  return format(at, period === "day" ? "yyyy-MM-dd" : "yyyy-MM-dd'T'HH");
+}
+
+async function executeRun(name: string, job: JobDefinition, run: JobRun): Promise<void> {
+  try {
+    const result = await job.run();
+    await storage.finishJobRun(run.id, { status: "succeeded", result, error: null });
+    console.log(`✅ Job ${name} (${run.runKey}) finished:`, result);
+  } catch (error: any) {
+    console.error(`❌ Job ${name} (${run.runKey}) failed:`, error);
+    await storage.finishJobRun(run.id, { status: "failed", result: null, error: error?.message ?? String(error) });
+  }
+}
+
+/**
+ * Starts the job for the current period and returns its run, or undefined
+ * when the period already ran or is running elsewhere (another instance, a
+ * restart, an admin who clicked first). The job itself carries on in the
+ * background.
+ */
+export async function startJob(name: string, job: JobDefinition, { trigger, userId }: JobTrigger): Promise<JobRun | undefined> {
+  const now = new Date();
+  const run = await storage.startJobRun(
+    { job: name, runKey: jobRunKey(job.period, now), trigger, triggeredBy: userId ?? null },
+    subMinutes(now, JOB_TIMEOUT_MINUTES),
+  );
+  if (!run) return undefined;
+
+  console.log(`⏰ Job ${name} (${run.runKey}) started by ${trigger === "manual" ? "an admin" : "the schedule"}.`);
+  executeRun(name, job, run).catch(error => console.error(`❌ Job ${name} could not record its outcome:`, error));
+  return run;
+}
@@ -0,0 +1,422 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { addDays, addHours, subDays } from "date-fns";
+import { storage } from "./storage";
+import { seedDefaultPolicies } from "./policy";
+import { accrueOverdueFines } from "./fines";
+import { getActiveBlocks } from "./blocks";
+import { scheduledJobs } from "./cron";
+import { startTestServer, createTestUser, createTestBook, type ApiClient, type TestServer } from "./test-helpers";
+import type { User } from "@shared/schema";
+
+let server: TestServer;
+let admin: User;
+let desk: ApiClient;
+
+before(async () => {
+  await seedDefaultPolicies();
+  // Every day open, so overdue days and fines do not depend on the weekday the tests run
+  for (let weekday = 0; weekday < 7; weekday++) {
+    await storage.upsertOpeningHours({ weekday, isOpen: true, opensAt: "08:00", closesAt: "20:00" });
+  }
+  server = await startTestServer();
+  admin = await createTestUser("admin");
+  desk = await server.login(admin);
+});
+
+after(() => server.close());
+
+async function checkEligibility(userId: string, bookId: string) {
+  const res = await desk.get(`/api/loans/check-eligibility?userId=${userId}&bookId=${bookId}`);
+  assert.equal(res.status, 200);
+  return res.body as { canLoan: boolean; reason?: string };
+}
+
+// A loan due `daysOverdue` days ago, as if lent and never returned
+async function overdueLoan(userId: string, bookId: string, daysOverdue: number) {
+  return storage.checkoutBook({ userId, bookId, dueDate: subDays(new Date(), daysOverdue) });
+}
+
+describe("loan eligibility", () => {
+  it("lets an active student borrow a white book on the shelf", async () => {
+    const student = await createTestUser("student");
+    const book = await createTestBook(1);
+    assert.deepEqual(await checkEligibility(student.id, book.id), { canLoan: true });
+  });
+
+  it("refuses inactive users", async () => {
+    const student = await createTestUser("student", { isActive: false });
+    const book = await createTestBook(1);
+    const result = await checkEligibility(student.id, book.id);
+    assert.equal(result.canLoan, false);
+    assert.match(result.reason!, /inativo/);
+  });
+
+  it("keeps red books in the library", async () => {
+    const student = await createTestUser("student");
+    const book = await createTestBook(1, { tag: "red" });
+    const result = await checkEligibility(student.id, book.id);
+    assert.equal(result.canLoan, false);
+    assert.match(result.reason!, /etiqueta vermelha/);
+  });
+
+  it("refuses a book with no copy on the shelf", async () => {
+    const [first, second] = [await createTestUser("student"), await createTestUser("student")];
+    const book = await createTestBook(1);
+    assert.equal((await desk.post("/api/loans", { userId: first.id, bookId: book.id })).status, 201);
+
+    const result = await checkEligibility(second.id, book.id);
+    assert.equal(result.canLoan, false);
+    assert.match(result.reason!, /zero cópias/);
+  });
+
+  it("refuses the same book twice", async () => {
+    const student = await createTestUser("student");
+    const book = await createTestBook(2);
+    assert.equal((await desk.post("/api/loans", { userId: student.id, bookId: book.id })).status, 201);
+
+    const res = await desk.post("/api/loans", { userId: student.id, bookId: book.id });
+    assert.equal(res.status, 400);
+    assert.match(res.body.message, /já tem este livro/);
+  });
+
+  it("stops students at their borrower limit but not teachers", async () => {
+    const student = await createTestUser("student");
+    const teacher = await createTestUser("teacher");
+    for (let i = 0; i < 2; i++) {
+      const book = await createTestBook(2);
+      assert.equal((await desk.post("/api/loans", { userId: student.id, bookId: book.id })).status, 201);
+      assert.equal((await desk.post("/api/loans", { userId: teacher.id, bookId: book.id })).status, 201);
+    }
+
+    const book = await createTestBook(2);
+    const studentResult = await checkEligibility(student.id, book.id);
+    assert.equal(studentResult.canLoan, false);
+    assert.match(studentResult.reason!, /Limite de 2 livros/);
+    assert.deepEqual(await checkEligibility(teacher.id, book.id), { canLoan: true });
+  });
+
+  it("keeps copies on the shelf for other users' requests", async () => {
+    const [requester, other] = [await createTestUser("student"), await createTestUser("student")];
+    const book = await createTestBook(1);
+    const requesterClient = await server.login(requester);
+    assert.equal((await requesterClient.post("/api/holds", { userId: requester.id, bookId: book.id })).status, 201);
+
+    const result = await checkEligibility(other.id, book.id);
+    assert.equal(result.canLoan, false);
+    assert.match(result.reason!, /reservado para/);
+    assert.deepEqual(await checkEligibility(requester.id, book.id), { canLoan: true });
+  });
+
+  it("refuses users blocked by the fines they owe", async () => {
+    const student = await createTestUser("student");
+    const loan = await overdueLoan(student.id, (await createTestBook(1)).id, 5);
+    assert.equal((await desk.post(`/api/loans/${loan.id}/return`)).status, 200);
+
+    const result = await checkEligibility(student.id, (await createTestBook(1)).id);
+    assert.equal(result.canLoan, false);
+    assert.match(result.reason!, /multas/i);
+  });
+});
+
+describe("renewals", () => {
+  it("extends the due date up to the policy's renewal limit", async () => {
+    const student = await createTestUser("student");
+    const book = await createTestBook(1);
+    const loan = (await desk.post("/api/loans", { userId: student.id, bookId: book.id })).body;
+
+    const first = await desk.post(`/api/loans/${loan.id}/renew`);
+    assert.equal(first.status, 200);
+    assert.ok(new Date(first.body.newDueDate) > new Date(loan.dueDate));
+    assert.equal((await desk.post(`/api/loans/${loan.id}/renew`)).status, 200);
+
+    const third = await desk.post(`/api/loans/${loan.id}/renew`);
+    assert.equal(third.status, 400);
+    assert.match(third.body.message, /Limite de 2 renovações/);
+    assert.equal((await storage.getLoan(loan.id))!.renewalCount, 2);
+  });
+
+  it("refuses while another user waits for the book", async () => {
+    const [borrower, waiting] = [await createTestUser("student"), await createTestUser("student")];
+    const book = await createTestBook(1);
+    const loan = (await desk.post("/api/loans", { userId: borrower.id, bookId: book.id })).body;
+    const waitingClient = await server.login(waiting);
+    assert.equal((await waitingClient.post("/api/holds", { userId: waiting.id, bookId: book.id })).body.status, "waiting");
+
+    const res = await desk.post(`/api/loans/${loan.id}/renew`);
+    assert.equal(res.status, 400);
+    assert.match(res.body.message, /reservas pendentes/);
+  });
+
+  it("approves a renewal request once and records who decided it", async () => {
+    const student = await createTestUser("student");
+    const book = await createTestBook(1);
+    const loan = (await desk.post("/api/loans", { userId: student.id, bookId: book.id })).body;
+    const studentClient = await server.login(student);
+    const request = (await studentClient.post("/api/renewal-requests", { loanId: loan.id, userId: student.id })).body;
+
+    assert.equal((await desk.post(`/api/renewal-requests/${request.id}/approve`)).status, 200);
+    assert.equal((await storage.getRenewalRequest(request.id))!.reviewedBy, admin.id);
+
+    const again = await desk.post(`/api/renewal-requests/${request.id}/approve`);
+    assert.equal(again.status, 400);
+    assert.match(again.body.message, /já foi processada/);
+    assert.equal((await storage.getLoan(loan.id))!.renewalCount, 1);
+  });
+
+  it("refuses to approve a request once the loan reached the renewal limit", async () => {
+    const student = await createTestUser("student");
+    const book = await createTestBook(1);
+    const loan = (await desk.post("/api/loans", { userId: student.id, bookId: book.id })).body;
+    const request = (await (await server.login(student)).post("/api/renewal-requests", { loanId: loan.id, userId: student.id })).body;
+    await desk.post(`/api/loans/${loan.id}/renew`);
+    await desk.post(`/api/loans/${loan.id}/renew`);
+
+    const res = await desk.post(`/api/renewal-requests/${request.id}/approve`);
+    assert.equal(res.status, 400);
+    assert.match(res.body.message, /Limite de 2 renovações/);
+    assert.equal((await storage.getLoan(loan.id))!.renewalCount, 2);
+  });
+});
+
+describe("hold queue", () => {
+  it("holds a returned copy for the next in line, teachers first", async () => {
+    const [borrower, student, teacher] = [
+      await createTestUser("student"),
+      await createTestUser("student"),
+      await createTestUser("teacher"),
+    ];
+    const book = await createTestBook(1);
+    const loan = (await desk.post("/api/loans", { userId: borrower.id, bookId: book.id })).body;
+
+    const studentHold = (await (await server.login(student)).post("/api/holds", { userId: student.id, bookId: book.id })).body;
+    const teacherHold = (await (await server.login(teacher)).post("/api/holds", { userId: teacher.id, bookId: book.id })).body;
+    assert.equal(studentHold.status, "waiting");
+    assert.equal(teacherHold.status, "waiting");
+
+    assert.equal((await desk.post(`/api/loans/${loan.id}/return`)).status, 200);
+
+    const promoted = (await storage.getHold(teacherHold.id))!;
+    assert.equal(promoted.status, "ready_for_pickup");
+    assert.equal(promoted.copyId, loan.copyId);
+    assert.ok(promoted.expirationDate);
+    assert.equal((await storage.getHold(studentHold.id))!.status, "waiting");
+    assert.equal((await storage.getBookCopy(loan.copyId))!.status, "on_hold");
+
+    // The held copy is the teacher's to take and nobody else's
+    assert.equal((await checkEligibility(student.id, book.id)).canLoan, false);
+    const pickup = await desk.post(`/api/holds/${teacherHold.id}/checkout`);
+    assert.equal(pickup.status, 201);
+    assert.equal(pickup.body.copyId, loan.copyId);
+    assert.equal((await storage.getHold(teacherHold.id))!.status, "fulfilled");
+  });
+
+  it("passes the copy on when a ready hold is cancelled", async () => {
+    const [borrower, first, second] = [
+      await createTestUser("student"),
+      await createTestUser("student"),
+      await createTestUser("student"),
+    ];
+    const book = await createTestBook(1);
+    const loan = (await desk.post("/api/loans", { userId: borrower.id, bookId: book.id })).body;
+    const firstClient = await server.login(first);
+    const firstHold = (await firstClient.post("/api/holds", { userId: first.id, bookId: book.id })).body;
+    const secondHold = (await (await server.login(second)).post("/api/holds", { userId: second.id, bookId: book.id })).body;
+    await desk.post(`/api/loans/${loan.id}/return`);
+    assert.equal((await storage.getHold(firstHold.id))!.status, "ready_for_pickup");
+
+    assert.equal((await firstClient.post(`/api/holds/${firstHold.id}/cancel`)).status, 200);
+    assert.equal((await storage.getHold(firstHold.id))!.status, "cancelled");
+    const promoted = (await storage.getHold(secondHold.id))!;
+    assert.equal(promoted.status, "ready_for_pickup");
+    assert.equal(promoted.copyId, loan.copyId);
+  });
+
+  it("passes the copy on when a request is rejected or cancelled", async () => {
+    for (const release of ["reject", "cancel"] as const) {
+      const [requester, waiting] = [await createTestUser("student"), await createTestUser("student")];
+      const book = await createTestBook(1);
+      const requesterClient = await server.login(requester);
+      const request = (await requesterClient.post("/api/holds", { userId: requester.id, bookId: book.id })).body;
+      const waitingHold = (await (await server.login(waiting)).post("/api/holds", { userId: waiting.id, bookId: book.id })).body;
+      assert.equal(request.status, "requested");
+      assert.equal(waitingHold.status, "waiting");
+
+      const res = release === "reject"
+        ? await desk.post(`/api/holds/${request.id}/reject`, { notes: null })
+        : await requesterClient.post(`/api/holds/${request.id}/cancel`);
+      assert.equal(res.status, 200);
+      assert.equal((await storage.getHold(waitingHold.id))!.status, "ready_for_pickup");
+    }
+  });
+});
+
+describe("fines", () => {
+  it("charges each overdue day at the policy rate on return", async () => {
+    const student = await createTestUser("student");
+    const loan = await overdueLoan(student.id, (await createTestBook(1)).id, 3);
+
+    const res = await desk.post(`/api/loans/${loan.id}/return`);
+    assert.equal(res.status, 200);
+    assert.equal(res.body.fine, 1500);
+
+    const [fine] = await storage.getFinesByLoan(loan.id);
+    assert.equal(fine.daysOverdue, 3);
+    const entries = await storage.getFineTransactions(fine.id);
+    assert.equal(entries.filter(e => e.type === "accrual").length, 3);
+    assert.equal(await storage.getUserFineBalance(student.id), 1500);
+  });
+
+  it("charges nothing for a loan returned on time", async () => {
+    const student = await createTestUser("student");
+    const book = await createTestBook(1);
+    const loan = (await desk.post("/api/loans", { userId: student.id, bookId: book.id })).body;
+
+    const res = await desk.post(`/api/loans/${loan.id}/return`);
+    assert.equal(res.body.fine, 0);
+    assert.deepEqual(await storage.getFinesByLoan(loan.id), []);
+  });
+
+  it("takes payments against the balance and refuses to overpay", async () => {
+    const student = await createTestUser("student");
+    const loan = await overdueLoan(student.id, (await createTestBook(1)).id, 2);
+    await desk.post(`/api/loans/${loan.id}/return`);
+    const [fine] = await storage.getFinesByLoan(loan.id);
+
+    const partial = await desk.post(`/api/fines/${fine.id}/pay`, { amount: 400, paymentMethod: "cash" });
+    assert.equal(partial.status, 200);
+    assert.equal(await storage.getFineBalance(fine.id), 600);
+
+    const overpaid = await desk.post(`/api/fines/${fine.id}/pay`, { amount: 700, paymentMethod: "cash" });
+    assert.equal(overpaid.status, 400);
+    assert.equal(await storage.getFineBalance(fine.id), 600);
+  });
+});
+
+describe("lost copies", () => {
+  it("end the loan, stop its fine and block the borrower", async () => {
+    const student = await createTestUser("student");
+    const loan = await overdueLoan(student.id, (await createTestBook(1)).id, 2);
+
+    const res = await desk.patch(`/api/copies/${loan.copyId}`, { status: "lost" });
+    assert.equal(res.status, 200);
+    assert.equal((await storage.getLoan(loan.id))!.status, "lost");
+    assert.equal(await storage.getUserFineBalance(student.id), 1000);
+    assert.deepEqual((await getActiveBlocks(student.id)).map(b => b.reason), ["lost_book"]);
+
+    await accrueOverdueFines(addDays(new Date(), 5));
+    assert.equal(await storage.getUserFineBalance(student.id), 1000);
+  });
+
+  it("close the lost loan and lift the block when the copy is found", async () => {
+    const student = await createTestUser("student");
+    const book = await createTestBook(1);
+    const loan = await overdueLoan(student.id, book.id, 2);
+    await desk.patch(`/api/copies/${loan.copyId}`, { status: "lost" });
+
+    const res = await desk.patch(`/api/copies/${loan.copyId}`, { status: "available" });
+    assert.equal(res.status, 200);
+    const found = (await storage.getLoan(loan.id))!;
+    assert.equal(found.status, "returned");
+    assert.ok(found.returnDate);
+    assert.deepEqual(await getActiveBlocks(student.id), []);
+    assert.equal((await storage.getBook(book.id))!.availableCopies, 1);
+    // The fine charged up to the loss is still owed
+    assert.equal(await storage.getUserFineBalance(student.id), 1000);
+  });
+});
+
+describe("overdue check", () => {
+  it("warns each loan once a day when the run is retried", async (t) => {
+    // The job's progress lines on stdout can break the test runner's reading of this file's results
+    t.mock.method(console, "log", () => {});
+    const student = await createTestUser("student");
+    await overdueLoan(student.id, (await createTestBook(1)).id, 2);
+    await storage.checkoutBook({ userId: student.id, bookId: (await createTestBook(1)).id, dueDate: addHours(new Date(), 30) });
+
+    await scheduledJobs.overdue_check.run();
+    await scheduledJobs.overdue_check.run();
+
+    const notices = await storage.getNotifications(student.id, 50);
+    assert.equal(notices.filter(n => n.type === "overdue").length, 1);
+    assert.equal(notices.filter(n => n.type === "due_soon").length, 1);
+  });
+});
+
+describe("loan requests", () => {
+  it("turns an approved request into a loan of the copy set aside", async () => {
+    const student = await createTestUser("student");
+    const book = await createTestBook(1);
+    const client = await server.login(student);
+
+    const request = await client.post("/api/holds", { userId: student.id, bookId: book.id });
+    assert.equal(request.status, 201);
+    assert.equal(request.body.status, "requested");
+
+    const approved = await desk.post(`/api/holds/${request.body.id}/approve`);
+    assert.equal(approved.status, 200);
+    assert.equal(approved.body.status, "ready_for_pickup");
+    assert.ok(approved.body.copyId);
+
+    const loan = await desk.post(`/api/holds/${request.body.id}/checkout`);
+    assert.equal(loan.status, 201);
+    assert.equal(loan.body.userId, student.id);
+    assert.equal(loan.body.copyId, approved.body.copyId);
+    assert.equal((await storage.getBook(book.id))!.availableCopies, 0);
+  });
+
+  it("cannot be decided twice", async () => {
+    const student = await createTestUser("student");
+    const book = await createTestBook(1);
+    const request = (await (await server.login(student)).post("/api/holds", { userId: student.id, bookId: book.id })).body;
+
+    const rejected = await desk.post(`/api/holds/${request.id}/reject`, { notes: "Exemplar reservado para exame" });
+    assert.equal(rejected.status, 200);
+    assert.equal(rejected.body.status, "cancelled");
+    const [event] = await storage.getAuditEvents({ entityType: "hold", entityId: request.id, limit: 1 });
+    assert.equal(event.action, "reject");
+
+    const again = await desk.post(`/api/holds/${request.id}/approve`);
+    assert.equal(again.status, 400);
+    assert.match(again.body.message, /já foi processada/);
+  });
+
+  it("is limited to the user's own account", async () => {
+    const [student, other] = [await createTestUser("student"), await createTestUser("student")];
+    const book = await createTestBook(1);
+    const res = await (await server.login(student)).post("/api/holds", { userId: other.id, bookId: book.id });
+    assert.equal(res.status, 403);
+  });
+
+  it("is refused for red books and past the reservation limit", async () => {
+    const student = await createTestUser("student");
+    const client = await server.login(student);
+
+    const red = await client.post("/api/holds", { userId: student.id, bookId: (await createTestBook(1, { tag: "red" })).id });
+    assert.equal(red.status, 400);
+    assert.match(red.body.message, /apenas consulta local/);
+
+    for (let i = 0; i < 3; i++) {
+      const res = await client.post("/api/holds", { userId: student.id, bookId: (await createTestBook(1)).id });
+      assert.equal(res.status, 201);
+    }
+    const over = await client.post("/api/holds", { userId: student.id, bookId: (await createTestBook(1)).id });
+    assert.equal(over.status, 400);
+    assert.match(over.body.message, /Limite de 3 reservas/);
+  });
+});
+
+describe("loan rules", () => {
+  it("show every patron the limits and tag rules of the policies", async () => {
+    const student = await createTestUser("student");
+    const res = await (await server.login(student)).get("/api/loan-rules");
+    assert.equal(res.status, 200);
+
+    const byType = new Map((res.body as any[]).map(r => [r.userType, r]));
+    assert.equal(byType.get("student").maxBooks, 2);
+    assert.equal(byType.get("student").maxFineAmount, 2000);
+    assert.equal(byType.get("student").tags.white.loanDays, 5);
+    assert.equal(byType.get("teacher").tags.white.loanDays, 15);
+    assert.equal(byType.get("teacher").tags.red.isLoanable, false);
+  });
+});
@@ -0,0 +1,82 @@
+import nodemailer from "nodemailer";
+
+// Interface for email message
+export interface MailOptions {
+    to: string;
+    subject: string;
+    text: string;
+    html: string;
+}
+
+export interface DeliveryResult {
+    messageId: string;
+    // Recipients the server refused outright
+    rejected: string[];
+}
+
+// The transporter is created on the first delivery, not at import time.
+// If environment variables are set, use them (Production/Gmail/Outlook)
+// Otherwise, create an Ethereal account (Development/Free)
+let transporter: nodemailer.Transporter | null = null;
+
+async function createTransporter(): Promise<nodemailer.Transporter> {
+    if (process.env.EMAIL_USER && process.env.EMAIL_PASS) {
+        // Production / SMTP
+        console.log(`📧 Email Service: Configured with SMTP (${process.env.EMAIL_HOST || "smtp.gmail.com"})`);
+        return nodemailer.createTransport({
+            host: process.env.EMAIL_HOST || "smtp.gmail.com",
+            port: parseInt(process.env.EMAIL_PORT || "587"),
+            secure: false, // true for 465, false for other ports
+            auth: {
+                user: process.env.EMAIL_USER,
+                pass: process.env.EMAIL_PASS,
+            },
+        });
+    }
+
+    // Development / Ethereal. Throws when the account cannot be created, so
+    // the delivery is retried later like any other failure
+    const testAccount = await nodemailer.createTestAccount();
+    console.log("📧 Email Service: Configured with Ethereal (Dev Mode)");
+    console.log(`   User: ${testAccount.user}`);
+    console.log(`   Pass: ${testAccount.pass}`);
+    return nodemailer.createTransport({
+        host: "smtp.ethereal.email",
+        port: 587,
+        secure: false,
+        auth: {
+            user: testAccount.user,
+            pass: testAccount.pass,
+        },
+    });
+}
+
+/**
+ * Hand one email to the SMTP server. Throws when it could not be delivered;
+ * the error carries the server's `responseCode` when there was one.
+ */
+export async function deliverEmail({ to, subject, text, html }: MailOptions): Promise<DeliveryResult> {
+    if (!transporter) {
+        transporter = await createTransporter();
+    }
+
+    const info = await transporter.sendMail({
+        from: '"Biblioteca ISPTEC" <noreply@biblioteca.isptec.co.ao>', // sender address
+        to,
+        subject,
+        text,
+        html,
+    });
+
+    console.log("📨 Email sent: %s", info.messageId);
+
+    // If using Ethereal, log the preview URL
+    if (nodemailer.getTestMessageUrl(info)) {
+        console.log("👀 Preview URL: %s", nodemailer.getTestMessageUrl(info));
+    }
+
+    return {
+        messageId: info.messageId,
+        rejected: (info.rejected ?? []).map((address: string | { address: string }) => typeof address === "string" ? address : address.address),
+    };
+}
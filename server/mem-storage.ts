@@ -0,0 +1,1428 @@
+import { randomUUID } from "crypto";
+import type {
+  User,
+  InsertUser,
+  Book,
+  InsertBook,
+  BookCopy,
+  InsertBookCopy,
+  Loan,
+  InsertLoan,
+  Reservation,
+  Hold,
+  InsertHold,
+  Fine,
+  InsertFine,
+  FineTransaction,
+  InsertFineTransaction,
+  FineDispute,
+  InsertFineDispute,
+  UserBlock,
+  InsertUserBlock,
+  Category,
+  InsertCategory,
+  LoanRequest,
+  RenewalRequest,
+  InsertRenewalRequest,
+  Review,
+  InsertReview,
+  Author,
+  InsertAuthor,
+  LoanPolicy,
+  InsertLoanPolicy,
+  BorrowerPolicy,
+  InsertBorrowerPolicy,
+  OpeningHours,
+  InsertOpeningHours,
+  CalendarEvent,
+  InsertCalendarEvent,
+  Notification,
+  InsertNotification,
+  LoanNotice,
+  NotificationPreference,
+  InsertNotificationPreference,
+  PhoneVerification,
+  InsertPhoneVerification,
+  EmailTemplate,
+  InsertEmailTemplate,
+  OutboxEmail,
+  InsertOutboxEmail,
+  JobRun,
+  InsertJobRun,
+  AuditEvent,
+  InsertAuditEvent,
+} from "@shared/schema";
+import { openHoldStatuses, STALE_JOB_RUN_ERROR, catalogueSearchTerms } from "@shared/schema";
+import { foldSearchText, type BookQuery } from "@shared/book-query";
+import type { IStorage, CheckoutParams, CheckinParams, HoldRelease, FineAccrual, FineDisputeDecision, AuditEventFilters, CatalogueFilters, CatalogueQuery, CataloguePage, CatalogueFacets, FacetCount, BookStats } from "./storage";
+
+/**
+ * In-process implementation of IStorage, used when the server runs with
+ * STORAGE=memory. It mirrors the column defaults and unique constraints of the
+ * Postgres schema so the routes behave the same without a database. Data is
+ * lost when the process exits.
+ */
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  private books = new Map<string, Book>();
+  private bookCopies = new Map<string, BookCopy>();
+  private categories = new Map<string, Category>();
+  private authors = new Map<string, Author>();
+  private loans = new Map<string, Loan>();
+  private holds = new Map<string, Hold>();
+  private fines = new Map<string, Fine>();
+  private fineTransactions = new Map<string, FineTransaction>();
+  private fineDisputes = new Map<string, FineDispute>();
+  private lastReceiptNumber = 0;
+  private userBlocks = new Map<string, UserBlock>();
+  private renewalRequests = new Map<string, RenewalRequest>();
+  private reviews = new Map<string, Review>();
+  private loanPolicies = new Map<string, LoanPolicy>();
+  private borrowerPolicies = new Map<string, BorrowerPolicy>();
+  private openingHours = new Map<number, OpeningHours>();
+  private calendarEvents = new Map<string, CalendarEvent>();
+  private notifications = new Map<string, Notification>();
+  private loanNotices = new Map<string, LoanNotice>(); // Keyed by loan, type and day
+  private notificationPreferences = new Map<string, NotificationPreference>();
+  private phoneVerifications = new Map<string, PhoneVerification>();
+  private emailTemplates = new Map<string, EmailTemplate>();
+  private emailOutbox = new Map<string, OutboxEmail>();
+  private jobRuns = new Map<string, JobRun>();
+  private auditEvents = new Map<string, AuditEvent>();
+
+  private locks = new Map<string, Promise<void>>();
+
+  // Stand-in for the row locks DatabaseStorage takes with for("update"):
+  // `critical` starts once every earlier caller holding one of the keys is done
+  private async withLocks<T>(keys: string[], critical: () => Promise<T>): Promise<T> {
+    const earlier = keys.map(key => this.locks.get(key));
+    let release!: () => void;
+    const held = new Promise<void>(resolve => { release = resolve; });
+    for (const key of keys) this.locks.set(key, held);
+    try {
+      await Promise.all(earlier);
+      return await critical();
+    } finally {
+      release();
+      for (const key of keys) {
+        if (this.locks.get(key) === held) this.locks.delete(key);
+      }
+    }
+  }
+
+  // Lets other requests run between a check and its write, as a database round
+  // trip would, so a critical section left without its lock fails the tests
+  private yieldTurn(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+  }
+
+  // Same failure Postgres reports for a unique index, so callers see one behaviour
+  private assertUnique<T>(rows: Map<string, T>, id: string | undefined, field: keyof T, value: unknown, constraint: string) {
+    if (value === null || value === undefined) return;
+    for (const [rowId, row] of Array.from(rows.entries())) {
+      if (rowId !== id && row[field] === value) {
+        throw new Error(`duplicate key value violates unique constraint "${constraint}"`);
+      }
+    }
+  }
+
+  private update<T extends { id: string }>(rows: Map<string, T>, id: string, data: Partial<T>): T | undefined {
+    const existing = rows.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...data, id };
+    rows.set(id, updated);
+    return updated;
+  }
+
+  // User methods
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(u => u.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    this.assertUnique(this.users, undefined, "username", insertUser.username, "users_username_unique");
+    this.assertUnique(this.users, undefined, "email", insertUser.email, "users_email_unique");
+    const user: User = {
+      userType: "student",
+      isActive: true,
+      phone: null,
+      phoneChannel: "sms",
+      language: "pt",
+      ...insertUser,
+      phoneVerifiedAt: null,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async updateUser(id: string, userData: Partial<User>): Promise<User | undefined> {
+    this.assertUnique(this.users, id, "username", userData.username, "users_username_unique");
+    this.assertUnique(this.users, id, "email", userData.email, "users_email_unique");
+    return this.update(this.users, id, userData);
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    return this.users.delete(id);
+  }
+
+  // Book methods
+  async getBook(id: string): Promise<Book | undefined> {
+    return this.books.get(id);
+  }
+
+  async getAllBooks(): Promise<Book[]> {
+    return Array.from(this.books.values());
+  }
+
+  async searchBooks(query: string): Promise<Book[]> {
+    const lowerQuery = query.toLowerCase();
+    return Array.from(this.books.values()).filter(b =>
+      b.title.toLowerCase().includes(lowerQuery) ||
+      b.author.toLowerCase().includes(lowerQuery) ||
+      (b.isbn?.toLowerCase().includes(lowerQuery) ?? false)
+    );
+  }
+
+  private bookRating(bookId: string): number | null {
+    const ratings = Array.from(this.reviews.values()).filter(r => r.bookId === bookId).map(r => r.rating);
+    return ratings.length > 0 ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : null;
+  }
+
+  // Books passing every filter but the given facet's. Searches need every word
+  // in some field; no stemming, ranking or typo tolerance
+  private catalogueMatches(filters: CatalogueFilters, except?: keyof CatalogueFacets): Book[] {
+    const terms = catalogueSearchTerms(filters.search);
+    const within = <T>(facet: keyof CatalogueFacets, selected: T[] | undefined, value: T) =>
+      facet === except || !selected?.length || selected.includes(value);
+
+    return Array.from(this.books.values()).filter(b => {
+      if (!within("categories", filters.categoryIds, b.categoryId ?? "")) return false;
+      if (!within("departments", filters.departments, b.department)) return false;
+      if (!within("authors", filters.authors, b.author)) return false;
+      if (!within("publishers", filters.publishers, b.publisher ?? "")) return false;
+      if (!within("decades", filters.decades, b.yearPublished === null ? NaN : Math.floor(b.yearPublished / 10) * 10)) return false;
+      if (!within("tags", filters.tags, b.tag)) return false;
+      if (except !== "available" && filters.available && b.availableCopies <= 0) return false;
+      if (except !== "ratings" && filters.minRating && (this.bookRating(b.id) ?? 0) < filters.minRating) return false;
+      if (filters.query && !this.matchesBookQuery(b, filters.query)) return false;
+      const text = catalogueSearchTerms([b.title, b.author, b.isbn?.replace(/-/g, ""), b.publisher, b.description].join(" ")).join(" ");
+      return terms.every(t => text.includes(t));
+    });
+  }
+
+  private matchesBookQuery(book: Book, query: BookQuery): boolean {
+    switch (query.type) {
+      case "and":
+        return query.operands.every(operand => this.matchesBookQuery(book, operand));
+      case "or":
+        return query.operands.some(operand => this.matchesBookQuery(book, operand));
+      case "not":
+        return !this.matchesBookQuery(book, query.operand);
+      case "text": {
+        const contains = (text: string | null | undefined) => foldSearchText(text ?? "").includes(query.value);
+        const fields = {
+          title: () => contains(book.title),
+          author: () => contains(book.author),
+          isbn: () => foldSearchText(book.isbn ?? "").replace(/-/g, "").includes(query.value.replace(/[\s-]/g, "")),
+          publisher: () => contains(book.publisher),
+          description: () => contains(book.description),
+          category: () => contains(book.categoryId ? this.categories.get(book.categoryId)?.name : null),
+        };
+        return query.field
+          ? fields[query.field]()
+          : fields.title() || fields.author() || fields.isbn() || fields.publisher() || fields.description();
+      }
+      case "tag":
+        return book.tag === query.value;
+      case "department":
+        return book.department === query.value;
+      case "available":
+        return book.availableCopies > 0 === query.value;
+      case "range": {
+        const value = query.field === "year" ? book.yearPublished : this.bookRating(book.id);
+        return value !== null && (query.min === null || value >= query.min) && (query.max === null || value <= query.max);
+      }
+    }
+  }
+
+  async searchCatalogue(query: CatalogueQuery): Promise<CataloguePage> {
+    const matches = this.catalogueMatches(query);
+    const byTitle = (a: Book, b: Book) => a.title.localeCompare(b.title);
+    const compare: Record<CatalogueQuery["sort"], (a: Book, b: Book) => number> = {
+      relevance: byTitle,
+      title: byTitle,
+      author: (a, b) => a.author.localeCompare(b.author) || byTitle(a, b),
+      year: (a, b) => (b.yearPublished ?? -Infinity) - (a.yearPublished ?? -Infinity) || byTitle(a, b),
+      newest: (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+    };
+    matches.sort(compare[query.sort]);
+
+    const start = (query.page - 1) * query.pageSize;
+    return { books: matches.slice(start, start + query.pageSize), total: matches.length };
+  }
+
+  async getCatalogueFacets(filters: CatalogueFilters): Promise<CatalogueFacets> {
+    const countBy = <T>(facet: keyof CatalogueFacets, valueOf: (b: Book) => T | null, selected: T[] = [], limit = 100): FacetCount<T>[] => {
+      const counts = new Map<T, number>();
+      for (const book of this.catalogueMatches(filters, facet)) {
+        const value = valueOf(book);
+        if (value !== null) counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+      return Array.from(counts, ([value, count]) => ({ value, count }))
+        .sort((a, b) => Number(selected.includes(b.value)) - Number(selected.includes(a.value)) || b.count - a.count)
+        .slice(0, limit);
+    };
+
+    const ratings = this.catalogueMatches(filters, "ratings").map(b => this.bookRating(b.id) ?? 0);
+    return {
+      categories: countBy("categories", b => b.categoryId),
+      departments: countBy("departments", b => b.department),
+      authors: countBy("authors", b => b.author, filters.authors, 20),
+      publishers: countBy("publishers", b => b.publisher, filters.publishers, 20),
+      decades: countBy("decades", b => b.yearPublished === null ? null : Math.floor(b.yearPublished / 10) * 10)
+        .sort((a, b) => b.value - a.value),
+      tags: countBy("tags", b => b.tag),
+      available: this.catalogueMatches(filters, "available").filter(b => b.availableCopies > 0).length,
+      ratings: [4, 3, 2, 1].map(t => ({ value: t, count: ratings.filter(r => r >= t).length })),
+    };
+  }
+
+  async getBookStats(bookIds: string[]): Promise<Map<string, BookStats>> {
+    const stats = new Map<string, BookStats>();
+    for (const bookId of bookIds) {
+      const bookLoans = Array.from(this.loans.values()).filter(l => l.bookId === bookId);
+      const loanIds = new Set(bookLoans.map(l => l.id));
+      const bookReviews = Array.from(this.reviews.values()).filter(r => r.bookId === bookId);
+      stats.set(bookId, {
+        loanCount: bookLoans.length,
+        totalFines: Array.from(this.fines.values())
+          .filter(f => loanIds.has(f.loanId))
+          .reduce((sum, f) => sum + parseFloat(f.amount), 0),
+        averageRating: bookReviews.length > 0 ? bookReviews.reduce((sum, r) => sum + r.rating, 0) / bookReviews.length : 0,
+        reviewCount: bookReviews.length,
+      });
+    }
+    return stats;
+  }
+
+  async createBook(insertBook: InsertBook): Promise<Book> {
+    this.assertUnique(this.books, undefined, "isbn", insertBook.isbn, "books_isbn_unique");
+    const book: Book = {
+      authorId: null,
+      isbn: null,
+      publisher: null,
+      yearPublished: null,
+      categoryId: null,
+      department: "outros",
+      tag: "white",
+      description: null,
+      coverImage: null,
+      ...insertBook,
+      id: randomUUID(),
+      totalCopies: 0,
+      availableCopies: 0,
+      createdAt: new Date(),
+    };
+    this.books.set(book.id, book);
+    return book;
+  }
+
+  async updateBook(id: string, bookData: Partial<Book>): Promise<Book | undefined> {
+    this.assertUnique(this.books, id, "isbn", bookData.isbn, "books_isbn_unique");
+    return this.update(this.books, id, bookData);
+  }
+
+  async deleteBook(id: string): Promise<boolean> {
+    for (const copy of Array.from(this.bookCopies.values())) {
+      if (copy.bookId === id) this.bookCopies.delete(copy.id);
+    }
+    return this.books.delete(id);
+  }
+
+  // Book copy methods
+  async getBookCopy(id: string): Promise<BookCopy | undefined> {
+    return this.bookCopies.get(id);
+  }
+
+  async getBookCopyByBarcode(barcode: string): Promise<BookCopy | undefined> {
+    return Array.from(this.bookCopies.values()).find(c => c.barcode === barcode);
+  }
+
+  async getCopiesByBook(bookId: string): Promise<BookCopy[]> {
+    return Array.from(this.bookCopies.values())
+      .filter(c => c.bookId === bookId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getAllBookCopies(): Promise<BookCopy[]> {
+    return Array.from(this.bookCopies.values());
+  }
+
+  async createBookCopy(insertCopy: InsertBookCopy): Promise<BookCopy> {
+    this.assertUnique(this.bookCopies, undefined, "barcode", insertCopy.barcode, "book_copies_barcode_unique");
+    this.assertUnique(this.bookCopies, undefined, "accessionNumber", insertCopy.accessionNumber, "book_copies_accession_number_unique");
+    const copy: BookCopy = {
+      accessionNumber: null,
+      shelfLocation: null,
+      condition: "good",
+      status: "available",
+      notes: null,
+      ...insertCopy,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.bookCopies.set(copy.id, copy);
+    await this.refreshBookAvailability(copy.bookId);
+    return copy;
+  }
+
+  async updateBookCopy(id: string, copyData: Partial<BookCopy>): Promise<BookCopy | undefined> {
+    this.assertUnique(this.bookCopies, id, "barcode", copyData.barcode, "book_copies_barcode_unique");
+    this.assertUnique(this.bookCopies, id, "accessionNumber", copyData.accessionNumber, "book_copies_accession_number_unique");
+    const updated = this.update(this.bookCopies, id, copyData);
+    if (updated) {
+      await this.refreshBookAvailability(updated.bookId);
+    }
+    return updated;
+  }
+
+  async deleteBookCopy(id: string): Promise<boolean> {
+    const copy = this.bookCopies.get(id);
+    if (!copy) return false;
+    this.bookCopies.delete(id);
+    await this.refreshBookAvailability(copy.bookId);
+    return true;
+  }
+
+  async refreshBookAvailability(bookId: string): Promise<Book | undefined> {
+    const copies = Array.from(this.bookCopies.values()).filter(c => c.bookId === bookId);
+    return this.update(this.books, bookId, {
+      totalCopies: copies.filter(c => c.status !== "withdrawn" && c.status !== "lost").length,
+      availableCopies: copies.filter(c => c.status === "available").length,
+    });
+  }
+
+  // Category methods
+  async getCategory(id: string): Promise<Category | undefined> {
+    return this.categories.get(id);
+  }
+
+  async getAllCategories(): Promise<Category[]> {
+    return Array.from(this.categories.values());
+  }
+
+  async createCategory(insertCategory: InsertCategory): Promise<Category> {
+    this.assertUnique(this.categories, undefined, "name", insertCategory.name, "categories_name_unique");
+    const category: Category = { description: null, ...insertCategory, id: randomUUID() };
+    this.categories.set(category.id, category);
+    return category;
+  }
+
+  async updateCategory(id: string, categoryData: Partial<Category>): Promise<Category | undefined> {
+    this.assertUnique(this.categories, id, "name", categoryData.name, "categories_name_unique");
+    return this.update(this.categories, id, categoryData);
+  }
+
+  async deleteCategory(id: string): Promise<boolean> {
+    if (Array.from(this.books.values()).some(b => b.categoryId === id)) {
+      throw new Error("Não é possível apagar uma categoria que possui livros associados.");
+    }
+    return this.categories.delete(id);
+  }
+
+  // Author methods
+  async getAuthor(id: string): Promise<Author | undefined> {
+    return this.authors.get(id);
+  }
+
+  async getAllAuthors(): Promise<Author[]> {
+    return Array.from(this.authors.values());
+  }
+
+  async createAuthor(insertAuthor: InsertAuthor): Promise<Author> {
+    this.assertUnique(this.authors, undefined, "name", insertAuthor.name, "authors_name_unique");
+    const author: Author = { biography: null, ...insertAuthor, id: randomUUID() };
+    this.authors.set(author.id, author);
+    return author;
+  }
+
+  async updateAuthor(id: string, authorData: Partial<Author>): Promise<Author | undefined> {
+    this.assertUnique(this.authors, id, "name", authorData.name, "authors_name_unique");
+    return this.update(this.authors, id, authorData);
+  }
+
+  async deleteAuthor(id: string): Promise<boolean> {
+    if (Array.from(this.books.values()).some(b => b.authorId === id)) {
+      throw new Error("Não é possível apagar um autor que possui livros associados.");
+    }
+    return this.authors.delete(id);
+  }
+
+  // Loan methods
+  async getLoan(id: string): Promise<Loan | undefined> {
+    return this.loans.get(id);
+  }
+
+  async getAllLoans(): Promise<Loan[]> {
+    return Array.from(this.loans.values());
+  }
+
+  async getLoansByUser(userId: string): Promise<Loan[]> {
+    return Array.from(this.loans.values()).filter(l => l.userId === userId);
+  }
+
+  async getLoansByBook(bookId: string): Promise<Loan[]> {
+    return Array.from(this.loans.values()).filter(l => l.bookId === bookId);
+  }
+
+  async getLoansByCopy(copyId: string): Promise<Loan[]> {
+    return Array.from(this.loans.values()).filter(l => l.copyId === copyId);
+  }
+
+  async getActiveLoans(): Promise<Loan[]> {
+    return Array.from(this.loans.values()).filter(l => l.status === "active");
+  }
+
+  async getOverdueLoans(): Promise<Loan[]> {
+    const now = new Date();
+    return Array.from(this.loans.values()).filter(l => l.status === "active" && l.dueDate < now);
+  }
+
+  async createLoan(insertLoan: InsertLoan): Promise<Loan> {
+    const now = new Date();
+    const loan: Loan = {
+      copyId: null,
+      status: "active",
+      ...insertLoan,
+      id: randomUUID(),
+      loanDate: now,
+      returnDate: null,
+      renewalCount: 0,
+      createdAt: now,
+    };
+    this.loans.set(loan.id, loan);
+    return loan;
+  }
+
+  async updateLoan(id: string, loanData: Partial<Loan>): Promise<Loan | undefined> {
+    return this.update(this.loans, id, loanData);
+  }
+
+  async checkoutBook(params: CheckoutParams): Promise<Loan> {
+    return this.withLocks([`user:${params.userId}`, `book:${params.bookId}`], async () => {
+      const user = this.users.get(params.userId);
+      if (!user || !user.isActive) {
+        throw new Error("Utilizador não encontrado ou inativo");
+      }
+      if (!this.books.has(params.bookId)) {
+        throw new Error("Livro não encontrado");
+      }
+
+      const now = new Date();
+      const blocked = Array.from(this.userBlocks.values()).some(b =>
+        b.userId === params.userId && b.startDate <= now && (!b.endDate || b.endDate > now)
+      );
+      if (blocked) {
+        throw new Error("Conta bloqueada");
+      }
+
+      const openLoans = Array.from(this.loans.values()).filter(l =>
+        l.userId === params.userId && (l.status === "active" || l.status === "overdue")
+      );
+      if (openLoans.some(l => l.bookId === params.bookId)) {
+        throw new Error("Você já tem este livro emprestado no momento");
+      }
+      if (params.maxBooks !== undefined && openLoans.length >= params.maxBooks) {
+        throw new Error(`Limite de ${params.maxBooks} livros atingido para este tipo de utilizador`);
+      }
+
+      // The loan fulfils the user's open hold on the book; a copy held for it is theirs to take
+      const hold = Array.from(this.holds.values()).find(h =>
+        h.userId === params.userId && h.bookId === params.bookId && openHoldStatuses.includes(h.status)
+      );
+      const heldCopyId = hold?.copyId ?? undefined;
+      const wantedCopyId = params.copyId ?? heldCopyId;
+
+      // Other users' requests count against the copies on the shelf
+      if (!heldCopyId) {
+        const shelf = Array.from(this.bookCopies.values()).filter(c => c.bookId === params.bookId && c.status === "available").length;
+        const claims = Array.from(this.holds.values()).filter(h =>
+          h.bookId === params.bookId && h.userId !== params.userId && (h.status === "requested" || h.status === "approved")
+        ).length;
+        if (shelf > 0 && shelf <= claims) {
+          throw new Error("Não há cópias livres além das reservadas");
+        }
+      }
+
+      const copy = Array.from(this.bookCopies.values())
+        .filter(c => c.bookId === params.bookId &&
+          (c.status === "available" || (c.id === heldCopyId && c.status === "on_hold")) &&
+          (!wantedCopyId || c.id === wantedCopyId))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0];
+      if (!copy) {
+        throw new Error(params.copyId
+          ? "Este exemplar não está disponível para empréstimo"
+          : "Livro indisponível (zero cópias disponíveis)");
+      }
+
+      await this.yieldTurn();
+
+      const loan: Loan = {
+        id: randomUUID(),
+        userId: params.userId,
+        bookId: params.bookId,
+        copyId: copy.id,
+        loanDate: now,
+        dueDate: params.dueDate,
+        returnDate: null,
+        status: "active",
+        renewalCount: 0,
+        createdAt: now,
+      };
+      this.loans.set(loan.id, loan);
+      this.bookCopies.set(copy.id, { ...copy, status: "on_loan" });
+      // Took another copy than the one held: the held one goes back on the shelf
+      const heldCopy = heldCopyId && heldCopyId !== copy.id ? this.bookCopies.get(heldCopyId) : undefined;
+      if (heldCopy?.status === "on_hold") {
+        this.bookCopies.set(heldCopy.id, { ...heldCopy, status: "available" });
+      }
+
+      if (hold) {
+        this.update(this.holds, hold.id, { status: "fulfilled", loanId: loan.id });
+      }
+
+      await this.refreshBookAvailability(params.bookId);
+      return loan;
+    });
+  }
+
+  async checkinLoan(loanId: string, params: CheckinParams): Promise<Loan> {
+    return this.withLocks([`loan:${loanId}`], async () => {
+      const loan = this.loans.get(loanId);
+      if (!loan) {
+        throw new Error("Empréstimo não encontrado");
+      }
+      if (loan.status === "returned") {
+        throw new Error("Empréstimo já foi devolvido");
+      }
+
+      await this.yieldTurn();
+
+      const returnedLoan: Loan = { ...loan, status: "returned", returnDate: params.returnDate };
+      this.loans.set(loan.id, returnedLoan);
+
+      if (params.fineAccruals?.length) {
+        const [latestFine] = (await this.getFinesByLoan(loan.id))
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+        const fine = latestFine ?? await this.createFine({ loanId: loan.id, userId: loan.userId });
+        await this.insertAccruals(fine, params.fineAccruals);
+      }
+
+      const copy = loan.copyId ? this.bookCopies.get(loan.copyId) : undefined;
+      if (copy && copy.status === "on_loan") {
+        this.bookCopies.set(copy.id, { ...copy, status: "available" });
+      }
+
+      await this.refreshBookAvailability(loan.bookId);
+      return returnedLoan;
+    });
+  }
+
+  async deleteLoan(id: string): Promise<boolean> {
+    return this.loans.delete(id);
+  }
+
+  // Hold methods
+  async getHold(id: string): Promise<Hold | undefined> {
+    return this.holds.get(id);
+  }
+
+  async getAllHolds(): Promise<Hold[]> {
+    return Array.from(this.holds.values());
+  }
+
+  async getHoldsByUser(userId: string): Promise<Hold[]> {
+    return Array.from(this.holds.values()).filter(h => h.userId === userId);
+  }
+
+  async getHoldsByBook(bookId: string): Promise<Hold[]> {
+    return Array.from(this.holds.values()).filter(h => h.bookId === bookId);
+  }
+
+  async createHold(insertHold: InsertHold): Promise<Hold> {
+    const now = new Date();
+    const hold: Hold = {
+      notes: null,
+      ...insertHold,
+      id: randomUUID(),
+      copyId: null,
+      requestDate: now,
+      reviewedBy: null,
+      reviewDate: null,
+      notificationDate: null,
+      expirationDate: null,
+      reminderDate: null,
+      loanId: null,
+      createdAt: now,
+    };
+    this.holds.set(hold.id, hold);
+    return hold;
+  }
+
+  async updateHold(id: string, holdData: Partial<Hold>): Promise<Hold | undefined> {
+    return this.update(this.holds, id, holdData);
+  }
+
+  async holdCopy(holdId: string, copyId: string, expirationDate: Date): Promise<Hold> {
+    const hold = this.holds.get(holdId);
+    if (!hold || (hold.status !== "approved" && hold.status !== "waiting")) {
+      throw new Error("Esta reserva já não está em espera");
+    }
+
+    const copy = this.bookCopies.get(copyId);
+    if (!copy || copy.bookId !== hold.bookId || copy.status !== "available") {
+      throw new Error("Este exemplar não está disponível para empréstimo");
+    }
+
+    this.bookCopies.set(copy.id, { ...copy, status: "on_hold" });
+    const held = this.update(this.holds, hold.id, {
+      status: "ready_for_pickup",
+      copyId: copy.id,
+      notificationDate: new Date(),
+      expirationDate,
+      reminderDate: null,
+    })!;
+    await this.refreshBookAvailability(hold.bookId);
+    return held;
+  }
+
+  async releaseHold(holdId: string, release: HoldRelease): Promise<Hold> {
+    const hold = this.holds.get(holdId);
+    if (!hold || !openHoldStatuses.includes(hold.status)) {
+      throw new Error("Esta reserva já não está ativa");
+    }
+
+    const released = this.update(this.holds, hold.id, {
+      status: release.status,
+      notes: release.notes ?? hold.notes,
+      ...(release.reviewedBy ? { reviewedBy: release.reviewedBy, reviewDate: new Date() } : {}),
+    })!;
+    const copy = hold.copyId && hold.status === "ready_for_pickup" ? this.bookCopies.get(hold.copyId) : undefined;
+    if (copy?.status === "on_hold") {
+      this.bookCopies.set(copy.id, { ...copy, status: "available" });
+      await this.refreshBookAvailability(hold.bookId);
+    }
+    return released;
+  }
+
+  async importHolds(legacyHolds: Hold[]): Promise<number> {
+    let inserted = 0;
+    for (const hold of legacyHolds) {
+      if (this.holds.has(hold.id)) continue;
+      this.holds.set(hold.id, hold);
+      inserted++;
+    }
+    return inserted;
+  }
+
+  // A memory store starts empty, so there is never anything to migrate
+  async getAllLoanRequests(): Promise<LoanRequest[]> {
+    return [];
+  }
+
+  async getAllReservations(): Promise<Reservation[]> {
+    return [];
+  }
+
+  // Fine methods
+  async getFine(id: string): Promise<Fine | undefined> {
+    return this.fines.get(id);
+  }
+
+  async getAllFines(): Promise<Fine[]> {
+    return Array.from(this.fines.values());
+  }
+
+  async getFinesByUser(userId: string): Promise<Fine[]> {
+    return Array.from(this.fines.values()).filter(f => f.userId === userId);
+  }
+
+  async createFine(insertFine: InsertFine): Promise<Fine> {
+    const fine: Fine = {
+      status: "pending",
+      daysOverdue: 0,
+      paymentDate: null,
+      ...insertFine,
+      amount: parseFloat(insertFine.amount ?? "0").toFixed(2),
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.fines.set(fine.id, fine);
+    return fine;
+  }
+
+  async updateFine(id: string, fineData: Partial<Fine>): Promise<Fine | undefined> {
+    return this.update(this.fines, id, fineData);
+  }
+
+  async getFinesByLoan(loanId: string): Promise<Fine[]> {
+    return Array.from(this.fines.values()).filter(f => f.loanId === loanId);
+  }
+
+  // Fine ledger methods
+  async getFineTransactions(fineId: string): Promise<FineTransaction[]> {
+    return Array.from(this.fineTransactions.values()).filter(t => t.fineId === fineId);
+  }
+
+  async getFineTransactionsByUser(userId: string): Promise<FineTransaction[]> {
+    return Array.from(this.fineTransactions.values()).filter(t => t.userId === userId);
+  }
+
+  async getAllFineTransactions(): Promise<FineTransaction[]> {
+    return Array.from(this.fineTransactions.values());
+  }
+
+  async accrueFine(fineId: string, accruals: FineAccrual[]): Promise<FineTransaction[]> {
+    const fine = this.fines.get(fineId);
+    if (!fine) {
+      throw new Error("Multa não encontrada");
+    }
+    return this.insertAccruals(fine, accruals);
+  }
+
+  // Days already charged to the fine are skipped
+  private async insertAccruals(fine: Fine, accruals: FineAccrual[]): Promise<FineTransaction[]> {
+    const charged = new Set((await this.getFineTransactions(fine.id)).map(t => t.accrualDate));
+    const inserted: FineTransaction[] = [];
+    for (const accrual of accruals) {
+      if (charged.has(accrual.accrualDate)) continue;
+      charged.add(accrual.accrualDate);
+      inserted.push(this.insertFineTransaction({
+        fineId: fine.id,
+        userId: fine.userId,
+        type: "accrual",
+        amount: accrual.amount.toFixed(2),
+        accrualDate: accrual.accrualDate,
+      }));
+    }
+
+    if (inserted.length > 0) {
+      this.update(this.fines, fine.id, { daysOverdue: fine.daysOverdue + inserted.length });
+      await this.refreshFineTotals(fine.id);
+    }
+    return inserted;
+  }
+
+  async postFineTransaction(transaction: InsertFineTransaction): Promise<FineTransaction> {
+    const fine = this.fines.get(transaction.fineId);
+    if (!fine) {
+      throw new Error("Multa não encontrada");
+    }
+
+    const entry = await this.insertLedgerEntry(fine, transaction);
+    await this.refreshFineTotals(fine.id);
+    return entry;
+  }
+
+  async getFineBalance(fineId: string): Promise<number> {
+    return this.sumAmounts(await this.getFineTransactions(fineId));
+  }
+
+  async getFineBalances(): Promise<Map<string, number>> {
+    const balances = new Map<string, number>();
+    for (const t of Array.from(this.fineTransactions.values())) {
+      balances.set(t.fineId, (balances.get(t.fineId) ?? 0) + parseFloat(t.amount));
+    }
+    return balances;
+  }
+
+  async getUserFineBalance(userId: string): Promise<number> {
+    return this.sumAmounts(await this.getFineTransactionsByUser(userId));
+  }
+
+  async getFinePaymentByReceipt(receiptNumber: number): Promise<FineTransaction | undefined> {
+    return Array.from(this.fineTransactions.values()).find(t => t.receiptNumber === receiptNumber);
+  }
+
+  async getFinePayments(from: Date, to: Date): Promise<FineTransaction[]> {
+    return Array.from(this.fineTransactions.values())
+      .filter(t => t.type === "payment" && !t.isLegacy && t.createdAt >= from && t.createdAt < to);
+  }
+
+  private async insertLedgerEntry(fine: Fine, transaction: InsertFineTransaction): Promise<FineTransaction> {
+    const balance = await this.getFineBalance(fine.id);
+    const amount = parseFloat(transaction.amount);
+    if (balance + amount < -0.005) {
+      throw new Error(`O valor excede o saldo em dívida (${balance.toFixed(2)} Kz)`);
+    }
+    return this.insertFineTransaction({ ...transaction, userId: fine.userId, amount: amount.toFixed(2) });
+  }
+
+  private insertFineTransaction(insert: InsertFineTransaction): FineTransaction {
+    const entry: FineTransaction = {
+      accrualDate: null,
+      reason: null,
+      recordedBy: null,
+      paymentMethod: null,
+      paymentReference: null,
+      isLegacy: false,
+      ...insert,
+      receiptNumber: insert.type === "payment" && !insert.isLegacy ? ++this.lastReceiptNumber : null,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.fineTransactions.set(entry.id, entry);
+    return entry;
+  }
+
+  private sumAmounts(entries: FineTransaction[]): number {
+    return entries.reduce((sum, t) => sum + parseFloat(t.amount), 0);
+  }
+
+  private async refreshFineTotals(fineId: string): Promise<void> {
+    const entries = await this.getFineTransactions(fineId);
+    const charged = this.sumAmounts(entries.filter(t => t.type === "accrual" || t.type === "adjustment"));
+    const credits = entries.filter(t => t.type === "payment" || t.type === "waiver");
+    const settled = this.sumAmounts(entries) <= 0.005;
+    const paid = entries.some(t => t.type === "payment");
+    const waived = entries.some(t => t.type === "waiver");
+    const openDispute = Array.from(this.fineDisputes.values()).some(d => d.fineId === fineId && d.status === "pending");
+
+    let status: Fine["status"];
+    if (settled) {
+      status = waived && !paid ? "waived" : "paid";
+    } else if (openDispute) {
+      status = "disputed";
+    } else {
+      status = waived ? "partially_waived" : "pending";
+    }
+
+    this.update(this.fines, fineId, {
+      amount: charged.toFixed(2),
+      status,
+      paymentDate: settled && credits.length > 0 ? credits[credits.length - 1].createdAt : null,
+    });
+  }
+
+  // Fine dispute methods
+  async getFineDispute(id: string): Promise<FineDispute | undefined> {
+    return this.fineDisputes.get(id);
+  }
+
+  async getAllFineDisputes(): Promise<FineDispute[]> {
+    return Array.from(this.fineDisputes.values());
+  }
+
+  async getFineDisputesByUser(userId: string): Promise<FineDispute[]> {
+    return Array.from(this.fineDisputes.values()).filter(d => d.userId === userId);
+  }
+
+  async getFineDisputesByFine(fineId: string): Promise<FineDispute[]> {
+    return Array.from(this.fineDisputes.values()).filter(d => d.fineId === fineId);
+  }
+
+  async createFineDispute(insertDispute: InsertFineDispute): Promise<FineDispute> {
+    const fine = this.fines.get(insertDispute.fineId);
+    if (!fine) {
+      throw new Error("Multa não encontrada");
+    }
+    if (await this.getFineBalance(fine.id) <= 0) {
+      throw new Error("Não há saldo em dívida nesta multa");
+    }
+    if ((await this.getFineDisputesByFine(fine.id)).some(d => d.status === "pending")) {
+      throw new Error("Já existe uma contestação pendente para esta multa");
+    }
+
+    const dispute: FineDispute = {
+      ...insertDispute,
+      id: randomUUID(),
+      userId: fine.userId,
+      status: "pending",
+      waivedAmount: null,
+      reviewedBy: null,
+      reviewDate: null,
+      notes: null,
+      createdAt: new Date(),
+    };
+    this.fineDisputes.set(dispute.id, dispute);
+    await this.refreshFineTotals(fine.id);
+    return dispute;
+  }
+
+  async decideFineDispute(id: string, decision: FineDisputeDecision): Promise<FineDispute> {
+    const dispute = this.fineDisputes.get(id);
+    if (!dispute) {
+      throw new Error("Contestação não encontrada");
+    }
+    if (dispute.status !== "pending") {
+      throw new Error("Esta contestação já foi decidida");
+    }
+    const fine = this.fines.get(dispute.fineId);
+    if (!fine) {
+      throw new Error("Multa não encontrada");
+    }
+
+    let waivedAmount: number | null = null;
+    if (decision.approved) {
+      waivedAmount = decision.waivedAmount ?? await this.getFineBalance(fine.id);
+      if (waivedAmount <= 0) {
+        throw new Error("Não há saldo em dívida nesta multa");
+      }
+      await this.insertLedgerEntry(fine, {
+        fineId: fine.id,
+        userId: fine.userId,
+        type: "waiver",
+        amount: (-waivedAmount).toFixed(2),
+        reason: decision.notes,
+        recordedBy: decision.reviewedBy,
+      });
+    }
+
+    const decided = this.update(this.fineDisputes, dispute.id, {
+      status: decision.approved ? "approved" : "rejected",
+      waivedAmount: waivedAmount === null ? null : waivedAmount.toFixed(2),
+      reviewedBy: decision.reviewedBy,
+      reviewDate: new Date(),
+      notes: decision.notes,
+    })!;
+    await this.refreshFineTotals(fine.id);
+    return decided;
+  }
+
+  // User block methods
+  async getUserBlock(id: string): Promise<UserBlock | undefined> {
+    return this.userBlocks.get(id);
+  }
+
+  async getUserBlocks(userId: string): Promise<UserBlock[]> {
+    return Array.from(this.userBlocks.values())
+      .filter(b => b.userId === userId)
+      .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  }
+
+  async getActiveUserBlocks(at: Date): Promise<UserBlock[]> {
+    return Array.from(this.userBlocks.values())
+      .filter(b => b.startDate <= at && (!b.endDate || b.endDate > at))
+      .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  }
+
+  async createUserBlock(insertBlock: InsertUserBlock): Promise<UserBlock> {
+    const now = new Date();
+    const block: UserBlock = {
+      notes: null,
+      endDate: null,
+      createdBy: null,
+      ...insertBlock,
+      startDate: insertBlock.startDate ?? now,
+      id: randomUUID(),
+      liftedBy: null,
+      createdAt: now,
+    };
+    this.userBlocks.set(block.id, block);
+    return block;
+  }
+
+  async updateUserBlock(id: string, blockData: Partial<UserBlock>): Promise<UserBlock | undefined> {
+    return this.update(this.userBlocks, id, blockData);
+  }
+
+  // Renewal Request methods
+  async getRenewalRequest(id: string): Promise<RenewalRequest | undefined> {
+    return this.renewalRequests.get(id);
+  }
+
+  async getAllRenewalRequests(): Promise<RenewalRequest[]> {
+    return Array.from(this.renewalRequests.values());
+  }
+
+  async getRenewalRequestsByUser(userId: string): Promise<RenewalRequest[]> {
+    return Array.from(this.renewalRequests.values()).filter(r => r.userId === userId);
+  }
+
+  async getRenewalRequestsByStatus(status: string): Promise<RenewalRequest[]> {
+    return Array.from(this.renewalRequests.values()).filter(r => r.status === status);
+  }
+
+  async createRenewalRequest(insertRenewalRequest: InsertRenewalRequest): Promise<RenewalRequest> {
+    const now = new Date();
+    const request: RenewalRequest = {
+      status: "pending",
+      reviewedBy: null,
+      reviewDate: null,
+      notes: null,
+      ...insertRenewalRequest,
+      id: randomUUID(),
+      requestDate: now,
+      createdAt: now,
+    };
+    this.renewalRequests.set(request.id, request);
+    return request;
+  }
+
+  async updateRenewalRequest(id: string, renewalRequestData: Partial<RenewalRequest>): Promise<RenewalRequest | undefined> {
+    return this.update(this.renewalRequests, id, renewalRequestData);
+  }
+
+  async deleteRenewalRequest(id: string): Promise<boolean> {
+    return this.renewalRequests.delete(id);
+  }
+
+  // Review methods
+  async getReview(id: string): Promise<Review | undefined> {
+    return this.reviews.get(id);
+  }
+
+  async getReviewsByBook(bookId: string): Promise<Review[]> {
+    return Array.from(this.reviews.values()).filter(r => r.bookId === bookId);
+  }
+
+  async createReview(insertReview: InsertReview): Promise<Review> {
+    const review: Review = { comment: null, ...insertReview, id: randomUUID(), createdAt: new Date() };
+    this.reviews.set(review.id, review);
+    return review;
+  }
+
+  async updateReview(id: string, reviewData: Partial<Review>): Promise<Review | undefined> {
+    return this.update(this.reviews, id, reviewData);
+  }
+
+  async deleteReview(id: string): Promise<boolean> {
+    return this.reviews.delete(id);
+  }
+
+  // Loan policy methods
+  async getLoanPolicy(id: string): Promise<LoanPolicy | undefined> {
+    return this.loanPolicies.get(id);
+  }
+
+  async getAllLoanPolicies(): Promise<LoanPolicy[]> {
+    return Array.from(this.loanPolicies.values());
+  }
+
+  async createLoanPolicy(insertPolicy: InsertLoanPolicy): Promise<LoanPolicy> {
+    const policy: LoanPolicy = {
+      department: null,
+      categoryId: null,
+      isLoanable: true,
+      ...insertPolicy,
+      id: randomUUID(),
+      updatedAt: new Date(),
+    };
+    this.loanPolicies.set(policy.id, policy);
+    return policy;
+  }
+
+  async updateLoanPolicy(id: string, policyData: Partial<LoanPolicy>): Promise<LoanPolicy | undefined> {
+    return this.update(this.loanPolicies, id, { ...policyData, updatedAt: new Date() });
+  }
+
+  async deleteLoanPolicy(id: string): Promise<boolean> {
+    return this.loanPolicies.delete(id);
+  }
+
+  // Borrower policy methods
+  async getBorrowerPolicy(userType: string): Promise<BorrowerPolicy | undefined> {
+    return this.borrowerPolicies.get(userType);
+  }
+
+  async getAllBorrowerPolicies(): Promise<BorrowerPolicy[]> {
+    return Array.from(this.borrowerPolicies.values());
+  }
+
+  async upsertBorrowerPolicy(insertPolicy: InsertBorrowerPolicy): Promise<BorrowerPolicy> {
+    const policy: BorrowerPolicy = { ...insertPolicy, updatedAt: new Date() };
+    this.borrowerPolicies.set(policy.userType, policy);
+    return policy;
+  }
+
+  // Academic calendar methods
+  async getAllOpeningHours(): Promise<OpeningHours[]> {
+    return Array.from(this.openingHours.values()).sort((a, b) => a.weekday - b.weekday);
+  }
+
+  async upsertOpeningHours(insertHours: InsertOpeningHours): Promise<OpeningHours> {
+    const hours: OpeningHours = { isOpen: true, ...insertHours };
+    this.openingHours.set(hours.weekday, hours);
+    return hours;
+  }
+
+  async getCalendarEvent(id: string): Promise<CalendarEvent | undefined> {
+    return this.calendarEvents.get(id);
+  }
+
+  async getAllCalendarEvents(): Promise<CalendarEvent[]> {
+    return Array.from(this.calendarEvents.values()).sort((a, b) => a.startDate.localeCompare(b.startDate));
+  }
+
+  async createCalendarEvent(insertEvent: InsertCalendarEvent): Promise<CalendarEvent> {
+    const event: CalendarEvent = {
+      libraryClosed: true,
+      notes: null,
+      ...insertEvent,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.calendarEvents.set(event.id, event);
+    return event;
+  }
+
+  async updateCalendarEvent(id: string, eventData: Partial<CalendarEvent>): Promise<CalendarEvent | undefined> {
+    return this.update(this.calendarEvents, id, eventData);
+  }
+
+  async deleteCalendarEvent(id: string): Promise<boolean> {
+    return this.calendarEvents.delete(id);
+  }
+
+  // Notification methods
+  async getNotifications(userId: string, limit: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(n => n.userId === userId && n.inApp)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    return Array.from(this.notifications.values()).filter(n => n.userId === userId && n.inApp && !n.readAt).length;
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const notification: Notification = {
+      link: null,
+      inApp: true,
+      digest: false,
+      ...insertNotification,
+      id: randomUUID(),
+      readAt: null,
+      digestedAt: null,
+      createdAt: new Date(),
+    };
+    this.notifications.set(notification.id, notification);
+    return notification;
+  }
+
+  async markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+    const now = new Date();
+    let read = 0;
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.userId !== userId || notification.readAt) continue;
+      if (ids && !ids.includes(notification.id)) continue;
+      this.notifications.set(notification.id, { ...notification, readAt: now });
+      read++;
+    }
+    return read;
+  }
+
+  async getPendingDigestNotifications(): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(n => n.digest && !n.digestedAt)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async markNotificationsDigested(ids: string[], at: Date): Promise<void> {
+    for (const id of ids) {
+      this.update(this.notifications, id, { digestedAt: at });
+    }
+  }
+
+  async claimLoanNotice(loanId: string, type: LoanNotice["type"], noticeDate: string): Promise<boolean> {
+    const key = `${loanId}:${type}:${noticeDate}`;
+    if (this.loanNotices.has(key)) return false;
+    this.loanNotices.set(key, { id: randomUUID(), loanId, type, noticeDate, createdAt: new Date() });
+    return true;
+  }
+
+  // Notification preference methods
+  async getNotificationPreferences(userId: string): Promise<NotificationPreference[]> {
+    return Array.from(this.notificationPreferences.values()).filter(p => p.userId === userId);
+  }
+
+  async upsertNotificationPreference(insertPreference: InsertNotificationPreference): Promise<NotificationPreference> {
+    const existing = Array.from(this.notificationPreferences.values())
+      .find(p => p.userId === insertPreference.userId && p.type === insertPreference.type);
+    const preference: NotificationPreference = {
+      inApp: true,
+      email: true,
+      digest: false,
+      sms: false,
+      ...existing,
+      ...insertPreference,
+      id: existing?.id ?? randomUUID(),
+      updatedAt: new Date(),
+    };
+    this.notificationPreferences.set(preference.id, preference);
+    return preference;
+  }
+
+  // Phone verification methods
+  async getPhoneVerification(userId: string): Promise<PhoneVerification | undefined> {
+    return this.phoneVerifications.get(userId);
+  }
+
+  async savePhoneVerification(insertVerification: InsertPhoneVerification): Promise<PhoneVerification> {
+    const verification: PhoneVerification = {
+      attempts: 0,
+      ...insertVerification,
+      createdAt: this.phoneVerifications.get(insertVerification.userId)?.createdAt ?? new Date(),
+    };
+    this.phoneVerifications.set(verification.userId, verification);
+    return verification;
+  }
+
+  async deletePhoneVerification(userId: string): Promise<boolean> {
+    return this.phoneVerifications.delete(userId);
+  }
+
+  // Email template methods
+  async getEmailTemplates(): Promise<EmailTemplate[]> {
+    return Array.from(this.emailTemplates.values())
+      .sort((a, b) => a.key.localeCompare(b.key) || a.language.localeCompare(b.language));
+  }
+
+  async getEmailTemplate(key: string, language: EmailTemplate["language"]): Promise<EmailTemplate | undefined> {
+    return Array.from(this.emailTemplates.values()).find(t => t.key === key && t.language === language);
+  }
+
+  async upsertEmailTemplate(insertTemplate: InsertEmailTemplate): Promise<EmailTemplate> {
+    const existing = await this.getEmailTemplate(insertTemplate.key, insertTemplate.language);
+    const template: EmailTemplate = {
+      updatedBy: null,
+      ...insertTemplate,
+      id: existing?.id ?? randomUUID(),
+      updatedAt: new Date(),
+    };
+    this.emailTemplates.set(template.id, template);
+    return template;
+  }
+
+  async deleteEmailTemplate(key: string, language: EmailTemplate["language"]): Promise<boolean> {
+    const existing = await this.getEmailTemplate(key, language);
+    return existing ? this.emailTemplates.delete(existing.id) : false;
+  }
+
+  // Email outbox methods
+  async getOutboxEmail(id: string): Promise<OutboxEmail | undefined> {
+    return this.emailOutbox.get(id);
+  }
+
+  async getOutboxEmails(status: OutboxEmail["status"] | undefined, limit: number): Promise<OutboxEmail[]> {
+    return Array.from(this.emailOutbox.values())
+      .filter(e => !status || e.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getOutboxStatusCounts(): Promise<Record<OutboxEmail["status"], number>> {
+    const counts = { pending: 0, sending: 0, sent: 0, failed: 0, bounced: 0 };
+    for (const email of Array.from(this.emailOutbox.values())) counts[email.status]++;
+    return counts;
+  }
+
+  async createOutboxEmail(insertEmail: InsertOutboxEmail): Promise<OutboxEmail> {
+    const now = new Date();
+    const email: OutboxEmail = {
+      templateKey: null,
+      userId: null,
+      ...insertEmail,
+      id: randomUUID(),
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: now,
+      lockedAt: null,
+      lastError: null,
+      messageId: null,
+      sentAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.emailOutbox.set(email.id, email);
+    return email;
+  }
+
+  async updateOutboxEmail(id: string, updateData: Partial<OutboxEmail>): Promise<OutboxEmail | undefined> {
+    return this.update(this.emailOutbox, id, { ...updateData, updatedAt: new Date() });
+  }
+
+  async claimOutboxEmails(now: Date, staleBefore: Date, limit: number): Promise<OutboxEmail[]> {
+    const due = Array.from(this.emailOutbox.values())
+      .filter(e =>
+        (e.status === "pending" && e.nextAttemptAt <= now) ||
+        (e.status === "sending" && !!e.lockedAt && e.lockedAt < staleBefore))
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+    return due.map(e => this.update(this.emailOutbox, e.id, { status: "sending", lockedAt: now, attempts: e.attempts + 1, updatedAt: now })!);
+  }
+
+  // Job run methods
+  async getJobRuns(job: string | undefined, limit: number): Promise<JobRun[]> {
+    return Array.from(this.jobRuns.values())
+      .filter(r => !job || r.job === job)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .slice(0, limit);
+  }
+
+  async startJobRun(insertRun: InsertJobRun, staleBefore: Date): Promise<JobRun | undefined> {
+    const runs = Array.from(this.jobRuns.values()).filter(r => r.job === insertRun.job);
+    for (const run of runs) {
+      if (run.status === "running" && run.startedAt < staleBefore) {
+        this.update(this.jobRuns, run.id, { status: "failed", error: STALE_JOB_RUN_ERROR, finishedAt: new Date() });
+      }
+    }
+    if (runs.some(r => r.runKey === insertRun.runKey && this.jobRuns.get(r.id)!.status !== "failed")) {
+      return undefined;
+    }
+
+    const run: JobRun = {
+      trigger: "schedule",
+      triggeredBy: null,
+      ...insertRun,
+      id: randomUUID(),
+      status: "running",
+      result: null,
+      error: null,
+      startedAt: new Date(),
+      finishedAt: null,
+    };
+    this.jobRuns.set(run.id, run);
+    return run;
+  }
+
+  async finishJobRun(id: string, outcome: Pick<JobRun, "status" | "result" | "error">): Promise<JobRun | undefined> {
+    return this.update(this.jobRuns, id, { ...outcome, finishedAt: new Date() });
+  }
+
+  // Audit event methods
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const event: AuditEvent = {
+      actorId: null,
+      ip: null,
+      ...insertEvent,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.auditEvents.set(event.id, event);
+    return event;
+  }
+
+  async getAuditEvents(filters: AuditEventFilters): Promise<AuditEvent[]> {
+    return Array.from(this.auditEvents.values())
+      .filter(e =>
+        (filters.actorId === undefined || e.actorId === filters.actorId) &&
+        (!filters.entityType || e.entityType === filters.entityType) &&
+        (!filters.entityId || e.entityId === filters.entityId) &&
+        (!filters.from || e.createdAt >= filters.from) &&
+        (!filters.to || e.createdAt < filters.to))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, filters.limit);
+  }
+}
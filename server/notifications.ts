@@ -0,0 +1,112 @@
+import { storage } from "./storage";
+import { sendNotificationDigest } from "./email";
+import { sendUserTextMessage } from "./sms";
+import type { Notification, NotificationPreference, NotificationType, User } from "@shared/schema";
+
+export const notificationTypeLabels: Record<NotificationType, string> = {
+  loan_confirmation: "Confirmação de empréstimo",
+  due_soon: "Devolução próxima",
+  overdue: "Empréstimo atrasado",
+  renewal_decision: "Pedidos de renovação",
+  hold_ready: "Reserva pronta para levantamento",
+  hold_update: "Estado de reservas e solicitações",
+  fine_issued: "Multa aplicada",
+  fine_dispute: "Contestação de multas",
+};
+
+export type NotificationChannels = Pick<NotificationPreference, "inApp" | "email" | "digest" | "sms">;
+
+const defaultChannels: NotificationChannels = { inApp: true, email: true, digest: false, sms: false };
+
+export interface Notice {
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  // The immediate email, only sent when the user keeps that channel on
+  email?: () => Promise<unknown>;
+  // Text message body; the title and message when omitted
+  sms?: string;
+}
+
+/**
+ * Every notice is about the user's loans, holds or fines, which patrons find
+ * on their loans page and admins on the circulation one.
+ */
+function defaultLink(user: User): string {
+  return user.userType === "admin" ? "/loans" : `/${user.userType}/loans`;
+}
+
+/**
+ * The channels of every notification type for the user, defaults filled in.
+ */
+export async function getNotificationSettings(userId: string): Promise<Array<{ type: NotificationType; label: string } & NotificationChannels>> {
+  const saved = await storage.getNotificationPreferences(userId);
+  return (Object.keys(notificationTypeLabels) as NotificationType[]).map(type => {
+    const preference = saved.find(p => p.type === type);
+    return {
+      type,
+      label: notificationTypeLabels[type],
+      inApp: preference?.inApp ?? defaultChannels.inApp,
+      email: preference?.email ?? defaultChannels.email,
+      digest: preference?.digest ?? defaultChannels.digest,
+      sms: preference?.sms ?? defaultChannels.sms,
+    };
+  });
+}
+
+/**
+ * The one way to tell a user something. Records the notice for the
+ * notification centre and/or the daily digest and sends the immediate email
+ * and text message, as the user's preferences for its type say. A failure is
+ * logged and never undoes the change the notice reports.
+ */
+export async function notify(user: User, notice: Notice): Promise<void> {
+  try {
+    const preference = (await storage.getNotificationPreferences(user.id)).find(p => p.type === notice.type);
+    const channels = preference ?? defaultChannels;
+
+    if (channels.inApp || channels.digest) {
+      await storage.createNotification({
+        userId: user.id,
+        type: notice.type,
+        title: notice.title,
+        message: notice.message,
+        link: notice.link ?? defaultLink(user),
+        inApp: channels.inApp,
+        digest: channels.digest,
+      });
+    }
+    if (channels.email && notice.email) {
+      await notice.email();
+    }
+    if (channels.sms) {
+      await sendUserTextMessage(user, notice.sms ?? `${notice.title}. ${notice.message}`);
+    }
+  } catch (error) {
+    console.error(`Failed to deliver ${notice.type} notification:`, error);
+  }
+}
+
+/**
+ * Scheduled job: one email per user summarising the notices queued for the
+ * digest since the last one. Returns the number of digests sent.
+ */
+export async function sendNotificationDigests(now: Date = new Date()): Promise<number> {
+  const pending = await storage.getPendingDigestNotifications();
+  const byUser = new Map<string, Notification[]>();
+  for (const notification of pending) {
+    byUser.set(notification.userId, [...(byUser.get(notification.userId) ?? []), notification]);
+  }
+
+  let sent = 0;
+  for (const [userId, notices] of Array.from(byUser.entries())) {
+    const user = await storage.getUser(userId);
+    if (user) {
+      await sendNotificationDigest(user, notices);
+      sent++;
+    }
+    await storage.markNotificationsDigested(notices.map(n => n.id), now);
+  }
+  return sent;
+}
@@ -0,0 +1,135 @@
+import { storage } from "./storage";
+import { deliverEmail, type MailOptions } from "./mailer";
+import { addMinutes, subMinutes } from "date-fns";
+import type { OutboxEmail } from "@shared/schema";
+
+export const MAX_EMAIL_ATTEMPTS = 5;
+// Wait after each failed attempt before the next one
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120];
+// An email still in sending after this long belongs to a worker that died
+const SENDING_TIMEOUT_MINUTES = 10;
+const BATCH_SIZE = 20;
+
+export interface OutboxRun {
+  sent: number;
+  retrying: number;
+  failed: number;
+  bounced: number;
+}
+
+/**
+ * Queues an email and wakes the worker. Returns as soon as the email is
+ * stored, so a slow or unreachable SMTP server never holds up a request.
+ */
+export async function enqueueEmail(message: MailOptions, meta: { userId?: string | null; templateKey?: string | null } = {}): Promise<OutboxEmail> {
+  const email = await storage.createOutboxEmail({
+    ...message,
+    userId: meta.userId ?? null,
+    templateKey: meta.templateKey ?? null,
+  });
+  wakeOutboxWorker();
+  return email;
+}
+
+let working = false;
+let wakeRequested = false;
+
+/**
+ * Runs a worker pass in the background, or makes the running one go round
+ * again so it picks up what was just queued.
+ */
+export function wakeOutboxWorker() {
+  if (working) {
+    wakeRequested = true;
+    return;
+  }
+  setImmediate(() => {
+    processOutbox().catch(error => console.error("❌ Error in email outbox worker:", error));
+  });
+}
+
+// Server-side refusals of the recipient (no such mailbox, domain not found...)
+// will not change on a retry
+function isBounce(error: any): boolean {
+  return error?.code === "EENVELOPE" || (error?.responseCode >= 550 && error?.responseCode < 560);
+}
+
+async function attemptDelivery(email: OutboxEmail): Promise<keyof OutboxRun> {
+  try {
+    const { messageId, rejected } = await deliverEmail(email);
+    if (rejected.length > 0) {
+      await storage.updateOutboxEmail(email.id, { status: "bounced", lockedAt: null, messageId, lastError: `Destinatário recusado: ${rejected.join(", ")}` });
+      return "bounced";
+    }
+    await storage.updateOutboxEmail(email.id, { status: "sent", lockedAt: null, messageId, sentAt: new Date(), lastError: null });
+    return "sent";
+  } catch (error: any) {
+    const lastError = error?.message ?? String(error);
+
+    if (isBounce(error)) {
+      await storage.updateOutboxEmail(email.id, { status: "bounced", lockedAt: null, lastError });
+      return "bounced";
+    }
+    if (email.attempts >= MAX_EMAIL_ATTEMPTS) {
+      console.error(`❌ Email ${email.id} to ${email.to} failed after ${email.attempts} attempts:`, lastError);
+      await storage.updateOutboxEmail(email.id, { status: "failed", lockedAt: null, lastError });
+      return "failed";
+    }
+
+    const delay = RETRY_DELAYS_MINUTES[Math.min(email.attempts, RETRY_DELAYS_MINUTES.length) - 1];
+    await storage.updateOutboxEmail(email.id, {
+      status: "pending",
+      lockedAt: null,
+      lastError,
+      nextAttemptAt: addMinutes(new Date(), delay),
+    });
+    return "retrying";
+  }
+}
+
+/**
+ * Sends every email that is due, in batches, until none is left. Only one
+ * pass runs at a time in this process; other instances share the queue
+ * through the row locks taken when claiming.
+ */
+export async function processOutbox(): Promise<OutboxRun> {
+  const run: OutboxRun = { sent: 0, retrying: 0, failed: 0, bounced: 0 };
+  if (working) {
+    wakeRequested = true;
+    return run;
+  }
+
+  working = true;
+  try {
+    let batch: OutboxEmail[];
+    do {
+      wakeRequested = false;
+      const now = new Date();
+      batch = await storage.claimOutboxEmails(now, subMinutes(now, SENDING_TIMEOUT_MINUTES), BATCH_SIZE);
+      for (const email of batch) {
+        run[await attemptDelivery(email)]++;
+      }
+    } while (batch.length === BATCH_SIZE || wakeRequested);
+  } finally {
+    working = false;
+  }
+  return run;
+}
+
+/**
+ * Puts a failed or bounced email back in the queue with a fresh set of
+ * attempts, e.g. once the address was corrected or the server is back.
+ */
+export async function retryOutboxEmail(id: string): Promise<OutboxEmail> {
+  const email = await storage.getOutboxEmail(id);
+  if (!email) {
+    throw new Error("Email não encontrado");
+  }
+  if (email.status !== "failed" && email.status !== "bounced") {
+    throw new Error("Só é possível reenviar emails falhados ou devolvidos");
+  }
+
+  const queued = await storage.updateOutboxEmail(id, { status: "pending", attempts: 0, nextAttemptAt: new Date() });
+  wakeOutboxWorker();
+  return queued!;
+}
@@ -0,0 +1,97 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import { storage } from "./storage";
+import { registerRoutes } from "./routes";
+import { findRoutesWithoutPolicy } from "./permissions";
+import { ApiClient, startTestServer, createTestUser, createTestBook, type TestServer } from "./test-helpers";
+
+let server: TestServer;
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+describe("route policies", () => {
+  it("declares a policy on every registered /api route", () => {
+    assert.deepEqual(findRoutesWithoutPolicy(server.app), []);
+  });
+
+  it("reports a route added without a policy", async () => {
+    const app = express();
+    app.get("/api/unguarded", (_req, res) => res.json({}));
+    app.post("/api/unguarded/:id", (_req, res) => res.json({}));
+    app.get("/outside-the-api", (_req, res) => res.json({}));
+    assert.deepEqual(findRoutesWithoutPolicy(app), ["GET /api/unguarded", "POST /api/unguarded/:id"]);
+    await assert.rejects(registerRoutes(app), /Rotas sem política de autorização: GET \/api\/unguarded/);
+  });
+});
+
+describe("authorization", () => {
+  it("requires a session outside the public routes", async () => {
+    const anonymous = new ApiClient(server.baseUrl);
+    assert.equal((await anonymous.get("/api/health")).status, 200);
+    assert.equal((await anonymous.get("/api/debug/all-data")).status, 401);
+    assert.equal((await anonymous.post("/api/loans", {})).status, 401);
+  });
+
+  it("keeps staff routes from patrons", async () => {
+    const student = await createTestUser("student");
+    const client = await server.login(student);
+    const book = await createTestBook(1);
+    assert.equal((await client.post("/api/loans", { userId: student.id, bookId: book.id })).status, 403);
+    assert.equal((await client.get("/api/debug/all-data")).status, 403);
+    assert.equal((await client.patch(`/api/users/${student.id}`, { userType: "admin" })).status, 403);
+  });
+
+  it("registers anonymous callers as active students only", async () => {
+    const anonymous = new ApiClient(server.baseUrl);
+    const account = (n: string) => ({ name: "Novo", username: `${n}@isptec.co.ao`, email: `${n}@isptec.co.ao`, password: "segredo123" });
+
+    const teacher = await anonymous.post("/api/users", { ...account("nome.docente"), userType: "teacher" });
+    assert.equal(teacher.status, 403);
+
+    const student = await anonymous.post("/api/users", { ...account("20249999"), isActive: false });
+    assert.equal(student.status, 201);
+    assert.equal(student.body.userType, "student");
+    assert.equal(student.body.isActive, true);
+
+    const admin = await server.login(await createTestUser("admin"));
+    const created = await admin.post("/api/users", { ...account("outro.docente"), userType: "teacher" });
+    assert.equal(created.status, 201);
+    assert.equal(created.body.userType, "teacher");
+  });
+
+  it("lets patrons read only their own loans and fines", async () => {
+    const [student, other] = [await createTestUser("student"), await createTestUser("student")];
+    const client = await server.login(student);
+    assert.equal((await client.get(`/api/loans/user/${student.id}`)).status, 200);
+    assert.equal((await client.get(`/api/loans/user/${other.id}`)).status, 403);
+    assert.equal((await client.get(`/api/fines/user/${other.id}`)).status, 403);
+
+    const admin = await server.login(await createTestUser("admin"));
+    assert.equal((await admin.get(`/api/loans/user/${other.id}`)).status, 200);
+  });
+
+  it("lets a review's author edit only its rating and comment", async () => {
+    const [author, other] = [await createTestUser("student"), await createTestUser("student")];
+    const [book, otherBook] = [await createTestBook(1), await createTestBook(1)];
+    const review = await storage.createReview({ userId: author.id, bookId: book.id, rating: 3, comment: null });
+
+    const res = await (await server.login(author)).patch(`/api/reviews/${review.id}`, {
+      rating: 5,
+      comment: "Muito bom",
+      userId: other.id,
+      bookId: otherBook.id,
+    });
+    assert.equal(res.status, 200);
+    assert.deepEqual(
+      { userId: res.body.userId, bookId: res.body.bookId, rating: res.body.rating, comment: res.body.comment },
+      { userId: author.id, bookId: book.id, rating: 5, comment: "Muito bom" },
+    );
+
+    assert.equal((await (await server.login(other)).patch(`/api/reviews/${review.id}`, { rating: 1 })).status, 403);
+  });
+});
@@ -0,0 +1,98 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import { userTypeEnum } from "@shared/schema";
+
+export type Role = (typeof userTypeEnum.enumValues)[number];
+
+export const ALL_ROLES: Role[] = [...userTypeEnum.enumValues];
+export const PATRON_ROLES: Role[] = ["student", "teacher", "staff"];
+export const ADMIN_ONLY: Role[] = ["admin"];
+
+// Resolves the id of the user that owns the resource targeted by the request.
+type OwnerResolver = (req: Request) => string | null | undefined | Promise<string | null | undefined>;
+
+interface RoutePolicy {
+  roles: Role[] | "public";
+  owner?: OwnerResolver;
+}
+
+const POLICY = Symbol("routePolicy");
+
+/**
+ * Declares who may call a route. Admins bypass ownership checks; every other
+ * role listed in `roles` may only act on resources whose owner is themselves.
+ */
+export function authorize(roles: Role[] | "public", options: { owner?: OwnerResolver } = {}): RequestHandler {
+  const policy: RoutePolicy = { roles, owner: options.owner };
+
+  const middleware = async (req: Request, res: Response, next: NextFunction) => {
+    if (policy.roles === "public") {
+      return next();
+    }
+
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ message: "Não autenticado" });
+    }
+
+    if (!policy.roles.includes(req.user.userType)) {
+      return res.status(403).json({ message: "Acesso negado" });
+    }
+
+    if (policy.owner && req.user.userType !== "admin") {
+      try {
+        const ownerId = await policy.owner(req);
+        if (ownerId !== req.user.id) {
+          return res.status(403).json({ message: "Acesso negado: só pode aceder aos seus próprios dados" });
+        }
+      } catch (error) {
+        return res.status(500).json({ message: "Erro ao verificar permissões" });
+      }
+    }
+
+    next();
+  };
+
+  return Object.assign(middleware, { [POLICY]: policy });
+}
+
+function hasPolicy(handle: unknown): boolean {
+  return typeof handle === "function" && POLICY in handle;
+}
+
+// The parts of Express 4's internal router that the route walk reads
+interface RouterLayer {
+  handle: unknown;
+  route?: {
+    path: unknown;
+    methods: Record<string, boolean>;
+    stack: RouterLayer[];
+  };
+}
+
+/**
+ * Lists every registered /api route that was declared without an `authorize`
+ * policy. Used at startup so an unguarded route fails loudly.
+ */
+export function findRoutesWithoutPolicy(app: Express): string[] {
+  const router = (app as unknown as { _router?: { stack: RouterLayer[] } })._router;
+  const missing: string[] = [];
+
+  for (const layer of router?.stack ?? []) {
+    const route = layer.route;
+    if (!route || typeof route.path !== "string" || !route.path.startsWith("/api")) continue;
+
+    const guarded = route.stack.some(routeLayer => hasPolicy(routeLayer.handle));
+    if (!guarded) {
+      const methods = Object.keys(route.methods).map(m => m.toUpperCase()).join(",");
+      missing.push(`${methods} ${route.path}`);
+    }
+  }
+
+  return missing;
+}
+
+export function assertRoutePolicies(app: Express) {
+  const missing = findRoutesWithoutPolicy(app);
+  if (missing.length > 0) {
+    throw new Error(`Rotas sem política de autorização: ${missing.join("; ")}`);
+  }
+}
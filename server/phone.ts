@@ -0,0 +1,72 @@
+import { randomInt } from "crypto";
+import { storage } from "./storage";
+import { isSmsEnabled, normalizePhoneNumber, sendTextMessage, type PhoneChannel } from "./sms";
+import { addMinutes } from "date-fns";
+import type { User } from "@shared/schema";
+
+export const PHONE_CODE_MINUTES = 10;
+const MAX_CODE_ATTEMPTS = 5;
+
+/**
+ * Texts a 6-digit code to the number the user gave. The number only replaces
+ * the one on the account once the code is confirmed, so a typo never cuts the
+ * user off messages they already get.
+ */
+export async function startPhoneVerification(user: User, input: string, channel: PhoneChannel): Promise<{ phone: string; expiresAt: Date }> {
+  if (!isSmsEnabled()) {
+    throw new Error("O envio de SMS não está disponível de momento");
+  }
+
+  const phone = normalizePhoneNumber(input);
+  if (!phone) {
+    throw new Error("Número de telemóvel inválido. Use, por exemplo, 923 456 789 ou +244923456789");
+  }
+
+  const code = randomInt(0, 1_000_000).toString().padStart(6, "0");
+  const expiresAt = addMinutes(new Date(), PHONE_CODE_MINUTES);
+  await storage.savePhoneVerification({ userId: user.id, phone, channel, code, attempts: 0, expiresAt });
+
+  const sent = await sendTextMessage({
+    to: phone,
+    channel,
+    body: `Biblioteca ISPTEC: o seu código de confirmação é ${code}. Válido durante ${PHONE_CODE_MINUTES} minutos.`,
+  });
+  if (!sent) {
+    await storage.deletePhoneVerification(user.id);
+    throw new Error("Não foi possível enviar o código para este número");
+  }
+
+  return { phone, expiresAt };
+}
+
+/**
+ * Checks the code against the pending verification and, when it matches, sets
+ * the number and channel on the user as verified.
+ */
+export async function confirmPhoneVerification(user: User, code: string): Promise<User> {
+  const pending = await storage.getPhoneVerification(user.id);
+  if (!pending) {
+    throw new Error("Não há nenhuma confirmação pendente. Peça um novo código");
+  }
+  if (pending.expiresAt <= new Date() || pending.attempts >= MAX_CODE_ATTEMPTS) {
+    await storage.deletePhoneVerification(user.id);
+    throw new Error("O código expirou. Peça um novo código");
+  }
+  if (pending.code !== code.trim()) {
+    await storage.savePhoneVerification({ ...pending, attempts: pending.attempts + 1 });
+    throw new Error("Código incorreto");
+  }
+
+  await storage.deletePhoneVerification(user.id);
+  const updated = await storage.updateUser(user.id, { phone: pending.phone, phoneChannel: pending.channel, phoneVerifiedAt: new Date() });
+  return updated!;
+}
+
+/**
+ * Removes the user's number; no more text messages are sent to them.
+ */
+export async function removePhone(user: User): Promise<User> {
+  await storage.deletePhoneVerification(user.id);
+  const updated = await storage.updateUser(user.id, { phone: null, phoneVerifiedAt: null });
+  return updated!;
+}
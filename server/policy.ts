@@ -0,0 +1,166 @@
+import { storage } from "./storage";
+import { loadCalendar } from "./calendar";
+import type { Book, Loan, LoanPolicy, InsertLoanPolicy, InsertBorrowerPolicy } from "@shared/schema";
+
+// Defaults seeded on first start. They mirror the rules the library used before
+// policies became editable: red books stay in the library, yellow books go out
+// for 1 day, white books for 15 days (teachers) or 5 days (everyone else).
+const PATRON_TYPES = ["student", "teacher", "staff", "admin"] as const;
+const DEFAULT_FINE_PER_DAY = "500";
+const DEFAULT_MAX_RENEWALS = 2;
+
+export const DEFAULT_LOAN_POLICIES: InsertLoanPolicy[] = PATRON_TYPES.flatMap((userType) => [
+  { userType, tag: "red" as const, isLoanable: false, loanDays: 0, maxRenewals: 0, finePerDay: DEFAULT_FINE_PER_DAY },
+  { userType, tag: "yellow" as const, isLoanable: true, loanDays: 1, maxRenewals: DEFAULT_MAX_RENEWALS, finePerDay: DEFAULT_FINE_PER_DAY },
+  { userType, tag: "white" as const, isLoanable: true, loanDays: userType === "teacher" ? 15 : 5, maxRenewals: DEFAULT_MAX_RENEWALS, finePerDay: DEFAULT_FINE_PER_DAY },
+]);
+
+export const DEFAULT_BORROWER_POLICIES: InsertBorrowerPolicy[] = PATRON_TYPES.map((userType) => ({
+  userType,
+  maxBooks: userType === "teacher" ? 4 : 2,
+  maxReservations: 3,
+  maxFineAmount: "2000",
+}));
+
+export interface LoanRule {
+  isLoanable: boolean;
+  loanDays: number;
+  maxRenewals: number;
+  finePerDay: number;
+}
+
+export interface BorrowerLimits {
+  maxBooks: number;
+  maxReservations: number;
+  maxFineAmount: number;
+}
+
+// A null department and category match only the generic user type x tag policies
+type PolicyBook = Pick<Book, "tag" | "categoryId"> & { department: Book["department"] | null };
+
+export interface PatronRules extends BorrowerLimits {
+  userType: typeof PATRON_TYPES[number];
+  tags: Record<Book["tag"], LoanRule>;
+}
+
+function specificity(policy: Pick<LoanPolicy, "department" | "categoryId">): number {
+  return (policy.categoryId ? 2 : 0) + (policy.department ? 1 : 0);
+}
+
+function toLoanRule(policy: Pick<InsertLoanPolicy, "isLoanable" | "loanDays" | "maxRenewals" | "finePerDay">): LoanRule {
+  return {
+    isLoanable: policy.isLoanable ?? true,
+    loanDays: policy.loanDays,
+    maxRenewals: policy.maxRenewals ?? DEFAULT_MAX_RENEWALS,
+    finePerDay: parseFloat(policy.finePerDay),
+  };
+}
+
+/**
+ * Resolves the rule for a user type borrowing a given book. A policy narrowed
+ * to the book's category beats one narrowed to its department, which beats
+ * the generic user type x tag policy.
+ */
+export async function getLoanRule(userType: string, book: PolicyBook): Promise<LoanRule> {
+  const policies = await storage.getAllLoanPolicies();
+  const matching = policies
+    .filter(p =>
+      p.userType === userType &&
+      p.tag === book.tag &&
+      (!p.department || p.department === book.department) &&
+      (!p.categoryId || p.categoryId === book.categoryId)
+    )
+    .sort((a, b) => specificity(b) - specificity(a));
+
+  if (matching.length > 0) {
+    return toLoanRule(matching[0]);
+  }
+
+  const fallback = DEFAULT_LOAN_POLICIES.find(p => p.userType === userType && p.tag === book.tag)
+    || DEFAULT_LOAN_POLICIES.find(p => p.userType === "student" && p.tag === book.tag)!;
+  return toLoanRule(fallback);
+}
+
+/**
+ * Rule for an existing loan, resolved from its borrower and book.
+ */
+export async function getLoanRuleForLoan(loan: Pick<Loan, "userId" | "bookId">): Promise<LoanRule> {
+  const user = await storage.getUser(loan.userId);
+  const book = await storage.getBook(loan.bookId);
+  if (!book) {
+    return toLoanRule(DEFAULT_LOAN_POLICIES.find(p => p.tag === "white")!);
+  }
+  return getLoanRule(user?.userType || "student", book);
+}
+
+export async function getBorrowerLimits(userType: string): Promise<BorrowerLimits> {
+  const policy = await storage.getBorrowerPolicy(userType)
+    || DEFAULT_BORROWER_POLICIES.find(p => p.userType === userType)
+    || DEFAULT_BORROWER_POLICIES.find(p => p.userType === "student")!;
+
+  return {
+    maxBooks: policy.maxBooks,
+    maxReservations: policy.maxReservations,
+    maxFineAmount: parseFloat(policy.maxFineAmount),
+  };
+}
+
+/**
+ * The limits of each user type and its generic rule for each tag, as shown to
+ * patrons and given to the chat assistant. Department and category policies
+ * are left out.
+ */
+export async function getPatronRules(): Promise<PatronRules[]> {
+  return Promise.all(PATRON_TYPES.map(async (userType) => {
+    const rule = (tag: Book["tag"]) => getLoanRule(userType, { tag, department: null, categoryId: null });
+    const [limits, white, yellow, red] = await Promise.all([
+      getBorrowerLimits(userType),
+      rule("white"),
+      rule("yellow"),
+      rule("red"),
+    ]);
+    return { userType, ...limits, tags: { white, yellow, red } };
+  }));
+}
+
+export async function calculateDueDate(userType: string, book: PolicyBook, baseDate?: Date): Promise<Date> {
+  const now = new Date();
+
+  // For renewals, if the book is not overdue, extend from the original due date.
+  // If it IS overdue, extend from today.
+  // If no baseDate (new loan), use today.
+  const referenceDate = baseDate && baseDate > now ? new Date(baseDate) : now;
+
+  const rule = await getLoanRule(userType, book);
+  if (!rule.isLoanable) {
+    return referenceDate; // Cannot be loaned
+  }
+
+  referenceDate.setDate(referenceDate.getDate() + rule.loanDays);
+
+  // A book cannot fall due on a day the library is closed
+  const calendar = await loadCalendar();
+  return calendar.nextOpenDay(referenceDate);
+}
+
+export async function seedDefaultPolicies(): Promise<number> {
+  let created = 0;
+
+  const existingLoanPolicies = await storage.getAllLoanPolicies();
+  if (existingLoanPolicies.length === 0) {
+    for (const policy of DEFAULT_LOAN_POLICIES) {
+      await storage.createLoanPolicy(policy);
+      created++;
+    }
+  }
+
+  const existingBorrowerPolicies = await storage.getAllBorrowerPolicies();
+  for (const policy of DEFAULT_BORROWER_POLICIES) {
+    if (!existingBorrowerPolicies.some(p => p.userType === policy.userType)) {
+      await storage.upsertBorrowerPolicy(policy);
+      created++;
+    }
+  }
+
+  return created;
+}
@@ -1,10 +1,25 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertBookSchema, insertUserSchema, insertLoanSchema, insertReservationSchema, insertFineSchema, insertCategorySchema, insertReviewSchema, insertAuthorSchema } from "@shared/schema";
+import { storage, type CatalogueFilters } from "./storage";
+import { insertBookSchema, insertUserSchema, registerUserSchema, insertLoanSchema, insertFineSchema, insertCategorySchema, insertReviewSchema, insertAuthorSchema, insertLoanPolicySchema, insertBorrowerPolicySchema, insertOpeningHoursSchema, insertCalendarEventSchema, insertBookCopySchema, insertFineDisputeSchema, insertUserBlockSchema, paymentMethodEnum, notificationTypeEnum, phoneChannelEnum, languageEnum, emailStatusEnum, departmentEnum, bookTagEnum, catalogueSorts, openHoldStatuses, type Loan, type User, type Book, type Fine } from "@shared/schema";
+import { parseBookQuery } from "@shared/book-query";
 import OpenAI from "openai";
 import { createWorker } from "tesseract.js";
-import { sendLoanConfirmation, sendRenewalRequestAlert, sendRenewalDecision } from "./email";
+import { sendLoanConfirmation, sendRenewalRequestAlert, sendRenewalDecision, sendFineDisputeDecision } from "./email";
+import { notify, getNotificationSettings } from "./notifications";
+import { startPhoneVerification, confirmPhoneVerification, removePhone } from "./phone";
+import { listEmailTemplates, isEmailTemplateKey, validateTemplate, renderTemplatePreview } from "./email-templates";
+import { retryOutboxEmail } from "./outbox";
+import { scheduledJobs, isScheduledJobName, runScheduledJob, type ScheduledJobName } from "./cron";
+import { jobRunKey } from "./jobs";
+import { setupAuth, hashPassword, toPublicUser } from "./auth";
+import { authorize, assertRoutePolicies, ALL_ROLES, ADMIN_ONLY } from "./permissions";
+import { calculateDueDate, getLoanRule, getLoanRuleForLoan, getBorrowerLimits, getPatronRules, type PatronRules } from "./policy";
+import { addCopies, generateBarcode } from "./copies";
+import { findDuplicateBook, planBookImport, runBookImport, MAX_IMPORT_ROWS } from "./book-import";
+import { accrueLoanFine, checkinLoanWithFine, getLoanFineBalance, buildFineReceipt, buildCashClose, formatReceiptNumber } from "./fines";
+import { describeActiveBlocks, isBlockActive, recalculateUserBlocks } from "./blocks";
+import { compareHolds, getShelfClaims, placeHold, promoteHolds, approveHold, rejectHold, cancelHold, getNoShowCount } from "./holds";
 import { z } from "zod";
 
 // Initialize OpenAI only if API key is present
@@ -24,118 +39,41 @@ const isAIEnabled = !!process.env.AI_INTEGRATIONS_OPENAI_API_KEY || !!process.en
 const isGroqEnabled = !!process.env.GROQ_API_KEY;
 const isOpenAIEnabled = !!process.env.AI_INTEGRATIONS_OPENAI_API_KEY;
 
-// Business rules constants
-const LOAN_RULES = {
-  teacher: {
-    maxBooks: 4,
-    loanDays: 15,
-    dailyBookDays: 1,
-  },
-  student: {
-    maxBooks: 2,
-    loanDays: 5,
-    dailyBookDays: 1,
-  },
-  staff: {
-    maxBooks: 2,
-    loanDays: 5,
-    dailyBookDays: 1,
-  },
-};
-
-const TAG_LOAN_DAYS = {
-  red: 0, // Cannot be loaned (library use only)
-  yellow: 1,
-  white: 5,
-};
-
-const FINE_AMOUNT_PER_DAY = 500; // 500 Kz
-const MAX_FINE_FOR_LOAN = 2000; // >= 2000 Kz blocks new loans
-const MAX_RENEWALS = 2;
-const MAX_RESERVATIONS_PER_USER = 3;
-const RESERVATION_PICKUP_HOURS = 48;
-
 // Helper functions
-function normalizeString(str: string): string {
-  return str
-    .toLowerCase()
-    .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "");
-}
-
-function calculateDueDate(userType: string, bookTag: string, baseDate?: Date): Date {
-  const now = new Date();
-
-  // For renewals, if the book is not overdue, extend from the original due date.
-  // If it IS overdue, extend from today.
-  // If no baseDate (new loan), use today.
-  const referenceDate = baseDate && baseDate > now ? new Date(baseDate) : now;
-
-  let days = 0;
-
-  if (bookTag === "red") {
-    return referenceDate; // Cannot be loaned
-  }
-
-  // Tag overrides user type
-  if (bookTag === "yellow") {
-    days = TAG_LOAN_DAYS.yellow; // Always 1 day for yellow tag
-  } else if (bookTag === "white") {
-    // White tag uses user-specific loan period
-    if (userType === "teacher") {
-      days = LOAN_RULES.teacher.loanDays; // 15 days
-    } else {
-      days = LOAN_RULES.student.loanDays; // 5 days
+// Repeated query parameters (?author=A&author=B) arrive as an array, a single one as a string
+const queryList = <T extends z.ZodTypeAny>(item: T) =>
+  z.preprocess(value => value === undefined || Array.isArray(value) ? value : [value], z.array(item).optional());
+
+// Catalogue filters as query parameters, shared by the book list and its facets
+const catalogueFiltersQuery = z.object({
+  search: z.string().trim().optional(),
+  categoryId: queryList(z.string()),
+  department: queryList(z.enum(departmentEnum.enumValues)),
+  author: queryList(z.string()),
+  publisher: queryList(z.string()),
+  decade: queryList(z.coerce.number().int()),
+  tag: queryList(z.enum(bookTagEnum.enumValues)),
+  available: z.enum(["true", "false"]).transform(v => v === "true").optional(),
+  minRating: z.coerce.number().int().min(1).max(5).optional(),
+  // Advanced search; syntax errors come back as issues on "q" with the offending span in params
+  q: z.string().optional().transform((q, ctx) => {
+    const { query, error } = parseBookQuery(q ?? "");
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message, params: { start: error.start, end: error.end } });
+      return z.NEVER;
     }
-  }
-
-  referenceDate.setDate(referenceDate.getDate() + days);
-  return referenceDate;
-}
-
-function calculateFine(dueDate: Date, returnDate: Date): { amount: number; daysOverdue: number } {
-  const overdueDays = Math.floor((returnDate.getTime() - new Date(dueDate).getTime()) / (1000 * 60 * 60 * 24));
-  if (overdueDays <= 0) {
-    return { amount: 0, daysOverdue: 0 };
-  }
-  return {
-    amount: overdueDays * FINE_AMOUNT_PER_DAY,
-    daysOverdue: overdueDays,
-  };
-}
-
-async function calculateRemainingFine(loanId: string, dueDate: Date, returnDate: Date): Promise<{ amount: number; daysOverdue: number }> {
-  const fineInfo = calculateFine(dueDate, returnDate);
-  if (fineInfo.amount <= 0) return fineInfo;
-
-  const persistentFines = await storage.getFinesByLoan(loanId);
-  const paidAmount = persistentFines
-    .filter(f => f.status === "paid")
-    .reduce((sum, f) => sum + parseFloat(f.amount), 0);
-
-  return {
-    amount: Math.max(0, fineInfo.amount - paidAmount),
-    daysOverdue: fineInfo.daysOverdue
-  };
-}
-
-async function getUserTotalFines(userId: string): Promise<number> {
-  const fines = await storage.getFinesByUser(userId);
-  const pendingFines = fines.filter(f => f.status === "pending");
-  const persistentTotal = pendingFines.reduce((sum, fine) => sum + parseFloat(fine.amount), 0);
-
-  // Add dynamic fines from active overdue loans
-  const userLoans = await storage.getLoansByUser(userId);
-  const activeOverdueLoans = userLoans.filter(l => (l.status === "active" || l.status === "overdue") && new Date(l.dueDate) < new Date());
-
-  let dynamicTotal = 0;
-  for (const loan of activeOverdueLoans) {
-    const fineInfo = await calculateRemainingFine(loan.id, new Date(loan.dueDate), new Date());
-    dynamicTotal += fineInfo.amount;
-  }
-
-  return persistentTotal + dynamicTotal;
-}
+    return query ?? undefined;
+  }),
+}).transform(({ categoryId, department, author, publisher, decade, tag, q, ...rest }): CatalogueFilters => ({
+  ...rest,
+  query: q,
+  categoryIds: categoryId,
+  departments: department,
+  authors: author,
+  publishers: publisher,
+  decades: decade,
+  tags: tag,
+}));
 
 async function canUserLoan(userId: string, bookId: string): Promise<{ canLoan: boolean; reason?: string }> {
   const user = await storage.getUser(userId);
@@ -143,17 +81,29 @@ async function canUserLoan(userId: string, bookId: string): Promise<{ canLoan: b
     return { canLoan: false, reason: "Utilizador não encontrado ou inativo" };
   }
 
+  const blockReason = await describeActiveBlocks(userId);
+  if (blockReason) {
+    return { canLoan: false, reason: blockReason };
+  }
+
   const book = await storage.getBook(bookId);
   if (!book) {
     return { canLoan: false, reason: "Livro não encontrado" };
   }
 
-  if (book.availableCopies <= 0) {
+  // A copy held for the user's reservation is not counted as available, but is theirs
+  const holdsCopy = (await storage.getHoldsByUser(userId))
+    .some(h => h.bookId === bookId && h.status === "ready_for_pickup" && h.copyId);
+
+  if (!holdsCopy && book.availableCopies <= 0) {
     return { canLoan: false, reason: "Livro indisponível (zero cópias disponíveis)" };
   }
 
-  if (book.tag === "red") {
-    return { canLoan: false, reason: "Este livro é apenas para uso na biblioteca (etiqueta vermelha)" };
+  const rule = await getLoanRule(user.userType, book);
+  if (!rule.isLoanable) {
+    return { canLoan: false, reason: book.tag === "red"
+      ? "Este livro é apenas para uso na biblioteca (etiqueta vermelha)"
+      : "A política de empréstimo não permite emprestar este livro a este tipo de utilizador" };
   }
 
   // Check if user already has this book active
@@ -164,24 +114,15 @@ async function canUserLoan(userId: string, bookId: string): Promise<{ canLoan: b
     return { canLoan: false, reason: "Você já tem este livro emprestado no momento" };
   }
 
-  // Check for pending reservations (loan requests) for this book
-  const allPendingRequests = await storage.getLoanRequestsByStatus("pending");
-  const bookPendingRequests = allPendingRequests.filter(r => r.bookId === bookId);
-
-  // Check if current user already has a pending reservation for this book
-  const hasPendingReservation = bookPendingRequests.some(r => r.userId === userId);
-  if (hasPendingReservation) {
-    return { canLoan: false, reason: "Você já tem uma reserva pendente para este livro. Aprova a reserva em vez de criar um novo empréstimo." };
-  }
-
-  // Calculate effective availability: copies - reservations
-  // A loan is only allowed if effective copies > 0, unless the user IS one of the reservists (handled above by suggesting approval)
-  const effectiveCopies = book.availableCopies - bookPendingRequests.length;
+  // Copies on the shelf are spoken for by other users' requests; the user's own
+  // request is fulfilled by this loan
+  const otherClaims = (await getShelfClaims(bookId)).filter(h => h.userId !== userId);
+  const effectiveCopies = book.availableCopies - otherClaims.length;
 
-  if (effectiveCopies <= 0) {
+  if (!holdsCopy && effectiveCopies <= 0) {
     // Determine who has the reservations to inform the admin
     const reservists = await Promise.all(
-      bookPendingRequests.map(async (r) => {
+      otherClaims.map(async (r) => {
         const u = await storage.getUser(r.userId);
         return u ? u.name : "Desconhecido";
       })
@@ -193,18 +134,10 @@ async function canUserLoan(userId: string, bookId: string): Promise<{ canLoan: b
     };
   }
 
-  // Check fines
-  const totalFines = await getUserTotalFines(userId);
-  if (totalFines >= MAX_FINE_FOR_LOAN) {
-    return { canLoan: false, reason: `O utilizador tem multas pendentes de ${totalFines} Kz. Pague para liberar novos empréstimos.` };
-  }
+  const limits = await getBorrowerLimits(user.userType);
 
   // Check loan limits
-  const maxBooks = user.userType === "teacher"
-    ? LOAN_RULES.teacher.maxBooks
-    : user.userType === "staff"
-      ? LOAN_RULES.staff.maxBooks
-      : LOAN_RULES.student.maxBooks;
+  const maxBooks = limits.maxBooks;
 
   if (activeLoans.length >= maxBooks) {
     return { canLoan: false, reason: `Limite de ${maxBooks} livros atingido para este tipo de utilizador` };
@@ -235,65 +168,162 @@ async function canUserLoan(userId: string, bookId: string): Promise<{ canLoan: b
   return { canLoan: true };
 }
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Authentication routes
-  app.post("/api/auth/login", async (req, res) => {
-    try {
-      const { username, password } = req.body;
-      const user = await storage.getUserByUsername(username);
-
-      if (!user || user.password !== password) {
-        return res.status(401).json({ message: "Credenciais inválidas" });
-      }
+const patronTypeNames: Record<PatronRules["userType"], string> = {
+  student: "estudantes",
+  teacher: "docentes",
+  staff: "funcionários",
+  admin: "administradores",
+};
 
-      if (!user.isActive) {
-        return res.status(403).json({ message: "Utilizador inativo" });
-      }
+// The rules of each patron type in one line each, for the chat assistant's prompt
+function describePatronRules(rules: PatronRules[]): string {
+  return rules
+    .filter(r => r.userType !== "admin")
+    .map(r => {
+      const { white, yellow, red } = r.tags;
+      const days = (rule: typeof white) => rule.isLoanable ? `${rule.loanDays} dia(s)` : "só na biblioteca";
+      return `${patronTypeNames[r.userType]}: até ${r.maxBooks} livros; etiqueta branca ${days(white)}, amarela ${days(yellow)}, vermelha ${days(red)}; ` +
+        `até ${white.maxRenewals} renovações; multa de ${white.finePerDay} Kz por dia de atraso` +
+        (r.maxFineAmount > 0 ? `; empréstimos bloqueados a partir de ${r.maxFineAmount} Kz em multas.` : ".");
+    })
+    .join(" ");
+}
 
-      res.json({
-        user: {
-          id: user.id,
-          username: user.username,
-          name: user.name,
-          email: user.email,
-          userType: user.userType
-        }
-      });
-    } catch (error) {
-      res.status(500).json({ message: "Erro no servidor" });
+/**
+ * Lends a copy of `book` to `user` once eligibility has been checked. The copy
+ * is the scanned one when a barcode is given, otherwise any copy on the shelf.
+ * The storage transaction re-checks what a concurrent request could change
+ * since: the copies left beyond other users' requests, blocks and the loan limit.
+ */
+async function performCheckout(user: User, book: Book, barcode?: string): Promise<{ loan?: Loan; reason?: string }> {
+  let copyId: string | undefined;
+  if (barcode) {
+    const copy = await storage.getBookCopyByBarcode(barcode);
+    if (!copy || copy.bookId !== book.id) {
+      return { reason: "Exemplar não encontrado para este livro" };
     }
+    copyId = copy.id;
+  }
+
+  // Calculate due date
+  const dueDate = await calculateDueDate(user.userType, book);
+  // Checked again under the user's lock, where concurrent checkouts cannot both pass it
+  const { maxBooks } = await getBorrowerLimits(user.userType);
+
+  let loan: Loan;
+  try {
+    loan = await storage.checkoutBook({ userId: user.id, bookId: book.id, copyId, dueDate, maxBooks });
+  } catch (error: any) {
+    return { reason: error.message };
+  }
+
+  // A copy the user held but did not take goes to the next in line
+  await promoteHolds(book.id);
+
+  await notify(user, {
+    type: "loan_confirmation",
+    title: "Empréstimo registado",
+    message: `"${book.title}" deve ser devolvido até ${dueDate.toLocaleDateString("pt-PT")}.`,
+    email: () => sendLoanConfirmation(user, book, dueDate),
   });
 
+  return { loan };
+}
+
+/**
+ * Closes a loan: charges the overdue days the nightly job has not reached yet
+ * and puts the copy back on the shelf in one transaction, then holds it for the
+ * next reservation in line for the book. Returns what is still owed on the loan.
+ */
+async function performReturn(loan: Loan): Promise<{ amount: number; daysOverdue: number }> {
+  const returnDate = new Date();
+
+  const fine = await checkinLoanWithFine(loan, returnDate);
+  const fineInfo = { amount: await getLoanFineBalance(loan.id), daysOverdue: fine?.daysOverdue ?? 0 };
+  await recalculateUserBlocks(loan.userId);
+
+  // Hold the copy for the next reservation in line
+  await promoteHolds(loan.bookId);
+
+  return fineInfo;
+}
+
+/**
+ * Resolves a scanned library card. Cards carry the student/staff number, which
+ * is the part of the institutional username before the "@".
+ */
+async function findUserByCardNumber(code: string): Promise<User | undefined> {
+  const normalized = code.trim().toLowerCase();
+  const byUsername = await storage.getUserByUsername(normalized);
+  if (byUsername) return byUsername;
+
+  const users = await storage.getAllUsers();
+  return users.find(u =>
+    u.email.toLowerCase() === normalized ||
+    u.username.toLowerCase().split("@")[0] === normalized
+  );
+}
+
+// Ownership resolvers for routes addressed by resource id
+async function holdOwner(req: Request) {
+  const hold = await storage.getHold(req.params.id);
+  return hold?.userId;
+}
+
+async function fineOwner(req: Request) {
+  const fine = await storage.getFine(req.params.id);
+  return fine?.userId;
+}
+
+async function renewalRequestOwner(req: Request) {
+  const request = await storage.getRenewalRequest(req.params.id);
+  return request?.userId;
+}
+
+async function renewalTargetOwner(req: Request) {
+  // The renewal must be requested by the borrower of the loan itself
+  const loan = await storage.getLoan(req.body.loanId);
+  return loan && loan.userId === req.body.userId ? loan.userId : null;
+}
+
+async function reviewOwner(req: Request) {
+  const review = await storage.getReview(req.params.id);
+  return review?.userId;
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Authentication routes (session, login, logout, me)
+  setupAuth(app);
+
   // Debug Route
-  app.get("/api/health", (req, res) => {
+  app.get("/api/health", authorize("public"), (req, res) => {
     res.json({ status: "ok", timestamp: new Date().toISOString() });
   });
 
-  app.get("/api/debug/all-data", async (req, res) => {
+  app.get("/api/debug/all-data", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       const allLoans = await storage.getAllLoans();
-      const allRequests = await storage.getAllLoanRequests();
+      const allHolds = await storage.getAllHolds();
       const allUsers = await storage.getAllUsers();
       res.json({
-        users: allUsers,
+        users: allUsers.map(toPublicUser),
         loans: allLoans,
-        requests: allRequests
+        holds: allHolds
       });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
-  app.get("/api/users", async (req, res) => {
+  app.get("/api/users", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       const users = await storage.getAllUsers();
       const usersWithStats = await Promise.all(users.map(async (u) => {
-        const fines = await getUserTotalFines(u.id);
         const loans = await storage.getLoansByUser(u.id);
         const activeLoansCount = loans.filter(l => l.status === "active").length;
         const totalLoansHistory = loans.length;
 
         const allFines = await storage.getFinesByUser(u.id);
-        const pendingAmount = await getUserTotalFines(u.id);
+        const pendingAmount = await storage.getUserFineBalance(u.id);
         const totalFinesHistory = allFines.reduce((sum, f) => sum + parseFloat(f.amount), 0);
 
         return {
@@ -316,22 +346,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/users/:id", async (req, res) => {
+  app.get("/api/users/:id", authorize(ALL_ROLES, { owner: (req) => req.params.id }), async (req, res) => {
     try {
       const user = await storage.getUser(req.params.id);
       if (!user) {
         return res.status(404).json({ message: "Utilizador não encontrado" });
       }
       const { password, ...userWithoutPassword } = user;
-      res.json(userWithoutPassword);
+      res.json({ ...userWithoutPassword, noShowCount: await getNoShowCount(user.id) });
     } catch (error) {
       res.status(500).json({ message: "Erro ao buscar utilizador" });
     }
   });
 
-  app.post("/api/users", async (req, res) => {
+  app.post("/api/users", authorize("public"), async (req, res) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
+      // Self-registration creates student accounts; the user type decides loan
+      // limits and hold priority, so other types are only given by an admin
+      const byAdmin = req.user?.userType === "admin";
+      const userData = byAdmin ? insertUserSchema.parse(req.body) : registerUserSchema.parse(req.body);
+      if (!byAdmin && userData.userType && userData.userType !== "student") {
+        return res.status(403).json({ message: "Apenas administradores podem criar contas de docentes, funcionários ou administradores." });
+      }
+      if (!byAdmin) {
+        userData.userType = "student";
+      }
 
       // Validação extra de consistência (mesma lógica do frontend)
       // Extract the part before @ for validation
@@ -346,7 +385,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Docentes e Funcionários devem usar email nominal (não numérico)." });
       }
 
-      const user = await storage.createUser(userData);
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password),
+      });
       const { password, ...userWithoutPassword } = user;
       res.status(201).json(userWithoutPassword);
     } catch (error: any) {
@@ -354,9 +396,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/users/:id", async (req, res) => {
+  app.patch("/api/users/:id", authorize(ADMIN_ONLY), async (req, res) => {
     try {
-      const user = await storage.updateUser(req.params.id, req.body);
+      const userData = { ...req.body };
+      if (userData.password) {
+        userData.password = await hashPassword(userData.password);
+      }
+      // Only the user can confirm a number, by the code texted to it
+      delete userData.phoneVerifiedAt;
+      if (userData.phone !== undefined && userData.phone !== (await storage.getUser(req.params.id))?.phone) {
+        userData.phoneVerifiedAt = null;
+      }
+
+      const user = await storage.updateUser(req.params.id, userData);
 
       if (!user) {
         return res.status(404).json({ message: "Utilizador não encontrado" });
@@ -368,8 +420,144 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Phone number for SMS/WhatsApp notices, confirmed with a texted code
+  app.post("/api/users/:id/phone", authorize(ALL_ROLES, { owner: (req) => req.params.id }), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "Utilizador não encontrado" });
+      }
+      const { phone, channel } = z.object({
+        phone: z.string().min(1, "Indique o número de telemóvel"),
+        channel: z.enum(phoneChannelEnum.enumValues).default("sms"),
+      }).parse(req.body);
+
+      res.status(201).json(await startPhoneVerification(user, phone, channel));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(400).json({ message: error.message || "Erro ao enviar código de confirmação" });
+    }
+  });
+
+  app.post("/api/users/:id/phone/verify", authorize(ALL_ROLES, { owner: (req) => req.params.id }), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "Utilizador não encontrado" });
+      }
+      const { code } = z.object({ code: z.string().min(1, "Indique o código") }).parse(req.body);
+
+      const { password, ...userWithoutPassword } = await confirmPhoneVerification(user, code);
+      res.json(userWithoutPassword);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(400).json({ message: error.message || "Erro ao confirmar número" });
+    }
+  });
+
+  app.delete("/api/users/:id/phone", authorize(ALL_ROLES, { owner: (req) => req.params.id }), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "Utilizador não encontrado" });
+      }
+      const { password, ...userWithoutPassword } = await removePhone(user);
+      res.json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao remover número" });
+    }
+  });
+
+  // Language of the emails sent to the user
+  app.put("/api/users/:id/language", authorize(ALL_ROLES, { owner: (req) => req.params.id }), async (req, res) => {
+    try {
+      const { language } = z.object({ language: z.enum(languageEnum.enumValues) }).parse(req.body);
+      const user = await storage.updateUser(req.params.id, { language });
+      if (!user) {
+        return res.status(404).json({ message: "Utilizador não encontrado" });
+      }
+      const { password, ...userWithoutPassword } = user;
+      res.json(userWithoutPassword);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Erro ao atualizar idioma" });
+    }
+  });
+
+  // Borrowing blocks. Fine and lost-book blocks follow the user's situation;
+  // manual and disciplinary ones are placed and lifted here
+  app.get("/api/users/:id/blocks", authorize(ALL_ROLES, { owner: (req) => req.params.id }), async (req, res) => {
+    try {
+      const blocks = await storage.getUserBlocks(req.params.id);
+      const enriched = await Promise.all(blocks.map(async (block) => {
+        const createdBy = block.createdBy ? await storage.getUser(block.createdBy) : undefined;
+        const liftedBy = block.liftedBy ? await storage.getUser(block.liftedBy) : undefined;
+        return {
+          ...block,
+          isActive: isBlockActive(block),
+          createdByName: createdBy?.name ?? null,
+          liftedByName: liftedBy?.name ?? null,
+        };
+      }));
+      res.json(enriched.reverse());
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar bloqueios" });
+    }
+  });
+
+  app.post("/api/users/:id/blocks", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "Utilizador não encontrado" });
+      }
+
+      const blockData = insertUserBlockSchema.parse({ ...req.body, userId: user.id, createdBy: req.user!.id });
+      if (blockData.reason === "fines") {
+        return res.status(400).json({ message: "Os bloqueios por multas são geridos automaticamente pelo saldo em dívida" });
+      }
+
+      const block = await storage.createUserBlock(blockData);
+      res.status(201).json(block);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(400).json({ message: error.message || "Erro ao bloquear utilizador" });
+    }
+  });
+
+  app.post("/api/user-blocks/:id/lift", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const block = await storage.getUserBlock(req.params.id);
+      if (!block) {
+        return res.status(404).json({ message: "Bloqueio não encontrado" });
+      }
+      const now = new Date();
+      if (block.endDate && block.endDate <= now) {
+        return res.status(400).json({ message: "Este bloqueio já não está ativo" });
+      }
+      if (!block.createdBy) {
+        return res.status(400).json({ message: "Este bloqueio é levantado automaticamente quando a situação for regularizada" });
+      }
+
+      // A block scheduled for later is cancelled by ending it where it starts
+      const endDate = block.startDate > now ? block.startDate : now;
+      const lifted = await storage.updateUserBlock(block.id, { endDate, liftedBy: req.user!.id });
+      res.json({ message: "Bloqueio levantado", block: lifted });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Erro ao levantar bloqueio" });
+    }
+  });
+
   // Category routes
-  app.get("/api/categories", async (req, res) => {
+  app.get("/api/categories", authorize(ALL_ROLES), async (req, res) => {
     try {
       const categories = await storage.getAllCategories();
       res.json(categories);
@@ -378,7 +566,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/categories", async (req, res) => {
+  app.post("/api/categories", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       const categoryData = insertCategorySchema.parse(req.body);
       const category = await storage.createCategory(categoryData);
@@ -388,7 +576,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/categories/:id", async (req, res) => {
+  app.patch("/api/categories/:id", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       const category = await storage.updateCategory(req.params.id, req.body);
       if (!category) {
@@ -400,7 +588,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/categories/:id", async (req, res) => {
+  app.delete("/api/categories/:id", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       await storage.deleteCategory(req.params.id);
       res.json({ message: "Categoria deletada com sucesso" });
@@ -410,7 +598,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Author routes
-  app.get("/api/authors", async (req, res) => {
+  app.get("/api/authors", authorize(ALL_ROLES), async (req, res) => {
     try {
       const authorsList = await storage.getAllAuthors();
       res.json(authorsList);
@@ -419,7 +607,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/authors", async (req, res) => {
+  app.post("/api/authors", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       const authorData = insertAuthorSchema.parse(req.body);
       const author = await storage.createAuthor(authorData);
@@ -429,7 +617,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/authors/:id", async (req, res) => {
+  app.patch("/api/authors/:id", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       const author = await storage.updateAuthor(req.params.id, req.body);
       if (!author) {
@@ -441,7 +629,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/authors/:id", async (req, res) => {
+  app.delete("/api/authors/:id", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       await storage.deleteAuthor(req.params.id);
       res.json({ message: "Autor deletado com sucesso" });
@@ -450,69 +638,230 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Book routes
-  app.get("/api/books", async (req, res) => {
+  // Loan policy routes
+  app.get("/api/loan-policies", authorize(ADMIN_ONLY), async (req, res) => {
     try {
-      const { search, department, categoryId } = req.query;
-      let books = await storage.getAllBooks();
+      const policies = await storage.getAllLoanPolicies();
+      res.json(policies);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar políticas de empréstimo" });
+    }
+  });
 
-      // Apply search filter
-      if (search && typeof search === "string") {
-        const searchNormalized = normalizeString(search);
-        books = books.filter(book =>
-          normalizeString(book.title).includes(searchNormalized) ||
-          normalizeString(book.author).includes(searchNormalized) ||
-          (book.isbn && normalizeString(book.isbn).includes(searchNormalized))
-        );
+  app.post("/api/loan-policies", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const policyData = insertLoanPolicySchema.parse(req.body);
+
+      // Only one policy per user type x tag x department x category
+      const existing = await storage.getAllLoanPolicies();
+      const duplicate = existing.find(p =>
+        p.userType === policyData.userType &&
+        p.tag === policyData.tag &&
+        (p.department || null) === (policyData.department || null) &&
+        (p.categoryId || null) === (policyData.categoryId || null)
+      );
+      if (duplicate) {
+        return res.status(400).json({ message: "Já existe uma política para esta combinação de utilizador, etiqueta, departamento e categoria." });
       }
 
-      // Apply department filter
-      if (department && typeof department === "string") {
-        books = books.filter(book => book.department === department);
+      const policy = await storage.createLoanPolicy(policyData);
+      res.status(201).json(policy);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      } else {
+        res.status(400).json({ message: error.message || "Erro ao criar política de empréstimo" });
+      }
+    }
+  });
+
+  app.patch("/api/loan-policies/:id", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const policyData = insertLoanPolicySchema.partial().parse(req.body);
+      const policy = await storage.updateLoanPolicy(req.params.id, policyData);
+      if (!policy) {
+        return res.status(404).json({ message: "Política não encontrada" });
+      }
+      res.json(policy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Erro ao atualizar política de empréstimo" });
+      }
+    }
+  });
+
+  app.delete("/api/loan-policies/:id", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const success = await storage.deleteLoanPolicy(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Política não encontrada" });
       }
+      res.json({ message: "Política removida com sucesso" });
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao remover política de empréstimo" });
+    }
+  });
+
+  app.get("/api/borrower-policies", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const policies = await storage.getAllBorrowerPolicies();
+      res.json(policies);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar limites por tipo de utilizador" });
+    }
+  });
 
-      // Apply category filter
-      if (categoryId && typeof categoryId === "string") {
-        books = books.filter(book => book.categoryId === categoryId);
+  app.put("/api/borrower-policies/:userType", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const policyData = insertBorrowerPolicySchema.parse({ ...req.body, userType: req.params.userType });
+      const policy = await storage.upsertBorrowerPolicy(policyData);
+      res.json(policy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Erro ao atualizar limites" });
       }
+    }
+  });
 
-      const enrichedBooks = await Promise.all(books.map(async (book) => {
-        const loans = await storage.getLoansByBook(book.id);
-        const reviews = await storage.getReviewsByBook(book.id);
+  // The rules in force for each user type, for the help texts patrons read
+  app.get("/api/loan-rules", authorize(ALL_ROLES), async (req, res) => {
+    try {
+      res.json(await getPatronRules());
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar regras de empréstimo" });
+    }
+  });
 
-        let totalFines = 0;
-        for (const loan of loans) {
-          // Add persistent fines
-          const persistentFines = await storage.getFinesByLoan(loan.id);
-          totalFines += persistentFines.reduce((sum, f) => sum + parseFloat(f.amount), 0);
+  // Academic calendar routes
+  app.get("/api/calendar", authorize(ALL_ROLES), async (req, res) => {
+    try {
+      const [hours, events] = await Promise.all([
+        storage.getAllOpeningHours(),
+        storage.getAllCalendarEvents(),
+      ]);
+      res.json({ openingHours: hours, events });
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar calendário" });
+    }
+  });
 
-          // Add dynamic fine if active and overdue
-          if (loan.status === "active" && new Date(loan.dueDate) < new Date()) {
-            const dynamicFine = await calculateRemainingFine(loan.id, new Date(loan.dueDate), new Date());
-            totalFines += dynamicFine.amount;
-          }
-        }
+  app.put("/api/calendar/opening-hours/:weekday", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const hoursData = insertOpeningHoursSchema.parse({
+        ...req.body,
+        weekday: parseInt(req.params.weekday, 10),
+        opensAt: req.body.isOpen ? req.body.opensAt : null,
+        closesAt: req.body.isOpen ? req.body.closesAt : null,
+      });
+      const hours = await storage.upsertOpeningHours(hoursData);
+      res.json(hours);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Erro ao atualizar horário" });
+      }
+    }
+  });
 
-        const avgRating = reviews.length > 0
-          ? reviews.reduce((sum, r) => sum + r.rating, 0) / reviews.length
-          : 0;
+  app.post("/api/calendar/events", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const eventData = insertCalendarEventSchema.parse(req.body);
+      const event = await storage.createCalendarEvent(eventData);
+      res.status(201).json(event);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      } else {
+        res.status(400).json({ message: error.message || "Erro ao criar evento" });
+      }
+    }
+  });
 
-        return {
-          ...book,
-          loanCount: loans.length,
-          totalFines: totalFines,
-          averageRating: Math.round(avgRating * 10) / 10,
-          reviewCount: reviews.length
-        };
-      }));
+  app.patch("/api/calendar/events/:id", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const existing = await storage.getCalendarEvent(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Evento não encontrado" });
+      }
 
-      res.json(enrichedBooks);
+      const { id, createdAt, ...current } = existing;
+      const eventData = insertCalendarEventSchema.parse({ ...current, ...req.body });
+      const event = await storage.updateCalendarEvent(req.params.id, eventData);
+      res.json(event);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Erro ao atualizar evento" });
+      }
+    }
+  });
+
+  app.delete("/api/calendar/events/:id", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const success = await storage.deleteCalendarEvent(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Evento não encontrado" });
+      }
+      res.json({ message: "Evento removido com sucesso" });
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao remover evento" });
+    }
+  });
+
+  // Book routes
+  // One page of the catalogue. Searches sort by relevance unless asked otherwise
+  app.get("/api/books", authorize(ALL_ROLES), async (req, res) => {
+    try {
+      const filters = catalogueFiltersQuery.parse(req.query);
+      const query = z.object({
+        sort: z.enum(catalogueSorts).optional(),
+        page: z.coerce.number().int().min(1).default(1),
+        pageSize: z.coerce.number().int().min(1).max(100).default(24),
+      }).parse(req.query);
+
+      const { books, total } = await storage.searchCatalogue({
+        ...filters,
+        ...query,
+        sort: query.sort ?? (filters.search ? "relevance" : "title"),
+      });
+      const stats = await storage.getBookStats(books.map(b => b.id));
+
+      res.json({
+        books: books.map(book => {
+          const { averageRating, ...bookStats } = stats.get(book.id)!;
+          return { ...book, ...bookStats, averageRating: Math.round(averageRating * 10) / 10 };
+        }),
+        total,
+        page: query.page,
+        pageSize: query.pageSize,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
       res.status(500).json({ message: "Erro ao buscar livros" });
     }
   });
 
-  app.get("/api/books/:id", async (req, res) => {
+  // Facet counts for the catalogue under the same filters as GET /api/books
+  app.get("/api/books/facets", authorize(ALL_ROLES), async (req, res) => {
+    try {
+      res.json(await storage.getCatalogueFacets(catalogueFiltersQuery.parse(req.query)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Erro ao buscar filtros do catálogo" });
+    }
+  });
+
+  app.get("/api/books/:id", authorize(ALL_ROLES), async (req, res) => {
     try {
       const book = await storage.getBook(req.params.id);
       if (!book) {
@@ -524,7 +873,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/books", async (req, res) => {
+  app.post("/api/books", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       const data = { ...req.body };
 
@@ -539,38 +888,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const bookData = insertBookSchema.parse(data);
 
-      // Check for duplicate ISBN (only if not null)
-      if (bookData.isbn) {
-        const allBooks = await storage.getAllBooks();
-        const existingByIsbn = allBooks.find(b => b.isbn === bookData.isbn);
-        if (existingByIsbn) {
-          return res.status(400).json({ message: `Já existe um livro cadastrado com o ISBN ${bookData.isbn} ("${existingByIsbn.title}")` });
-        }
+      // Same ISBN, or same title and author
+      const duplicate = findDuplicateBook({ ...bookData, isbn: bookData.isbn ?? null }, await storage.getAllBooks());
+      if (duplicate) {
+        return res.status(400).json({ message: duplicate.message });
       }
 
-      // Check for duplicate Title + Author (only if not "Não Identificado")
-      if (bookData.title !== "Não Identificado" && bookData.author !== "Não Identificado") {
-        const allBooks = await storage.getAllBooks();
-        const existingByTitleAuthor = allBooks.find(b =>
-          b.title.toLowerCase() === bookData.title.toLowerCase() &&
-          b.author.toLowerCase() === bookData.author.toLowerCase()
-        );
-
-        if (existingByTitleAuthor) {
-          return res.status(400).json({ message: `Este livro ("${bookData.title}") de ${bookData.author} já está cadastrado no acervo.` });
-        }
-      }
+      // Number of physical copies to register along with the title
+      const copyCount = Math.max(1, parseInt(data.totalCopies) || 1);
 
       const book = await storage.createBook(bookData);
-      res.status(201).json(book);
+      await addCopies(book.id, copyCount);
+      res.status(201).json(await storage.getBook(book.id));
     } catch (error: any) {
       res.status(400).json({ message: error.message || "Erro ao criar livro" });
     }
   });
 
-  app.patch("/api/books/:id", async (req, res) => {
+  // Spreadsheet import: rows already mapped to book fields, in file order after the header
+  const bookImportBody = z.object({
+    rows: z.array(z.record(z.unknown())).min(1).max(MAX_IMPORT_ROWS, `No máximo ${MAX_IMPORT_ROWS} linhas por importação`),
+  });
+
+  app.post("/api/books/import/preview", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const { rows } = bookImportBody.parse(req.body);
+      res.json(await planBookImport(rows));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Erro ao validar a importação" });
+    }
+  });
+
+  app.post("/api/books/import", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const { rows } = bookImportBody.parse(req.body);
+      res.json(await runBookImport(rows));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Erro ao importar livros" });
+    }
+  });
+
+  app.patch("/api/books/:id", authorize(ADMIN_ONLY), async (req, res) => {
     try {
-      const book = await storage.updateBook(req.params.id, req.body);
+      // Copy counts are derived from the book's copies and cannot be edited here
+      const { totalCopies, availableCopies, ...bookData } = req.body;
+      const book = await storage.updateBook(req.params.id, bookData);
       if (!book) {
         return res.status(404).json({ message: "Livro não encontrado" });
       }
@@ -580,7 +948,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/books/:id", async (req, res) => {
+  app.delete("/api/books/:id", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       const bookId = req.params.id;
 
@@ -604,8 +972,120 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Book copy routes
+  app.get("/api/books/:id/copies", authorize(ALL_ROLES), async (req, res) => {
+    try {
+      const copies = await storage.getCopiesByBook(req.params.id);
+      res.json(copies);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar exemplares" });
+    }
+  });
+
+  app.post("/api/books/:id/copies", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const book = await storage.getBook(req.params.id);
+      if (!book) {
+        return res.status(404).json({ message: "Livro não encontrado" });
+      }
+
+      const data = insertBookCopySchema.parse({
+        ...req.body,
+        bookId: book.id,
+        barcode: req.body.barcode || await generateBarcode(),
+        accessionNumber: req.body.accessionNumber || null,
+      });
+
+      if (data.status === "on_loan" || data.status === "on_hold") {
+        return res.status(400).json({ message: "Um exemplar só fica emprestado ou guardado através de um empréstimo ou reserva" });
+      }
+      if (await storage.getBookCopyByBarcode(data.barcode)) {
+        return res.status(400).json({ message: `Já existe um exemplar com o código de barras ${data.barcode}` });
+      }
+
+      const copy = await storage.createBookCopy(data);
+      await promoteHolds(book.id);
+      res.status(201).json(copy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Erro ao criar exemplar" });
+    }
+  });
+
+  app.patch("/api/copies/:id", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const copy = await storage.getBookCopy(req.params.id);
+      if (!copy) {
+        return res.status(404).json({ message: "Exemplar não encontrado" });
+      }
+
+      const updates = insertBookCopySchema.omit({ bookId: true }).partial().parse(req.body);
+
+      // A copy that is out can only be declared lost; the rest follows loans and returns
+      const declaredLost = copy.status === "on_loan" && updates.status === "lost";
+      if (updates.status && updates.status !== copy.status && !declaredLost && (updates.status === "on_loan" || copy.status === "on_loan")) {
+        return res.status(400).json({ message: "O estado de empréstimo é gerido pelos empréstimos e devoluções" });
+      }
+      if (updates.status && updates.status !== copy.status && (updates.status === "on_hold" || copy.status === "on_hold")) {
+        return res.status(400).json({ message: "Este exemplar está guardado para uma reserva; cancele a reserva para o libertar" });
+      }
+      if (updates.barcode && updates.barcode !== copy.barcode && await storage.getBookCopyByBarcode(updates.barcode)) {
+        return res.status(400).json({ message: `Já existe um exemplar com o código de barras ${updates.barcode}` });
+      }
+
+      const updated = await storage.updateBookCopy(copy.id, updates);
+      if (updated?.status === "available" && copy.status !== "available") {
+        await promoteHolds(copy.bookId);
+      }
+      if (declaredLost) {
+        const openLoan = (await storage.getLoansByCopy(copy.id)).find(l => l.status === "active" || l.status === "overdue");
+        if (openLoan) {
+          // The loan ends here: overdue days are charged up to today and no longer accrue
+          await accrueLoanFine(openLoan, new Date());
+          await storage.updateLoan(openLoan.id, { status: "lost" });
+          await recalculateUserBlocks(openLoan.userId);
+        }
+      }
+      if (copy.status === "lost" && updated?.status === "available") {
+        // Found again: its lost loan is closed as returned today, lifting the lost-book block
+        const lostLoan = (await storage.getLoansByCopy(copy.id)).find(l => l.status === "lost");
+        if (lostLoan) {
+          await storage.updateLoan(lostLoan.id, { status: "returned", returnDate: new Date() });
+          await recalculateUserBlocks(lostLoan.userId);
+        }
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Erro ao atualizar exemplar" });
+    }
+  });
+
+  app.delete("/api/copies/:id", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const copyLoans = await storage.getLoansByCopy(req.params.id);
+      if (copyLoans.length > 0) {
+        return res.status(400).json({
+          message: "Este exemplar tem histórico de empréstimos. Marque-o como abatido em vez de o apagar."
+        });
+      }
+
+      const success = await storage.deleteBookCopy(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Exemplar não encontrado" });
+      }
+      res.json({ message: "Exemplar removido com sucesso" });
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao remover exemplar" });
+    }
+  });
+
   // Loan routes
-  app.get("/api/loans", async (req, res) => {
+  app.get("/api/loans", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       const { userId, bookId, status } = req.query;
       let loans;
@@ -625,16 +1105,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const loansWithDetails = await Promise.all(loans.map(async (loan) => {
         const user = await storage.getUser(loan.userId);
         const book = await storage.getBook(loan.bookId);
-        const persistentFines = await storage.getFinesByLoan(loan.id);
-        const totalFineAmount = persistentFines.reduce((sum, f) => sum + parseFloat(f.amount), 0);
-
-        let fineAmount: number | undefined = totalFineAmount;
+        const loanFines = await storage.getFinesByLoan(loan.id);
+        const fineAmount = loanFines.reduce((sum, f) => sum + parseFloat(f.amount), 0);
 
-        // Dynamic calculation if no persistent fine exists and loan is active + overdue
-        if (!fineAmount && loan.status === "active" && new Date(loan.dueDate) < new Date()) {
-          const dynamicFine = await calculateRemainingFine(loan.id, new Date(loan.dueDate), new Date());
-          fineAmount = dynamicFine.amount;
-        }
+        const copy = loan.copyId ? await storage.getBookCopy(loan.copyId) : undefined;
 
         return {
           ...loan,
@@ -642,6 +1116,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           userEmail: user?.email || "",
           userType: user?.userType || "student",
           bookTitle: book?.title || "Desconhecido",
+          copyBarcode: copy?.barcode || null,
           fine: fineAmount
         };
       }));
@@ -653,7 +1128,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Specific route for user loans (to match frontend query keys)
-  app.get("/api/loans/user/:userId", async (req, res) => {
+  app.get("/api/loans/user/:userId", authorize(ALL_ROLES, { owner: (req) => req.params.userId }), async (req, res) => {
     try {
       const userId = req.params.userId;
       // Note: userId is a UUID string, do not parse as int
@@ -661,16 +1136,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const loansWithDetails = await Promise.all(loans.map(async (loan) => {
         const book = await storage.getBook(loan.bookId);
-        const persistentFines = await storage.getFinesByLoan(loan.id);
-        const totalFineAmount = persistentFines.reduce((sum, f) => sum + parseFloat(f.amount), 0);
-
-        let fineAmount: number | undefined = totalFineAmount;
-
-        // Dynamic calculation if no persistent fine exists and loan is active + overdue
-        if (!fineAmount && (loan.status === "active" || loan.status === "overdue") && new Date(loan.dueDate) < new Date()) {
-          const dynamicFine = await calculateRemainingFine(loan.id, new Date(loan.dueDate), new Date());
-          fineAmount = dynamicFine.amount;
-        }
+        const loanFines = await storage.getFinesByLoan(loan.id);
+        const fineAmount = loanFines.reduce((sum, f) => sum + parseFloat(f.amount), 0);
 
         return {
           ...loan,
@@ -685,7 +1152,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/loans/check-eligibility", async (req, res) => {
+  app.get("/api/loans/check-eligibility", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       const { userId, bookId } = req.query;
       if (!userId || !bookId) {
@@ -699,11 +1166,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/loans", async (req, res) => {
+  app.post("/api/loans", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       // Use a schema that doesn't require dueDate for parsing the request body
-      const apiInsertLoanSchema = insertLoanSchema.omit({ dueDate: true });
+      const apiInsertLoanSchema = insertLoanSchema.omit({ dueDate: true, copyId: true });
       const { userId, bookId } = apiInsertLoanSchema.parse(req.body);
+      const barcode = typeof req.body.barcode === "string" ? req.body.barcode.trim() : undefined;
       const user = await storage.getUser(userId);
       const book = await storage.getBook(bookId);
 
@@ -717,29 +1185,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: eligibility.reason });
       }
 
-      // Calculate due date
-      const dueDate = calculateDueDate(user.userType, book.tag);
-
-      // Create loan
-      const loan = await storage.createLoan({
-        userId,
-        bookId,
-        dueDate,
-      });
-
-      // Update book availability
-      await storage.updateBook(bookId, {
-        availableCopies: book.availableCopies - 1,
-      });
-
-      // Remove any existing reservation for this user and book
-      await storage.deleteReservationByUserAndBook(userId, bookId);
-
-      // Send email confirmation
-      try {
-        await sendLoanConfirmation(user, book, dueDate);
-      } catch (emailError) {
-        console.error("Failed to send loan confirmation email:", emailError);
+      const { loan, reason } = await performCheckout(user, book, barcode || undefined);
+      if (!loan) {
+        return res.status(400).json({ message: reason });
       }
 
       res.status(201).json(loan);
@@ -754,7 +1202,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Return book
-  app.post("/api/loans/:id/return", async (req, res) => {
+  app.post("/api/loans/:id/return", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       const loan = await storage.getLoan(req.params.id);
       if (!loan) {
@@ -765,77 +1213,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Empréstimo já foi devolvido" });
       }
 
-      const returnDate = new Date();
-      const dueDate = new Date(loan.dueDate);
-
-      // Calculate fine if overdue
-      const fineInfo = await calculateRemainingFine(loan.id, dueDate, returnDate);
-
-      // Update loan
-      await storage.updateLoan(loan.id, {
-        status: "returned",
-        returnDate,
-      });
-
-      // Create fine if overdue
-      if (fineInfo.amount > 0) {
-        await storage.createFine({
-          loanId: loan.id,
-          userId: loan.userId,
-          amount: fineInfo.amount.toString(),
-          daysOverdue: fineInfo.daysOverdue,
-          status: "pending",
-          paymentDate: null,
-        });
-      }
-
-      // Update book availability
-      const book = await storage.getBook(loan.bookId);
-      if (book) {
-        await storage.updateBook(loan.bookId, {
-          availableCopies: book.availableCopies + 1,
-        });
-
-        // Check for pending reservations
-        const reservations = await storage.getReservationsByBook(loan.bookId);
-        const pendingReservations = reservations.filter(r => r.status === "pending");
-
-        if (pendingReservations.length > 0) {
-          // Enrich with user details for priority sorting
-          const enrichedReservations = await Promise.all(pendingReservations.map(async (r) => {
-            const user = await storage.getUser(r.userId);
-            return { ...r, userType: user?.userType || "student" };
-          }));
-
-          // Sort: Teachers (priority) -> then by Date
-          enrichedReservations.sort((a, b) => {
-            if (a.userType === "teacher" && b.userType !== "teacher") return -1;
-            if (a.userType !== "teacher" && b.userType === "teacher") return 1;
-            return new Date(a.reservationDate).getTime() - new Date(b.reservationDate).getTime();
-          });
-
-          const nextReservation = enrichedReservations[0];
-          const expirationDate = new Date();
-          expirationDate.setHours(expirationDate.getHours() + RESERVATION_PICKUP_HOURS);
-
-          await storage.updateReservation(nextReservation.id, {
-            status: "notified",
-            notificationDate: new Date(),
-            expirationDate,
-          });
-
-          // Waitlist SMS notification removed
-        }
-      }
+      const fineInfo = await performReturn(loan);
 
       res.json({ message: "Livro devolvido com sucesso", fine: fineInfo.amount });
-    } catch (error) {
-      res.status(500).json({ message: "Erro ao devolver livro" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Erro ao devolver livro" });
     }
   });
 
   // Renew loan
-  app.post("/api/loans/:id/renew", async (req, res) => {
+  app.post("/api/loans/:id/renew", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       const loan = await storage.getLoan(req.params.id);
       if (!loan) {
@@ -846,26 +1233,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Apenas empréstimos ativos podem ser renovados" });
       }
 
-      if (loan.renewalCount >= MAX_RENEWALS) {
-        return res.status(400).json({ message: `Limite de ${MAX_RENEWALS} renovações atingido` });
+      const { maxRenewals } = await getLoanRuleForLoan(loan);
+      if (loan.renewalCount >= maxRenewals) {
+        return res.status(400).json({ message: `Limite de ${maxRenewals} renovações atingido` });
       }
 
-      // Check for pending reservations from OTHER users
-      const reservations = await storage.getReservationsByBook(loan.bookId);
-      const hasPendingReservations = reservations.some(r =>
-        (r.status === "pending" || r.status === "notified") && r.userId !== loan.userId
+      // Check for holds from OTHER users waiting on a copy of this book
+      const bookHolds = await storage.getHoldsByBook(loan.bookId);
+      const hasPendingReservations = bookHolds.some(h =>
+        (h.status === "approved" || h.status === "waiting" || h.status === "ready_for_pickup") && h.userId !== loan.userId
       );
 
       if (hasPendingReservations) {
         return res.status(400).json({ message: "Não é possível renovar. Existem reservas pendentes para este livro." });
       }
 
-      // Check for unpaid fines - only block if total is >= 2000 Kz
-      const totalFines = await getUserTotalFines(loan.userId);
-      if (totalFines >= MAX_FINE_FOR_LOAN) {
-        return res.status(400).json({ message: `O utilizador tem multas acumuladas de ${totalFines} Kz. Pague para liberar renovações.` });
-      }
-
       // Calculate new due date
       const user = await storage.getUser(loan.userId);
       const book = await storage.getBook(loan.bookId);
@@ -874,7 +1256,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Utilizador ou livro não encontrado" });
       }
 
-      const newDueDate = calculateDueDate(user.userType, book.tag, new Date(loan.dueDate));
+      const blockReason = await describeActiveBlocks(loan.userId);
+      if (blockReason) {
+        return res.status(400).json({ message: `${blockReason}. Não é possível renovar.` });
+      }
+
+      const newDueDate = await calculateDueDate(user.userType, book, new Date(loan.dueDate));
 
       await storage.updateLoan(loan.id, {
         dueDate: newDueDate,
@@ -887,311 +1274,590 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Reservation routes
-  app.get("/api/reservations", async (req, res) => {
+  // Circulation desk routes
+  app.get("/api/circulation/patron/:code", authorize(ADMIN_ONLY), async (req, res) => {
     try {
-      const { userId, bookId } = req.query;
-      let reservations;
+      const user = await findUserByCardNumber(req.params.code);
+      if (!user) {
+        return res.status(404).json({ message: "Cartão não reconhecido" });
+      }
+
+      const userLoans = await storage.getLoansByUser(user.id);
+      const activeLoans = await Promise.all(
+        userLoans
+          .filter(l => l.status === "active" || l.status === "overdue")
+          .map(async (loan) => {
+            const book = await storage.getBook(loan.bookId);
+            const copy = loan.copyId ? await storage.getBookCopy(loan.copyId) : undefined;
+            return { ...loan, bookTitle: book?.title || "Desconhecido", copyBarcode: copy?.barcode || null };
+          })
+      );
+
+      const limits = await getBorrowerLimits(user.userType);
+      const totalFines = await storage.getUserFineBalance(user.id);
+
+      res.json({
+        user: toPublicUser(user),
+        activeLoans,
+        blockReason: await describeActiveBlocks(user.id) ?? null,
+        totalFines,
+        maxBooks: limits.maxBooks,
+        maxFineAmount: limits.maxFineAmount,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao identificar utilizador" });
+    }
+  });
+
+  // A scanned copy that is out is checked in; otherwise it is lent to the current patron
+  app.post("/api/circulation/scan", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const barcode = typeof req.body.barcode === "string" ? req.body.barcode.trim() : "";
+      const patronId = typeof req.body.patronId === "string" ? req.body.patronId : undefined;
+      if (!barcode) {
+        return res.status(400).json({ message: "Código de barras em falta" });
+      }
+
+      const copy = await storage.getBookCopyByBarcode(barcode);
+      if (!copy) {
+        return res.status(404).json({ message: `Código de barras ${barcode} desconhecido` });
+      }
+
+      const book = await storage.getBook(copy.bookId);
+      if (!book) {
+        return res.status(404).json({ message: "Livro não encontrado" });
+      }
+
+      if (copy.status === "on_loan") {
+        const copyLoans = await storage.getLoansByCopy(copy.id);
+        const loan = copyLoans.find(l => l.status !== "returned");
+        if (!loan) {
+          return res.status(409).json({ message: "O exemplar consta como emprestado mas não tem empréstimo ativo" });
+        }
+
+        const fineInfo = await performReturn(loan);
+        const borrower = await storage.getUser(loan.userId);
+        return res.json({
+          action: "checkin",
+          message: fineInfo.amount > 0
+            ? `Devolvido com ${fineInfo.daysOverdue} dia(s) de atraso: multa de ${fineInfo.amount} Kz`
+            : "Devolvido dentro do prazo",
+          loanId: loan.id,
+          bookTitle: book.title,
+          barcode: copy.barcode,
+          userName: borrower?.name || "Desconhecido",
+          fine: fineInfo.amount,
+        });
+      }
 
-      let reservationsList;
+      if (!patronId) {
+        return res.status(400).json({ message: "Leia primeiro o cartão do utilizador para emprestar este exemplar" });
+      }
+
+      const user = await storage.getUser(patronId);
+      if (!user) {
+        return res.status(404).json({ message: "Utilizador não encontrado" });
+      }
+
+      const eligibility = await canUserLoan(user.id, book.id);
+      if (!eligibility.canLoan) {
+        return res.status(400).json({ message: eligibility.reason });
+      }
+
+      const { loan, reason } = await performCheckout(user, book, copy.barcode);
+      if (!loan) {
+        return res.status(400).json({ message: reason });
+      }
+
+      res.status(201).json({
+        action: "checkout",
+        message: `Emprestado até ${loan.dueDate.toLocaleDateString("pt-PT")}`,
+        loanId: loan.id,
+        bookTitle: book.title,
+        barcode: copy.barcode,
+        userName: user.name,
+        dueDate: loan.dueDate,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Erro ao processar leitura" });
+    }
+  });
+
+  // Hold routes: loan requests and the waiting list are both holds
+  app.get("/api/holds", authorize(ALL_ROLES, { owner: (req) => req.query.userId as string | undefined }), async (req, res) => {
+    try {
+      const { userId, bookId, status } = req.query;
+      let holds;
 
       if (userId && typeof userId === "string") {
-        reservationsList = await storage.getReservationsByUser(userId);
+        holds = await storage.getHoldsByUser(userId);
       } else if (bookId && typeof bookId === "string") {
-        reservationsList = await storage.getReservationsByBook(bookId);
+        holds = await storage.getHoldsByBook(bookId);
       } else {
-        reservationsList = await storage.getAllReservations();
+        holds = await storage.getAllHolds();
       }
 
-      const reservationsWithDetails = await Promise.all(reservationsList.map(async (resItem: any) => {
-        const user = await storage.getUser(resItem.userId);
-        const book = await storage.getBook(resItem.bookId);
+      // status=open selects every hold still claiming a copy or a place in the queue
+      if (status === "open") {
+        holds = holds.filter(h => openHoldStatuses.includes(h.status));
+      } else if (status && typeof status === "string") {
+        holds = holds.filter(h => h.status === status);
+      }
+
+      const holdsWithDetails = await Promise.all(holds.map(async (hold) => {
+        const user = await storage.getUser(hold.userId);
+        const book = await storage.getBook(hold.bookId);
+        const copy = hold.copyId ? await storage.getBookCopy(hold.copyId) : undefined;
+        const reviewer = hold.reviewedBy ? await storage.getUser(hold.reviewedBy) : undefined;
         return {
-          ...resItem,
+          ...hold,
           userName: user?.name || "Desconhecido",
           userEmail: user?.email || "",
           userType: user?.userType || "student",
-          bookTitle: book?.title || "Desconhecido"
+          userNoShows: await getNoShowCount(hold.userId),
+          bookTitle: book?.title || "Desconhecido",
+          bookAuthor: book?.author || "",
+          bookIsbn: book?.isbn || null,
+          copyBarcode: copy?.barcode || null,
+          reviewerName: reviewer?.name || null,
         };
       }));
 
-      // Sort consistently: Notified first -> Teachers -> then Date
-      reservationsWithDetails.sort((a: any, b: any) => {
-        if (a.status !== b.status) {
-          if (a.status === "notified") return -1;
-          if (b.status === "notified") return 1;
-        }
-        if (a.userType === "teacher" && b.userType !== "teacher") return -1;
-        if (a.userType !== "teacher" && b.userType === "teacher") return 1;
-        return new Date(a.reservationDate).getTime() - new Date(b.reservationDate).getTime();
-      });
+      // Sort consistently: ready for pickup -> requests -> waiting list, teachers first, then date
+      holdsWithDetails.sort(compareHolds);
 
-      res.json(reservationsWithDetails);
+      res.json(holdsWithDetails);
     } catch (error) {
       res.status(500).json({ message: "Erro ao buscar reservas" });
     }
   });
 
-  app.post("/api/reservations", async (req, res) => {
+  app.post("/api/holds", authorize(ALL_ROLES, { owner: (req) => req.body.userId }), async (req, res) => {
     try {
       const { userId, bookId } = req.body;
-      console.log(`[Reservation] Attempting to create reservation for User ${userId} and Book ${bookId}`);
+      const hold = await placeHold(userId, bookId);
+      res.status(201).json(hold);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Erro ao criar reserva" });
+    }
+  });
 
-      // 1. Check reservation limit - only count pending and notified
-      const userReservations = await storage.getReservationsByUser(userId);
-      const activeReservations = userReservations.filter(r =>
-        r.status === "pending" || r.status === "notified"
-      );
+  app.post("/api/holds/:id/approve", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const hold = await storage.getHold(req.params.id);
+      if (!hold) {
+        return res.status(404).json({ message: "Reserva não encontrada" });
+      }
+      res.json(await approveHold(hold, req.user!.id));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Erro ao aprovar solicitação" });
+    }
+  });
 
-      if (activeReservations.length >= MAX_RESERVATIONS_PER_USER) {
-        return res.status(400).json({ message: `Limite de ${MAX_RESERVATIONS_PER_USER} reservas simultâneas atingido` });
+  app.post("/api/holds/:id/reject", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const hold = await storage.getHold(req.params.id);
+      if (!hold) {
+        return res.status(404).json({ message: "Reserva não encontrada" });
       }
+      res.json(await rejectHold(hold, req.user!.id, req.body.notes || null));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Erro ao rejeitar solicitação" });
+    }
+  });
 
-      // 2. Check if book exists
-      const book = await storage.getBook(bookId);
-      if (!book) {
-        return res.status(404).json({ message: "Livro não encontrado" });
+  app.post("/api/holds/:id/cancel", authorize(ALL_ROLES, { owner: holdOwner }), async (req, res) => {
+    try {
+      const hold = await storage.getHold(req.params.id);
+      if (!hold) {
+        return res.status(404).json({ message: "Reserva não encontrada" });
       }
+      res.json(await cancelHold(hold));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Erro ao cancelar reserva" });
+    }
+  });
 
-      if (book.tag === "red") {
-        return res.status(400).json({ message: "Este livro não permite reservas (apenas consulta local)" });
+  // Lends the book of a hold at the desk; the loan fulfils the hold
+  app.post("/api/holds/:id/checkout", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const hold = await storage.getHold(req.params.id);
+      if (!hold) {
+        return res.status(404).json({ message: "Reserva não encontrada" });
+      }
+      if (!openHoldStatuses.includes(hold.status)) {
+        return res.status(400).json({ message: "Esta reserva já não está ativa" });
       }
 
-      // 3. ROBUST CHECK: Prevent Hoarding (User already has this book loaned?)
-      // Fetch active loans
-      const userLoans = await storage.getLoansByUser(userId);
-      const activeLoans = userLoans.filter(l => l.status === "active" || l.status === "overdue");
+      const user = await storage.getUser(hold.userId);
+      const book = await storage.getBook(hold.bookId);
+      if (!user || !book) {
+        return res.status(404).json({ message: "Utilizador ou livro não encontrado" });
+      }
 
-      for (const loan of activeLoans) {
-        const loanBook = await storage.getBook(loan.bookId);
-        if (loanBook && normalizeString(loanBook.title) === normalizeString(book.title)) {
-          console.log(`[Reservation] Blocked: User already has active loan for '${loanBook.title}' (Loan ID: ${loan.id})`);
-          return res.status(400).json({
-            message: `Você já possui um exemplar do livro '${book.title}' emprestado.`
-          });
-        }
+      const eligibility = await canUserLoan(user.id, book.id);
+      if (!eligibility.canLoan) {
+        return res.status(400).json({ message: eligibility.reason });
+      }
+
+      const { loan, reason } = await performCheckout(user, book, req.body.barcode);
+      if (!loan) {
+        return res.status(400).json({ message: reason });
+      }
+      res.status(201).json(loan);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Erro ao criar empréstimo" });
+    }
+  });
+
+  // Fine routes: amounts owed come from the fine ledger, charged nightly by the cron job
+  const enrichFines = async (fines: Fine[]) => {
+    const balances = await storage.getFineBalances();
+    return Promise.all(fines.filter(f => parseFloat(f.amount) > 0).map(async (fine) => {
+      const user = await storage.getUser(fine.userId);
+      return {
+        ...fine,
+        balance: balances.get(fine.id) ?? 0,
+        userName: user?.name || "Desconhecido",
+        userEmail: user?.email || "",
+        userType: user?.userType
+      };
+    }));
+  };
+
+  app.get("/api/fines", authorize(ALL_ROLES, { owner: (req) => req.query.userId as string | undefined }), async (req, res) => {
+    try {
+      const { userId } = req.query;
+      const fines = userId && typeof userId === "string"
+        ? await storage.getFinesByUser(userId)
+        : await storage.getAllFines();
+
+      res.json(await enrichFines(fines));
+    } catch (error) {
+      console.error("Error in GET /api/fines:", error);
+      res.status(500).json({ message: "Erro ao buscar multas" });
+    }
+  });
+
+  // Specific route for user fines (to match frontend query keys)
+  app.get("/api/fines/user/:userId", authorize(ALL_ROLES, { owner: (req) => req.params.userId }), async (req, res) => {
+    try {
+      const fines = await storage.getFinesByUser(req.params.userId);
+      res.json(await enrichFines(fines));
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar multas do usuário" });
+    }
+  });
+
+  app.get("/api/fines/:id/transactions", authorize(ALL_ROLES, { owner: fineOwner }), async (req, res) => {
+    try {
+      const fine = await storage.getFine(req.params.id);
+      if (!fine) {
+        return res.status(404).json({ message: "Multa não encontrada" });
       }
 
-      // 4. ROBUST CHECK: Prevent Duplicate Reservations (User already reserved this title?)
-      // Check active reservations (pending/notified) for SAME TITLE (not just same ID)
-      for (const resv of activeReservations) {
-        const resBook = await storage.getBook(resv.bookId);
-        if (resBook && normalizeString(resBook.title) === normalizeString(book.title)) {
-          console.log(`[Reservation] Blocked: User already has pending reservation for '${resBook.title}' (Res ID: ${resv.id})`);
+      const transactions = await storage.getFineTransactions(fine.id);
+      const enriched = await Promise.all(transactions.map(async (t) => {
+        const recorder = t.recordedBy ? await storage.getUser(t.recordedBy) : undefined;
+        return { ...t, recordedByName: recorder?.name || null };
+      }));
 
-          const statusMessage = resv.status === "notified"
-            ? "Você já tem uma reserva disponível para levantamento para este livro."
-            : "Você já está na lista de espera para este livro.";
+      res.json({ fine, balance: await storage.getFineBalance(fine.id), transactions: enriched });
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar movimentos da multa" });
+    }
+  });
 
-          return res.status(400).json({
-            message: statusMessage
-          });
-        }
+  // Partial payments are allowed; without an amount the whole balance is paid. The
+  // logged-in admin is recorded as the cashier and every payment gets a receipt number.
+  app.post("/api/fines/:id/pay", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const { amount, reason, paymentMethod, paymentReference } = z.object({
+        amount: z.coerce.number().positive("O valor deve ser positivo").optional(),
+        reason: z.string().trim().optional(),
+        paymentMethod: z.enum(paymentMethodEnum.enumValues).default("cash"),
+        paymentReference: z.string().trim().optional(),
+      }).refine(p => p.paymentMethod === "cash" || !!p.paymentReference, {
+        message: "Indique a referência do pagamento",
+        path: ["paymentReference"],
+      }).parse(req.body ?? {});
+
+      const fine = await storage.getFine(req.params.id);
+      if (!fine) {
+        return res.status(404).json({ message: "Multa não encontrada" });
       }
 
-      // 5. Create Reservation
-      const reservation = await storage.createReservation({
-        userId,
-        bookId,
-      });
-
-      console.log(`[Reservation] Success: Created reservation ${reservation.id}`);
+      const balance = await storage.getFineBalance(fine.id);
+      if (balance <= 0) {
+        return res.status(400).json({ message: "Multa já foi paga" });
+      }
 
-      // Reservation SMS notification removed
+      const transaction = await storage.postFineTransaction({
+        fineId: fine.id,
+        userId: fine.userId,
+        type: "payment",
+        amount: (-(amount ?? balance)).toFixed(2),
+        reason: reason || null,
+        recordedBy: req.user!.id,
+        paymentMethod,
+        paymentReference: paymentReference || null,
+      });
+      const remaining = await storage.getFineBalance(fine.id);
+      const receipt = formatReceiptNumber(transaction.receiptNumber!);
+      await recalculateUserBlocks(fine.userId);
 
-      res.status(201).json(reservation);
+      res.json({
+        message: remaining > 0
+          ? `Pagamento registado (${receipt}). Saldo em dívida: ${remaining.toFixed(2)} Kz`
+          : `Multa paga com sucesso (${receipt})`,
+        transaction,
+        receiptNumber: transaction.receiptNumber,
+        balance: remaining
+      });
     } catch (error: any) {
-      console.error("[Reservation] Error:", error);
-      res.status(400).json({ message: error.message || "Erro ao criar reserva" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(400).json({ message: error.message || "Erro ao pagar multa" });
     }
   });
 
-  app.patch("/api/reservations/:id", async (req, res) => {
+  app.get("/api/fines/receipts/:number", authorize(ALL_ROLES, {
+    owner: async (req) => (await storage.getFinePaymentByReceipt(parseInt(req.params.number, 10)))?.userId,
+  }), async (req, res) => {
     try {
-      const reservation = await storage.updateReservation(req.params.id, req.body);
-      if (!reservation) {
-        return res.status(404).json({ message: "Reserva não encontrada" });
+      const payment = await storage.getFinePaymentByReceipt(parseInt(req.params.number, 10));
+      if (!payment) {
+        return res.status(404).json({ message: "Recibo não encontrado" });
       }
-      res.json(reservation);
+      res.json(await buildFineReceipt(payment));
     } catch (error) {
-      res.status(500).json({ message: "Erro ao atualizar reserva" });
+      res.status(500).json({ message: "Erro ao buscar recibo" });
     }
   });
 
-  app.delete("/api/reservations/user/:userId/book/:bookId", async (req, res) => {
+  // Daily cash close: payments of the day per cashier and method (defaults to today)
+  app.get("/api/fines/cash-close", authorize(ADMIN_ONLY), async (req, res) => {
     try {
-      const { userId, bookId } = req.params;
-      const success = await storage.deleteReservationByUserAndBook(userId, bookId);
-      if (!success) {
-        return res.status(404).json({ message: "Nenhuma reserva ativa encontrada para este livro" });
+      const { date } = req.query;
+      let day = new Date();
+      if (typeof date === "string" && date) {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+          return res.status(400).json({ message: "Use o formato AAAA-MM-DD" });
+        }
+        day = new Date(`${date}T00:00:00`);
       }
-      res.json({ message: "Reserva cancelada com sucesso" });
+      res.json(await buildCashClose(day));
     } catch (error) {
-      res.status(500).json({ message: "Erro ao cancelar reserva" });
+      res.status(500).json({ message: "Erro ao gerar fecho de caixa" });
     }
   });
 
-  // Fine routes
-  app.get("/api/fines", async (req, res) => {
+  // Waivers forgive part or all of the balance; adjustments correct the amount charged
+  // in either direction. Both need a reason for the record.
+  app.post("/api/fines/:id/waive", authorize(ADMIN_ONLY), async (req, res) => {
     try {
-      const { userId } = req.query;
-      let persistentFines;
+      const { amount, reason } = z.object({
+        amount: z.coerce.number().positive("O valor deve ser positivo").optional(),
+        reason: z.string({ required_error: "Indique o motivo do perdão" }).trim().min(1, "Indique o motivo do perdão"),
+      }).parse(req.body ?? {});
 
-      if (userId && typeof userId === "string") {
-        persistentFines = await storage.getFinesByUser(userId);
-      } else {
-        persistentFines = await storage.getAllFines();
+      const fine = await storage.getFine(req.params.id);
+      if (!fine) {
+        return res.status(404).json({ message: "Multa não encontrada" });
       }
 
-      // Calculate dynamic fines for active overdue loans
-      let activeOverdueLoans;
-      if (userId && typeof userId === "string") {
-        const userLoans = await storage.getLoansByUser(userId);
-        activeOverdueLoans = userLoans.filter(l => l.status === "active" && new Date(l.dueDate) < new Date());
-      } else {
-        activeOverdueLoans = await storage.getOverdueLoans();
+      const balance = await storage.getFineBalance(fine.id);
+      if (balance <= 0) {
+        return res.status(400).json({ message: "Não há saldo em dívida nesta multa" });
       }
 
-      const virtualFines = await Promise.all(activeOverdueLoans.map(async (loan) => {
-        const fineInfo = await calculateRemainingFine(loan.id, new Date(loan.dueDate), new Date());
-        const user = await storage.getUser(loan.userId);
-        return {
-          id: `virtual-${loan.id}`,
-          loanId: loan.id,
-          userId: loan.userId,
-          userName: user?.name || "Desconhecido",
-          userEmail: user?.email || "",
-          amount: fineInfo.amount.toString(),
-          daysOverdue: fineInfo.daysOverdue,
-          status: "pending", // Virtual fines are always pending
-          paymentDate: null,
-          createdAt: loan.createdAt,
-          isVirtual: true // Flag to identify these are not in DB yet
-        };
-      }));
+      const transaction = await storage.postFineTransaction({
+        fineId: fine.id,
+        userId: fine.userId,
+        type: "waiver",
+        amount: (-(amount ?? balance)).toFixed(2),
+        reason,
+        recordedBy: req.user!.id,
+      });
+      await recalculateUserBlocks(fine.userId);
+
+      res.json({ message: "Perdão registado", transaction, balance: await storage.getFineBalance(fine.id) });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(400).json({ message: error.message || "Erro ao perdoar multa" });
+    }
+  });
+
+  app.post("/api/fines/:id/adjust", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const { amount, reason } = z.object({
+        amount: z.coerce.number().refine(n => n !== 0, "O valor não pode ser zero"),
+        reason: z.string({ required_error: "Indique o motivo do ajuste" }).trim().min(1, "Indique o motivo do ajuste"),
+      }).parse(req.body ?? {});
+
+      const fine = await storage.getFine(req.params.id);
+      if (!fine) {
+        return res.status(404).json({ message: "Multa não encontrada" });
+      }
+
+      const transaction = await storage.postFineTransaction({
+        fineId: fine.id,
+        userId: fine.userId,
+        type: "adjustment",
+        amount: amount.toFixed(2),
+        reason,
+        recordedBy: req.user!.id,
+      });
+      await recalculateUserBlocks(fine.userId);
+
+      res.json({ message: "Ajuste registado", transaction, balance: await storage.getFineBalance(fine.id) });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(400).json({ message: error.message || "Erro ao ajustar multa" });
+    }
+  });
 
-      // Enrich persistent fines with user details
-      const enrichedPersistentFines = await Promise.all(persistentFines.map(async (fine) => {
-        const user = await storage.getUser(fine.userId);
+  // Fine disputes: the patron contests a fine, an admin waives all, part or none of it
+  app.get("/api/fine-disputes", authorize(ALL_ROLES, { owner: (req) => req.query.userId as string | undefined }), async (req, res) => {
+    try {
+      const { userId, status } = req.query;
+      let disputes = userId && typeof userId === "string"
+        ? await storage.getFineDisputesByUser(userId)
+        : await storage.getAllFineDisputes();
+      if (status && typeof status === "string") {
+        disputes = disputes.filter(d => d.status === status);
+      }
+
+      const enriched = await Promise.all(disputes.map(async (dispute) => {
+        const user = await storage.getUser(dispute.userId);
+        const fine = await storage.getFine(dispute.fineId);
+        const loan = fine ? await storage.getLoan(fine.loanId) : undefined;
+        const book = loan ? await storage.getBook(loan.bookId) : undefined;
         return {
-          ...fine,
+          ...dispute,
           userName: user?.name || "Desconhecido",
-          userEmail: user?.email || ""
+          userEmail: user?.email || "",
+          bookTitle: book?.title || "Desconhecido",
+          fineAmount: fine?.amount ?? "0",
+          fineBalance: fine ? await storage.getFineBalance(fine.id) : 0,
         };
       }));
 
-      // Combine both and filter out virtual fines with 0 amount
-      const allFines = [...enrichedPersistentFines, ...virtualFines].filter(f => parseFloat(f.amount) > 0);
-      res.json(allFines);
+      res.json(enriched);
     } catch (error) {
-      console.error("Error in GET /api/fines:", error);
-      res.status(500).json({ message: "Erro ao buscar multas" });
+      res.status(500).json({ message: "Erro ao buscar contestações" });
     }
   });
 
-  // Specific route for user fines (to match frontend query keys)
-  app.get("/api/fines/user/:userId", async (req, res) => {
+  app.post("/api/fines/:id/disputes", authorize(ALL_ROLES, { owner: fineOwner }), async (req, res) => {
     try {
-      const userId = req.params.userId;
-      // Note: userId is a UUID string, do not parse as int
-      const fines = await storage.getFinesByUser(userId);
-      const user = await storage.getUser(userId);
-
-      const enrichedFines = fines.map(f => ({
-        ...f,
-        userName: user?.name || "Desconhecido",
-        userEmail: user?.email || ""
-      }));
+      const { reason } = insertFineDisputeSchema.pick({ reason: true }).parse(req.body);
+      const fine = await storage.getFine(req.params.id);
+      if (!fine) {
+        return res.status(404).json({ message: "Multa não encontrada" });
+      }
 
-      res.json(enrichedFines);
-    } catch (error) {
-      res.status(500).json({ message: "Erro ao buscar multas do usuário" });
+      const dispute = await storage.createFineDispute({ fineId: fine.id, userId: fine.userId, reason });
+      res.status(201).json(dispute);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(400).json({ message: error.message || "Erro ao contestar multa" });
     }
   });
 
-  app.post("/api/fines/:id/pay", async (req, res) => {
+  const notifyFineDisputeDecision = async (disputeId: string) => {
     try {
-      const id = req.params.id;
-
-      if (id.startsWith("virtual-")) {
-        const loanId = id.replace("virtual-", "");
-        const loan = await storage.getLoan(loanId);
-        if (!loan) {
-          return res.status(404).json({ message: "Empréstimo associado à multa virtual não encontrado" });
-        }
-
-        const fineInfo = await calculateRemainingFine(loan.id, new Date(loan.dueDate), new Date());
-        if (fineInfo.amount <= 0) {
-          return res.status(400).json({ message: "Não há multa pendente para este empréstimo" });
-        }
-
-        await storage.createFine({
-          loanId: loan.id,
-          userId: loan.userId,
-          amount: fineInfo.amount.toString(),
-          daysOverdue: fineInfo.daysOverdue,
-          status: "paid",
-          paymentDate: new Date(),
-        });
-
-        return res.json({ message: "Multa paga com sucesso" });
-      }
+      const dispute = await storage.getFineDispute(disputeId);
+      const fine = dispute ? await storage.getFine(dispute.fineId) : undefined;
+      const user = dispute ? await storage.getUser(dispute.userId) : undefined;
+      if (!dispute || !fine || !user) return;
+
+      const loan = await storage.getLoan(fine.loanId);
+      const book = loan ? await storage.getBook(loan.bookId) : undefined;
+      const approved = dispute.status === "approved";
+      const balance = await storage.getFineBalance(fine.id);
+      await notify(user, {
+        type: "fine_dispute",
+        title: approved ? "Contestação de multa aceite" : "Contestação de multa recusada",
+        message: `Multa de "${book?.title || "empréstimo"}": saldo em dívida de ${balance} Kz.${dispute.notes ? ` Motivo: ${dispute.notes}` : ""}`,
+        email: () => sendFineDisputeDecision(user, book, approved, parseFloat(dispute.waivedAmount ?? "0"), balance, dispute.notes),
+      });
+    } catch (error) {
+      console.error("Failed to notify fine dispute decision:", error);
+    }
+  };
 
-      const fine = await storage.getFine(id);
-      if (!fine) {
-        return res.status(404).json({ message: "Multa não encontrada" });
-      }
+  // Approving waives the whole balance unless a smaller amount is given
+  app.post("/api/fine-disputes/:id/approve", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const { amount, notes } = z.object({
+        amount: z.coerce.number().positive("O valor deve ser positivo").optional(),
+        notes: z.string({ required_error: "Indique o motivo do perdão" }).trim().min(1, "Indique o motivo do perdão"),
+      }).parse(req.body ?? {});
+
+      const dispute = await storage.decideFineDispute(req.params.id, {
+        approved: true,
+        waivedAmount: amount,
+        notes,
+        reviewedBy: req.user!.id,
+      });
+      await recalculateUserBlocks(dispute.userId);
+      await notifyFineDisputeDecision(dispute.id);
 
-      if (fine.status === "paid") {
-        return res.status(400).json({ message: "Multa já foi paga" });
+      res.json({ message: "Contestação aceite", dispute });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
       }
+      res.status(400).json({ message: error.message || "Erro ao aceitar contestação" });
+    }
+  });
 
-      await storage.updateFine(fine.id, {
-        status: "paid",
-        paymentDate: new Date(),
+  app.post("/api/fine-disputes/:id/reject", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const dispute = await storage.decideFineDispute(req.params.id, {
+        approved: false,
+        notes: typeof req.body?.notes === "string" && req.body.notes.trim() ? req.body.notes.trim() : null,
+        reviewedBy: req.user!.id,
       });
+      await notifyFineDisputeDecision(dispute.id);
 
-      res.json({ message: "Multa paga com sucesso" });
-    } catch (error) {
-      res.status(500).json({ message: "Erro ao pagar multa" });
+      res.json({ message: "Contestação recusada", dispute });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Erro ao recusar contestação" });
     }
   });
 
-  app.get("/api/dashboard/stats", async (req, res) => {
+  app.get("/api/dashboard/stats", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       const books = await storage.getAllBooks();
       const users = await storage.getAllUsers();
       const loans = await storage.getAllLoans();
       const fines = await storage.getAllFines();
+      const fineTransactions = await storage.getAllFineTransactions();
 
       const activeLoans = loans.filter(l => l.status === "active");
       const overdueLoans = await storage.getOverdueLoans();
 
-      const pendingFines = fines.filter(f => f.status === "pending");
-      const paidFines = fines.filter(f => f.status === "paid");
-
-      const persistentPendingAmount = pendingFines.reduce((sum, f) => sum + parseFloat(f.amount), 0);
-      const paidFinesAmount = paidFines.reduce((sum, f) => sum + parseFloat(f.amount), 0);
-
-      // Add dynamic fines for active overdue loans to the total pending amount
-      let dynamicPendingAmount = 0;
-      for (const loan of overdueLoans) {
-        const fineInfo = await calculateRemainingFine(loan.id, new Date(loan.dueDate), new Date());
-        if (fineInfo.amount > 0) {
-          dynamicPendingAmount += fineInfo.amount;
-        }
-      }
+      const fineBalances = await storage.getFineBalances();
+      const pendingFines = fines.filter(f => (fineBalances.get(f.id) ?? 0) > 0);
 
-      const totalFinesAmount = persistentPendingAmount + dynamicPendingAmount + paidFinesAmount;
-      const totalPendingAmount = persistentPendingAmount + dynamicPendingAmount;
+      const sumOf = (types: string[]) => fineTransactions
+        .filter(t => types.includes(t.type))
+        .reduce((sum, t) => sum + parseFloat(t.amount), 0);
+      const totalFinesAmount = sumOf(["accrual", "adjustment"]);
+      const paidFinesAmount = -sumOf(["payment"]);
+      const waivedFinesAmount = -sumOf(["waiver"]);
+      const totalPendingAmount = totalFinesAmount - paidFinesAmount - waivedFinesAmount;
 
-      // Assume blocked if they have fines > MAX (need to import constants or re-use logic, but simple check for now)
-      // Or just check if user status is explicitly blocked if we had that, but we calculate it dynamically usually.
-      // Let's count users with pending fines > 2000
-      const blockedUsers = await Promise.all(users.map(async u => {
-        const total = await getUserTotalFines(u.id);
-        return total >= 2000;
-      })).then(results => results.filter(b => b).length);
+      const blockedUsers = new Set((await storage.getActiveUserBlocks(new Date())).map(b => b.userId)).size;
 
       res.json({
         totalBooks: books.length,
@@ -1205,6 +1871,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         totalFinesAmount: totalFinesAmount,
         totalPendingAmount: totalPendingAmount,
         paidFinesAmount: paidFinesAmount,
+        waivedFinesAmount: waivedFinesAmount,
         blockedUsers: blockedUsers
       });
     } catch (error) {
@@ -1212,7 +1879,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/reports/categories", async (req, res) => {
+  app.get("/api/reports/categories", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       const loans = await storage.getAllLoans();
       const books = await storage.getAllBooks();
@@ -1244,7 +1911,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/books/ocr", async (req, res) => {
+  app.post("/api/books/ocr", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       const { image } = req.body;
       if (!image) {
@@ -1287,7 +1954,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/books/web-search", async (req, res) => {
+  app.post("/api/books/web-search", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       const { title } = req.body;
       if (!title) {
@@ -1356,7 +2023,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/books/magic-fill", async (req, res) => {
+  app.post("/api/books/magic-fill", authorize(ADMIN_ONLY), async (req, res) => {
     try {
       const { image, images, query, currentCategories = [] } = req.body;
       if (!image && !images && !query) {
@@ -1450,330 +2117,117 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 }
               ],
               temperature: 0.3,
-            });
-            candidate.description = completion.choices[0].message.content || candidate.description;
-          } catch (err) {
-            console.error(`Failed to generate description for ${candidate.title}:`, err);
-          }
-        }
-        return candidate;
-      }));
-
-      // Merge back with the rest of the candidates (if any)
-      const finalCandidates = [...enrichedCandidates, ...candidates.slice(3)];
-
-      res.json(finalCandidates);
-    } catch (error: any) {
-      console.error("Magic Fill Error:", error);
-      res.status(500).json({ message: "A varinha mágica falhou: " + error.message });
-    }
-  });
-
-  app.post("/api/books/suggest-category", async (req, res) => {
-    try {
-      const { book, categories = [] } = req.body;
-      if (!book || categories.length === 0) {
-        return res.status(400).json({ message: "Dados insuficientes para sugestão." });
-      }
-
-      const response = await groq.chat.completions.create({
-        model: "llama-3.3-70b-versatile",
-        messages: [
-          {
-            role: "system",
-            content: `Você é um bibliotecário especialista. Retorne APENAS o ID da categoria que melhor se adapta ao livro. 
-            Se não houver categoria exata, use o seu conhecimento para escolher a mais próxima pelo tema.
-            Opções: ${categories.map((c: any) => `"${c.name}" (ID: ${c.id})`).join(", ")}.`
-          },
-          {
-            role: "user",
-            content: `Livro: ${book.title} - ${book.author}. Descrição: ${book.description || "N/A"}`
-          }
-        ],
-        temperature: 0.1
-      });
-
-      const aiResponse = response.choices[0].message.content || "";
-      // Check if any valid ID is inside the response text
-      const matchedCategory = categories.find((c: any) => aiResponse.includes(c.id.toString()));
-      const categoryId = matchedCategory ? matchedCategory.id : null;
-
-      res.json({ categoryId });
-    } catch (error: any) {
-      res.status(500).json({ message: "Erro ao sugerir categoria: " + error.message });
-    }
-  });
-
-  // Reports
-  app.get("/api/reports/popular-books", async (req, res) => {
-    try {
-      const loans = await storage.getAllLoans();
-      const bookLoanCount = new Map<string, number>();
-
-      loans.forEach(loan => {
-        const count = bookLoanCount.get(loan.bookId) || 0;
-        bookLoanCount.set(loan.bookId, count + 1);
-      });
-
-      const sortedBooks = Array.from(bookLoanCount.entries())
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 10);
-
-      const popularBooks = await Promise.all(
-        sortedBooks.map(async ([bookId, count]) => {
-          const book = await storage.getBook(bookId);
-          return { book, loanCount: count };
-        })
-      );
-
-      res.json(popularBooks);
-    } catch (error) {
-      res.status(500).json({ message: "Erro ao gerar relatório" });
-    }
-  });
-
-  app.get("/api/reports/active-users", async (req, res) => {
-    try {
-      const loans = await storage.getAllLoans();
-      const userLoanCount = new Map<string, number>();
-
-      loans.forEach(loan => {
-        const count = userLoanCount.get(loan.userId) || 0;
-        userLoanCount.set(loan.userId, count + 1);
-      });
-
-      const sortedUsers = Array.from(userLoanCount.entries())
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 10);
-
-      const activeUsers = await Promise.all(
-        sortedUsers.map(async ([userId, count]) => {
-          const user = await storage.getUser(userId);
-          return { user, loanCount: count };
-        })
-      );
-
-      res.json(activeUsers);
-    } catch (error) {
-      res.status(500).json({ message: "Erro ao gerar relatório" });
-    }
-  });
-
-  // Loan Requests
-  app.get("/api/loan-requests", async (req, res) => {
-    try {
-      const { userId, status } = req.query;
-      let requests;
-
-      if (userId && typeof userId === "string") {
-        requests = await storage.getLoanRequestsByUser(userId);
-        // Apply status filter if provided
-        if (status && typeof status === "string") {
-          requests = requests.filter(r => r.status === status);
-        }
-      } else if (status && typeof status === "string") {
-        requests = await storage.getLoanRequestsByStatus(status);
-      } else {
-        requests = await storage.getAllLoanRequests();
-      }
-
-      const enrichedRequests = await Promise.all(requests.map(async (req) => {
-        const book = await storage.getBook(req.bookId);
-        return {
-          ...req,
-          bookTitle: book?.title,
-          bookAuthor: book?.author
-        };
-      }));
-
-      res.json(enrichedRequests);
-    } catch (error) {
-      res.status(500).json({ message: "Erro ao buscar solicitações" });
-    }
-  });
-
-  app.post("/api/loan-requests", async (req, res) => {
-    try {
-      const { userId, bookId } = req.body;
-
-      // 1. Validate User and Book existence
-      const user = await storage.getUser(userId);
-      const book = await storage.getBook(bookId);
-
-      if (!user) return res.status(404).json({ message: "Utilizador não encontrado" });
-      if (!book) return res.status(404).json({ message: "Livro não encontrado" });
-
-      if (book.tag === "red") {
-        return res.status(400).json({ message: "Este livro não pode ser solicitado (apenas consulta local)" });
-      }
-
-      // 2. Fetch User's current activity
-      const activeLoans = (await storage.getLoansByUser(userId)).filter(l => l.status === "active");
-      const pendingRequests = (await storage.getLoanRequestsByUser(userId)).filter(r => r.status === "pending");
-
-      const totalActive = activeLoans.length + pendingRequests.length;
-
-      // 3. Enforce Role Limits
-      let limit = 2; // Default for student and staff
-      if (user.userType === "teacher") {
-        limit = 4;
-      }
-
-      if (totalActive >= limit) {
-        return res.status(400).json({
-          message: `Limite de empréstimos atingido. Seu limite é de ${limit} livros (incluindo solicitações pendentes).`
-        });
-      }
-
-      // 4. Enforce Duplicate Title Prevention
-      // Check active loans
-      for (const loan of activeLoans) {
-        const loanBook = await storage.getBook(loan.bookId);
-        if (loanBook && loanBook.title === book.title) {
-          return res.status(400).json({
-            message: "Você já possui um exemplar deste livro emprestado."
-          });
-        }
-      }
-
-      // Check pending requests
-      for (const req of pendingRequests) {
-        const reqBook = await storage.getBook(req.bookId);
-        if (reqBook && reqBook.title === book.title) {
-          return res.status(400).json({
-            message: "Você já possui uma solicitação pendente para este título."
-          });
+            });
+            candidate.description = completion.choices[0].message.content || candidate.description;
+          } catch (err) {
+            console.error(`Failed to generate description for ${candidate.title}:`, err);
+          }
         }
-      }
-
-      const request = await storage.createLoanRequest({
-        userId,
-        bookId,
-        status: "pending",
-        reviewedBy: null,
-        reviewDate: null,
-        notes: null,
-      });
+        return candidate;
+      }));
 
-      // Loan request confirmation SMS removed
+      // Merge back with the rest of the candidates (if any)
+      const finalCandidates = [...enrichedCandidates, ...candidates.slice(3)];
 
-      res.status(201).json(request);
+      res.json(finalCandidates);
     } catch (error: any) {
-      res.status(400).json({ message: error.message || "Erro ao criar solicitação" });
+      console.error("Magic Fill Error:", error);
+      res.status(500).json({ message: "A varinha mágica falhou: " + error.message });
     }
   });
 
-  app.post("/api/loan-requests/:id/approve", async (req, res) => {
+  app.post("/api/books/suggest-category", authorize(ADMIN_ONLY), async (req, res) => {
     try {
-      const request = await storage.getLoanRequest(req.params.id);
-      if (!request) {
-        return res.status(404).json({ message: "Solicitação não encontrada" });
-      }
-
-      const user = await storage.getUser(request.userId);
-      const book = await storage.getBook(request.bookId);
-
-      if (!user || !book) {
-        return res.status(404).json({ message: "Utilizador ou livro não encontrado" });
+      const { book, categories = [] } = req.body;
+      if (!book || categories.length === 0) {
+        return res.status(400).json({ message: "Dados insuficientes para sugestão." });
       }
 
-      const dueDate = calculateDueDate(user.userType, book.tag);
-
-      const loan = await storage.createLoan({
-        userId: request.userId,
-        bookId: request.bookId,
-        dueDate,
-      });
-
-      await storage.updateBook(request.bookId, {
-        availableCopies: book.availableCopies - 1,
-      });
-
-      // Remove any existing reservation for this user and book
-      await storage.deleteReservationByUserAndBook(request.userId, request.bookId);
-
-      await storage.updateLoanRequest(request.id, {
-        status: "approved",
-        reviewDate: new Date(),
+      const response = await groq.chat.completions.create({
+        model: "llama-3.3-70b-versatile",
+        messages: [
+          {
+            role: "system",
+            content: `Você é um bibliotecário especialista. Retorne APENAS o ID da categoria que melhor se adapta ao livro. 
+            Se não houver categoria exata, use o seu conhecimento para escolher a mais próxima pelo tema.
+            Opções: ${categories.map((c: any) => `"${c.name}" (ID: ${c.id})`).join(", ")}.`
+          },
+          {
+            role: "user",
+            content: `Livro: ${book.title} - ${book.author}. Descrição: ${book.description || "N/A"}`
+          }
+        ],
+        temperature: 0.1
       });
 
-      // Approval SMS removed
+      const aiResponse = response.choices[0].message.content || "";
+      // Check if any valid ID is inside the response text
+      const matchedCategory = categories.find((c: any) => aiResponse.includes(c.id.toString()));
+      const categoryId = matchedCategory ? matchedCategory.id : null;
 
-      res.json(loan);
+      res.json({ categoryId });
     } catch (error: any) {
-      res.status(400).json({ message: error.message || "Erro ao aprovar solicitação" });
+      res.status(500).json({ message: "Erro ao sugerir categoria: " + error.message });
     }
   });
 
-  app.delete("/api/loan-requests/:id", async (req, res) => {
+  // Reports
+  app.get("/api/reports/popular-books", authorize(ADMIN_ONLY), async (req, res) => {
     try {
-      const request = await storage.getLoanRequest(req.params.id);
-      if (!request) {
-        return res.status(404).json({ message: "Solicitação não encontrada" });
-      }
-
-      if (request.status !== "pending") {
-        return res.status(400).json({ message: "Apenas solicitações pendentes podem ser canceladas" });
-      }
-
-      // We don't have a delete method in storage for loan requests yet, let's just mark as 'rejected' or add delete method?
-      // Actually better to delete it if the user cancels.
-      // Since I can't easily change storage interface here without editing multiple files, 
-      // I'll update status to 'rejected' with a note "Cancelled by user" OR implement delete in storage.
-      // Re-reading requirements: "opcao de cancelar".
-      // Let's implement a direct DB delete using generic db object in storage if possible, or add deleteLoanRequest to storage.
-      // Wait, the storage interface is in `storage.ts`. I should check if I can add it easily. 
-      // For now, let's treat "Cancel" as "Deleting" the request.
-
-      // I'll try to add deleteLoanRequest to storage first.
-      // Checking storage.ts content again...
-
-      // Actually, to be safe and quick, I will reject it with specific note.
-      // But user asked to cancel. Usually that means it disappears.
-      // Re-checking storage.ts shows `deleteUser`, `deleteBook` etc. I should add `deleteLoanRequest`.
+      const loans = await storage.getAllLoans();
+      const bookLoanCount = new Map<string, number>();
 
-      // Let's assume I will add `deleteLoanRequest` to storage.ts in next step. 
-      // I will write the route now assuming it exists or verify storage.ts first.
-      // safer to reject for now if I don't want to break interface, BUT user wants cancel.
-      // Let's look at `storage.ts` again to add the method.
+      loans.forEach(loan => {
+        const count = bookLoanCount.get(loan.bookId) || 0;
+        bookLoanCount.set(loan.bookId, count + 1);
+      });
 
-      // Wait, I can't invoke tools inside ReplacementContent.
-      // I'll stick to updating status to 'cancelled' (adding enum value?) or 'rejected' with note.
-      // Existing enum: pending, approved, rejected.
-      // 'rejected' is closest.
+      const sortedBooks = Array.from(bookLoanCount.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 10);
 
-      await storage.updateLoanRequest(request.id, {
-        status: "rejected",
-        notes: "Cancelado pelo utilizador"
-      });
+      const popularBooks = await Promise.all(
+        sortedBooks.map(async ([bookId, count]) => {
+          const book = await storage.getBook(bookId);
+          return { book, loanCount: count };
+        })
+      );
 
-      res.json({ message: "Solicitação cancelada com sucesso" });
+      res.json(popularBooks);
     } catch (error) {
-      res.status(500).json({ message: "Erro ao cancelar solicitação" });
+      res.status(500).json({ message: "Erro ao gerar relatório" });
     }
   });
 
-  app.post("/api/loan-requests/:id/reject", async (req, res) => {
+  app.get("/api/reports/active-users", authorize(ADMIN_ONLY), async (req, res) => {
     try {
-      const request = await storage.getLoanRequest(req.params.id);
-      if (!request) {
-        return res.status(404).json({ message: "Solicitação não encontrada" });
-      }
+      const loans = await storage.getAllLoans();
+      const userLoanCount = new Map<string, number>();
 
-      await storage.updateLoanRequest(request.id, {
-        status: "rejected",
-        reviewDate: new Date(),
-        notes: req.body.notes || null,
+      loans.forEach(loan => {
+        const count = userLoanCount.get(loan.userId) || 0;
+        userLoanCount.set(loan.userId, count + 1);
       });
 
-      res.json({ message: "Solicitação rejeitada" });
+      const sortedUsers = Array.from(userLoanCount.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 10);
+
+      const activeUsers = await Promise.all(
+        sortedUsers.map(async ([userId, count]) => {
+          const user = await storage.getUser(userId);
+          return { user, loanCount: count };
+        })
+      );
+
+      res.json(activeUsers);
     } catch (error) {
-      res.status(500).json({ message: "Erro ao rejeitar solicitação" });
+      res.status(500).json({ message: "Erro ao gerar relatório" });
     }
   });
 
   // Renewal Requests
-  app.get("/api/renewal-requests", async (req, res) => {
+  app.get("/api/renewal-requests", authorize(ALL_ROLES, { owner: (req) => req.query.userId as string | undefined }), async (req, res) => {
     try {
       const { userId, status } = req.query;
       let requests;
@@ -1795,7 +2249,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/renewal-requests/:id", async (req, res) => {
+  app.delete("/api/renewal-requests/:id", authorize(ALL_ROLES, { owner: renewalRequestOwner }), async (req, res) => {
     try {
       const success = await storage.deleteRenewalRequest(req.params.id);
       if (!success) {
@@ -1807,7 +2261,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/renewal-requests", async (req, res) => {
+  app.post("/api/renewal-requests", authorize(ALL_ROLES, { owner: renewalTargetOwner }), async (req, res) => {
     try {
       const { loanId, userId } = req.body;
 
@@ -1823,8 +2277,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Empréstimo não encontrado" });
       }
 
-      if (loan.renewalCount >= MAX_RENEWALS) {
-        return res.status(400).json({ message: `Limite de ${MAX_RENEWALS} renovações atingido` });
+      const { maxRenewals } = await getLoanRuleForLoan(loan);
+      if (loan.renewalCount >= maxRenewals) {
+        return res.status(400).json({ message: `Limite de ${maxRenewals} renovações atingido` });
       }
 
       const request = await storage.createRenewalRequest({
@@ -1836,17 +2291,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         notes: null,
       });
 
-      // Send alert (to admin, or user for demo)
-      try {
-        const loan = await storage.getLoan(loanId);
-        const user = await storage.getUser(userId);
-        const book = loan ? await storage.getBook(loan.bookId) : null;
-
-        if (user && book && loan) {
-          await sendRenewalRequestAlert(user, book, loan);
-        }
-      } catch (emailError) {
-        console.error("Failed to send renewal alert:", emailError);
+      // Acknowledge the request to the user
+      const user = await storage.getUser(userId);
+      const book = await storage.getBook(loan.bookId);
+      if (user && book) {
+        await notify(user, {
+          type: "renewal_decision",
+          title: "Pedido de renovação recebido",
+          message: `A renovação de "${book.title}" aguarda aprovação.`,
+          email: () => sendRenewalRequestAlert(user, book, loan),
+        });
       }
 
       res.status(201).json(request);
@@ -1855,53 +2309,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/renewal-requests/:id/approve", async (req, res) => {
+  app.post("/api/renewal-requests/:id/approve", authorize(ADMIN_ONLY), async (req, res) => {
     try {
-      console.log(`Approving renewal request ${req.params.id}`);
       const request = await storage.getRenewalRequest(req.params.id);
       if (!request) {
-        console.error(`Request ${req.params.id} not found`);
         return res.status(404).json({ message: "Solicitação não encontrada" });
       }
+      if (request.status !== "pending") {
+        return res.status(400).json({ message: "Esta solicitação já foi processada" });
+      }
 
-      console.log(`Found request for loan ${request.loanId}`);
       const loan = await storage.getLoan(request.loanId);
       if (!loan) {
-        console.error(`Loan ${request.loanId} not found`);
         return res.status(404).json({ message: "Empréstimo não encontrado" });
       }
+      if (loan.status !== "active") {
+        return res.status(400).json({ message: "Apenas empréstimos ativos podem ser renovados" });
+      }
+
+      // The loan may have been renewed at the desk since the request was made
+      const { maxRenewals } = await getLoanRuleForLoan(loan);
+      if (loan.renewalCount >= maxRenewals) {
+        return res.status(400).json({ message: `Limite de ${maxRenewals} renovações atingido` });
+      }
 
       const user = await storage.getUser(loan.userId);
       const book = await storage.getBook(loan.bookId);
 
       if (!user || !book) {
-        console.error(`User ${loan.userId} or Book ${loan.bookId} not found`);
         return res.status(404).json({ message: "Utilizador ou livro não encontrado" });
       }
 
-      console.log(`Calculating new due date for ${user.userType} and tag ${book.tag}`);
-      const newDueDate = calculateDueDate(user.userType, book.tag, new Date(loan.dueDate));
+      const newDueDate = await calculateDueDate(user.userType, book, new Date(loan.dueDate));
 
       await storage.updateLoan(loan.id, {
         dueDate: newDueDate,
         renewalCount: loan.renewalCount + 1,
       });
 
-
-
       await storage.updateRenewalRequest(request.id, {
         status: "approved",
+        reviewedBy: req.user!.id,
         reviewDate: new Date(),
       });
 
-      // Send approval email
-      try {
-        await sendRenewalDecision(user, book, true, newDueDate);
-      } catch (emailError: any) {
-        console.error("Failed to send renewal decision email:", emailError);
-      }
-
-      // Renewal approval SMS removed
+      await notify(user, {
+        type: "renewal_decision",
+        title: "Renovação aprovada",
+        message: `"${book.title}" deve agora ser devolvido até ${newDueDate.toLocaleDateString("pt-PT")}.`,
+        email: () => sendRenewalDecision(user, book, true, newDueDate),
+      });
 
       res.json({ message: "Renovação aprovada", newDueDate });
     } catch (error: any) {
@@ -1910,15 +2367,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-
-  app.post("/api/renewal-requests/:id/reject", async (req, res) => {
+  app.post("/api/renewal-requests/:id/reject", authorize(ADMIN_ONLY), async (req, res) => {
     try {
-      console.log(`Rejecting renewal request ${req.params.id}`);
       const request = await storage.getRenewalRequest(req.params.id);
       if (!request) {
-        console.error(`Request ${req.params.id} not found`);
         return res.status(404).json({ message: "Solicitação não encontrada" });
       }
+      if (request.status !== "pending") {
+        return res.status(400).json({ message: "Esta solicitação já foi processada" });
+      }
 
       const loan = await storage.getLoan(request.loanId);
       const user = loan ? await storage.getUser(loan.userId) : null;
@@ -1926,17 +2383,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       await storage.updateRenewalRequest(request.id, {
         status: "rejected",
+        reviewedBy: req.user!.id,
         reviewDate: new Date(),
         notes: req.body.notes || null,
       });
 
-      // Send rejection email
       if (user && book) {
-        try {
-          await sendRenewalDecision(user, book, false);
-        } catch (emailError: any) {
-          console.error("Failed to send renewal rejection email:", emailError);
-        }
+        await notify(user, {
+          type: "renewal_decision",
+          title: "Renovação rejeitada",
+          message: `Devolva "${book.title}" na data prevista.${req.body.notes ? ` Motivo: ${req.body.notes}` : ""}`,
+          email: () => sendRenewalDecision(user, book, false, undefined, req.body.notes || null),
+        });
       }
 
       res.json({ message: "Renovação rejeitada" });
@@ -1946,10 +2404,280 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Notification centre: always the signed-in user's own notifications
+  app.get("/api/notifications", authorize(ALL_ROLES), async (req, res) => {
+    try {
+      const [notifications, unreadCount] = await Promise.all([
+        storage.getNotifications(req.user!.id, 50),
+        storage.getUnreadNotificationCount(req.user!.id),
+      ]);
+      res.json({ notifications, unreadCount });
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar notificações" });
+    }
+  });
+
+  app.post("/api/notifications/read", authorize(ALL_ROLES), async (req, res) => {
+    try {
+      const { ids } = z.object({ ids: z.array(z.string()).optional() }).parse(req.body ?? {});
+      const read = await storage.markNotificationsRead(req.user!.id, ids);
+      res.json({ read });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Erro ao marcar notificações como lidas" });
+    }
+  });
+
+  app.get("/api/notification-preferences", authorize(ALL_ROLES), async (req, res) => {
+    try {
+      res.json(await getNotificationSettings(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar preferências de notificação" });
+    }
+  });
+
+  app.put("/api/notification-preferences", authorize(ALL_ROLES), async (req, res) => {
+    try {
+      const preferences = z.array(z.object({
+        type: z.enum(notificationTypeEnum.enumValues),
+        inApp: z.boolean(),
+        email: z.boolean(),
+        digest: z.boolean(),
+        sms: z.boolean(),
+      })).parse(req.body);
+
+      for (const preference of preferences) {
+        await storage.upsertNotificationPreference({ ...preference, userId: req.user!.id });
+      }
+      res.json(await getNotificationSettings(req.user!.id));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Erro ao guardar preferências de notificação" });
+    }
+  });
+
+  // Email templates: built-in texts admins can override per language
+  const templateContentSchema = z.object({
+    subject: z.string().trim().min(1, "Indique o assunto"),
+    body: z.string().trim().min(1, "Indique o conteúdo"),
+  });
+
+  app.get("/api/email-templates", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      res.json(await listEmailTemplates());
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar modelos de email" });
+    }
+  });
+
+  app.put("/api/email-templates/:key/:language", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const { key } = req.params;
+      if (!isEmailTemplateKey(key)) {
+        return res.status(404).json({ message: "Modelo de email não encontrado" });
+      }
+      const language = z.enum(languageEnum.enumValues).parse(req.params.language);
+      const content = templateContentSchema.parse(req.body);
+
+      const invalid = validateTemplate(key, content);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const template = await storage.upsertEmailTemplate({ key, language, ...content, updatedBy: req.user!.id });
+      res.json(template);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Erro ao guardar modelo de email" });
+    }
+  });
+
+  // Back to the built-in text
+  app.delete("/api/email-templates/:key/:language", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const { key } = req.params;
+      if (!isEmailTemplateKey(key)) {
+        return res.status(404).json({ message: "Modelo de email não encontrado" });
+      }
+      const language = z.enum(languageEnum.enumValues).parse(req.params.language);
+
+      await storage.deleteEmailTemplate(key, language);
+      res.json({ message: "Modelo reposto" });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Erro ao repor modelo de email" });
+    }
+  });
+
+  // Renders unsaved edits with sample data
+  app.post("/api/email-templates/:key/preview", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const { key } = req.params;
+      if (!isEmailTemplateKey(key)) {
+        return res.status(404).json({ message: "Modelo de email não encontrado" });
+      }
+      const { language, ...content } = templateContentSchema
+        .extend({ language: z.enum(languageEnum.enumValues) })
+        .parse(req.body);
+
+      const invalid = validateTemplate(key, content);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      res.json(renderTemplatePreview(key, language, content));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Erro ao pré-visualizar modelo de email" });
+    }
+  });
+
+  // Email delivery log: the outbox, newest first, without the bodies
+  app.get("/api/email-outbox", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const { status, limit } = z.object({
+        status: z.enum(emailStatusEnum.enumValues).optional(),
+        limit: z.coerce.number().int().min(1).max(500).default(100),
+      }).parse(req.query);
+
+      const [emails, counts] = await Promise.all([
+        storage.getOutboxEmails(status, limit),
+        storage.getOutboxStatusCounts(),
+      ]);
+      res.json({ emails: emails.map(({ html, text, ...email }) => email), counts });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Erro ao buscar registo de emails" });
+    }
+  });
+
+  app.get("/api/email-outbox/:id", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const email = await storage.getOutboxEmail(req.params.id);
+      if (!email) {
+        return res.status(404).json({ message: "Email não encontrado" });
+      }
+      res.json(email);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar email" });
+    }
+  });
+
+  app.post("/api/email-outbox/:id/retry", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const { html, text, ...email } = await retryOutboxEmail(req.params.id);
+      res.json(email);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Erro ao reenviar email" });
+    }
+  });
+
+  // Audit log, newest first. `to` is the last day included; actorId=system
+  // selects the events no user caused
+  app.get("/api/audit-events", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const filters = z.object({
+        actorId: z.string().optional().transform(id => id === "system" ? null : id),
+        entityType: z.string().optional(),
+        entityId: z.string().optional(),
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+        limit: z.coerce.number().int().min(1).max(1000).default(200),
+      }).parse(req.query);
+
+      const events = await storage.getAuditEvents({
+        ...filters,
+        to: filters.to ? new Date(filters.to.getTime() + 24 * 60 * 60 * 1000) : undefined,
+      });
+
+      const actorNames = new Map<string, string | null>();
+      for (const actorId of Array.from(new Set(events.map(e => e.actorId).filter((id): id is string => !!id)))) {
+        actorNames.set(actorId, (await storage.getUser(actorId))?.name ?? null);
+      }
+      res.json(events.map(event => ({ ...event, actorName: event.actorId ? actorNames.get(event.actorId) ?? null : null })));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Erro ao buscar registo de auditoria" });
+    }
+  });
+
+  // Scheduled jobs: their last run and whether the current period is done
+  app.get("/api/jobs", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const jobs = await Promise.all((Object.keys(scheduledJobs) as ScheduledJobName[]).map(async (name) => {
+        const { run, ...job } = scheduledJobs[name];
+        const runs = await storage.getJobRuns(name, 10);
+        const runKey = jobRunKey(job.period);
+        return {
+          name,
+          ...job,
+          runKey,
+          lastRun: runs[0] ?? null,
+          currentRun: runs.find(r => r.runKey === runKey && r.status !== "failed") ?? null,
+        };
+      }));
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar tarefas agendadas" });
+    }
+  });
+
+  app.get("/api/jobs/runs", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const { job, limit } = z.object({
+        job: z.string().optional(),
+        limit: z.coerce.number().int().min(1).max(500).default(100),
+      }).parse(req.query);
+
+      const runs = await storage.getJobRuns(job, limit);
+      const enriched = await Promise.all(runs.map(async (run) => {
+        const triggeredBy = run.triggeredBy ? await storage.getUser(run.triggeredBy) : undefined;
+        return { ...run, triggeredByName: triggeredBy?.name ?? null };
+      }));
+      res.json(enriched);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Erro ao buscar histórico de tarefas" });
+    }
+  });
+
+  app.post("/api/jobs/:name/run", authorize(ADMIN_ONLY), async (req, res) => {
+    try {
+      const { name } = req.params;
+      if (!isScheduledJobName(name)) {
+        return res.status(404).json({ message: "Tarefa não encontrada" });
+      }
+
+      const run = await runScheduledJob(name, { trigger: "manual", userId: req.user!.id });
+      if (!run) {
+        return res.status(409).json({ message: "Esta tarefa já foi executada ou está em execução neste período" });
+      }
+      res.status(202).json(run);
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao iniciar tarefa" });
+    }
+  });
+
 
 
   // External Book Repository Proxy
-  app.get("/api/external-books", async (req, res) => {
+  app.get("/api/external-books", authorize(ALL_ROLES), async (req, res) => {
     try {
       const { query, source = "all" } = req.query;
       if (!query || typeof query !== 'string') {
@@ -2144,7 +2872,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Reviews Routes
-  app.post("/api/reviews", async (req, res) => {
+  app.post("/api/reviews", authorize(ALL_ROLES, { owner: (req) => req.body.userId }), async (req, res) => {
     try {
       const reviewData = insertReviewSchema.parse(req.body);
       const review = await storage.createReview(reviewData);
@@ -2158,7 +2886,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/books/:bookId/reviews", async (req, res) => {
+  app.get("/api/books/:bookId/reviews", authorize(ALL_ROLES), async (req, res) => {
     try {
       const reviews = await storage.getReviewsByBook(req.params.bookId);
       // Fetch user names for each review
@@ -2175,9 +2903,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/reviews/:id", async (req, res) => {
+  app.patch("/api/reviews/:id", authorize(ALL_ROLES, { owner: reviewOwner }), async (req, res) => {
     try {
-      const reviewData = insertReviewSchema.partial().parse(req.body);
+      // The review stays with its author and book; only the rating and comment change
+      const reviewData = insertReviewSchema.omit({ userId: true, bookId: true }).partial().parse(req.body);
       const updatedReview = await storage.updateReview(req.params.id, reviewData);
       if (!updatedReview) {
         return res.status(404).json({ message: "Avaliação não encontrada" });
@@ -2192,7 +2921,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/reviews/:id", async (req, res) => {
+  app.delete("/api/reviews/:id", authorize(ALL_ROLES, { owner: reviewOwner }), async (req, res) => {
     try {
       const success = await storage.deleteReview(req.params.id);
       if (!success) {
@@ -2206,7 +2935,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
   // AI Assistant Chat Route (Groq)
-  app.post("/api/chat", async (req, res) => {
+  app.post("/api/chat", authorize("public"), async (req, res) => {
     try {
       const { messages, image } = req.body;
 
@@ -2228,6 +2957,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .filter(entry => entry.book)
         .sort((a, b) => b.count - a.count);
 
+      const libraryRules = describePatronRules(await getPatronRules());
+
       const mostLoaned = sortedBookStats.slice(0, 5).map(s => `\"${s.book?.title}\" (${s.count} vezes)`).join(", ");
       const leastLoaned = allBooks
         .filter(b => !bookLoanCount.has(b.id))
@@ -2275,7 +3006,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     Seu objetivo é:
     1. Ajudar os alunos e professores a encontrar livros e autores.
     2. Recomendar livros com base no que é popular ou novo (use os dados abaixo).
-    3. Explicar as regras da biblioteca: alunos 5 dias, professores 15 dias, multas de 500 Kz/dia.
+    3. Explicar as regras da biblioteca, que estão em vigor agora: ${libraryRules}
     4. Se o usuário perguntar por recomendações, baseie-se na lista de mais acessados.
     5. Se perguntarem sobre os fundadores ou criadores do site, responda com os nomes acima mencionando também o Prof. Judson Paiva como mentor.
     6. Se houver resultados de pesquisa web abaixo, use-os para dar uma resposta mais completa e atualizada.
@@ -2329,6 +3060,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  assertRoutePolicies(app);
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,135 @@
+import { appendFile } from "fs/promises";
+import type { User } from "@shared/schema";
+
+export type PhoneChannel = User["phoneChannel"];
+
+export interface TextMessage {
+    to: string; // E.164
+    channel: PhoneChannel;
+    body: string;
+}
+
+/**
+ * A text message provider. `send` resolves once the provider accepted the
+ * message and throws otherwise.
+ */
+export interface SmsProvider {
+    name: string;
+    send(message: TextMessage): Promise<void>;
+}
+
+/**
+ * Development transport: prints each message and, when SMS_STUB_FILE is set,
+ * appends it to that file as a JSON line, so flows like phone verification
+ * can be followed without a real provider.
+ */
+class StubSmsProvider implements SmsProvider {
+    name = "stub";
+
+    constructor(private file?: string) {}
+
+    async send(message: TextMessage) {
+        console.log(`📱 [${message.channel.toUpperCase()} stub] To ${message.to}: ${message.body}`);
+        if (this.file) {
+            await appendFile(this.file, JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + "\n");
+        }
+    }
+}
+
+/**
+ * Twilio Messaging API, over plain HTTPS. WhatsApp messages need a sender
+ * enabled for WhatsApp (TWILIO_WHATSAPP_FROM); SMS use TWILIO_FROM.
+ */
+class TwilioSmsProvider implements SmsProvider {
+    name = "twilio";
+
+    constructor(private accountSid: string, private authToken: string, private from: string, private whatsappFrom?: string) {}
+
+    async send(message: TextMessage) {
+        const whatsapp = message.channel === "whatsapp";
+        if (whatsapp && !this.whatsappFrom) {
+            throw new Error("WhatsApp sender not configured (TWILIO_WHATSAPP_FROM)");
+        }
+
+        const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+            method: "POST",
+            headers: {
+                Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString("base64")}`,
+                "Content-Type": "application/x-www-form-urlencoded",
+            },
+            body: new URLSearchParams({
+                From: whatsapp ? `whatsapp:${this.whatsappFrom}` : this.from,
+                To: whatsapp ? `whatsapp:${message.to}` : message.to,
+                Body: message.body,
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Twilio responded ${response.status}: ${await response.text()}`);
+        }
+    }
+}
+
+function createProvider(): SmsProvider | null {
+    const configured = process.env.SMS_PROVIDER || (process.env.NODE_ENV === "production" ? "" : "stub");
+
+    if (configured === "twilio") {
+        const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM, TWILIO_WHATSAPP_FROM } = process.env;
+        if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_FROM) {
+            console.error("❌ SMS Service: SMS_PROVIDER=twilio needs TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM");
+            return null;
+        }
+        console.log(`📱 SMS Service: Configured with Twilio (${TWILIO_FROM}${TWILIO_WHATSAPP_FROM ? `, WhatsApp ${TWILIO_WHATSAPP_FROM}` : ""})`);
+        return new TwilioSmsProvider(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM, TWILIO_WHATSAPP_FROM);
+    }
+
+    if (configured === "stub") {
+        console.log(`📱 SMS Service: Configured with stub transport (Dev Mode)${process.env.SMS_STUB_FILE ? `, writing to ${process.env.SMS_STUB_FILE}` : ""}`);
+        return new StubSmsProvider(process.env.SMS_STUB_FILE);
+    }
+
+    console.log("📱 SMS Service: Disabled (set SMS_PROVIDER to enable text messages)");
+    return null;
+}
+
+const provider = createProvider();
+
+export function isSmsEnabled(): boolean {
+    return provider !== null;
+}
+
+/**
+ * Normalises a phone number to E.164. Angolan numbers may be given without the
+ * country code (9 digits starting with 9). Returns null when not a number.
+ */
+export function normalizePhoneNumber(input: string): string | null {
+    const compact = input.replace(/[\s\-().]/g, "");
+    if (/^9\d{8}$/.test(compact)) return `+244${compact}`;
+    if (/^00\d{8,15}$/.test(compact)) return `+${compact.slice(2)}`;
+    if (/^\+\d{8,15}$/.test(compact)) return compact;
+    return null;
+}
+
+/**
+ * Send a text message
+ */
+export async function sendTextMessage(message: TextMessage): Promise<boolean> {
+    if (!provider) return false;
+
+    try {
+        await provider.send(message);
+        return true;
+    } catch (error) {
+        console.error(`❌ Error sending ${message.channel} message:`, error);
+        return false;
+    }
+}
+
+/**
+ * Send a text message to a user, by SMS or WhatsApp as they chose. Only
+ * verified numbers receive messages.
+ */
+export async function sendUserTextMessage(user: any, body: string): Promise<boolean> {
+    if (!user.phone || !user.phoneVerifiedAt) return false;
+    return sendTextMessage({ to: user.phone, channel: user.phoneChannel, body: `Biblioteca ISPTEC: ${body}` });
+}
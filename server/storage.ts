@@ -3,16 +3,20 @@ import {
   type InsertUser,
   type Book,
   type InsertBook,
+  type CatalogueSort,
+  bookSearchDocument,
+  bookSearchKey,
+  catalogueSearchTerms,
   type Loan,
   type InsertLoan,
   type Reservation,
-  type InsertReservation,
+  type Hold,
+  type InsertHold,
   type Fine,
   type InsertFine,
   type Category,
   type InsertCategory,
   type LoanRequest,
-  type InsertLoanRequest,
   type RenewalRequest,
   type InsertRenewalRequest,
   users,
@@ -20,6 +24,8 @@ import {
   loans,
   categories,
   reservations,
+  holds,
+  openHoldStatuses,
   fines,
   loanRequests,
   renewalRequests,
@@ -28,10 +34,167 @@ import {
   reviews,
   authors,
   type Author,
-  type InsertAuthor
+  type InsertAuthor,
+  loanPolicies,
+  borrowerPolicies,
+  type LoanPolicy,
+  type InsertLoanPolicy,
+  type BorrowerPolicy,
+  type InsertBorrowerPolicy,
+  openingHours,
+  calendarEvents,
+  type OpeningHours,
+  type InsertOpeningHours,
+  type CalendarEvent,
+  type InsertCalendarEvent,
+  bookCopies,
+  type BookCopy,
+  type InsertBookCopy,
+  fineTransactions,
+  type FineTransaction,
+  type InsertFineTransaction,
+  fineDisputes,
+  type FineDispute,
+  type InsertFineDispute,
+  userBlocks,
+  type UserBlock,
+  type InsertUserBlock,
+  notifications,
+  type Notification,
+  type InsertNotification,
+  loanNotices,
+  type LoanNotice,
+  notificationPreferences,
+  type NotificationPreference,
+  type InsertNotificationPreference,
+  phoneVerifications,
+  type PhoneVerification,
+  type InsertPhoneVerification,
+  emailTemplates,
+  type EmailTemplate,
+  type InsertEmailTemplate,
+  emailOutbox,
+  type OutboxEmail,
+  type InsertOutboxEmail,
+  jobRuns,
+  type JobRun,
+  type InsertJobRun,
+  STALE_JOB_RUN_ERROR,
+  auditEvents,
+  type AuditEvent,
+  type InsertAuditEvent
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, ilike, and, or, lt } from "drizzle-orm";
+import { db, useMemoryStorage } from "./db";
+import { MemStorage } from "./mem-storage";
+import { withAuditing } from "./audit";
+import { eq, ne, ilike, like, and, or, lt, gt, gte, lte, asc, desc, inArray, isNull, isNotNull, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import type { BookQuery } from "@shared/book-query";
+
+type Executor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type CatalogueConditions = Partial<Record<keyof CatalogueFacets | "search" | "query", SQL>>;
+
+// Facet values over a books row: the decade of publication and the average review rating
+const bookDecade = sql<number>`(${books.yearPublished} / 10 * 10)`;
+const bookRating = sql<number>`(select avg(${reviews.rating}) from ${reviews} where ${reviews.bookId} = ${books.id})`;
+
+// Text as compared by advanced queries, which fold their side the same way
+const foldedText = (column: SQL | AnyPgColumn) => sql`immutable_unaccent(lower(coalesce(${column}, '')))`;
+const containing = (text: string) => `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+
+const RATING_THRESHOLDS = [4, 3, 2, 1];
+const FACET_VALUE_LIMIT = 20; // Authors and publishers shown per facet
+
+export interface CheckoutParams {
+  userId: string;
+  bookId: string;
+  dueDate: Date;
+  copyId?: string; // Specific copy (scanned at the desk); otherwise any copy on the shelf
+  maxBooks?: number; // Loan limit of the user type; no limit when omitted
+}
+
+export interface HoldRelease {
+  status: "expired" | "cancelled";
+  notes?: string | null;
+  reviewedBy?: string; // Staff refusing a request
+}
+
+export interface CheckinParams {
+  returnDate: Date;
+  fineAccruals?: FineAccrual[]; // Overdue days to charge to the loan's fine, in the same transaction
+}
+
+export interface FineDisputeDecision {
+  approved: boolean;
+  waivedAmount?: number; // Approved disputes only; the whole balance when omitted
+  notes: string | null;
+  reviewedBy: string;
+}
+
+export interface FineAccrual {
+  accrualDate: string; // YYYY-MM-DD
+  amount: number;
+}
+
+// Values within a filter are alternatives; different filters must all match
+export interface CatalogueFilters {
+  search?: string;
+  categoryIds?: string[];
+  departments?: Book["department"][];
+  authors?: string[];
+  publishers?: string[];
+  decades?: number[]; // First year of each: 1990 covers 1990-1999
+  tags?: Book["tag"][];
+  available?: boolean; // Only books with a copy on the shelf
+  minRating?: number; // Average review rating
+  query?: BookQuery; // Advanced search (?q=), see shared/book-query.ts
+}
+
+export interface CatalogueQuery extends CatalogueFilters {
+  sort: CatalogueSort;
+  page: number; // 1-based
+  pageSize: number;
+}
+
+export interface CataloguePage {
+  books: Book[];
+  total: number; // Matches across all pages
+}
+
+export interface FacetCount<T = string> {
+  value: T;
+  count: number;
+}
+
+// Counts for each facet value. A facet's counts apply every filter except its
+// own, so selecting a value never hides the others of that facet.
+export interface CatalogueFacets {
+  categories: FacetCount[];
+  departments: FacetCount<Book["department"]>[];
+  authors: FacetCount[]; // The most common, plus any selected
+  publishers: FacetCount[]; // Likewise
+  decades: FacetCount<number>[];
+  tags: FacetCount<Book["tag"]>[];
+  available: number;
+  ratings: FacetCount<number>[]; // Books rated at least value, for 4 down to 1
+}
+
+export interface BookStats {
+  loanCount: number;
+  totalFines: number;
+  averageRating: number; // 0 without reviews
+  reviewCount: number;
+}
+
+export interface AuditEventFilters {
+  actorId?: string | null; // null: events with no actor (the system)
+  entityType?: string;
+  entityId?: string;
+  from?: Date; // Inclusive
+  to?: Date; // Exclusive
+  limit: number;
+}
 
 export interface IStorage {
   // User methods
@@ -46,10 +209,24 @@ export interface IStorage {
   getBook(id: string): Promise<Book | undefined>;
   getAllBooks(): Promise<Book[]>;
   searchBooks(query: string): Promise<Book[]>;
+  searchCatalogue(query: CatalogueQuery): Promise<CataloguePage>;
+  getCatalogueFacets(filters: CatalogueFilters): Promise<CatalogueFacets>;
+  // Every requested id has an entry, zeroed for books never loaned or reviewed
+  getBookStats(bookIds: string[]): Promise<Map<string, BookStats>>;
   createBook(book: InsertBook): Promise<Book>;
   updateBook(id: string, book: Partial<Book>): Promise<Book | undefined>;
   deleteBook(id: string): Promise<boolean>;
 
+  // Book copy methods (every write recomputes the book's copy counts)
+  getBookCopy(id: string): Promise<BookCopy | undefined>;
+  getBookCopyByBarcode(barcode: string): Promise<BookCopy | undefined>;
+  getCopiesByBook(bookId: string): Promise<BookCopy[]>;
+  getAllBookCopies(): Promise<BookCopy[]>;
+  createBookCopy(copy: InsertBookCopy): Promise<BookCopy>;
+  updateBookCopy(id: string, copy: Partial<BookCopy>): Promise<BookCopy | undefined>;
+  deleteBookCopy(id: string): Promise<boolean>;
+  refreshBookAvailability(bookId: string): Promise<Book | undefined>;
+
   // Category methods
   getCategory(id: string): Promise<Category | undefined>;
   getAllCategories(): Promise<Category[]>;
@@ -60,19 +237,33 @@ export interface IStorage {
   getAllLoans(): Promise<Loan[]>;
   getLoansByUser(userId: string): Promise<Loan[]>;
   getLoansByBook(bookId: string): Promise<Loan[]>;
+  getLoansByCopy(copyId: string): Promise<Loan[]>;
   getActiveLoans(): Promise<Loan[]>;
   getOverdueLoans(): Promise<Loan[]>;
   createLoan(loan: InsertLoan): Promise<Loan>;
   updateLoan(id: string, loan: Partial<Loan>): Promise<Loan | undefined>;
+  // Atomic circulation operations; they throw with a user-facing message when refused
+  checkoutBook(params: CheckoutParams): Promise<Loan>;
+  checkinLoan(loanId: string, params: CheckinParams): Promise<Loan>;
   deleteLoan(id: string): Promise<boolean>;
 
-  // Reservation methods
-  getReservation(id: string): Promise<Reservation | undefined>;
+  // Hold methods
+  getHold(id: string): Promise<Hold | undefined>;
+  getAllHolds(): Promise<Hold[]>;
+  getHoldsByUser(userId: string): Promise<Hold[]>;
+  getHoldsByBook(bookId: string): Promise<Hold[]>;
+  createHold(hold: InsertHold): Promise<Hold>;
+  updateHold(id: string, hold: Partial<Hold>): Promise<Hold | undefined>;
+  // Puts an available copy aside for an approved or waiting hold, making it ready for pickup
+  holdCopy(holdId: string, copyId: string, expirationDate: Date): Promise<Hold>;
+  // Ends an open hold, putting its held copy back on the shelf
+  releaseHold(holdId: string, release: HoldRelease): Promise<Hold>;
+  // Inserts holds keeping their ids, skipping those already there; returns how many were new
+  importHolds(holds: Hold[]): Promise<number>;
+
+  // Legacy loan requests and reservations, read by the holds migration
+  getAllLoanRequests(): Promise<LoanRequest[]>;
   getAllReservations(): Promise<Reservation[]>;
-  getReservationsByUser(userId: string): Promise<Reservation[]>;
-  getReservationsByBook(bookId: string): Promise<Reservation[]>;
-  createReservation(reservation: InsertReservation): Promise<Reservation>;
-  updateReservation(id: string, reservation: Partial<Reservation>): Promise<Reservation | undefined>;
 
   // Fine methods
   getFine(id: string): Promise<Fine | undefined>;
@@ -82,13 +273,36 @@ export interface IStorage {
   updateFine(id: string, fine: Partial<Fine>): Promise<Fine | undefined>;
   getFinesByLoan(loanId: string): Promise<Fine[]>;
 
-  // Loan Request methods
-  getLoanRequest(id: string): Promise<LoanRequest | undefined>;
-  getAllLoanRequests(): Promise<LoanRequest[]>;
-  getLoanRequestsByUser(userId: string): Promise<LoanRequest[]>;
-  getLoanRequestsByStatus(status: string): Promise<LoanRequest[]>;
-  createLoanRequest(loanRequest: InsertLoanRequest): Promise<LoanRequest>;
-  updateLoanRequest(id: string, loanRequest: Partial<LoanRequest>): Promise<LoanRequest | undefined>;
+  // Fine ledger methods (every write refreshes the fine's totals and status)
+  getFineTransactions(fineId: string): Promise<FineTransaction[]>;
+  getFineTransactionsByUser(userId: string): Promise<FineTransaction[]>;
+  getAllFineTransactions(): Promise<FineTransaction[]>;
+  // Skips days already charged, so the nightly job can safely re-run
+  accrueFine(fineId: string, accruals: FineAccrual[]): Promise<FineTransaction[]>;
+  // Payments, waivers and adjustments; throws when a credit exceeds the balance
+  postFineTransaction(transaction: InsertFineTransaction): Promise<FineTransaction>;
+  getFineBalance(fineId: string): Promise<number>;
+  getFineBalances(): Promise<Map<string, number>>;
+  getUserFineBalance(userId: string): Promise<number>;
+  getFinePaymentByReceipt(receiptNumber: number): Promise<FineTransaction | undefined>;
+  // Payments taken at the desk in [from, to), oldest first; legacy payments are left out
+  getFinePayments(from: Date, to: Date): Promise<FineTransaction[]>;
+
+  // Fine dispute methods; opening and deciding a dispute also refresh the fine's status
+  getFineDispute(id: string): Promise<FineDispute | undefined>;
+  getAllFineDisputes(): Promise<FineDispute[]>;
+  getFineDisputesByUser(userId: string): Promise<FineDispute[]>;
+  getFineDisputesByFine(fineId: string): Promise<FineDispute[]>;
+  createFineDispute(dispute: InsertFineDispute): Promise<FineDispute>;
+  // Approving posts the waiver to the ledger in the same transaction
+  decideFineDispute(id: string, decision: FineDisputeDecision): Promise<FineDispute>;
+
+  // User block methods; a block is active between its start and end dates
+  getUserBlock(id: string): Promise<UserBlock | undefined>;
+  getUserBlocks(userId: string): Promise<UserBlock[]>;
+  getActiveUserBlocks(at: Date): Promise<UserBlock[]>;
+  createUserBlock(block: InsertUserBlock): Promise<UserBlock>;
+  updateUserBlock(id: string, block: Partial<UserBlock>): Promise<UserBlock | undefined>;
 
   // Renewal Request methods
   getRenewalRequest(id: string): Promise<RenewalRequest | undefined>;
@@ -105,8 +319,6 @@ export interface IStorage {
   updateReview(id: string, review: Partial<Review>): Promise<Review | undefined>;
   deleteReview(id: string): Promise<boolean>;
   deleteRenewalRequest(id: string): Promise<boolean>;
-  deleteReservation(id: string): Promise<boolean>;
-  deleteReservationByUserAndBook(userId: string, bookId: string): Promise<boolean>;
 
   // Author methods
   getAuthor(id: string): Promise<Author | undefined>;
@@ -118,6 +330,78 @@ export interface IStorage {
   // Category methods (extending existing)
   updateCategory(id: string, category: Partial<Category>): Promise<Category | undefined>;
   deleteCategory(id: string): Promise<boolean>;
+
+  // Loan policy methods
+  getLoanPolicy(id: string): Promise<LoanPolicy | undefined>;
+  getAllLoanPolicies(): Promise<LoanPolicy[]>;
+  createLoanPolicy(policy: InsertLoanPolicy): Promise<LoanPolicy>;
+  updateLoanPolicy(id: string, policy: Partial<LoanPolicy>): Promise<LoanPolicy | undefined>;
+  deleteLoanPolicy(id: string): Promise<boolean>;
+
+  // Borrower policy methods
+  getBorrowerPolicy(userType: string): Promise<BorrowerPolicy | undefined>;
+  getAllBorrowerPolicies(): Promise<BorrowerPolicy[]>;
+  upsertBorrowerPolicy(policy: InsertBorrowerPolicy): Promise<BorrowerPolicy>;
+
+  // Academic calendar methods
+  getAllOpeningHours(): Promise<OpeningHours[]>;
+  upsertOpeningHours(hours: InsertOpeningHours): Promise<OpeningHours>;
+  getCalendarEvent(id: string): Promise<CalendarEvent | undefined>;
+  getAllCalendarEvents(): Promise<CalendarEvent[]>;
+  createCalendarEvent(event: InsertCalendarEvent): Promise<CalendarEvent>;
+  updateCalendarEvent(id: string, event: Partial<CalendarEvent>): Promise<CalendarEvent | undefined>;
+  deleteCalendarEvent(id: string): Promise<boolean>;
+
+  // Notification methods; the centre lists in-app notifications, newest first
+  getNotifications(userId: string, limit: number): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: string): Promise<number>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  // Marks the given notifications of the user read (all of them when ids is omitted); returns how many changed
+  markNotificationsRead(userId: string, ids?: string[]): Promise<number>;
+  // Digest notifications not yet sent, oldest first
+  getPendingDigestNotifications(): Promise<Notification[]>;
+  markNotificationsDigested(ids: string[], at: Date): Promise<void>;
+  // Records that the loan got its notice of this type on `noticeDate`
+  // (YYYY-MM-DD); false when it already had, and the notice must not go again
+  claimLoanNotice(loanId: string, type: LoanNotice["type"], noticeDate: string): Promise<boolean>;
+
+  // Notification preference methods; only types the user changed have a row
+  getNotificationPreferences(userId: string): Promise<NotificationPreference[]>;
+  upsertNotificationPreference(preference: InsertNotificationPreference): Promise<NotificationPreference>;
+
+  // Phone verification methods; a user has at most one pending code
+  getPhoneVerification(userId: string): Promise<PhoneVerification | undefined>;
+  savePhoneVerification(verification: InsertPhoneVerification): Promise<PhoneVerification>;
+  deletePhoneVerification(userId: string): Promise<boolean>;
+
+  // Email template methods; only templates an admin edited have a row
+  getEmailTemplates(): Promise<EmailTemplate[]>;
+  getEmailTemplate(key: string, language: EmailTemplate["language"]): Promise<EmailTemplate | undefined>;
+  upsertEmailTemplate(template: InsertEmailTemplate): Promise<EmailTemplate>;
+  deleteEmailTemplate(key: string, language: EmailTemplate["language"]): Promise<boolean>;
+
+  // Email outbox methods; the log lists newest first
+  getOutboxEmail(id: string): Promise<OutboxEmail | undefined>;
+  getOutboxEmails(status: OutboxEmail["status"] | undefined, limit: number): Promise<OutboxEmail[]>;
+  getOutboxStatusCounts(): Promise<Record<OutboxEmail["status"], number>>;
+  createOutboxEmail(email: InsertOutboxEmail): Promise<OutboxEmail>;
+  updateOutboxEmail(id: string, email: Partial<OutboxEmail>): Promise<OutboxEmail | undefined>;
+  // Locks up to `limit` emails due for an attempt, oldest due first, and counts
+  // the attempt. Emails left in sending since before `staleBefore` (a worker
+  // that died mid-send) are due again.
+  claimOutboxEmails(now: Date, staleBefore: Date, limit: number): Promise<OutboxEmail[]>;
+
+  // Job run methods; the history lists newest first
+  getJobRuns(job: string | undefined, limit: number): Promise<JobRun[]>;
+  // Starts a run unless the job already has a running or succeeded run for the
+  // same runKey (returns undefined then). Runs still marked running since
+  // before `staleBefore` were cut short by a crash and are failed first.
+  startJobRun(run: InsertJobRun, staleBefore: Date): Promise<JobRun | undefined>;
+  finishJobRun(id: string, outcome: Pick<JobRun, "status" | "result" | "error">): Promise<JobRun | undefined>;
+
+  // Audit event methods; events are only ever added, and listed newest first
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(filters: AuditEventFilters): Promise<AuditEvent[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -176,6 +460,183 @@ export class DatabaseStorage implements IStorage {
     );
   }
 
+  // One condition per active filter, keyed by the facet it narrows so that
+  // facet counts can leave their own out
+  private catalogueConditions(filters: CatalogueFilters): { conditions: CatalogueConditions; rank?: SQL } {
+    const conditions: CatalogueConditions = {};
+    if (filters.categoryIds?.length) conditions.categories = inArray(books.categoryId, filters.categoryIds);
+    if (filters.departments?.length) conditions.departments = inArray(books.department, filters.departments);
+    if (filters.authors?.length) conditions.authors = inArray(books.author, filters.authors);
+    if (filters.publishers?.length) conditions.publishers = inArray(books.publisher, filters.publishers);
+    if (filters.decades?.length) conditions.decades = inArray(bookDecade, filters.decades);
+    if (filters.tags?.length) conditions.tags = inArray(books.tag, filters.tags);
+    if (filters.available) conditions.available = gt(books.availableCopies, 0);
+    if (filters.minRating) conditions.ratings = gte(bookRating, filters.minRating);
+    if (filters.query) conditions.query = this.bookQueryCondition(filters.query);
+
+    // Every word matched as a prefix in the full-text document ("engenh soft"),
+    // or a title/author close enough to survive typos, or an ISBN prefix
+    const terms = catalogueSearchTerms(filters.search);
+    if (terms.length === 0) return { conditions };
+
+    const document = bookSearchDocument(books);
+    const key = bookSearchKey(books);
+    const tsQuery = sql`to_tsquery('portuguese', ${terms.map(t => `${t}:*`).join(" & ")})`;
+    const phrase = terms.join(" ");
+    const isbn = filters.search!.replace(/[\s-]/g, "");
+
+    conditions.search = or(
+      sql`${document} @@ ${tsQuery}`,
+      sql`${phrase} <% ${key}`,
+      /^\d{4,}[\dXx]*$/.test(isbn) ? ilike(sql`replace(${books.isbn}, '-', '')`, `${isbn}%`) : undefined,
+    );
+    return { conditions, rank: sql`ts_rank_cd(${document}, ${tsQuery}) + word_similarity(${phrase}, ${key})` };
+  }
+
+  private bookQueryCondition(query: BookQuery): SQL {
+    switch (query.type) {
+      case "and":
+        return and(...query.operands.map(operand => this.bookQueryCondition(operand)))!;
+      case "or":
+        return or(...query.operands.map(operand => this.bookQueryCondition(operand)))!;
+      case "not":
+        // Unknown values (no year, no reviews) fail the inner condition, so pass its negation
+        return sql`not coalesce(${this.bookQueryCondition(query.operand)}, false)`;
+      case "text": {
+        const pattern = containing(query.value);
+        const isbn = like(sql`replace(${foldedText(books.isbn)}, '-', '')`, containing(query.value.replace(/[\s-]/g, "")));
+        const fields = {
+          title: like(foldedText(books.title), pattern),
+          author: like(foldedText(books.author), pattern),
+          isbn,
+          publisher: like(foldedText(books.publisher), pattern),
+          description: like(foldedText(books.description), pattern),
+          category: inArray(
+            books.categoryId,
+            db.select({ id: categories.id }).from(categories).where(like(foldedText(categories.name), pattern)),
+          ),
+        };
+        return query.field ? fields[query.field] : or(fields.title, fields.author, fields.isbn, fields.publisher, fields.description)!;
+      }
+      case "tag":
+        return eq(books.tag, query.value);
+      case "department":
+        return eq(books.department, query.value);
+      case "available":
+        return query.value ? gt(books.availableCopies, 0) : lte(books.availableCopies, 0);
+      case "range": {
+        const value = query.field === "year" ? sql<number>`${books.yearPublished}` : bookRating;
+        return and(
+          query.min !== null ? gte(value, query.min) : isNotNull(value),
+          query.max !== null ? lte(value, query.max) : undefined,
+        )!;
+      }
+    }
+  }
+
+  async searchCatalogue(query: CatalogueQuery): Promise<CataloguePage> {
+    const { conditions, rank } = this.catalogueConditions(query);
+    const where = and(...Object.values(conditions));
+    const order: SQL[] = {
+      relevance: rank ? [desc(rank), asc(books.title)] : [asc(books.title)],
+      title: [asc(books.title)],
+      author: [asc(books.author), asc(books.title)],
+      year: [sql`${books.yearPublished} desc nulls last`, asc(books.title)],
+      newest: [desc(books.createdAt)],
+    }[query.sort];
+
+    const [page, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(books)
+        .where(where)
+        .orderBy(...order, asc(books.id))
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize),
+      db.select({ total: sql<number>`count(*)::int` }).from(books).where(where),
+    ]);
+    return { books: page, total };
+  }
+
+  async getCatalogueFacets(filters: CatalogueFilters): Promise<CatalogueFacets> {
+    const { conditions } = this.catalogueConditions(filters);
+    const except = (facet: keyof CatalogueFacets) =>
+      and(...Object.entries(conditions).filter(([key]) => key !== facet).map(([, condition]) => condition));
+    const count = sql<number>`count(*)::int`;
+
+    // Most common values first; selected ones always make the cut
+    const countBy = <T>(facet: keyof CatalogueFacets, column: SQL<T> | AnyPgColumn, selected: unknown[] = [], limit = 100) => {
+      const value = sql<T>`${column}`;
+      return db
+        .select({ value, count })
+        .from(books)
+        .where(and(except(facet), isNotNull(value)))
+        .groupBy(value)
+        .orderBy(...(selected.length > 0 ? [desc(inArray(value, selected))] : []), desc(count), asc(value))
+        .limit(limit);
+    };
+
+    const [categories, departments, authors, publishers, decades, tags, [{ available }], [ratings]] = await Promise.all([
+      countBy<string>("categories", books.categoryId),
+      countBy<Book["department"]>("departments", books.department),
+      countBy<string>("authors", books.author, filters.authors, FACET_VALUE_LIMIT),
+      countBy<string>("publishers", books.publisher, filters.publishers, FACET_VALUE_LIMIT),
+      countBy<number>("decades", bookDecade),
+      countBy<Book["tag"]>("tags", books.tag),
+      db.select({ available: count }).from(books).where(and(except("available"), gt(books.availableCopies, 0))),
+      db
+        .select(Object.fromEntries(RATING_THRESHOLDS.map(t => [t, sql<number>`(count(*) filter (where ${bookRating} >= ${t}))::int`])))
+        .from(books)
+        .where(except("ratings")),
+    ]);
+
+    return {
+      categories,
+      departments,
+      authors,
+      publishers,
+      decades: decades.sort((a, b) => b.value - a.value),
+      tags,
+      available,
+      ratings: RATING_THRESHOLDS.map(t => ({ value: t, count: ratings[t] })),
+    };
+  }
+
+  async getBookStats(bookIds: string[]): Promise<Map<string, BookStats>> {
+    const stats = new Map<string, BookStats>(
+      bookIds.map(id => [id, { loanCount: 0, totalFines: 0, averageRating: 0, reviewCount: 0 }]),
+    );
+    if (bookIds.length === 0) return stats;
+
+    const [loanCounts, fineTotals, ratings] = await Promise.all([
+      db
+        .select({ bookId: loans.bookId, count: sql<number>`count(*)::int` })
+        .from(loans)
+        .where(inArray(loans.bookId, bookIds))
+        .groupBy(loans.bookId),
+      db
+        .select({ bookId: loans.bookId, total: sql<string>`coalesce(sum(${fines.amount}), 0)` })
+        .from(fines)
+        .innerJoin(loans, eq(fines.loanId, loans.id))
+        .where(inArray(loans.bookId, bookIds))
+        .groupBy(loans.bookId),
+      db
+        .select({ bookId: reviews.bookId, count: sql<number>`count(*)::int`, average: sql<string>`avg(${reviews.rating})` })
+        .from(reviews)
+        .where(inArray(reviews.bookId, bookIds))
+        .groupBy(reviews.bookId),
+    ]);
+
+    for (const row of loanCounts) stats.get(row.bookId)!.loanCount = row.count;
+    for (const row of fineTotals) stats.get(row.bookId)!.totalFines = parseFloat(row.total);
+    for (const row of ratings) {
+      const entry = stats.get(row.bookId)!;
+      entry.reviewCount = row.count;
+      entry.averageRating = parseFloat(row.average);
+    }
+    return stats;
+  }
+
   async createBook(insertBook: InsertBook): Promise<Book> {
     const [book] = await db.insert(books).values(insertBook).returning();
     return book;
@@ -191,10 +652,78 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteBook(id: string): Promise<boolean> {
+    await db.delete(bookCopies).where(eq(bookCopies.bookId, id));
     const [deletedBook] = await db.delete(books).where(eq(books.id, id)).returning();
     return !!deletedBook;
   }
 
+  // Book copy methods
+  async getBookCopy(id: string): Promise<BookCopy | undefined> {
+    const [copy] = await db.select().from(bookCopies).where(eq(bookCopies.id, id));
+    return copy;
+  }
+
+  async getBookCopyByBarcode(barcode: string): Promise<BookCopy | undefined> {
+    const [copy] = await db.select().from(bookCopies).where(eq(bookCopies.barcode, barcode));
+    return copy;
+  }
+
+  async getCopiesByBook(bookId: string): Promise<BookCopy[]> {
+    return await db.select().from(bookCopies).where(eq(bookCopies.bookId, bookId)).orderBy(asc(bookCopies.createdAt));
+  }
+
+  async getAllBookCopies(): Promise<BookCopy[]> {
+    return await db.select().from(bookCopies);
+  }
+
+  async createBookCopy(insertCopy: InsertBookCopy): Promise<BookCopy> {
+    const [copy] = await db.insert(bookCopies).values(insertCopy).returning();
+    await this.refreshBookAvailability(copy.bookId);
+    return copy;
+  }
+
+  async updateBookCopy(id: string, copyData: Partial<BookCopy>): Promise<BookCopy | undefined> {
+    const [updatedCopy] = await db
+      .update(bookCopies)
+      .set(copyData)
+      .where(eq(bookCopies.id, id))
+      .returning();
+    if (updatedCopy) {
+      await this.refreshBookAvailability(updatedCopy.bookId);
+    }
+    return updatedCopy;
+  }
+
+  async deleteBookCopy(id: string): Promise<boolean> {
+    const [deletedCopy] = await db.delete(bookCopies).where(eq(bookCopies.id, id)).returning();
+    if (deletedCopy) {
+      await this.refreshBookAvailability(deletedCopy.bookId);
+    }
+    return !!deletedCopy;
+  }
+
+  async refreshBookAvailability(bookId: string): Promise<Book | undefined> {
+    return this.recountCopies(db, bookId);
+  }
+
+  // Withdrawn and lost copies no longer count towards the holding
+  private async recountCopies(executor: Executor, bookId: string): Promise<Book | undefined> {
+    const [counts] = await executor
+      .select({
+        total: sql<number>`count(*) filter (where ${bookCopies.status} not in ('withdrawn', 'lost'))`.mapWith(Number),
+        available: sql<number>`count(*) filter (where ${bookCopies.status} = 'available')`.mapWith(Number),
+      })
+      .from(bookCopies)
+      .where(eq(bookCopies.bookId, bookId));
+
+    const [book] = await executor
+      .update(books)
+      .set({ totalCopies: counts?.total ?? 0, availableCopies: counts?.available ?? 0 })
+      .where(eq(books.id, bookId))
+      .returning();
+    return book;
+  }
+
   // Category methods
   async getCategory(id: string): Promise<Category | undefined> {
     const [category] = await db.select().from(categories).where(eq(categories.id, id));
@@ -281,6 +810,10 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(loans).where(eq(loans.bookId, bookId));
   }
 
+  async getLoansByCopy(copyId: string): Promise<Loan[]> {
+    return await db.select().from(loans).where(eq(loans.copyId, copyId));
+  }
+
   async getActiveLoans(): Promise<Loan[]> {
     return await db.select().from(loans).where(eq(loans.status, "active"));
   }
@@ -306,60 +839,255 @@ export class DatabaseStorage implements IStorage {
     return updatedLoan;
   }
 
+  async checkoutBook(params: CheckoutParams): Promise<Loan> {
+    return db.transaction(async (tx) => {
+      // Lock the user row so the user's concurrent checkouts, of any title,
+      // queue up and each one counts the loans made by the previous one
+      const [user] = await tx.select().from(users).where(eq(users.id, params.userId)).for("update");
+      if (!user || !user.isActive) {
+        throw new Error("Utilizador não encontrado ou inativo");
+      }
+
+      // Lock the book row so concurrent checkouts of the same title queue up
+      // here and each one sees the copies left by the previous one
+      const [book] = await tx.select().from(books).where(eq(books.id, params.bookId)).for("update");
+      if (!book) {
+        throw new Error("Livro não encontrado");
+      }
+
+      const now = new Date();
+      const [block] = await tx.select().from(userBlocks).where(and(
+        eq(userBlocks.userId, params.userId),
+        lte(userBlocks.startDate, now),
+        or(isNull(userBlocks.endDate), gt(userBlocks.endDate, now))
+      )).limit(1);
+      if (block) {
+        throw new Error("Conta bloqueada");
+      }
+
+      const openLoans = await tx.select().from(loans).where(and(
+        eq(loans.userId, params.userId),
+        or(eq(loans.status, "active"), eq(loans.status, "overdue"))
+      ));
+      if (openLoans.some(l => l.bookId === params.bookId)) {
+        throw new Error("Você já tem este livro emprestado no momento");
+      }
+      if (params.maxBooks !== undefined && openLoans.length >= params.maxBooks) {
+        throw new Error(`Limite de ${params.maxBooks} livros atingido para este tipo de utilizador`);
+      }
+
+      // The loan fulfils the user's open hold on the book; a copy held for it is theirs to take
+      const [hold] = await tx.select().from(holds).where(and(
+        eq(holds.userId, params.userId),
+        eq(holds.bookId, params.bookId),
+        inArray(holds.status, openHoldStatuses)
+      )).for("update");
+      const heldCopyId = hold?.copyId ?? undefined;
+      const wantedCopyId = params.copyId ?? heldCopyId;
+
+      // Other users' requests count against the copies on the shelf
+      if (!heldCopyId) {
+        const [{ shelf }] = await tx
+          .select({ shelf: sql<number>`count(*)::int` })
+          .from(bookCopies)
+          .where(and(eq(bookCopies.bookId, params.bookId), eq(bookCopies.status, "available")));
+        const [{ claims }] = await tx
+          .select({ claims: sql<number>`count(*)::int` })
+          .from(holds)
+          .where(and(
+            eq(holds.bookId, params.bookId),
+            inArray(holds.status, ["requested", "approved"]),
+            ne(holds.userId, params.userId)
+          ));
+        if (shelf > 0 && shelf <= claims) {
+          throw new Error("Não há cópias livres além das reservadas");
+        }
+      }
+
+      const [copy] = await tx
+        .select()
+        .from(bookCopies)
+        .where(and(
+          eq(bookCopies.bookId, params.bookId),
+          heldCopyId
+            ? or(eq(bookCopies.status, "available"), and(eq(bookCopies.id, heldCopyId), eq(bookCopies.status, "on_hold")))
+            : eq(bookCopies.status, "available"),
+          wantedCopyId ? eq(bookCopies.id, wantedCopyId) : undefined
+        ))
+        .orderBy(asc(bookCopies.createdAt))
+        .limit(1)
+        .for("update");
+      if (!copy) {
+        throw new Error(params.copyId
+          ? "Este exemplar não está disponível para empréstimo"
+          : "Livro indisponível (zero cópias disponíveis)");
+      }
+
+      const [loan] = await tx.insert(loans).values({
+        userId: params.userId,
+        bookId: params.bookId,
+        copyId: copy.id,
+        dueDate: params.dueDate,
+      }).returning();
+
+      await tx.update(bookCopies).set({ status: "on_loan" }).where(eq(bookCopies.id, copy.id));
+      // Took another copy than the one held: the held one goes back on the shelf
+      if (heldCopyId && heldCopyId !== copy.id) {
+        await tx
+          .update(bookCopies)
+          .set({ status: "available" })
+          .where(and(eq(bookCopies.id, heldCopyId), eq(bookCopies.status, "on_hold")));
+      }
+      await this.recountCopies(tx, params.bookId);
+
+      if (hold) {
+        await tx.update(holds).set({ status: "fulfilled", loanId: loan.id }).where(eq(holds.id, hold.id));
+      }
+
+      return loan;
+    });
+  }
+
+  async checkinLoan(loanId: string, params: CheckinParams): Promise<Loan> {
+    return db.transaction(async (tx) => {
+      // Locking the loan makes a double scan at the desk return it only once
+      const [loan] = await tx.select().from(loans).where(eq(loans.id, loanId)).for("update");
+      if (!loan) {
+        throw new Error("Empréstimo não encontrado");
+      }
+      if (loan.status === "returned") {
+        throw new Error("Empréstimo já foi devolvido");
+      }
+
+      if (params.fineAccruals?.length) {
+        // Charged under the loan lock: a return that fails or repeats charges nothing
+        const [latestFine] = await tx
+          .select()
+          .from(fines)
+          .where(eq(fines.loanId, loan.id))
+          .orderBy(desc(fines.createdAt))
+          .limit(1)
+          .for("update");
+        const fine = latestFine ?? (await tx.insert(fines).values({ loanId: loan.id, userId: loan.userId }).returning())[0];
+        await this.insertAccruals(tx, fine, params.fineAccruals);
+      }
+
+      await tx.select().from(books).where(eq(books.id, loan.bookId)).for("update");
+
+      const [returnedLoan] = await tx
+        .update(loans)
+        .set({ status: "returned", returnDate: params.returnDate })
+        .where(eq(loans.id, loan.id))
+        .returning();
+
+      // Copies marked lost or sent to repair while out keep their status
+      if (loan.copyId) {
+        await tx
+          .update(bookCopies)
+          .set({ status: "available" })
+          .where(and(eq(bookCopies.id, loan.copyId), eq(bookCopies.status, "on_loan")));
+      }
+      await this.recountCopies(tx, loan.bookId);
+
+      return returnedLoan;
+    });
+  }
+
   async deleteLoan(id: string): Promise<boolean> {
     const [deletedLoan] = await db.delete(loans).where(eq(loans.id, id)).returning();
     return !!deletedLoan;
   }
 
-  // Reservation methods
-  async getReservation(id: string): Promise<Reservation | undefined> {
-    const [reservation] = await db.select().from(reservations).where(eq(reservations.id, id));
-    return reservation;
+  // Hold methods
+  async getHold(id: string): Promise<Hold | undefined> {
+    const [hold] = await db.select().from(holds).where(eq(holds.id, id));
+    return hold;
   }
 
-  async getAllReservations(): Promise<Reservation[]> {
-    return await db.select().from(reservations);
+  async getAllHolds(): Promise<Hold[]> {
+    return await db.select().from(holds);
   }
 
-  async getReservationsByUser(userId: string): Promise<Reservation[]> {
-    return await db.select().from(reservations).where(eq(reservations.userId, userId));
+  async getHoldsByUser(userId: string): Promise<Hold[]> {
+    return await db.select().from(holds).where(eq(holds.userId, userId));
   }
 
-  async getReservationsByBook(bookId: string): Promise<Reservation[]> {
-    return await db.select().from(reservations).where(eq(reservations.bookId, bookId));
+  async getHoldsByBook(bookId: string): Promise<Hold[]> {
+    return await db.select().from(holds).where(eq(holds.bookId, bookId));
   }
 
-  async createReservation(insertReservation: InsertReservation): Promise<Reservation> {
-    const [reservation] = await db.insert(reservations).values(insertReservation).returning();
-    return reservation;
+  async createHold(insertHold: InsertHold): Promise<Hold> {
+    const [hold] = await db.insert(holds).values(insertHold).returning();
+    return hold;
   }
 
-  async updateReservation(id: string, reservationData: Partial<Reservation>): Promise<Reservation | undefined> {
-    const [updatedReservation] = await db
-      .update(reservations)
-      .set(reservationData)
-      .where(eq(reservations.id, id))
-      .returning();
-    return updatedReservation;
+  async updateHold(id: string, holdData: Partial<Hold>): Promise<Hold | undefined> {
+    const [hold] = await db.update(holds).set(holdData).where(eq(holds.id, id)).returning();
+    return hold;
   }
 
-  async deleteReservation(id: string): Promise<boolean> {
-    const [deletedReservation] = await db.delete(reservations).where(eq(reservations.id, id)).returning();
-    return !!deletedReservation;
+  async holdCopy(holdId: string, copyId: string, expirationDate: Date): Promise<Hold> {
+    return db.transaction(async (tx) => {
+      const [hold] = await tx.select().from(holds).where(eq(holds.id, holdId)).for("update");
+      if (!hold || (hold.status !== "approved" && hold.status !== "waiting")) {
+        throw new Error("Esta reserva já não está em espera");
+      }
+
+      const [copy] = await tx.select().from(bookCopies).where(eq(bookCopies.id, copyId)).for("update");
+      if (!copy || copy.bookId !== hold.bookId || copy.status !== "available") {
+        throw new Error("Este exemplar não está disponível para empréstimo");
+      }
+
+      await tx.update(bookCopies).set({ status: "on_hold" }).where(eq(bookCopies.id, copy.id));
+      const [held] = await tx
+        .update(holds)
+        .set({ status: "ready_for_pickup", copyId: copy.id, notificationDate: new Date(), expirationDate, reminderDate: null })
+        .where(eq(holds.id, hold.id))
+        .returning();
+      await this.recountCopies(tx, hold.bookId);
+      return held;
+    });
   }
 
-  async deleteReservationByUserAndBook(userId: string, bookId: string): Promise<boolean> {
-    const [deletedReservation] = await db
-      .delete(reservations)
-      .where(
-        and(
-          eq(reservations.userId, userId),
-          eq(reservations.bookId, bookId),
-          or(eq(reservations.status, "pending"), eq(reservations.status, "notified"))
-        )
-      )
-      .returning();
-    return !!deletedReservation;
+  async releaseHold(holdId: string, release: HoldRelease): Promise<Hold> {
+    return db.transaction(async (tx) => {
+      const [hold] = await tx.select().from(holds).where(eq(holds.id, holdId)).for("update");
+      if (!hold || !openHoldStatuses.includes(hold.status)) {
+        throw new Error("Esta reserva já não está ativa");
+      }
+
+      const [released] = await tx
+        .update(holds)
+        .set({
+          status: release.status,
+          notes: release.notes ?? hold.notes,
+          ...(release.reviewedBy ? { reviewedBy: release.reviewedBy, reviewDate: new Date() } : {}),
+        })
+        .where(eq(holds.id, hold.id))
+        .returning();
+      if (hold.copyId && hold.status === "ready_for_pickup") {
+        await tx
+          .update(bookCopies)
+          .set({ status: "available" })
+          .where(and(eq(bookCopies.id, hold.copyId), eq(bookCopies.status, "on_hold")));
+        await this.recountCopies(tx, hold.bookId);
+      }
+      return released;
+    });
+  }
+
+  async importHolds(legacyHolds: Hold[]): Promise<number> {
+    if (legacyHolds.length === 0) return 0;
+    const inserted = await db.insert(holds).values(legacyHolds).onConflictDoNothing({ target: holds.id }).returning();
+    return inserted.length;
+  }
+
+  async getAllLoanRequests(): Promise<LoanRequest[]> {
+    return await db.select().from(loanRequests);
+  }
+
+  async getAllReservations(): Promise<Reservation[]> {
+    return await db.select().from(reservations);
   }
 
   // Fine methods
@@ -394,38 +1122,312 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(fines).where(eq(fines.loanId, loanId));
   }
 
-  // Loan Request methods
-  async getLoanRequest(id: string): Promise<LoanRequest | undefined> {
-    const [request] = await db.select().from(loanRequests).where(eq(loanRequests.id, id));
-    return request;
+  // Fine ledger methods
+  async getFineTransactions(fineId: string): Promise<FineTransaction[]> {
+    return await db
+      .select()
+      .from(fineTransactions)
+      .where(eq(fineTransactions.fineId, fineId))
+      .orderBy(asc(fineTransactions.createdAt));
   }
 
-  async getAllLoanRequests(): Promise<LoanRequest[]> {
-    return await db.select().from(loanRequests);
+  async getFineTransactionsByUser(userId: string): Promise<FineTransaction[]> {
+    return await db
+      .select()
+      .from(fineTransactions)
+      .where(eq(fineTransactions.userId, userId))
+      .orderBy(asc(fineTransactions.createdAt));
   }
 
-  async getLoanRequestsByUser(userId: string): Promise<LoanRequest[]> {
-    return await db.select().from(loanRequests).where(eq(loanRequests.userId, userId));
+  async getAllFineTransactions(): Promise<FineTransaction[]> {
+    return await db.select().from(fineTransactions).orderBy(asc(fineTransactions.createdAt));
   }
 
-  async getLoanRequestsByStatus(status: string): Promise<LoanRequest[]> {
-    // We need to cast the string status to the enum type if strict, but drizzle usually handles string -> enum comparison if valid.
-    // Casting to any to avoid strict type issues if enum mismatch, though it should be fine.
-    return await db.select().from(loanRequests).where(eq(loanRequests.status, status as any));
+  async accrueFine(fineId: string, accruals: FineAccrual[]): Promise<FineTransaction[]> {
+    if (accruals.length === 0) return [];
+
+    return db.transaction(async (tx) => {
+      const fine = await this.lockFine(tx, fineId);
+      return this.insertAccruals(tx, fine, accruals);
+    });
   }
 
-  async createLoanRequest(insertLoanRequest: InsertLoanRequest): Promise<LoanRequest> {
-    const [request] = await db.insert(loanRequests).values(insertLoanRequest).returning();
-    return request;
+  // Days already charged to the fine are skipped; the fine must be locked
+  private async insertAccruals(executor: Executor, fine: Fine, accruals: FineAccrual[]): Promise<FineTransaction[]> {
+    const inserted = await executor
+      .insert(fineTransactions)
+      .values(accruals.map(a => ({
+        fineId: fine.id,
+        userId: fine.userId,
+        type: "accrual" as const,
+        amount: a.amount.toFixed(2),
+        accrualDate: a.accrualDate,
+      })))
+      .onConflictDoNothing({ target: [fineTransactions.fineId, fineTransactions.accrualDate] })
+      .returning();
+
+    if (inserted.length > 0) {
+      await executor
+        .update(fines)
+        .set({ daysOverdue: fine.daysOverdue + inserted.length })
+        .where(eq(fines.id, fine.id));
+      await this.refreshFineTotals(executor, fine.id);
+    }
+    return inserted;
   }
 
-  async updateLoanRequest(id: string, loanRequestData: Partial<LoanRequest>): Promise<LoanRequest | undefined> {
-    const [updatedRequest] = await db
-      .update(loanRequests)
-      .set(loanRequestData)
-      .where(eq(loanRequests.id, id))
+  async postFineTransaction(transaction: InsertFineTransaction): Promise<FineTransaction> {
+    return db.transaction(async (tx) => {
+      const fine = await this.lockFine(tx, transaction.fineId);
+      const entry = await this.insertLedgerEntry(tx, fine, transaction);
+      await this.refreshFineTotals(tx, fine.id);
+      return entry;
+    });
+  }
+
+  async getFineBalance(fineId: string): Promise<number> {
+    return this.sumFineBalance(db, fineId);
+  }
+
+  async getFineBalances(): Promise<Map<string, number>> {
+    const rows = await db
+      .select({
+        fineId: fineTransactions.fineId,
+        balance: sql<string>`coalesce(sum(${fineTransactions.amount}), 0)`,
+      })
+      .from(fineTransactions)
+      .groupBy(fineTransactions.fineId);
+    return new Map(rows.map(r => [r.fineId, parseFloat(r.balance)]));
+  }
+
+  async getUserFineBalance(userId: string): Promise<number> {
+    const [row] = await db
+      .select({ balance: sql<string>`coalesce(sum(${fineTransactions.amount}), 0)` })
+      .from(fineTransactions)
+      .where(eq(fineTransactions.userId, userId));
+    return parseFloat(row.balance);
+  }
+
+  async getFinePaymentByReceipt(receiptNumber: number): Promise<FineTransaction | undefined> {
+    const [payment] = await db
+      .select()
+      .from(fineTransactions)
+      .where(eq(fineTransactions.receiptNumber, receiptNumber));
+    return payment;
+  }
+
+  async getFinePayments(from: Date, to: Date): Promise<FineTransaction[]> {
+    return await db
+      .select()
+      .from(fineTransactions)
+      .where(and(
+        eq(fineTransactions.type, "payment"),
+        eq(fineTransactions.isLegacy, false),
+        gte(fineTransactions.createdAt, from),
+        lt(fineTransactions.createdAt, to)
+      ))
+      .orderBy(asc(fineTransactions.createdAt));
+  }
+
+  // Locking the fine serialises concurrent payments against the same balance
+  private async lockFine(executor: Executor, fineId: string): Promise<Fine> {
+    const [fine] = await executor.select().from(fines).where(eq(fines.id, fineId)).for("update");
+    if (!fine) {
+      throw new Error("Multa não encontrada");
+    }
+    return fine;
+  }
+
+  private async insertLedgerEntry(executor: Executor, fine: Fine, transaction: InsertFineTransaction): Promise<FineTransaction> {
+    const balance = await this.sumFineBalance(executor, fine.id);
+    const amount = parseFloat(transaction.amount);
+    if (balance + amount < -0.005) {
+      throw new Error(`O valor excede o saldo em dívida (${balance.toFixed(2)} Kz)`);
+    }
+
+    const [entry] = await executor
+      .insert(fineTransactions)
+      .values({
+        ...transaction,
+        userId: fine.userId,
+        amount: amount.toFixed(2),
+        receiptNumber: transaction.type === "payment" && !transaction.isLegacy ? sql`nextval('fine_receipt_number_seq')` : null,
+      })
       .returning();
-    return updatedRequest;
+    return entry;
+  }
+
+  private async sumFineBalance(executor: Executor, fineId: string): Promise<number> {
+    const [row] = await executor
+      .select({ balance: sql<string>`coalesce(sum(${fineTransactions.amount}), 0)` })
+      .from(fineTransactions)
+      .where(eq(fineTransactions.fineId, fineId));
+    return parseFloat(row.balance);
+  }
+
+  // Charged amount (accruals and adjustments), status and settlement date
+  private async refreshFineTotals(executor: Executor, fineId: string): Promise<void> {
+    const [totals] = await executor
+      .select({
+        charged: sql<string>`coalesce(sum(${fineTransactions.amount}) filter (where ${fineTransactions.type} in ('accrual', 'adjustment')), 0)`,
+        paid: sql<string>`coalesce(sum(${fineTransactions.amount}) filter (where ${fineTransactions.type} = 'payment'), 0)`,
+        waived: sql<string>`coalesce(sum(${fineTransactions.amount}) filter (where ${fineTransactions.type} = 'waiver'), 0)`,
+        balance: sql<string>`coalesce(sum(${fineTransactions.amount}), 0)`,
+        lastCredit: sql<Date | null>`max(${fineTransactions.createdAt}) filter (where ${fineTransactions.type} in ('payment', 'waiver'))`,
+      })
+      .from(fineTransactions)
+      .where(eq(fineTransactions.fineId, fineId));
+    const [openDispute] = await executor
+      .select({ id: fineDisputes.id })
+      .from(fineDisputes)
+      .where(and(eq(fineDisputes.fineId, fineId), eq(fineDisputes.status, "pending")));
+
+    const settled = parseFloat(totals.balance) <= 0.005;
+    const paid = parseFloat(totals.paid) < 0;
+    const waived = parseFloat(totals.waived) < 0;
+
+    let status: Fine["status"];
+    if (settled) {
+      status = waived && !paid ? "waived" : "paid";
+    } else if (openDispute) {
+      status = "disputed";
+    } else {
+      status = waived ? "partially_waived" : "pending";
+    }
+
+    await executor
+      .update(fines)
+      .set({
+        amount: parseFloat(totals.charged).toFixed(2),
+        status,
+        paymentDate: settled && totals.lastCredit ? new Date(totals.lastCredit) : null,
+      })
+      .where(eq(fines.id, fineId));
+  }
+
+  // Fine dispute methods
+  async getFineDispute(id: string): Promise<FineDispute | undefined> {
+    const [dispute] = await db.select().from(fineDisputes).where(eq(fineDisputes.id, id));
+    return dispute;
+  }
+
+  async getAllFineDisputes(): Promise<FineDispute[]> {
+    return await db.select().from(fineDisputes).orderBy(asc(fineDisputes.createdAt));
+  }
+
+  async getFineDisputesByUser(userId: string): Promise<FineDispute[]> {
+    return await db
+      .select()
+      .from(fineDisputes)
+      .where(eq(fineDisputes.userId, userId))
+      .orderBy(asc(fineDisputes.createdAt));
+  }
+
+  async getFineDisputesByFine(fineId: string): Promise<FineDispute[]> {
+    return await db
+      .select()
+      .from(fineDisputes)
+      .where(eq(fineDisputes.fineId, fineId))
+      .orderBy(asc(fineDisputes.createdAt));
+  }
+
+  async createFineDispute(insertDispute: InsertFineDispute): Promise<FineDispute> {
+    return db.transaction(async (tx) => {
+      const fine = await this.lockFine(tx, insertDispute.fineId);
+      if (await this.sumFineBalance(tx, fine.id) <= 0) {
+        throw new Error("Não há saldo em dívida nesta multa");
+      }
+
+      const [open] = await tx
+        .select({ id: fineDisputes.id })
+        .from(fineDisputes)
+        .where(and(eq(fineDisputes.fineId, fine.id), eq(fineDisputes.status, "pending")));
+      if (open) {
+        throw new Error("Já existe uma contestação pendente para esta multa");
+      }
+
+      const [dispute] = await tx
+        .insert(fineDisputes)
+        .values({ ...insertDispute, userId: fine.userId })
+        .returning();
+      await this.refreshFineTotals(tx, fine.id);
+      return dispute;
+    });
+  }
+
+  async decideFineDispute(id: string, decision: FineDisputeDecision): Promise<FineDispute> {
+    return db.transaction(async (tx) => {
+      const [dispute] = await tx.select().from(fineDisputes).where(eq(fineDisputes.id, id)).for("update");
+      if (!dispute) {
+        throw new Error("Contestação não encontrada");
+      }
+      if (dispute.status !== "pending") {
+        throw new Error("Esta contestação já foi decidida");
+      }
+
+      const fine = await this.lockFine(tx, dispute.fineId);
+      let waivedAmount: number | null = null;
+      if (decision.approved) {
+        waivedAmount = decision.waivedAmount ?? await this.sumFineBalance(tx, fine.id);
+        if (waivedAmount <= 0) {
+          throw new Error("Não há saldo em dívida nesta multa");
+        }
+        await this.insertLedgerEntry(tx, fine, {
+          fineId: fine.id,
+          userId: fine.userId,
+          type: "waiver",
+          amount: (-waivedAmount).toFixed(2),
+          reason: decision.notes,
+          recordedBy: decision.reviewedBy,
+        });
+      }
+
+      const [decided] = await tx
+        .update(fineDisputes)
+        .set({
+          status: decision.approved ? "approved" : "rejected",
+          waivedAmount: waivedAmount === null ? null : waivedAmount.toFixed(2),
+          reviewedBy: decision.reviewedBy,
+          reviewDate: new Date(),
+          notes: decision.notes,
+        })
+        .where(eq(fineDisputes.id, dispute.id))
+        .returning();
+      await this.refreshFineTotals(tx, fine.id);
+      return decided;
+    });
+  }
+
+  // User block methods
+  async getUserBlock(id: string): Promise<UserBlock | undefined> {
+    const [block] = await db.select().from(userBlocks).where(eq(userBlocks.id, id));
+    return block;
+  }
+
+  async getUserBlocks(userId: string): Promise<UserBlock[]> {
+    return await db
+      .select()
+      .from(userBlocks)
+      .where(eq(userBlocks.userId, userId))
+      .orderBy(asc(userBlocks.startDate));
+  }
+
+  async getActiveUserBlocks(at: Date): Promise<UserBlock[]> {
+    return await db
+      .select()
+      .from(userBlocks)
+      .where(and(lte(userBlocks.startDate, at), or(isNull(userBlocks.endDate), gt(userBlocks.endDate, at))))
+      .orderBy(asc(userBlocks.startDate));
+  }
+
+  async createUserBlock(insertBlock: InsertUserBlock): Promise<UserBlock> {
+    const [block] = await db.insert(userBlocks).values(insertBlock).returning();
+    return block;
+  }
+
+  async updateUserBlock(id: string, blockData: Partial<UserBlock>): Promise<UserBlock | undefined> {
+    const [block] = await db.update(userBlocks).set(blockData).where(eq(userBlocks.id, id)).returning();
+    return block;
   }
 
   // Renewal Request methods
@@ -493,7 +1495,348 @@ export class DatabaseStorage implements IStorage {
     const [deletedReview] = await db.delete(reviews).where(eq(reviews.id, id)).returning();
     return !!deletedReview;
   }
+
+  // Loan policy methods
+  async getLoanPolicy(id: string): Promise<LoanPolicy | undefined> {
+    const [policy] = await db.select().from(loanPolicies).where(eq(loanPolicies.id, id));
+    return policy;
+  }
+
+  async getAllLoanPolicies(): Promise<LoanPolicy[]> {
+    return await db.select().from(loanPolicies);
+  }
+
+  async createLoanPolicy(insertPolicy: InsertLoanPolicy): Promise<LoanPolicy> {
+    const [policy] = await db.insert(loanPolicies).values(insertPolicy).returning();
+    return policy;
+  }
+
+  async updateLoanPolicy(id: string, policyData: Partial<LoanPolicy>): Promise<LoanPolicy | undefined> {
+    const [updatedPolicy] = await db
+      .update(loanPolicies)
+      .set({ ...policyData, updatedAt: new Date() })
+      .where(eq(loanPolicies.id, id))
+      .returning();
+    return updatedPolicy;
+  }
+
+  async deleteLoanPolicy(id: string): Promise<boolean> {
+    const [deletedPolicy] = await db.delete(loanPolicies).where(eq(loanPolicies.id, id)).returning();
+    return !!deletedPolicy;
+  }
+
+  // Borrower policy methods
+  async getBorrowerPolicy(userType: string): Promise<BorrowerPolicy | undefined> {
+    const [policy] = await db.select().from(borrowerPolicies).where(eq(borrowerPolicies.userType, userType as any));
+    return policy;
+  }
+
+  async getAllBorrowerPolicies(): Promise<BorrowerPolicy[]> {
+    return await db.select().from(borrowerPolicies);
+  }
+
+  async upsertBorrowerPolicy(insertPolicy: InsertBorrowerPolicy): Promise<BorrowerPolicy> {
+    const [policy] = await db
+      .insert(borrowerPolicies)
+      .values(insertPolicy)
+      .onConflictDoUpdate({
+        target: borrowerPolicies.userType,
+        set: { ...insertPolicy, updatedAt: new Date() },
+      })
+      .returning();
+    return policy;
+  }
+
+  // Academic calendar methods
+  async getAllOpeningHours(): Promise<OpeningHours[]> {
+    return await db.select().from(openingHours).orderBy(asc(openingHours.weekday));
+  }
+
+  async upsertOpeningHours(insertHours: InsertOpeningHours): Promise<OpeningHours> {
+    const [hours] = await db
+      .insert(openingHours)
+      .values(insertHours)
+      .onConflictDoUpdate({
+        target: openingHours.weekday,
+        set: insertHours,
+      })
+      .returning();
+    return hours;
+  }
+
+  async getCalendarEvent(id: string): Promise<CalendarEvent | undefined> {
+    const [event] = await db.select().from(calendarEvents).where(eq(calendarEvents.id, id));
+    return event;
+  }
+
+  async getAllCalendarEvents(): Promise<CalendarEvent[]> {
+    return await db.select().from(calendarEvents).orderBy(asc(calendarEvents.startDate));
+  }
+
+  async createCalendarEvent(insertEvent: InsertCalendarEvent): Promise<CalendarEvent> {
+    const [event] = await db.insert(calendarEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async updateCalendarEvent(id: string, eventData: Partial<CalendarEvent>): Promise<CalendarEvent | undefined> {
+    const [updatedEvent] = await db
+      .update(calendarEvents)
+      .set(eventData)
+      .where(eq(calendarEvents.id, id))
+      .returning();
+    return updatedEvent;
+  }
+
+  async deleteCalendarEvent(id: string): Promise<boolean> {
+    const [deletedEvent] = await db.delete(calendarEvents).where(eq(calendarEvents.id, id)).returning();
+    return !!deletedEvent;
+  }
+
+  // Notification methods
+  async getNotifications(userId: string, limit: number): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.inApp, true)))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    const [{ unread }] = await db
+      .select({ unread: sql<number>`count(*)`.mapWith(Number) })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.inApp, true), isNull(notifications.readAt)));
+    return unread;
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await db.insert(notifications).values(insertNotification).returning();
+    return notification;
+  }
+
+  async markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+    if (ids && ids.length === 0) return 0;
+    const read = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.userId, userId),
+        isNull(notifications.readAt),
+        ids ? inArray(notifications.id, ids) : undefined,
+      ))
+      .returning({ id: notifications.id });
+    return read.length;
+  }
+
+  async getPendingDigestNotifications(): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.digest, true), isNull(notifications.digestedAt)))
+      .orderBy(asc(notifications.createdAt));
+  }
+
+  async markNotificationsDigested(ids: string[], at: Date): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(notifications).set({ digestedAt: at }).where(inArray(notifications.id, ids));
+  }
+
+  async claimLoanNotice(loanId: string, type: LoanNotice["type"], noticeDate: string): Promise<boolean> {
+    const claimed = await db
+      .insert(loanNotices)
+      .values({ loanId, type, noticeDate })
+      .onConflictDoNothing({ target: [loanNotices.loanId, loanNotices.type, loanNotices.noticeDate] })
+      .returning({ id: loanNotices.id });
+    return claimed.length > 0;
+  }
+
+  // Notification preference methods
+  async getNotificationPreferences(userId: string): Promise<NotificationPreference[]> {
+    return await db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+  }
+
+  async upsertNotificationPreference(insertPreference: InsertNotificationPreference): Promise<NotificationPreference> {
+    const [preference] = await db
+      .insert(notificationPreferences)
+      .values(insertPreference)
+      .onConflictDoUpdate({
+        target: [notificationPreferences.userId, notificationPreferences.type],
+        set: { ...insertPreference, updatedAt: new Date() },
+      })
+      .returning();
+    return preference;
+  }
+
+  // Phone verification methods
+  async getPhoneVerification(userId: string): Promise<PhoneVerification | undefined> {
+    const [verification] = await db.select().from(phoneVerifications).where(eq(phoneVerifications.userId, userId));
+    return verification;
+  }
+
+  async savePhoneVerification(insertVerification: InsertPhoneVerification): Promise<PhoneVerification> {
+    const [verification] = await db
+      .insert(phoneVerifications)
+      .values(insertVerification)
+      .onConflictDoUpdate({
+        target: phoneVerifications.userId,
+        set: insertVerification,
+      })
+      .returning();
+    return verification;
+  }
+
+  async deletePhoneVerification(userId: string): Promise<boolean> {
+    const [deleted] = await db.delete(phoneVerifications).where(eq(phoneVerifications.userId, userId)).returning();
+    return !!deleted;
+  }
+
+  // Email template methods
+  async getEmailTemplates(): Promise<EmailTemplate[]> {
+    return await db.select().from(emailTemplates).orderBy(asc(emailTemplates.key), asc(emailTemplates.language));
+  }
+
+  async getEmailTemplate(key: string, language: EmailTemplate["language"]): Promise<EmailTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(emailTemplates)
+      .where(and(eq(emailTemplates.key, key), eq(emailTemplates.language, language)));
+    return template;
+  }
+
+  async upsertEmailTemplate(insertTemplate: InsertEmailTemplate): Promise<EmailTemplate> {
+    const [template] = await db
+      .insert(emailTemplates)
+      .values(insertTemplate)
+      .onConflictDoUpdate({
+        target: [emailTemplates.key, emailTemplates.language],
+        set: { ...insertTemplate, updatedAt: new Date() },
+      })
+      .returning();
+    return template;
+  }
+
+  async deleteEmailTemplate(key: string, language: EmailTemplate["language"]): Promise<boolean> {
+    const [deleted] = await db
+      .delete(emailTemplates)
+      .where(and(eq(emailTemplates.key, key), eq(emailTemplates.language, language)))
+      .returning();
+    return !!deleted;
+  }
+
+  // Email outbox methods
+  async getOutboxEmail(id: string): Promise<OutboxEmail | undefined> {
+    const [email] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id));
+    return email;
+  }
+
+  async getOutboxEmails(status: OutboxEmail["status"] | undefined, limit: number): Promise<OutboxEmail[]> {
+    return await db
+      .select()
+      .from(emailOutbox)
+      .where(status ? eq(emailOutbox.status, status) : undefined)
+      .orderBy(desc(emailOutbox.createdAt))
+      .limit(limit);
+  }
+
+  async getOutboxStatusCounts(): Promise<Record<OutboxEmail["status"], number>> {
+    const rows = await db
+      .select({ status: emailOutbox.status, count: sql<number>`count(*)::int` })
+      .from(emailOutbox)
+      .groupBy(emailOutbox.status);
+    const counts = { pending: 0, sending: 0, sent: 0, failed: 0, bounced: 0 };
+    for (const row of rows) counts[row.status] = row.count;
+    return counts;
+  }
+
+  async createOutboxEmail(insertEmail: InsertOutboxEmail): Promise<OutboxEmail> {
+    const [email] = await db.insert(emailOutbox).values(insertEmail).returning();
+    return email;
+  }
+
+  async updateOutboxEmail(id: string, updateData: Partial<OutboxEmail>): Promise<OutboxEmail | undefined> {
+    const [email] = await db
+      .update(emailOutbox)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(emailOutbox.id, id))
+      .returning();
+    return email;
+  }
+
+  async claimOutboxEmails(now: Date, staleBefore: Date, limit: number): Promise<OutboxEmail[]> {
+    // SKIP LOCKED lets several server instances work the queue without
+    // sending the same email twice
+    const due = db
+      .select({ id: emailOutbox.id })
+      .from(emailOutbox)
+      .where(or(
+        and(eq(emailOutbox.status, "pending"), lte(emailOutbox.nextAttemptAt, now)),
+        and(eq(emailOutbox.status, "sending"), lt(emailOutbox.lockedAt, staleBefore)),
+      ))
+      .orderBy(asc(emailOutbox.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db
+      .update(emailOutbox)
+      .set({ status: "sending", lockedAt: now, attempts: sql`${emailOutbox.attempts} + 1`, updatedAt: now })
+      .where(inArray(emailOutbox.id, due))
+      .returning();
+  }
+
+  // Job run methods
+  async getJobRuns(job: string | undefined, limit: number): Promise<JobRun[]> {
+    return await db
+      .select()
+      .from(jobRuns)
+      .where(job ? eq(jobRuns.job, job) : undefined)
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(limit);
+  }
+
+  async startJobRun(run: InsertJobRun, staleBefore: Date): Promise<JobRun | undefined> {
+    await db
+      .update(jobRuns)
+      .set({ status: "failed", error: STALE_JOB_RUN_ERROR, finishedAt: new Date() })
+      .where(and(eq(jobRuns.job, run.job), eq(jobRuns.status, "running"), lt(jobRuns.startedAt, staleBefore)));
+
+    // A conflict on the partial unique index means another run holds the period
+    const [started] = await db.insert(jobRuns).values(run).onConflictDoNothing().returning();
+    return started;
+  }
+
+  async finishJobRun(id: string, outcome: Pick<JobRun, "status" | "result" | "error">): Promise<JobRun | undefined> {
+    const [run] = await db
+      .update(jobRuns)
+      .set({ ...outcome, finishedAt: new Date() })
+      .where(eq(jobRuns.id, id))
+      .returning();
+    return run;
+  }
+
+  // Audit event methods
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const [event] = await db.insert(auditEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async getAuditEvents(filters: AuditEventFilters): Promise<AuditEvent[]> {
+    const conditions = [];
+    if (filters.actorId === null) conditions.push(isNull(auditEvents.actorId));
+    else if (filters.actorId) conditions.push(eq(auditEvents.actorId, filters.actorId));
+    if (filters.entityType) conditions.push(eq(auditEvents.entityType, filters.entityType));
+    if (filters.entityId) conditions.push(eq(auditEvents.entityId, filters.entityId));
+    if (filters.from) conditions.push(gte(auditEvents.createdAt, filters.from));
+    if (filters.to) conditions.push(lt(auditEvents.createdAt, filters.to));
+
+    return await db
+      .select()
+      .from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.createdAt))
+      .limit(filters.limit);
+  }
 }
 
-export const storage = new DatabaseStorage();
+export const storage: IStorage = withAuditing(useMemoryStorage ? new MemStorage() : new DatabaseStorage());
 
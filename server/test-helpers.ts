@@ -0,0 +1,125 @@
+import express, { type Express } from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { randomUUID } from "crypto";
+import { useMemoryStorage } from "./db";
+import { storage } from "./storage";
+import { registerRoutes } from "./routes";
+import { hashPassword } from "./auth";
+import { addCopies } from "./copies";
+import type { Book, InsertBook, InsertUser, User } from "@shared/schema";
+
+// Shared by the *.test.ts suites, which run with `npm test` (STORAGE=memory)
+if (!useMemoryStorage) {
+  throw new Error("Tests run on MemStorage: start them with STORAGE=memory (npm test).");
+}
+
+export const TEST_PASSWORD = "segredo123";
+let passwordHash: Promise<string> | undefined;
+
+export interface ApiResponse<T = any> {
+  status: number;
+  body: T;
+}
+
+/**
+ * A browser session against the test server: keeps the session cookie between
+ * requests.
+ */
+export class ApiClient {
+  private cookie: string | undefined;
+
+  constructor(private readonly baseUrl: string) {}
+
+  async request<T = any>(method: string, path: string, body?: unknown): Promise<ApiResponse<T>> {
+    const res = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(body !== undefined && { "Content-Type": "application/json" }),
+        ...(this.cookie && { Cookie: this.cookie }),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const setCookie = res.headers.get("set-cookie");
+    if (setCookie) this.cookie = setCookie.split(";")[0];
+
+    const text = await res.text();
+    return { status: res.status, body: text ? JSON.parse(text) : undefined };
+  }
+
+  get<T = any>(path: string) {
+    return this.request<T>("GET", path);
+  }
+
+  post<T = any>(path: string, body: unknown = {}) {
+    return this.request<T>("POST", path, body);
+  }
+
+  patch<T = any>(path: string, body: unknown) {
+    return this.request<T>("PATCH", path, body);
+  }
+}
+
+export interface TestServer {
+  app: Express;
+  server: Server;
+  baseUrl: string;
+  login(user: Pick<User, "username">): Promise<ApiClient>;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts `registerRoutes` on MemStorage on a free port. All suites of a test
+ * file share the storage, so each test creates its own users and books.
+ */
+export async function startTestServer(): Promise<TestServer> {
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    app,
+    server,
+    baseUrl,
+    async login(user) {
+      const client = new ApiClient(baseUrl);
+      const res = await client.post("/api/auth/login", { username: user.username, password: TEST_PASSWORD });
+      if (res.status !== 200) {
+        throw new Error(`Login of ${user.username} failed: ${res.status} ${JSON.stringify(res.body)}`);
+      }
+      return client;
+    },
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(err => (err ? reject(err) : resolve()));
+    }),
+  };
+}
+
+export async function createTestUser(userType: User["userType"] = "student", data: Partial<InsertUser> = {}): Promise<User> {
+  const username = `${userType}-${randomUUID().slice(0, 8)}@isptec.co.ao`;
+  passwordHash ??= hashPassword(TEST_PASSWORD);
+  return storage.createUser({
+    username,
+    email: username,
+    name: `Teste ${userType}`,
+    userType,
+    isActive: true,
+    password: await passwordHash,
+    ...data,
+  });
+}
+
+// A book with `copies` copies on the shelf; white tag (normal loan) unless given
+export async function createTestBook(copies = 1, data: Partial<InsertBook> = {}): Promise<Book> {
+  const book = await storage.createBook({
+    title: `Livro de teste ${randomUUID().slice(0, 8)}`,
+    author: "Autor de Teste",
+    tag: "white",
+    ...data,
+  });
+  await addCopies(book.id, copies);
+  return (await storage.getBook(book.id))!;
+}
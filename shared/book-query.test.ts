@@ -0,0 +1,138 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { parseBookQuery, bookQueryTerms, type BookQuery } from "./book-query";
+import { startTestServer, createTestUser, createTestBook, type TestServer } from "../server/test-helpers";
+
+function parse(input: string): BookQuery | null {
+  const { query, error } = parseBookQuery(input);
+  assert.equal(error, undefined, `"${input}" should parse`);
+  return query!;
+}
+
+const text = (value: string, field: string | null = null) => ({ type: "text", field, value });
+
+describe("book query parser", () => {
+  it("reads an empty query as no filter", () => {
+    assert.equal(parse("   "), null);
+  });
+
+  it("folds text and keeps quoted phrases together", () => {
+    assert.deepEqual(parse('Ação "  O   Lobo "'), { type: "and", operands: [text("acao"), text("o lobo")] });
+    assert.deepEqual(parse("a-b"), text("a-b"));
+  });
+
+  it("binds side-by-side terms tighter than OR", () => {
+    assert.deepEqual(parse("a b OR c"), {
+      type: "or",
+      operands: [{ type: "and", operands: [text("a"), text("b")] }, text("c")],
+    });
+    assert.deepEqual(parse("a AND b"), { type: "and", operands: [text("a"), text("b")] });
+  });
+
+  it("groups with parentheses", () => {
+    assert.deepEqual(parse("a (b OR c)"), {
+      type: "and",
+      operands: [text("a"), { type: "or", operands: [text("b"), text("c")] }],
+    });
+  });
+
+  it("negates the next term with NOT or a leading -", () => {
+    assert.deepEqual(parse("NOT a b"), { type: "and", operands: [{ type: "not", operand: text("a") }, text("b")] });
+    assert.deepEqual(parse("-(a OR b)"), { type: "not", operand: { type: "or", operands: [text("a"), text("b")] } });
+  });
+
+  it("accepts Portuguese field and value names", () => {
+    assert.deepEqual(parse('titulo:"O Lobo" autor:Pepetela editora:Mayamba categoria:romance descricao:guerra'), {
+      type: "and",
+      operands: [
+        text("o lobo", "title"), text("pepetela", "author"), text("mayamba", "publisher"),
+        text("romance", "category"), text("guerra", "description"),
+      ],
+    });
+    assert.deepEqual(parse("etiqueta:Amarela"), { type: "tag", value: "yellow" });
+    assert.deepEqual(parse("departamento:engenharia"), { type: "department", value: "engenharia" });
+    assert.deepEqual(parse("disponivel:não"), { type: "available", value: false });
+    assert.deepEqual(parse("avaliação:4.."), { type: "range", field: "rating", min: 4, max: null });
+  });
+
+  it("reads open, closed and single-value ranges", () => {
+    assert.deepEqual(parse("year:1990..2000"), { type: "range", field: "year", min: 1990, max: 2000 });
+    assert.deepEqual(parse("ano:..1990"), { type: "range", field: "year", min: null, max: 1990 });
+    assert.deepEqual(parse("year:1995"), { type: "range", field: "year", min: 1995, max: 1995 });
+    assert.deepEqual(parse("rating:3,5..4.5"), { type: "range", field: "rating", min: 3.5, max: 4.5 });
+  });
+
+  it("highlights only the text outside NOT", () => {
+    assert.deepEqual(bookQueryTerms(parse('angola (autor:pepetela OR "mar") -guerra tag:white')), ["angola", "pepetela", "mar"]);
+  });
+});
+
+describe("book query errors", () => {
+  // Each message with the span of the query it points at
+  const cases: [string, RegExp, number, number][] = [
+    ['title:"abc', /^Aspas por fechar$/, 6, 10],
+    ["a foo:bar", /^Campo desconhecido "foo"\. Campos: title, author/, 2, 6],
+    ["autor:", /^Falta um valor depois de "autor:"$/, 0, 6],
+    ["autor: x", /^Falta um valor depois de "autor:"$/, 0, 6],
+    ["x tag:blue", /^A etiqueta deve ser red, yellow ou white$/, 2, 10],
+    ["department:x", /^O departamento deve ser engenharia, ciencias-sociais, outros$/, 0, 12],
+    ["available:maybe", /^available aceita true ou false$/, 0, 15],
+    ["year:abc", /^Intervalo inválido para year: use, por exemplo, 1990\.\.2000/, 0, 8],
+    ["rating:..", /^Intervalo inválido para rating: use, por exemplo, 4\.\. ou 3\.\.4\.5$/, 0, 9],
+    ["year:2000..1990", /^O início do intervalo é maior do que o fim$/, 0, 15],
+    ['a ""', /^Frase vazia$/, 2, 4],
+    ["a ( )", /^Parênteses vazios$/, 2, 5],
+    ["a (b", /^Parêntese por fechar$/, 2, 3],
+    ["a) b", /^Parêntese "\)" sem abertura$/, 1, 2],
+    ["OR a", /^Falta um termo antes de OR$/, 0, 2],
+    ["a OR", /^Falta um termo depois de OR$/, 2, 4],
+    ["a AND OR b", /^Falta um termo depois de AND$/, 2, 5],
+    ["a NOT", /^Falta um termo depois de NOT$/, 2, 5],
+  ];
+
+  for (const [input, message, start, end] of cases) {
+    it(`points at ${start}..${end} of ${JSON.stringify(input)}`, () => {
+      const { error } = parseBookQuery(input);
+      assert.ok(error, `"${input}" should not parse`);
+      assert.match(error.message, message);
+      assert.deepEqual([error.start, error.end], [start, end]);
+    });
+  }
+});
+
+describe("GET /api/books?q=", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(() => server.close());
+
+  it("filters the catalogue by the query", async () => {
+    const author = `Autor ${Date.now()}`;
+    const [white, yellow] = [
+      await createTestBook(1, { author, tag: "white" }),
+      await createTestBook(1, { author, tag: "yellow" }),
+    ];
+    const client = await server.login(await createTestUser("staff"));
+
+    const res = await client.get(`/api/books?q=${encodeURIComponent(`autor:"${author}" -etiqueta:amarela`)}`);
+    assert.equal(res.status, 200);
+    const ids = res.body.books.map((b: { id: string }) => b.id);
+    assert.ok(ids.includes(white.id));
+    assert.ok(!ids.includes(yellow.id));
+  });
+
+  it("returns the parser's error on q with its span", async () => {
+    const client = await server.login(await createTestUser("staff"));
+    const q = "autor:pepetela (year:2000..1990";
+    const res = await client.get(`/api/books?q=${encodeURIComponent(q)}`);
+
+    assert.equal(res.status, 400);
+    const { error } = parseBookQuery(q);
+    const issue = res.body.errors.find((e: { path: string[] }) => e.path[0] === "q");
+    assert.equal(issue.message, error!.message);
+    assert.deepEqual(issue.params, { start: error!.start, end: error!.end });
+  });
+});
@@ -0,0 +1,260 @@
+import { bookTagEnum, departmentEnum, type Book } from "./schema";
+
+// Advanced catalogue search for staff, e.g.
+//   author:"Pepetela" year:1990..2000 (tag:yellow OR tag:white) -available:false
+// Terms side by side must all match; OR, NOT / "-" and parentheses combine them.
+// Text is matched as a substring, ignoring case and accents; quotes keep a
+// phrase together. Parsed in the browser (syntax errors, highlighting) and again
+// by GET /api/books?q=.
+
+export const bookQueryTextFields = ["title", "author", "isbn", "publisher", "description", "category"] as const;
+export type BookQueryTextField = typeof bookQueryTextFields[number];
+
+export type BookQuery =
+  | { type: "and" | "or"; operands: BookQuery[] }
+  | { type: "not"; operand: BookQuery }
+  | { type: "text"; field: BookQueryTextField | null; value: string } // null: any text field; value folded
+  | { type: "tag"; value: Book["tag"] }
+  | { type: "department"; value: Book["department"] }
+  | { type: "available"; value: boolean }
+  | { type: "range"; field: "year" | "rating"; min: number | null; max: number | null }; // Inclusive
+
+export interface BookQueryError {
+  message: string;
+  start: number; // Offending span of the query string
+  end: number;
+}
+
+export type BookQueryResult = { query: BookQuery | null; error?: undefined } | { query?: undefined; error: BookQueryError };
+
+type BookQueryField = BookQueryTextField | "tag" | "department" | "available" | "year" | "rating";
+
+// Portuguese names work as well as the English ones
+const fieldNames = new Map<string, BookQueryField>([
+  ["title", "title"], ["titulo", "title"],
+  ["author", "author"], ["autor", "author"],
+  ["isbn", "isbn"],
+  ["publisher", "publisher"], ["editora", "publisher"],
+  ["description", "description"], ["descricao", "description"],
+  ["category", "category"], ["categoria", "category"],
+  ["tag", "tag"], ["etiqueta", "tag"],
+  ["department", "department"], ["departamento", "department"],
+  ["available", "available"], ["disponivel", "available"],
+  ["year", "year"], ["ano", "year"],
+  ["rating", "rating"], ["avaliacao", "rating"],
+]);
+
+const tagNames = new Map<string, Book["tag"]>([
+  ...bookTagEnum.enumValues.map(tag => [tag, tag] as const),
+  ["vermelha", "red"], ["amarela", "yellow"], ["branca", "white"],
+]);
+const booleanNames = new Map([["true", true], ["sim", true], ["false", false], ["nao", false]]);
+const operators = new Map<string, Token["type"]>([["AND", "and"], ["OR", "or"], ["NOT", "not"]]);
+
+// Lowercase without accents, as text is compared on both sides
+export function foldSearchText(text: string): string {
+  return text.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+interface Token {
+  type: "word" | "field" | "and" | "or" | "not" | "open" | "close";
+  value: string;
+  start: number;
+  end: number;
+}
+
+class QuerySyntaxError {
+  constructor(readonly error: BookQueryError) {}
+}
+
+function fail(message: string, token: { start: number; end: number }): never {
+  throw new QuerySyntaxError({ message, start: token.start, end: token.end });
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const c = input[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === "(" || c === ")") {
+      tokens.push({ type: c === "(" ? "open" : "close", value: c, start: i, end: i + 1 });
+      i++;
+    } else if (c === '"') {
+      const close = input.indexOf('"', i + 1);
+      if (close < 0) fail("Aspas por fechar", { start: i, end: input.length });
+      tokens.push({ type: "word", value: input.slice(i + 1, close), start: i, end: close + 1 });
+      i = close + 1;
+    } else if (c === "-" && /[^\s)]/.test(input[i + 1] ?? " ") && (i === 0 || /[\s(]/.test(input[i - 1]))) {
+      tokens.push({ type: "not", value: c, start: i, end: i + 1 });
+      i++;
+    } else {
+      let end = i;
+      while (end < input.length && !/[\s()"]/.test(input[end])) end++;
+      const word = input.slice(i, end);
+      const field = /^([^\s:]+):/.exec(word);
+      if (field) {
+        tokens.push({ type: "field", value: field[1], start: i, end: i + field[0].length });
+        i += field[0].length;
+      } else {
+        const operator = operators.get(word);
+        tokens.push({ type: operator ?? "word", value: word, start: i, end });
+        i = end;
+      }
+    }
+  }
+  return tokens;
+}
+
+function parseRange(value: string, field: "year" | "rating", span: { start: number; end: number }): BookQuery {
+  const number = field === "year" ? "(\\d+)" : "(\\d+(?:[.,]\\d+)?)";
+  const match = new RegExp(`^${number}?(\\.\\.)?${number}?$`).exec(value.trim());
+  const hint = field === "year" ? "1990..2000, 1990.. ou 1995" : "4.. ou 3..4.5";
+  if (!match || (!match[1] && !match[3]) || (!match[2] && match[3])) {
+    fail(`Intervalo inválido para ${field}: use, por exemplo, ${hint}`, span);
+  }
+  const min = match[1] ? parseFloat(match[1].replace(",", ".")) : null;
+  const max = match[2] ? (match[3] ? parseFloat(match[3].replace(",", ".")) : null) : min;
+  if (min !== null && max !== null && min > max) fail("O início do intervalo é maior do que o fim", span);
+  return { type: "range", field, min, max };
+}
+
+function parseClause(field: Token, value: Token | undefined): BookQuery {
+  const name = fieldNames.get(foldSearchText(field.value));
+  if (!name) {
+    fail(`Campo desconhecido "${field.value}". Campos: ${Array.from(new Set(fieldNames.values())).join(", ")}`, field);
+  }
+  if (!value || value.type !== "word" || value.start !== field.end) {
+    fail(`Falta um valor depois de "${field.value}:"`, field);
+  }
+
+  const span = { start: field.start, end: value.end };
+  const folded = foldSearchText(value.value.trim());
+  switch (name) {
+    case "tag": {
+      const tag = tagNames.get(folded);
+      if (!tag) fail("A etiqueta deve ser red, yellow ou white", span);
+      return { type: "tag", value: tag };
+    }
+    case "department": {
+      const department = departmentEnum.enumValues.find(d => d === folded);
+      if (!department) fail(`O departamento deve ser ${departmentEnum.enumValues.join(", ")}`, span);
+      return { type: "department", value: department };
+    }
+    case "available": {
+      const available = booleanNames.get(folded);
+      if (available === undefined) fail("available aceita true ou false", span);
+      return { type: "available", value: available };
+    }
+    case "year":
+    case "rating":
+      return parseRange(value.value, name, span);
+    default:
+      return parseText(value, name);
+  }
+}
+
+function parseText(token: Token, field: BookQueryTextField | null): BookQuery {
+  const value = foldSearchText(token.value).trim().replace(/\s+/g, " ");
+  if (!value) fail("Frase vazia", token);
+  return { type: "text", field, value };
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): BookQuery | null {
+    if (this.tokens.length === 0) return null;
+    const query = this.parseOr();
+    const extra = this.peek();
+    if (extra) fail('Parêntese ")" sem abertura', extra);
+    return query;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.position++];
+  }
+
+  // The operator must be followed by something it can apply to
+  private expectOperand(operator: Token) {
+    const next = this.peek();
+    if (!next || next.type === "close" || next.type === "and" || next.type === "or") {
+      fail(`Falta um termo depois de ${operator.value}`, operator);
+    }
+  }
+
+  private parseOr(): BookQuery {
+    const operands = [this.parseAnd()];
+    while (this.peek()?.type === "or") {
+      this.expectOperand(this.next()!);
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: "or", operands };
+  }
+
+  private parseAnd(): BookQuery {
+    const operands = [this.parseUnary()];
+    for (let token = this.peek(); token && token.type !== "or" && token.type !== "close"; token = this.peek()) {
+      if (token.type === "and") this.expectOperand(this.next()!);
+      operands.push(this.parseUnary());
+    }
+    return operands.length === 1 ? operands[0] : { type: "and", operands };
+  }
+
+  private parseUnary(): BookQuery {
+    const token = this.peek()!;
+    if (token.type !== "not") return this.parsePrimary();
+    this.next();
+    this.expectOperand(token);
+    return { type: "not", operand: this.parseUnary() };
+  }
+
+  private parsePrimary(): BookQuery {
+    const token = this.next()!;
+    switch (token.type) {
+      case "open": {
+        if (this.peek()?.type === "close") fail("Parênteses vazios", { start: token.start, end: this.peek()!.end });
+        if (!this.peek()) fail("Parêntese por fechar", token);
+        const query = this.parseOr();
+        if (this.next()?.type !== "close") fail("Parêntese por fechar", token);
+        return query;
+      }
+      case "close":
+        return fail('Parêntese ")" sem abertura', token);
+      case "and":
+      case "or":
+        return fail(`Falta um termo antes de ${token.value}`, token);
+      case "field":
+        return parseClause(token, this.next());
+      default:
+        return parseText(token, null);
+    }
+  }
+}
+
+export function parseBookQuery(input: string): BookQueryResult {
+  try {
+    return { query: new Parser(tokenize(input)).parse() };
+  } catch (e) {
+    if (e instanceof QuerySyntaxError) return { error: e.error };
+    throw e;
+  }
+}
+
+// Text the query looks for (outside NOT), to highlight in the results
+export function bookQueryTerms(query: BookQuery | null | undefined): string[] {
+  const terms = new Set<string>();
+  const visit = (node: BookQuery) => {
+    if (node.type === "and" || node.type === "or") node.operands.forEach(visit);
+    else if (node.type === "text") terms.add(node.value);
+  };
+  if (query) visit(query);
+  return Array.from(terms);
+}
@@ -1,5 +1,5 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, decimal, pgEnum } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
+import { pgTable, text, varchar, integer, timestamp, boolean, decimal, pgEnum, json, index, uniqueIndex, date, unique, pgSequence, type PgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,10 +7,23 @@ import { z } from "zod";
 export const userTypeEnum = pgEnum("user_type", ["student", "teacher", "staff", "admin"]);
 export const bookTagEnum = pgEnum("book_tag", ["red", "yellow", "white"]);
 export const departmentEnum = pgEnum("department", ["engenharia", "ciencias-sociais", "outros"]);
-export const loanStatusEnum = pgEnum("loan_status", ["active", "returned", "overdue"]);
-export const reservationStatusEnum = pgEnum("reservation_status", ["pending", "notified", "completed", "cancelled"]);
-export const fineStatusEnum = pgEnum("fine_status", ["pending", "paid"]);
+export const loanStatusEnum = pgEnum("loan_status", ["active", "returned", "overdue", "lost"]);
+export const reservationStatusEnum = pgEnum("reservation_status", ["pending", "notified", "completed", "cancelled", "expired"]);
+export const fineStatusEnum = pgEnum("fine_status", ["pending", "paid", "disputed", "waived", "partially_waived"]);
+export const fineTransactionTypeEnum = pgEnum("fine_transaction_type", ["accrual", "payment", "waiver", "adjustment"]);
+export const paymentMethodEnum = pgEnum("payment_method", ["cash", "multicaixa", "bank_transfer"]);
+export const holdStatusEnum = pgEnum("hold_status", ["requested", "approved", "waiting", "ready_for_pickup", "fulfilled", "expired", "cancelled"]);
 export const requestStatusEnum = pgEnum("request_status", ["pending", "approved", "rejected"]);
+export const copyStatusEnum = pgEnum("copy_status", ["available", "on_loan", "on_hold", "in_repair", "lost", "withdrawn"]);
+export const copyConditionEnum = pgEnum("copy_condition", ["new", "good", "fair", "poor", "damaged"]);
+export const blockReasonEnum = pgEnum("block_reason", ["fines", "lost_book", "manual", "disciplinary"]);
+export const calendarEventTypeEnum = pgEnum("calendar_event_type", ["holiday", "exam_period", "semester_break", "closure"]);
+export const phoneChannelEnum = pgEnum("phone_channel", ["sms", "whatsapp"]);
+export const languageEnum = pgEnum("language", ["pt", "en"]);
+export const emailStatusEnum = pgEnum("email_status", ["pending", "sending", "sent", "failed", "bounced"]);
+export const jobRunStatusEnum = pgEnum("job_run_status", ["running", "succeeded", "failed"]);
+export const jobTriggerEnum = pgEnum("job_trigger", ["schedule", "manual"]);
+export const notificationTypeEnum = pgEnum("notification_type", ["loan_confirmation", "due_soon", "overdue", "renewal_decision", "hold_ready", "hold_update", "fine_issued", "fine_dispute"]);
 
 // Users table
 export const users = pgTable("users", {
@@ -21,9 +34,32 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   userType: userTypeEnum("user_type").notNull().default("student"),
   isActive: boolean("is_active").notNull().default(true),
+  phone: text("phone"), // E.164, e.g. +244923456789
+  phoneChannel: phoneChannelEnum("phone_channel").notNull().default("sms"),
+  phoneVerifiedAt: timestamp("phone_verified_at"), // Text messages only go to verified numbers
+  language: languageEnum("language").notNull().default("pt"), // Language of the emails sent to the user
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Pending phone number confirmations: the code texted to the number, one per
+// user, replaced by a new request and removed once confirmed
+export const phoneVerifications = pgTable("phone_verifications", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  phone: text("phone").notNull(),
+  channel: phoneChannelEnum("channel").notNull(),
+  code: text("code").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Session storage table (used by connect-pg-simple)
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [index("IDX_session_expire").on(table.expire)]);
+
 // Categories table
 export const categories = pgTable("categories", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -39,6 +75,24 @@ export const authors = pgTable("authors", {
 });
 
 // Books table
+type BookSearchColumns = Record<"title" | "author" | "isbn" | "publisher" | "description", PgColumn>;
+
+// Catalogue search expressions. The books indexes are built on exactly these,
+// so queries must reuse them for the planner to use the indexes. They need
+// pg_trgm and immutable_unaccent(), which server/db-setup.ts creates before db:push.
+export function bookSearchDocument(t: BookSearchColumns): SQL {
+  return sql`(setweight(to_tsvector('portuguese', immutable_unaccent(coalesce(${t.title}, ''))), 'A')
+    || setweight(to_tsvector('portuguese', immutable_unaccent(coalesce(${t.author}, ''))), 'A')
+    || setweight(to_tsvector('simple', coalesce(${t.isbn}, '')), 'A')
+    || setweight(to_tsvector('portuguese', immutable_unaccent(coalesce(${t.publisher}, ''))), 'C')
+    || setweight(to_tsvector('portuguese', immutable_unaccent(coalesce(${t.description}, ''))), 'D'))`;
+}
+
+// Compared by trigram similarity, so misspelt titles and authors still match
+export function bookSearchKey(t: BookSearchColumns): SQL {
+  return sql`immutable_unaccent(lower(${t.title} || ' ' || ${t.author}))`;
+}
+
 export const books = pgTable("books", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   title: text("title").notNull(),
@@ -50,11 +104,28 @@ export const books = pgTable("books", {
   categoryId: varchar("category_id").references(() => categories.id),
   department: departmentEnum("department").notNull().default("outros"),
   tag: bookTagEnum("tag").notNull().default("white"),
-  totalCopies: integer("total_copies").notNull().default(1),
-  availableCopies: integer("available_copies").notNull().default(1),
+  // Derived from book_copies; only written by storage.refreshBookAvailability
+  totalCopies: integer("total_copies").notNull().default(0),
+  availableCopies: integer("available_copies").notNull().default(0),
   description: text("description"),
   coverImage: text("cover_image"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("books_search_idx").using("gin", bookSearchDocument(table)),
+  index("books_search_key_trgm_idx").using("gin", sql`${bookSearchKey(table)} gin_trgm_ops`),
+]);
+
+// Book copies table: one row per physical item on the shelf
+export const bookCopies = pgTable("book_copies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bookId: varchar("book_id").notNull().references(() => books.id),
+  barcode: text("barcode").notNull().unique(),
+  accessionNumber: text("accession_number").unique(),
+  shelfLocation: text("shelf_location"),
+  condition: copyConditionEnum("condition").notNull().default("good"),
+  status: copyStatusEnum("status").notNull().default("available"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 // Loans table
@@ -62,6 +133,7 @@ export const loans = pgTable("loans", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
   bookId: varchar("book_id").notNull().references(() => books.id),
+  copyId: varchar("copy_id").references(() => bookCopies.id), // Null for loans made before copies were tracked
   loanDate: timestamp("loan_date").notNull().defaultNow(),
   dueDate: timestamp("due_date").notNull(),
   returnDate: timestamp("return_date"),
@@ -70,11 +142,37 @@ export const loans = pgTable("loans", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-// Reservations table
+// Holds: a patron's claim on a title. A title with a copy on the shelf is
+// "requested" until staff approve it; otherwise the patron is "waiting" in the
+// queue. Approved and waiting holds get the next copy that comes free, held
+// (copy status "on_hold") while "ready_for_pickup"; the loan made at the desk
+// "fulfilled" the hold, and an unclaimed copy "expired" it (a no-show)
+export const holds = pgTable("holds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  bookId: varchar("book_id").notNull().references(() => books.id),
+  copyId: varchar("copy_id").references(() => bookCopies.id), // Copy held while ready for pickup
+  status: holdStatusEnum("status").notNull(),
+  requestDate: timestamp("request_date").notNull().defaultNow(),
+  reviewedBy: varchar("reviewed_by").references(() => users.id), // Staff who approved or refused the request
+  reviewDate: timestamp("review_date"),
+  notes: text("notes"),
+  notificationDate: timestamp("notification_date"),
+  expirationDate: timestamp("expiration_date"),
+  reminderDate: timestamp("reminder_date"), // Pickup reminder sent ahead of the expiration date
+  loanId: varchar("loan_id").references(() => loans.id), // Loan that fulfilled the hold
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("holds_user_idx").on(table.userId),
+  index("holds_book_idx").on(table.bookId),
+]);
+
+// Legacy reservations, superseded by holds. Only read by the startup migration
 export const reservations = pgTable("reservations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
   bookId: varchar("book_id").notNull().references(() => books.id),
+  copyId: varchar("copy_id").references(() => bookCopies.id), // Copy held for pickup while notified
   status: reservationStatusEnum("status").notNull().default("pending"),
   reservationDate: timestamp("reservation_date").notNull().defaultNow(),
   notificationDate: timestamp("notification_date"),
@@ -82,19 +180,78 @@ export const reservations = pgTable("reservations", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-// Fines table
+// Fines table: one account per overdue loan. amount, daysOverdue, status and
+// paymentDate summarise fine_transactions and are only written by the storage ledger methods
 export const fines = pgTable("fines", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   loanId: varchar("loan_id").notNull().references(() => loans.id),
   userId: varchar("user_id").notNull().references(() => users.id),
-  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull().default("0"),
   status: fineStatusEnum("status").notNull().default("pending"),
-  daysOverdue: integer("days_overdue").notNull(),
+  daysOverdue: integer("days_overdue").notNull().default(0),
   paymentDate: timestamp("payment_date"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-// Loan Requests table
+// Receipt numbers come from a sequence so they are sequential and stay unique
+// under concurrent payments
+export const fineReceiptNumberSeq = pgSequence("fine_receipt_number_seq", { startWith: 1 });
+
+// Fine ledger: charges are positive, payments and waivers negative. The balance
+// of a fine (or of a user) is the sum of its entries.
+export const fineTransactions = pgTable("fine_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fineId: varchar("fine_id").notNull().references(() => fines.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  type: fineTransactionTypeEnum("type").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  accrualDate: date("accrual_date"), // Day charged by an accrual; one entry per fine and day
+  reason: text("reason"),
+  recordedBy: varchar("recorded_by").references(() => users.id), // Null for the nightly job; the cashier for payments
+  // Payments only
+  paymentMethod: paymentMethodEnum("payment_method"),
+  paymentReference: text("payment_reference"), // Multicaixa reference or bank transfer id
+  receiptNumber: integer("receipt_number").unique(),
+  // Payments carried over by the ledger migration: no receipt, not in any cash close
+  isLegacy: boolean("is_legacy").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("fine_transactions_fine_day").on(table.fineId, table.accrualDate),
+  index("IDX_fine_transactions_user").on(table.userId),
+]);
+
+// Fine disputes: a patron contests a fine with a justification and an admin
+// waives all, part or none of the balance
+export const fineDisputes = pgTable("fine_disputes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fineId: varchar("fine_id").notNull().references(() => fines.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  reason: text("reason").notNull(),
+  status: requestStatusEnum("status").notNull().default("pending"),
+  waivedAmount: decimal("waived_amount", { precision: 10, scale: 2 }),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewDate: timestamp("review_date"),
+  notes: text("notes"), // Reason given by the admin for the decision
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Borrowing blocks, kept apart from users.isActive (which only disables the
+// account). Fine and lost-book blocks are opened and closed automatically;
+// manual and disciplinary ones by an admin, optionally with a set end date.
+// A block is in force from startDate until endDate (open-ended when null).
+export const userBlocks = pgTable("user_blocks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  reason: blockReasonEnum("reason").notNull(),
+  notes: text("notes"),
+  startDate: timestamp("start_date").notNull().defaultNow(),
+  endDate: timestamp("end_date"),
+  createdBy: varchar("created_by").references(() => users.id), // Null for automatic blocks
+  liftedBy: varchar("lifted_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("user_blocks_user_idx").on(table.userId)]);
+
+// Legacy loan requests, superseded by holds. Only read by the startup migration
 export const loanRequests = pgTable("loan_requests", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
@@ -130,17 +287,252 @@ export const reviews = pgTable("reviews", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Loan policies: loan period, renewals and fine rate per user type x book tag,
+// optionally narrowed to a department and/or category (most specific wins)
+export const loanPolicies = pgTable("loan_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userType: userTypeEnum("user_type").notNull(),
+  tag: bookTagEnum("tag").notNull(),
+  department: departmentEnum("department"),
+  categoryId: varchar("category_id").references(() => categories.id),
+  isLoanable: boolean("is_loanable").notNull().default(true),
+  loanDays: integer("loan_days").notNull(),
+  maxRenewals: integer("max_renewals").notNull().default(2),
+  finePerDay: decimal("fine_per_day", { precision: 10, scale: 2 }).notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Borrower policies: limits that apply to a user type regardless of the book
+export const borrowerPolicies = pgTable("borrower_policies", {
+  userType: userTypeEnum("user_type").primaryKey(),
+  maxBooks: integer("max_books").notNull(),
+  maxReservations: integer("max_reservations").notNull(),
+  maxFineAmount: decimal("max_fine_amount", { precision: 10, scale: 2 }).notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Opening hours per weekday (0 = Sunday ... 6 = Saturday)
+export const openingHours = pgTable("opening_hours", {
+  weekday: integer("weekday").primaryKey(),
+  isOpen: boolean("is_open").notNull().default(true),
+  opensAt: text("opens_at"),
+  closesAt: text("closes_at"),
+});
+
+// Academic calendar events: holidays, exam periods, semester breaks and closures
+export const calendarEvents = pgTable("calendar_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  type: calendarEventTypeEnum("type").notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+  libraryClosed: boolean("library_closed").notNull().default(true),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Notifications: every notice sent to a user, kept as the history shown in the
+// notification centre (inApp) and/or queued for the daily digest email (digest,
+// sent once digestedAt is set). Immediate emails are not recorded here.
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  type: notificationTypeEnum("type").notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  link: text("link"), // Page of the app the notice is about
+  inApp: boolean("in_app").notNull().default(true),
+  readAt: timestamp("read_at"),
+  digest: boolean("digest").notNull().default(false),
+  digestedAt: timestamp("digested_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("notifications_user_idx").on(table.userId)]);
+
+// Due-soon and overdue notices sent for a loan by the daily check, one row per
+// type and day, so a retried run does not warn the patron twice.
+export const loanNotices = pgTable("loan_notices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  loanId: varchar("loan_id").notNull().references(() => loans.id),
+  type: notificationTypeEnum("type").notNull(),
+  noticeDate: date("notice_date").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("loan_notices_loan_type_day").on(table.loanId, table.type, table.noticeDate),
+]);
+
+// Channels a user wants for each notification type. Types without a row use
+// the defaults: in-app and immediate email, no digest or text message.
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  type: notificationTypeEnum("type").notNull(),
+  inApp: boolean("in_app").notNull().default(true),
+  email: boolean("email").notNull().default(true),
+  digest: boolean("digest").notNull().default(false),
+  sms: boolean("sms").notNull().default(false), // By SMS or WhatsApp, as the user's phone channel says
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("notification_preferences_user_type").on(table.userId, table.type),
+]);
+
+// Email templates edited by admins. Templates without a row for a language
+// use the built-in text in server/email-templates.ts.
+export const emailTemplates = pgTable("email_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").notNull(),
+  language: languageEnum("language").notNull(),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(), // HTML with {{placeholders}}, placed inside the shared layout
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("email_templates_key_language").on(table.key, table.language),
+]);
+
+// Outbound emails. Senders only queue a row; the outbox worker delivers it,
+// retrying with backoff until it is sent, bounced (rejected for good by the
+// server) or failed (out of attempts). Kept as the delivery log.
+export const emailOutbox = pgTable("email_outbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  to: text("to").notNull(),
+  subject: text("subject").notNull(),
+  text: text("text").notNull(),
+  html: text("html").notNull(),
+  templateKey: text("template_key"),
+  userId: varchar("user_id").references(() => users.id),
+  status: emailStatusEnum("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lockedAt: timestamp("locked_at"), // Set while a worker is sending it
+  lastError: text("last_error"),
+  messageId: text("message_id"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [index("email_outbox_due_idx").on(table.status, table.nextAttemptAt)]);
+
+// Runs of the scheduled jobs. runKey is the period a run covers (the day, or
+// the hour for hourly jobs); the partial unique index lets only one instance
+// hold a job's period at a time and keeps a succeeded period from running
+// again, while failed runs stay as history and do not block a retry.
+export const jobRuns = pgTable("job_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  job: text("job").notNull(),
+  runKey: text("run_key").notNull(),
+  status: jobRunStatusEnum("status").notNull().default("running"),
+  trigger: jobTriggerEnum("trigger").notNull().default("schedule"),
+  triggeredBy: varchar("triggered_by").references(() => users.id),
+  result: json("result").$type<Record<string, number>>(), // Counts reported by the job
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  uniqueIndex("job_runs_job_run_key").on(table.job, table.runKey).where(sql`status <> 'failed'`),
+  index("job_runs_started_idx").on(table.job, table.startedAt),
+]);
+
+// Audit trail: one row per create, update or delete of users, books and
+// copies, loans, holds, fines and disputes, blocks and renewal requests, with
+// the fields that changed. A null actor is the system (scheduled jobs).
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorId: varchar("actor_id").references(() => users.id),
+  action: text("action").notNull(), // create, update, delete or the operation (checkout, payment...)
+  entityType: text("entity_type").notNull(),
+  entityId: varchar("entity_id").notNull(),
+  changes: json("changes").$type<Record<string, { from: unknown; to: unknown }>>().notNull(),
+  ip: text("ip"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("audit_events_entity_idx").on(table.entityType, table.entityId),
+  index("audit_events_actor_idx").on(table.actorId),
+  index("audit_events_created_idx").on(table.createdAt),
+]);
+
 // Insert schemas
-export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
+export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, phoneVerifiedAt: true });
+// Self-registration: the account starts active and its type is checked by the route
+export const registerUserSchema = insertUserSchema.omit({ isActive: true });
 export const insertCategorySchema = createInsertSchema(categories).omit({ id: true });
 export const insertAuthorSchema = createInsertSchema(authors).omit({ id: true });
-export const insertBookSchema = createInsertSchema(books).omit({ id: true, createdAt: true });
+export const insertBookSchema = createInsertSchema(books).omit({ id: true, createdAt: true, totalCopies: true, availableCopies: true });
+export const insertBookCopySchema = createInsertSchema(bookCopies, {
+  barcode: (schema) => schema.trim().min(1, "Código de barras é obrigatório"),
+}).omit({ id: true, createdAt: true });
 export const insertLoanSchema = createInsertSchema(loans).omit({ id: true, createdAt: true, loanDate: true, returnDate: true, renewalCount: true });
-export const insertReservationSchema = createInsertSchema(reservations).omit({ id: true, createdAt: true, status: true, notificationDate: true, expirationDate: true });
+export const insertHoldSchema = createInsertSchema(holds).omit({ id: true, createdAt: true, requestDate: true, copyId: true, reviewedBy: true, reviewDate: true, notificationDate: true, expirationDate: true, reminderDate: true, loanId: true });
 export const insertFineSchema = createInsertSchema(fines).omit({ id: true, createdAt: true });
-export const insertLoanRequestSchema = createInsertSchema(loanRequests).omit({ id: true, requestDate: true, createdAt: true });
+export const insertFineTransactionSchema = createInsertSchema(fineTransactions).omit({ id: true, createdAt: true, receiptNumber: true });
+export const insertFineDisputeSchema = createInsertSchema(fineDisputes, {
+  reason: (schema) => schema.trim().min(1, "Indique a justificação da contestação"),
+}).omit({ id: true, createdAt: true, status: true, waivedAmount: true, reviewedBy: true, reviewDate: true, notes: true });
+export const insertUserBlockSchema = createInsertSchema(userBlocks, {
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().nullish(),
+}).omit({ id: true, createdAt: true, liftedBy: true }).refine((block) => !block.endDate || !block.startDate || block.endDate > block.startDate, {
+  message: "A data final tem de ser posterior à data inicial",
+  path: ["endDate"],
+});
 export const insertRenewalRequestSchema = createInsertSchema(renewalRequests).omit({ id: true, requestDate: true, createdAt: true });
 export const insertReviewSchema = createInsertSchema(reviews).omit({ id: true, createdAt: true });
+export const insertOpeningHoursSchema = createInsertSchema(openingHours, {
+  weekday: (schema) => schema.int().min(0).max(6),
+  opensAt: (schema) => schema.regex(/^\d{2}:\d{2}$/, "Use o formato HH:MM"),
+  closesAt: (schema) => schema.regex(/^\d{2}:\d{2}$/, "Use o formato HH:MM"),
+});
+export const insertCalendarEventSchema = createInsertSchema(calendarEvents, {
+  startDate: (schema) => schema.regex(/^\d{4}-\d{2}-\d{2}$/, "Use o formato AAAA-MM-DD"),
+  endDate: (schema) => schema.regex(/^\d{4}-\d{2}-\d{2}$/, "Use o formato AAAA-MM-DD"),
+}).omit({ id: true, createdAt: true }).refine((event) => event.endDate >= event.startDate, {
+  message: "A data final não pode ser anterior à data inicial",
+  path: ["endDate"],
+});
+export const insertLoanPolicySchema = createInsertSchema(loanPolicies, {
+  loanDays: (schema) => schema.int().min(0),
+  maxRenewals: (schema) => schema.int().min(0),
+}).omit({ id: true, updatedAt: true });
+export const insertBorrowerPolicySchema = createInsertSchema(borrowerPolicies, {
+  maxBooks: (schema) => schema.int().min(0),
+  maxReservations: (schema) => schema.int().min(0),
+}).omit({ updatedAt: true });
+export const insertNotificationSchema = createInsertSchema(notifications).omit({ id: true, createdAt: true, readAt: true, digestedAt: true });
+export const insertPhoneVerificationSchema = createInsertSchema(phoneVerifications).omit({ createdAt: true });
+export const insertNotificationPreferenceSchema = createInsertSchema(notificationPreferences).omit({ id: true, updatedAt: true });
+export const insertEmailTemplateSchema = createInsertSchema(emailTemplates).omit({ id: true, updatedAt: true });
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({ id: true, createdAt: true });
+export const insertJobRunSchema = createInsertSchema(jobRuns).pick({ job: true, runKey: true, trigger: true, triggeredBy: true });
+export const insertOutboxEmailSchema = createInsertSchema(emailOutbox).pick({ to: true, subject: true, text: true, html: true, templateKey: true, userId: true });
+
+// One spreadsheet row of a catalogue import, every cell as text. Authors and
+// categories go by name; tags and departments also by their Portuguese names.
+const importCell = (value: unknown) => typeof value === "string" ? value.trim() || undefined : value ?? undefined;
+const importNames: Record<string, string> = {
+  branca: "white", amarela: "yellow", vermelha: "red",
+  "ciencias sociais": "ciencias-sociais",
+};
+const importEnum = (value: unknown) => {
+  const cell = importCell(value);
+  if (typeof cell !== "string") return cell;
+  const folded = cell.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+  return importNames[folded] ?? folded;
+};
+const importNumber = (message: string) => z.coerce.number({ errorMap: () => ({ message }) }).int();
+export const bookImportRowSchema = z.object({
+  title: z.preprocess(importCell, z.string({ required_error: "Título em falta" })),
+  author: z.preprocess(importCell, z.string({ required_error: "Autor em falta" })),
+  isbn: z.preprocess(importCell, z.coerce.string().optional()),
+  publisher: z.preprocess(importCell, z.coerce.string().optional()),
+  yearPublished: z.preprocess(importCell, importNumber("Ano de publicação inválido").min(1000).max(2100).optional()),
+  category: z.preprocess(importCell, z.coerce.string().optional()),
+  department: z.preprocess(importEnum, z.enum(departmentEnum.enumValues, {
+    errorMap: () => ({ message: "Departamento inválido: use engenharia, ciências sociais ou outros" }),
+  }).optional()),
+  tag: z.preprocess(importEnum, z.enum(bookTagEnum.enumValues, {
+    errorMap: () => ({ message: "Etiqueta inválida: use branca, amarela ou vermelha" }),
+  }).optional()),
+  totalCopies: z.preprocess(importCell, importNumber("Número de exemplares inválido: de 1 a 100").min(1).max(100).default(1)),
+  description: z.preprocess(importCell, z.coerce.string().optional()),
+});
 
 // Types
 export type User = typeof users.$inferSelect;
@@ -154,21 +546,89 @@ export type InsertAuthor = z.infer<typeof insertAuthorSchema>;
 
 export type Book = typeof books.$inferSelect;
 export type InsertBook = z.infer<typeof insertBookSchema>;
+export type BookImportRow = z.infer<typeof bookImportRowSchema>;
+// Catalogue orderings; relevance only applies to searches, others fall back to title
+export const catalogueSorts = ["relevance", "title", "author", "year", "newest"] as const;
+export type CatalogueSort = typeof catalogueSorts[number];
+
+// Lower-case, unaccented words of a catalogue search, punctuation dropped:
+// "Programação, C++!" -> ["programacao", "c"]
+export function catalogueSearchTerms(search: string | undefined): string[] {
+  return (search ?? "")
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+export type BookCopy = typeof bookCopies.$inferSelect;
+export type InsertBookCopy = z.infer<typeof insertBookCopySchema>;
 
 export type Loan = typeof loans.$inferSelect;
 export type InsertLoan = z.infer<typeof insertLoanSchema>;
 
+export type Hold = typeof holds.$inferSelect;
+export type InsertHold = z.infer<typeof insertHoldSchema>;
+// Holds still claiming a copy or a place in the queue
+export const openHoldStatuses: Hold["status"][] = ["requested", "approved", "waiting", "ready_for_pickup"];
+
 export type Reservation = typeof reservations.$inferSelect;
-export type InsertReservation = z.infer<typeof insertReservationSchema>;
 
 export type Fine = typeof fines.$inferSelect;
 export type InsertFine = z.infer<typeof insertFineSchema>;
 
+export type FineTransaction = typeof fineTransactions.$inferSelect;
+export type InsertFineTransaction = z.infer<typeof insertFineTransactionSchema>;
+
+export type FineDispute = typeof fineDisputes.$inferSelect;
+export type InsertFineDispute = z.infer<typeof insertFineDisputeSchema>;
+
+export type UserBlock = typeof userBlocks.$inferSelect;
+export type InsertUserBlock = z.infer<typeof insertUserBlockSchema>;
+
 export type LoanRequest = typeof loanRequests.$inferSelect;
-export type InsertLoanRequest = z.infer<typeof insertLoanRequestSchema>;
 
 export type RenewalRequest = typeof renewalRequests.$inferSelect;
 export type InsertRenewalRequest = z.infer<typeof insertRenewalRequestSchema>;
 
 export type Review = typeof reviews.$inferSelect;
 export type InsertReview = z.infer<typeof insertReviewSchema>;
+
+export type LoanPolicy = typeof loanPolicies.$inferSelect;
+export type InsertLoanPolicy = z.infer<typeof insertLoanPolicySchema>;
+
+export type BorrowerPolicy = typeof borrowerPolicies.$inferSelect;
+export type InsertBorrowerPolicy = z.infer<typeof insertBorrowerPolicySchema>;
+
+export type OpeningHours = typeof openingHours.$inferSelect;
+export type InsertOpeningHours = z.infer<typeof insertOpeningHoursSchema>;
+
+export type CalendarEvent = typeof calendarEvents.$inferSelect;
+export type InsertCalendarEvent = z.infer<typeof insertCalendarEventSchema>;
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationType = Notification["type"];
+
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+export type InsertNotificationPreference = z.infer<typeof insertNotificationPreferenceSchema>;
+
+export type LoanNotice = typeof loanNotices.$inferSelect;
+
+export type PhoneVerification = typeof phoneVerifications.$inferSelect;
+export type InsertPhoneVerification = z.infer<typeof insertPhoneVerificationSchema>;
+
+export type EmailTemplate = typeof emailTemplates.$inferSelect;
+export type InsertEmailTemplate = z.infer<typeof insertEmailTemplateSchema>;
+
+export type OutboxEmail = typeof emailOutbox.$inferSelect;
+export type InsertOutboxEmail = z.infer<typeof insertOutboxEmailSchema>;
+
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = z.infer<typeof insertJobRunSchema>;
+// Error recorded on runs found still running after the job timeout
+export const STALE_JOB_RUN_ERROR = "Interrompida: o servidor parou durante a execução";
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;